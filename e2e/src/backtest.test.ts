@@ -3,7 +3,7 @@ import { describe, expect, it } from '@jest/globals'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
 import fs from 'fs'
 import path from 'path'
-import { getMCPClient } from './utils'
+import { callConfirmedTool, getMCPClient } from './utils'
 
 describe('backtest', () => {
   let client: Client
@@ -28,7 +28,7 @@ describe('backtest', () => {
   afterAll(async () => {
     if (client) {
       if (projectId) {
-        await client.callTool({
+        await callConfirmedTool(client, {
           name: 'delete_project',
           arguments: {
             projectId: projectId,
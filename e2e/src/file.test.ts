@@ -1,7 +1,7 @@
 import { createFileResponse, createProjectResponse, readFileResponse, updateFileResponse } from '@fschaeffler/quant-connect-types'
 import { describe, expect, it } from '@jest/globals'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
-import { getMCPClient } from './utils'
+import { callConfirmedTool, getMCPClient } from './utils'
 
 describe('file', () => {
   let client: Client
@@ -26,7 +26,7 @@ describe('file', () => {
   afterAll(async () => {
     if (client) {
       if (projectId) {
-        await client.callTool({
+        await callConfirmedTool(client, {
           name: 'delete_project',
           arguments: {
             projectId: projectId,
@@ -1,7 +1,7 @@
 import { createProjectResponse, deleteProjectResponse, readProjectResponse, updateProjectResponse } from '@fschaeffler/quant-connect-types'
 import { describe, expect, it } from '@jest/globals'
 import { Client } from '@modelcontextprotocol/sdk/client/index.js'
-import { getMCPClient } from './utils'
+import { callConfirmedTool, getMCPClient } from './utils'
 
 describe('project', () => {
   let client: Client
@@ -14,7 +14,7 @@ describe('project', () => {
   afterAll(async () => {
     if (client) {
       if (projectId) {
-        await client.callTool({
+        await callConfirmedTool(client, {
           name: 'delete_project',
           arguments: {
             projectId: projectId,
@@ -89,7 +89,7 @@ describe('project', () => {
   })
 
   it('should delete the created project', async () => {
-    const response = await client.callTool({
+    const response = await callConfirmedTool(client, {
       name: 'delete_project',
       arguments: {
         projectId,
@@ -51,3 +51,13 @@ export const getMCPClient = async (): Promise<Client> => {
 
   return client
 }
+
+/** Calls a tool that requires confirmation, confirming its preview with the returned token */
+export const callConfirmedTool = async (client: Client, params: { name: string; arguments: Record<string, unknown> }) => {
+  const preview = await client.callTool(params)
+  const { confirmationToken } = preview._meta?.confirmation as { confirmationToken: string }
+
+  expect(confirmationToken).toBeDefined()
+
+  return client.callTool({ ...params, arguments: { ...params.arguments, confirmationToken } })
+}
@@ -1,6 +1,7 @@
 import { Duration, RemovalPolicy, Size, Stack, StackProps } from 'aws-cdk-lib'
-import { LambdaIntegration, MockIntegration, PassthroughBehavior, Resource, RestApi, UsagePlan } from 'aws-cdk-lib/aws-apigateway'
+import { CfnMethod, LambdaIntegration, Method, MockIntegration, PassthroughBehavior, Resource, RestApi, UsagePlan } from 'aws-cdk-lib/aws-apigateway'
 import { ApiKey, HttpMethod } from 'aws-cdk-lib/aws-apigatewayv2'
+import { AttributeType, BillingMode, Table } from 'aws-cdk-lib/aws-dynamodb'
 import { ServicePrincipal } from 'aws-cdk-lib/aws-iam'
 import { Runtime } from 'aws-cdk-lib/aws-lambda'
 import { NodejsFunction } from 'aws-cdk-lib/aws-lambda-nodejs'
@@ -11,10 +12,13 @@ import path from 'path'
 
 export class QuantConnectMCPStack extends Stack {
   private static readonly NPM_ROOT = path.join(path.dirname(__filename), '..', '..')
+  // streamed responses may stay open longer than the 29 seconds of buffered responses
+  private static readonly STREAMING_TIMEOUT = Duration.minutes(5)
   private readonly restAPI: RestApi
   private readonly handler: NodejsFunction
   private readonly mcpResource: Resource
   private readonly restAPIUsagePlan: UsagePlan
+  private readonly sessionTable: Table
 
   constructor(scope: Construct, id: string, props?: StackProps) {
     super(scope, id, props)
@@ -43,13 +47,25 @@ export class QuantConnectMCPStack extends Stack {
 
     this.mcpResource = this.restAPI.root.addResource('mcp')
 
+    // MCP sessions outlive Lambda containers, expired sessions are removed by the TTL
+    this.sessionTable = new Table(this, 'qc-mcp-session-table', {
+      tableName: 'qc-mcp-sessions',
+      partitionKey: { name: 'sessionId', type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      timeToLiveAttribute: 'expiresAt',
+      removalPolicy: RemovalPolicy.DESTROY,
+    })
+
     this.handler = new NodejsFunction(this, 'qc-mcp-lambda-handler', {
       entry: path.join(QuantConnectMCPStack.NPM_ROOT, 'services', 'quant-connect', 'src', 'index.ts'),
       handler: 'handler',
       functionName: 'qc-mcp-lambda-handler',
       memorySize: 1024,
       runtime: Runtime.NODEJS_22_X,
-      timeout: Duration.seconds(30),
+      timeout: QuantConnectMCPStack.STREAMING_TIMEOUT,
+      environment: {
+        MCP_SESSION_TABLE_NAME: this.sessionTable.tableName,
+      },
       bundling: {
         minify: true,
         tsconfig: path.join(QuantConnectMCPStack.NPM_ROOT, 'services', 'quant-connect', 'tsconfig.json'),
@@ -70,45 +86,19 @@ export class QuantConnectMCPStack extends Stack {
       secret.grantRead(this.handler)
     })
 
+    this.sessionTable.grantReadWriteData(this.handler)
+
     this.handler.addPermission('qc-mcp-api-gateway-integration', {
       principal: new ServicePrincipal('apigateway.amazonaws.com'),
     })
 
-    this.mcpResource.addMethod(HttpMethod.POST, new LambdaIntegration(this.handler), {
-      apiKeyRequired: true,
-    })
+    const mcpIntegration = new LambdaIntegration(this.handler, { timeout: QuantConnectMCPStack.STREAMING_TIMEOUT })
 
-    this.mcpResource.addMethod(
-      HttpMethod.GET,
-      new MockIntegration({
-        integrationResponses: [
-          {
-            statusCode: '405',
-            responseParameters: {
-              'method.response.header.Allow': "'POST, OPTIONS'",
-              'method.response.header.Content-Type': "'application/json'",
-            },
-            responseTemplates: {
-              'application/json': '{"message": "SSE streaming is not supported. Use POST /mcp for JSON-RPC requests."}',
-              'text/plain': 'SSE streaming is not supported. Use POST /mcp for JSON-RPC requests.',
-            },
-          },
-        ],
-        passthroughBehavior: PassthroughBehavior.NEVER,
-      }),
-      {
-        methodResponses: [
-          {
-            statusCode: '405',
-            responseParameters: {
-              'method.response.header.Allow': true,
-              'method.response.header.Content-Type': true,
-            },
-          },
-        ],
-        apiKeyRequired: true,
-      }
-    )
+    this.enableResponseStreaming(this.mcpResource.addMethod(HttpMethod.POST, mcpIntegration, { apiKeyRequired: true }))
+    // server-initiated messages are streamed to GET requests
+    this.enableResponseStreaming(this.mcpResource.addMethod(HttpMethod.GET, mcpIntegration, { apiKeyRequired: true }))
+    // terminates MCP sessions, the handler answers all methods with streamed responses
+    this.enableResponseStreaming(this.mcpResource.addMethod(HttpMethod.DELETE, mcpIntegration, { apiKeyRequired: true }))
 
     this.mcpResource.addMethod(
       HttpMethod.OPTIONS,
@@ -119,7 +109,8 @@ export class QuantConnectMCPStack extends Stack {
             responseParameters: {
               'method.response.header.Access-Control-Allow-Origin': "'*'",
               'method.response.header.Access-Control-Allow-Headers': "'*'",
-              'method.response.header.Access-Control-Allow-Methods': "'POST, GET, OPTIONS'",
+              'method.response.header.Access-Control-Allow-Methods': "'POST, GET, DELETE, OPTIONS'",
+              'method.response.header.Access-Control-Expose-Headers': "'Mcp-Session-Id'",
             },
           },
         ],
@@ -137,10 +128,22 @@ export class QuantConnectMCPStack extends Stack {
               'method.response.header.Access-Control-Allow-Origin': true,
               'method.response.header.Access-Control-Allow-Headers': true,
               'method.response.header.Access-Control-Allow-Methods': true,
+              'method.response.header.Access-Control-Expose-Headers': true,
             },
           },
         ],
       }
     )
   }
+
+  /** Stream the Lambda response to the client, which the L2 constructs don't support yet */
+  private enableResponseStreaming(method: Method) {
+    const cfnMethod = method.node.defaultChild as CfnMethod
+
+    cfnMethod.addPropertyOverride('Integration.ResponseTransferMode', 'STREAM')
+    cfnMethod.addPropertyOverride(
+      'Integration.Uri',
+      `arn:${this.partition}:apigateway:${this.region}:lambda:path/2021-11-15/functions/${this.handler.functionArn}/response-streaming-invocations`
+    )
+  }
 }
@@ -0,0 +1,133 @@
+import type { DynamoDB } from '@aws-sdk/client-dynamodb'
+import { DynamoDBMCPSessionStore, getEnvironmentMCPSessionStore } from './dynamodb-session-store'
+import { InMemoryMCPSessionStore, type MCPSession } from './session-store'
+
+describe('libs/middy/src/mcp/dynamodb-session-store', () => {
+  const session: MCPSession = {
+    sessionId: 'session-1',
+    protocolVersion: '2025-06-18',
+    clientCapabilities: { roots: {} },
+    createdAt: 1640995200000,
+    expiresAt: 4102444800500,
+  }
+
+  const createClient = () =>
+    ({
+      getItem: jest.fn().mockResolvedValue({}),
+      putItem: jest.fn().mockResolvedValue({}),
+      deleteItem: jest.fn().mockResolvedValue({}),
+      updateItem: jest.fn().mockResolvedValue({}),
+    }) as unknown as jest.Mocked<DynamoDB>
+
+  it('should put sessions with their expiry in seconds', async () => {
+    const client = createClient()
+
+    await new DynamoDBMCPSessionStore({ tableName: 'sessions', client }).set(session)
+
+    expect(client.putItem).toHaveBeenCalledWith({
+      TableName: 'sessions',
+      Item: { sessionId: { S: 'session-1' }, session: { S: JSON.stringify(session) }, expiresAt: { N: '4102444801' } },
+    })
+  })
+
+  it('should get sessions with consistent reads', async () => {
+    const client = createClient()
+    client.getItem.mockResolvedValue({ Item: { sessionId: { S: 'session-1' }, session: { S: JSON.stringify(session) } } } as never)
+
+    expect(await new DynamoDBMCPSessionStore({ tableName: 'sessions', client }).get('session-1')).toEqual(session)
+    expect(client.getItem).toHaveBeenCalledWith({ TableName: 'sessions', Key: { sessionId: { S: 'session-1' } }, ConsistentRead: true })
+  })
+
+  it('should not return missing or expired sessions', async () => {
+    const client = createClient()
+    const store = new DynamoDBMCPSessionStore({ tableName: 'sessions', client })
+
+    expect(await store.get('session-1')).toBeUndefined()
+
+    client.getItem.mockResolvedValue({ Item: { session: { S: JSON.stringify({ ...session, expiresAt: Date.now() - 1 }) } } } as never)
+
+    expect(await store.get('session-1')).toBeUndefined()
+  })
+
+  it('should delete sessions', async () => {
+    const client = createClient()
+
+    await new DynamoDBMCPSessionStore({ tableName: 'sessions', client }).delete('session-1')
+
+    expect(client.deleteItem).toHaveBeenCalledWith({ TableName: 'sessions', Key: { sessionId: { S: 'session-1' } } })
+  })
+
+  describe('resource subscriptions', () => {
+    it('should read the subscriptions of the session', async () => {
+      const client = createClient()
+      const store = new DynamoDBMCPSessionStore({ tableName: 'sessions', client })
+
+      expect(await store.getResourceSubscriptions('session-1')).toEqual([])
+
+      client.getItem.mockResolvedValue({ Item: { resourceSubscriptions: { SS: ['qc://projects/1/files/main.py'] } } } as never)
+
+      expect(await store.getResourceSubscriptions('session-1')).toEqual(['qc://projects/1/files/main.py'])
+      expect(client.getItem).toHaveBeenCalledWith({
+        TableName: 'sessions',
+        Key: { sessionId: { S: 'session-1' } },
+        ConsistentRead: true,
+        ProjectionExpression: 'resourceSubscriptions',
+      })
+    })
+
+    it('should add and delete subscriptions in the string set of an existing session', async () => {
+      const client = createClient()
+      const store = new DynamoDBMCPSessionStore({ tableName: 'sessions', client })
+
+      await store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')
+      await store.deleteResourceSubscription('session-1', 'qc://projects/1/files/main.py')
+
+      const update = {
+        TableName: 'sessions',
+        Key: { sessionId: { S: 'session-1' } },
+        ConditionExpression: 'attribute_exists(sessionId)',
+        ExpressionAttributeValues: { ':uris': { SS: ['qc://projects/1/files/main.py'] } },
+      }
+      expect(client.updateItem).toHaveBeenNthCalledWith(1, { ...update, UpdateExpression: 'ADD resourceSubscriptions :uris' })
+      expect(client.updateItem).toHaveBeenNthCalledWith(2, { ...update, UpdateExpression: 'DELETE resourceSubscriptions :uris' })
+    })
+
+    it('should reject subscribing sessions that do not exist', async () => {
+      const client = createClient()
+      const store = new DynamoDBMCPSessionStore({ tableName: 'sessions', client })
+
+      client.updateItem.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }) as never)
+      await expect(store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Session session-1 not found')
+
+      client.updateItem.mockRejectedValueOnce(new Error('Throttled') as never)
+      await expect(store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Throttled')
+    })
+
+    it('should ignore unsubscribing deleted sessions', async () => {
+      const client = createClient()
+      const store = new DynamoDBMCPSessionStore({ tableName: 'sessions', client })
+
+      client.updateItem.mockRejectedValueOnce(Object.assign(new Error('The conditional request failed'), { name: 'ConditionalCheckFailedException' }) as never)
+      await expect(store.deleteResourceSubscription('session-1', 'qc://projects/1/files/main.py')).resolves.toBeUndefined()
+
+      client.updateItem.mockRejectedValueOnce(new Error('Throttled') as never)
+      await expect(store.deleteResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Throttled')
+    })
+  })
+
+  describe('getEnvironmentMCPSessionStore', () => {
+    afterEach(() => {
+      delete process.env.MCP_SESSION_TABLE_NAME
+    })
+
+    it('should use DynamoDB if a table is configured', () => {
+      process.env.MCP_SESSION_TABLE_NAME = 'sessions'
+
+      expect(getEnvironmentMCPSessionStore()).toBeInstanceOf(DynamoDBMCPSessionStore)
+    })
+
+    it('should fall back to in-memory sessions', () => {
+      expect(getEnvironmentMCPSessionStore()).toBeInstanceOf(InMemoryMCPSessionStore)
+    })
+  })
+})
@@ -0,0 +1,94 @@
+import { DynamoDB } from '@aws-sdk/client-dynamodb'
+import { createSessionNotFoundError, InMemoryMCPSessionStore, isSessionExpired, type MCPSession, type MCPSessionStore } from './session-store'
+
+export interface DynamoDBMCPSessionStoreOptions {
+  /** Table with the string partition key `sessionId`, `expiresAt` can be used as its TTL attribute */
+  tableName: string
+  client?: DynamoDB
+}
+
+/** Shares the sessions between Lambda containers */
+export class DynamoDBMCPSessionStore implements MCPSessionStore {
+  private readonly tableName: string
+  private readonly client: DynamoDB
+
+  constructor({ tableName, client = new DynamoDB() }: DynamoDBMCPSessionStoreOptions) {
+    this.tableName = tableName
+    this.client = client
+  }
+
+  public get = async (sessionId: string) => {
+    const { Item } = await this.client.getItem({ TableName: this.tableName, Key: { sessionId: { S: sessionId } }, ConsistentRead: true })
+
+    if (!Item?.session?.S) {
+      return
+    }
+
+    const session = JSON.parse(Item.session.S) as MCPSession
+
+    // DynamoDB deletes expired items only eventually
+    return isSessionExpired(session) ? undefined : session
+  }
+
+  public set = async (session: MCPSession) => {
+    await this.client.putItem({
+      TableName: this.tableName,
+      Item: {
+        sessionId: { S: session.sessionId },
+        session: { S: JSON.stringify(session) },
+        // TTL attributes are in seconds
+        expiresAt: { N: String(Math.ceil(session.expiresAt / 1000)) },
+      },
+    })
+  }
+
+  public delete = async (sessionId: string) => {
+    await this.client.deleteItem({ TableName: this.tableName, Key: { sessionId: { S: sessionId } } })
+  }
+
+  public getResourceSubscriptions = async (sessionId: string) => {
+    const { Item } = await this.client.getItem({
+      TableName: this.tableName,
+      Key: { sessionId: { S: sessionId } },
+      ConsistentRead: true,
+      ProjectionExpression: 'resourceSubscriptions',
+    })
+
+    return Item?.resourceSubscriptions?.SS ?? []
+  }
+
+  public addResourceSubscription = async (sessionId: string, uri: string) => {
+    try {
+      await this.updateResourceSubscriptions(sessionId, 'ADD', uri)
+    } catch (error) {
+      throw (error as Error).name === 'ConditionalCheckFailedException' ? createSessionNotFoundError(sessionId) : error
+    }
+  }
+
+  public deleteResourceSubscription = async (sessionId: string, uri: string) => {
+    try {
+      await this.updateResourceSubscriptions(sessionId, 'DELETE', uri)
+    } catch (error) {
+      // the subscriptions of a deleted session are gone anyway
+      if ((error as Error).name !== 'ConditionalCheckFailedException') {
+        throw error
+      }
+    }
+  }
+
+  /** The string set is updated in place, so concurrent requests of the session don't overwrite each other's subscriptions */
+  private updateResourceSubscriptions = async (sessionId: string, action: 'ADD' | 'DELETE', uri: string) => {
+    await this.client.updateItem({
+      TableName: this.tableName,
+      Key: { sessionId: { S: sessionId } },
+      UpdateExpression: `${action} resourceSubscriptions :uris`,
+      // updates would otherwise create an item without the session
+      ConditionExpression: 'attribute_exists(sessionId)',
+      ExpressionAttributeValues: { ':uris': { SS: [uri] } },
+    })
+  }
+}
+
+/** DynamoDB sessions if `MCP_SESSION_TABLE_NAME` is set, otherwise in-memory sessions */
+export const getEnvironmentMCPSessionStore = (): MCPSessionStore =>
+  process.env.MCP_SESSION_TABLE_NAME ? new DynamoDBMCPSessionStore({ tableName: process.env.MCP_SESSION_TABLE_NAME }) : new InMemoryMCPSessionStore()
@@ -1,23 +1,46 @@
-import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
-import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { CancelledNotification, JSONRPCMessage, MessageExtraInfo, RequestId } from '@modelcontextprotocol/sdk/types.js'
 
-const isRequestMessage = (message: JSONRPCMessage): message is JSONRPCMessage & { id: number } => 'method' in message && 'id' in message
+export type JSONRPCMessageListener = (message: JSONRPCMessage) => void
+
+const isRequestMessage = (message: JSONRPCMessage): message is JSONRPCMessage & { id: number; method: string } => 'method' in message && 'id' in message
 
 const isNotificationMessage = (message: JSONRPCMessage): message is JSONRPCMessage & { method: string } => 'method' in message && !('id' in message)
 
-const isResponseMessage = (message: JSONRPCMessage): message is JSONRPCMessage & { id: number } => 'id' in message
+const isCancelledNotification = (message: JSONRPCMessage): message is JSONRPCMessage & CancelledNotification =>
+  isNotificationMessage(message) && message.method === 'notifications/cancelled'
+
+const isResponseMessage = (message: JSONRPCMessage): message is JSONRPCMessage & { id: number } => 'id' in message && !('method' in message)
+
+export interface HttpServerTransportOptions {
+  /** All HTTP requests reach this process, so the client can answer the requests of the server, e.g. elicitations, with a later HTTP request */
+  singleProcess?: boolean
+  /** Session of all messages of the transport, each session has its own server and transport */
+  sessionId?: string
+}
 
 export class HttpServerTransport implements Transport {
   private _started = false
+  private _singleProcess: boolean
   private _pendingRequests = new Map<
     number,
     {
-      resolve: (message: JSONRPCMessage) => void
+      // cancelled requests are resolved without a response
+      resolve: (message?: JSONRPCMessage) => void
       reject: (error: Error) => void
+      onmessage?: JSONRPCMessageListener
     }
   >()
+  private _standaloneStreamListeners = new Set<JSONRPCMessageListener>()
 
-  public onmessage?: (message: JSONRPCMessage) => void
+  public onmessage?: (message: JSONRPCMessage, extra?: MessageExtraInfo) => void
+  /** Passed to the request handlers as `extra.sessionId` */
+  public readonly sessionId?: string
+
+  constructor({ singleProcess = false, sessionId }: HttpServerTransportOptions = {}) {
+    this._singleProcess = singleProcess
+    this.sessionId = sessionId
+  }
 
   public start = async () => {
     if (this._started) {
@@ -26,33 +49,86 @@ export class HttpServerTransport implements Transport {
     this._started = true
   }
 
-  public send = async (message: JSONRPCMessage) => {
+  public send = async (message: JSONRPCMessage, options?: TransportSendOptions) => {
     if (isResponseMessage(message)) {
       const pendingRequest = this._pendingRequests.get(message.id)
       if (pendingRequest !== undefined) {
+        pendingRequest.onmessage?.(message)
         pendingRequest.resolve(message)
         this._pendingRequests.delete(message.id)
       }
+      return
+    }
+
+    // fail right away instead of waiting for an answer that would reach another process or could not be sent at all
+    if (isRequestMessage(message) && !this._canSendRequest(options?.relatedRequestId)) {
+      throw new Error(`The client can not answer ${message.method}, its response would not reach this server`)
+    }
+
+    // messages of a request can only be delivered while its response is streamed
+    if (options?.relatedRequestId !== undefined) {
+      this._pendingRequests.get(options.relatedRequestId as number)?.onmessage?.(message)
+      return
+    }
+
+    this._standaloneStreamListeners.forEach((listener) => listener(message))
+  }
+
+  private _canSendRequest = (relatedRequestId?: RequestId) =>
+    this._singleProcess &&
+    (relatedRequestId !== undefined ? this._pendingRequests.get(relatedRequestId as number)?.onmessage !== undefined : this._standaloneStreamListeners.size > 0)
+
+  /** Receive the messages that the server sends on its own, e.g. list changed notifications, until the returned function is called */
+  public openStandaloneStream = (listener: JSONRPCMessageListener): (() => void) => {
+    this._standaloneStreamListeners.add(listener)
+
+    return () => {
+      this._standaloneStreamListeners.delete(listener)
     }
   }
 
   // eslint-disable-next-line @typescript-eslint/no-empty-function
   public close = async () => {}
 
-  private _startFreshSession = () => {
-    this._pendingRequests.clear()
+  /** The server stops handling cancelled requests without sending a response, so they are settled here */
+  private _settleCancelledRequests = (jsonRPCMessages: JSONRPCMessage[]) => {
+    jsonRPCMessages.filter(isCancelledNotification).forEach(({ params: { requestId } }) => {
+      this._pendingRequests.get(requestId as number)?.resolve()
+      this._pendingRequests.delete(requestId as number)
+    })
   }
 
-  public handleJSONRPCMessages = async (jsonRPCMessages: JSONRPCMessage[]): Promise<JSONRPCMessage[] | JSONRPCMessage | undefined> => {
-    this._startFreshSession()
+  /** Cancel requests whose responses can't be delivered anymore, e.g. because the client closed the stream */
+  public cancelRequests = async (requestIds: RequestId[], reason: string) => {
+    await this.handleJSONRPCMessages(requestIds.map((requestId) => ({ jsonrpc: '2.0', method: 'notifications/cancelled', params: { requestId, reason } })))
+  }
 
-    jsonRPCMessages.map((message) => {
-      this.onmessage?.(message)
-    })
+  /**
+   * Without `onmessage`, only the responses are returned. With it, the responses and the messages related to the requests are passed on as they are sent.
+   * `extra` reaches the request handlers, e.g. the headers of the HTTP request as `extra.requestInfo`.
+   */
+  public handleJSONRPCMessages = async (
+    jsonRPCMessages: JSONRPCMessage[],
+    onmessage?: JSONRPCMessageListener,
+    extra?: MessageExtraInfo
+  ): Promise<JSONRPCMessage[] | JSONRPCMessage | undefined> => {
+    this._settleCancelledRequests(jsonRPCMessages)
 
     const requestMessages = jsonRPCMessages.filter(isRequestMessage)
     const notificationMessages = jsonRPCMessages.filter(isNotificationMessage)
 
+    // Create promises for each request before the messages are handled, so no message sent during the handling gets lost
+    const responsePromises = requestMessages.map(
+      (requestMessage) =>
+        new Promise<JSONRPCMessage | undefined>((resolve, reject) => {
+          this._pendingRequests.set(requestMessage.id, { resolve, reject, onmessage })
+        })
+    )
+
+    jsonRPCMessages.map((message) => {
+      this.onmessage?.(message, extra)
+    })
+
     // Handle notifications - they don't need responses but should be acknowledged
     if (notificationMessages.length > 0 && requestMessages.length === 0) {
       // Only notifications, no requests - return empty array to indicate successful processing
@@ -63,15 +139,12 @@ export class HttpServerTransport implements Transport {
       return
     }
 
-    // Create promises for each request and collect their responses
-    const responseMessages = await Promise.all(
-      requestMessages.map(
-        (requestMessage) =>
-          new Promise<JSONRPCMessage>((resolve, reject) => {
-            this._pendingRequests.set(requestMessage.id, { resolve, reject })
-          })
-      )
-    )
+    // Collect the responses of all requests that were not cancelled
+    const responseMessages = (await Promise.all(responsePromises)).filter((responseMessage) => responseMessage !== undefined)
+
+    if (responseMessages.length === 0) {
+      return []
+    }
 
     return responseMessages.length > 1 ? responseMessages : responseMessages[0]
   }
@@ -1 +1,4 @@
+export * from './dynamodb-session-store'
+export * from './http-server-transport'
 export * from './mcp'
+export * from './session-store'
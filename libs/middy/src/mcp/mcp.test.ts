@@ -1,16 +1,26 @@
 /* eslint-disable max-lines-per-function */
+import { QCClient } from '@fschaeffler/quant-connect-client'
 import type middy from '@middy/core'
-import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { JSONRPCError, JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
 import type { Context } from 'aws-lambda'
 import createHttpError from 'http-errors'
-import type { RequestEvent, ResponseEvent } from '../types'
+import type { Readable } from 'stream'
+import type { RequestEvent, ResponseEvent, StreamingResponseEvent } from '../types'
 import { HttpServerTransport } from './http-server-transport'
-import { middyMCP } from './mcp'
+import { MCP_SESSION_ID_HEADER, middyMCP } from './mcp'
+import { InMemoryMCPSessionStore, type MCPSession } from './session-store'
 
 // Define the extended context type
 type RequestContext = Context & {
   jsonRPCMessages: JSONRPCMessage[]
+  qcClient?: QCClient
+  acceptsEventStream?: boolean
+  isStandaloneStreamRequest?: boolean
+  jsonRPCErrors?: (Omit<JSONRPCError, 'id'> & { id: string | number | null })[]
+  isBatch?: boolean
+  mcpSession?: MCPSession
+  isSessionTermination?: boolean
 }
 
 // Mock dependencies
@@ -61,6 +71,8 @@ describe('libs/middy/src/mcp/mcp', () => {
     internal: {},
   })
 
+  const getErrorResponse = () => JSON.parse(mockedCreateHttpError.mock.calls[mockedCreateHttpError.mock.calls.length - 1][1] as string)
+
   beforeEach(() => {
     jest.clearAllMocks()
 
@@ -74,6 +86,8 @@ describe('libs/middy/src/mcp/mcp', () => {
       send: jest.fn(),
       close: jest.fn(),
       handleJSONRPCMessages: jest.fn().mockResolvedValue(undefined),
+      openStandaloneStream: jest.fn().mockReturnValue(jest.fn()),
+      cancelRequests: jest.fn().mockResolvedValue(undefined),
       onmessage: undefined,
     } as any
 
@@ -85,6 +99,7 @@ describe('libs/middy/src/mcp/mcp', () => {
       close: jest.fn(),
       request: jest.fn(),
       notification: jest.fn(),
+      server: {},
     } as any
 
     // Setup http-errors mock
@@ -116,9 +131,29 @@ describe('libs/middy/src/mcp/mcp', () => {
       expect(MockedHttpServerTransport).toHaveBeenCalledTimes(1)
     })
 
+    it('should only let the transport send requests to the client in a single process', () => {
+      middyMCP({ server: mockServer, singleProcess: true })
+
+      expect(MockedHttpServerTransport.mock.calls).toEqual([[{ singleProcess: false }], [{ singleProcess: true }]])
+    })
+
     it('should connect server to transport', () => {
       expect(mockServer.connect).toHaveBeenCalledWith(mockTransport)
     })
+
+    it('should create one server for the requests without a session', async () => {
+      const createServer = jest.fn(() => mockServer)
+      middleware = middyMCP({ server: createServer })
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      for (const request of [createMockRequest(), createMockRequest()]) {
+        await middleware.before!(request)
+        await middleware.after!(request)
+      }
+
+      expect(createServer).toHaveBeenCalledTimes(1)
+      expect(mockServer.connect).toHaveBeenCalledTimes(2)
+    })
   })
 
   describe('before hook - header validation', () => {
@@ -213,42 +248,124 @@ describe('libs/middy/src/mcp/mcp', () => {
       const request = createMockRequest('invalid json {')
 
       await expect(middleware.before!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('Unprocessable Entity'))
+      expect(getErrorResponse()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32700, message: expect.stringContaining('Parse error') } })
     })
 
     it('should reject empty body', async () => {
       const request = createMockRequest('')
 
       await expect(middleware.before!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('Unprocessable Entity'))
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('"code":-32700'))
     })
 
     it('should reject invalid JSON-RPC schema', async () => {
-      const invalidMessage = { id: 1, method: 'test' } // Missing jsonrpc
+      const invalidMessage = { id: 7, method: 'test' } // Missing jsonrpc
       const request = createMockRequest(JSON.stringify(invalidMessage))
 
       await expect(middleware.before!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('Unprocessable Entity'))
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.any(String))
+      expect(getErrorResponse()).toEqual({ jsonrpc: '2.0', id: 7, error: { code: -32600, message: expect.stringContaining('Invalid Request') } })
+    })
+
+    it('should reject requests with invalid params', async () => {
+      const request = createMockRequest('{"jsonrpc":"2.0","id":"request-1","method":"tools/call","params":["test"]}')
+
+      await expect(middleware.before!(request)).rejects.toThrow()
+      expect(getErrorResponse()).toEqual({ jsonrpc: '2.0', id: 'request-1', error: { code: -32602, message: expect.stringContaining('Invalid params') } })
+    })
+
+    it('should reject empty batches', async () => {
+      const request = createMockRequest('[]')
+
+      await expect(middleware.before!(request)).rejects.toThrow()
+      expect(getErrorResponse()).toEqual({ jsonrpc: '2.0', id: null, error: { code: -32600, message: expect.stringContaining('Invalid Request') } })
+    })
+
+    it('should keep the valid messages of a batch and collect errors for the invalid ones', async () => {
+      const request = createMockRequest('[{"jsonrpc":"2.0","id":1,"method":"tools/list"},{"id":2,"method":"test"},1]')
+
+      await middleware.before!(request)
+
+      expect(request.context.isBatch).toBe(true)
+      expect(request.context.jsonRPCMessages).toEqual([{ jsonrpc: '2.0', id: 1, method: 'tools/list' }])
+      expect(request.context.jsonRPCErrors).toEqual([
+        { jsonrpc: '2.0', id: 2, error: expect.objectContaining({ code: -32600 }) },
+        { jsonrpc: '2.0', id: null, error: expect.objectContaining({ code: -32600 }) },
+      ])
     })
   })
 
   describe('after hook - response handling', () => {
-    it('should throw error for null response resulting in empty body', async () => {
+    it('should throw an internal error if a request got no response', async () => {
       const request = createMockRequest()
-      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 5, method: 'test' }]
       request.response = null
 
       await expect(middleware.after!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(202, expect.stringContaining('Unsupported request'))
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(500, expect.any(String))
+      expect(getErrorResponse()).toEqual({ jsonrpc: '2.0', id: 5, error: { code: -32603, message: expect.stringContaining('Internal error') } })
     })
 
-    it('should throw error for string response resulting in empty body', async () => {
+    it('should throw an internal error for string responses if a request got no response', async () => {
       const request = createMockRequest()
       request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
       request.response = 'some string' as any
 
       await expect(middleware.after!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(202, expect.stringContaining('Unsupported request'))
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(500, expect.stringContaining('"code":-32603'))
+    })
+
+    it('should acknowledge requests that were cancelled', async () => {
+      mockTransport.handleJSONRPCMessages.mockResolvedValue([])
+
+      const request = createMockRequest()
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 5, method: 'test' }]
+      request.response = undefined as any
+
+      await middleware.after!(request)
+
+      expect(mockedCreateHttpError).not.toHaveBeenCalled()
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 202, body: '' }))
+    })
+
+    it('should accept notifications without a body', async () => {
+      const request = createMockRequest()
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, method: 'notifications/initialized' }]
+      // middy starts without a response
+      request.response = undefined as unknown as ResponseEvent
+      mockTransport.handleJSONRPCMessages.mockResolvedValue([])
+
+      await middleware.after!(request)
+
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 202, body: '' }))
+    })
+
+    it('should answer batches with arrays that include the errors of invalid messages', async () => {
+      const request = createMockRequest()
+      const invalidMessageError = { jsonrpc: '2.0' as const, id: 2, error: { code: -32600, message: 'Invalid Request' } }
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
+      request.context.jsonRPCErrors = [invalidMessageError]
+      request.context.isBatch = true
+      request.response = { statusCode: 200, body: '', headers: {} }
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      await middleware.after!(request)
+
+      expect(JSON.parse(request.response.body as string)).toEqual([{ jsonrpc: '2.0', id: 1, result: {} }, invalidMessageError])
+    })
+
+    it('should answer batches of invalid messages with their errors', async () => {
+      const request = createMockRequest('[1,2]')
+
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 200 }))
+      expect(JSON.parse((request.response as { body: string }).body)).toEqual([
+        { jsonrpc: '2.0', id: null, error: expect.objectContaining({ code: -32600 }) },
+        { jsonrpc: '2.0', id: null, error: expect.objectContaining({ code: -32600 }) },
+      ])
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenCalledWith([], undefined, expect.anything())
     })
 
     it('should process messages and update response', async () => {
@@ -286,6 +403,40 @@ describe('libs/middy/src/mcp/mcp', () => {
       })
     })
 
+    it('should bind the QCClient of the request while handling messages', async () => {
+      const request = createMockRequest()
+      const qcClient = QCClient.getInstance({ userId: 'test-user', apiToken: 'test-token' })
+      request.context.qcClient = qcClient
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
+      request.response = { statusCode: 200, body: '', headers: {} }
+
+      let boundQCClient: QCClient | undefined
+      let remainingTimeInMS: number | undefined
+      mockTransport.handleJSONRPCMessages.mockImplementation(async () => {
+        boundQCClient = QCClient.getInstance()
+        remainingTimeInMS = boundQCClient.getRemainingTimeBudgetInMS()
+        return { jsonrpc: '2.0' as const, id: 1, result: {} }
+      })
+
+      await middleware.after!(request)
+
+      expect(boundQCClient).toBe(qcClient)
+      expect(remainingTimeInMS).toBe(30000)
+      expect(qcClient.getRemainingTimeBudgetInMS()).toBeUndefined()
+    })
+
+    it('should pass the headers of the request on to the request handlers', async () => {
+      const request = createMockRequest(undefined, { 'content-type': 'application/json', accept: 'application/json', 'x-qc-tool-profile': 'read-only' })
+      request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0' as const, id: 1, result: {} })
+
+      await middleware.after!(request)
+
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenCalledWith(request.context.jsonRPCMessages, undefined, {
+        requestInfo: { headers: request.event.headers },
+      })
+    })
+
     it('should handle undefined response from transport', async () => {
       const request = createMockRequest()
       request.context.jsonRPCMessages = [{ jsonrpc: '2.0' as const, id: 1, method: 'test' }]
@@ -356,6 +507,384 @@ describe('libs/middy/src/mcp/mcp', () => {
         isBase64Encoded: request.event.isBase64Encoded,
       })
     })
+
+    it('should redact the QuantConnect API token when logging', async () => {
+      const consoleSpy = jest.spyOn(console, 'log')
+      const request = createMockRequest(undefined, {
+        'content-type': 'application/json',
+        accept: 'application/json',
+        'X-QC-API-Token': 'secret-token',
+      })
+
+      await middleware.before!(request)
+
+      expect(consoleSpy).toHaveBeenCalledWith(
+        'MCP request received',
+        expect.objectContaining({ headers: expect.objectContaining({ 'X-QC-API-Token': '[REDACTED]' }) })
+      )
+      expect(JSON.stringify(consoleSpy.mock.calls)).not.toContain('secret-token')
+    })
+  })
+
+  describe('streaming', () => {
+    const eventStreamHeaders = { 'content-type': 'application/json', accept: 'application/json, text/event-stream' }
+
+    const readStream = async (stream: Readable) => {
+      const chunks: string[] = []
+
+      for await (const chunk of stream) {
+        chunks.push(String(chunk))
+      }
+
+      return chunks.join('')
+    }
+
+    const createGetRequest = (headers: Record<string, string> = { accept: 'text/event-stream' }) => {
+      const request = createMockRequest(undefined, headers)
+      request.event = { ...request.event, body: undefined, httpMethod: 'GET' } as RequestEvent
+      return request
+    }
+
+    beforeEach(() => {
+      middleware = middyMCP({ server: mockServer, streaming: true, singleProcess: true, standaloneStreamDurationInMS: 10 })
+    })
+
+    it('should stream the responses and related notifications of requests', async () => {
+      const progressNotification: JSONRPCMessage = { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: 1, progress: 1 } }
+      const responseMessage: JSONRPCMessage = { jsonrpc: '2.0', id: 1, result: {} }
+
+      mockTransport.handleJSONRPCMessages.mockImplementation(async (_messages, onmessage) => {
+        onmessage?.(progressNotification)
+        onmessage?.(responseMessage)
+        return responseMessage
+      })
+
+      const request = createMockRequest(undefined, eventStreamHeaders)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      const response = request.response as StreamingResponseEvent
+
+      expect(response.statusCode).toBe(200)
+      expect(response.headers).toEqual(expect.objectContaining({ 'Content-Type': 'text/event-stream' }))
+      expect(await readStream(response.body)).toBe(
+        `event: message\ndata: ${JSON.stringify(progressNotification)}\n\nevent: message\ndata: ${JSON.stringify(responseMessage)}\n\n`
+      )
+    })
+
+    it('should cancel the requests if the client closes the stream', async () => {
+      mockTransport.handleJSONRPCMessages.mockReturnValue(new Promise(() => undefined))
+
+      const request = createMockRequest(undefined, eventStreamHeaders)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      const response = request.response as StreamingResponseEvent
+      response.body.destroy()
+      await new Promise((resolve) => setImmediate(resolve))
+
+      expect(mockTransport.cancelRequests).toHaveBeenCalledWith([1], expect.any(String))
+    })
+
+    it('should not cancel the requests once their responses were streamed', async () => {
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      const request = createMockRequest(undefined, eventStreamHeaders)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      await readStream((request.response as StreamingResponseEvent).body)
+
+      expect(mockTransport.cancelRequests).not.toHaveBeenCalled()
+    })
+
+    it('should answer with JSON if the client does not accept event streams', async () => {
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      const request = createMockRequest()
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 200, body: '{"jsonrpc":"2.0","id":1,"result":{}}' }))
+    })
+
+    it('should not stream responses if streaming is disabled', async () => {
+      middleware = middyMCP({ server: mockServer })
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      const request = createMockRequest(undefined, eventStreamHeaders)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 200, body: '{"jsonrpc":"2.0","id":1,"result":{}}' }))
+    })
+
+    it('should stream server-initiated messages on GET requests', async () => {
+      const listChangedNotification: JSONRPCMessage = { jsonrpc: '2.0', method: 'notifications/tools/list_changed' }
+      const closeStandaloneStream = jest.fn()
+
+      mockTransport.openStandaloneStream.mockImplementation((listener) => {
+        listener(listChangedNotification)
+        return closeStandaloneStream
+      })
+
+      const request = createGetRequest()
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      const response = request.response as StreamingResponseEvent
+
+      expect(response.headers).toEqual(expect.objectContaining({ 'Content-Type': 'text/event-stream' }))
+      expect(await readStream(response.body)).toBe(`event: message\ndata: ${JSON.stringify(listChangedNotification)}\n\n`)
+      expect(closeStandaloneStream).toHaveBeenCalled()
+      expect(mockTransport.handleJSONRPCMessages).not.toHaveBeenCalled()
+    })
+
+    it('should reject GET requests that do not accept event streams', async () => {
+      const request = createGetRequest({ accept: 'application/json' })
+
+      await expect(middleware.before!(request)).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(406, expect.stringContaining('text/event-stream'))
+    })
+
+    it('should reject GET requests if streaming is disabled', async () => {
+      middleware = middyMCP({ server: mockServer })
+
+      await expect(middleware.before!(createGetRequest())).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(405, expect.stringContaining('Method Not Allowed'))
+    })
+
+    it('should reject GET requests if other processes handle the requests, e.g. on Lambda', async () => {
+      middleware = middyMCP({ server: mockServer, streaming: true })
+
+      await expect(middleware.before!(createGetRequest())).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(405, expect.stringContaining('no messages outside of requests'))
+      expect(mockTransport.openStandaloneStream).not.toHaveBeenCalled()
+    })
+
+    it('should default to the single process setting of the environment', async () => {
+      process.env.MCP_SINGLE_PROCESS = 'true'
+
+      try {
+        middleware = middyMCP({ server: mockServer, streaming: true, standaloneStreamDurationInMS: 10 })
+      } finally {
+        delete process.env.MCP_SINGLE_PROCESS
+      }
+
+      await expect(middleware.before!(createGetRequest())).resolves.toBeUndefined()
+    })
+  })
+
+  describe('sessions', () => {
+    const initializeRequestBody = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 0,
+      method: 'initialize',
+      params: { protocolVersion: '2025-06-18', capabilities: { sampling: {} }, clientInfo: { name: 'test-client', version: '1.0.0' } },
+    })
+    const jsonHeaders = { 'content-type': 'application/json', accept: 'application/json' }
+
+    let sessionStore: InMemoryMCPSessionStore
+
+    const createSessionRequest = (sessionId?: string, body?: string, httpMethod = 'POST', headers: Record<string, string> = {}) => {
+      const request = createMockRequest(body, { ...jsonHeaders, ...(sessionId ? { 'mcp-session-id': sessionId } : {}), ...headers })
+      request.event = { ...request.event, httpMethod } as RequestEvent
+      return request
+    }
+
+    const initializeSession = async () => {
+      mockTransport.handleJSONRPCMessages.mockResolvedValueOnce({ jsonrpc: '2.0', id: 0, result: { protocolVersion: '2025-06-18' } })
+
+      const request = createSessionRequest(undefined, initializeRequestBody)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      return (request.response as { headers: Record<string, string> }).headers[MCP_SESSION_ID_HEADER]
+    }
+
+    beforeEach(() => {
+      sessionStore = new InMemoryMCPSessionStore()
+      middleware = middyMCP({ server: () => mockServer, sessionStore })
+    })
+
+    it('should issue a session on initialize and store what was negotiated', async () => {
+      const sessionId = await initializeSession()
+
+      expect(sessionId).toEqual(expect.any(String))
+      expect(await sessionStore.get(sessionId)).toEqual({
+        sessionId,
+        protocolVersion: '2025-06-18',
+        clientCapabilities: { sampling: {} },
+        clientInfo: { name: 'test-client', version: '1.0.0' },
+        createdAt: expect.any(Number),
+        expiresAt: expect.any(Number),
+      })
+    })
+
+    it('should restore the session for later requests', async () => {
+      const sessionId = await initializeSession()
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      const request = createSessionRequest(sessionId)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.context.mcpSession?.sessionId).toBe(sessionId)
+      expect(request.response).toEqual(expect.objectContaining({ headers: expect.objectContaining({ [MCP_SESSION_ID_HEADER]: sessionId }) }))
+      // the session keeps the server and transport that handled its initialize request, besides the ones of the middleware of the outer tests
+      expect(MockedHttpServerTransport.mock.calls.slice(1)).toEqual([[{ singleProcess: false, sessionId }]])
+      expect(mockServer.connect).toHaveBeenCalledTimes(2)
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenCalledTimes(2)
+    })
+
+    it('should replay the initialize request of sessions that another process initialized', async () => {
+      const sessionId = await initializeSession()
+      const otherServer = { ...mockServer, connect: jest.fn().mockResolvedValue(undefined) } as unknown as jest.Mocked<McpServer>
+      middleware = middyMCP({ server: () => otherServer, sessionStore })
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 1, result: {} })
+
+      const request = createSessionRequest(sessionId)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(otherServer.connect).toHaveBeenCalledWith(mockTransport)
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenNthCalledWith(2, [
+        {
+          jsonrpc: '2.0',
+          id: 0,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: { sampling: {} }, clientInfo: { name: 'test-client', version: '1.0.0' } },
+        },
+      ])
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenNthCalledWith(3, request.context.jsonRPCMessages, undefined, expect.anything())
+    })
+
+    it('should keep the client capabilities and session ids of concurrent sessions apart', async () => {
+      const { HttpServerTransport: ActualHttpServerTransport } = jest.requireActual<typeof import('./http-server-transport')>('./http-server-transport')
+      MockedHttpServerTransport.mockImplementation((options) => new ActualHttpServerTransport(options) as jest.Mocked<HttpServerTransport>)
+
+      const servers: McpServer[] = []
+      const createServer = () => {
+        const server = new McpServer({ name: 'test-server', version: '1.0.0' })
+        server.registerTool('get_session', {}, (extra) => ({
+          content: [{ type: 'text', text: `${extra.sessionId} ${JSON.stringify(server.server.getClientCapabilities())}` }],
+        }))
+        servers.push(server)
+        return server
+      }
+
+      const initialize = async (capabilities: object) => {
+        const body = JSON.stringify({ ...JSON.parse(initializeRequestBody), params: { ...JSON.parse(initializeRequestBody).params, capabilities } })
+        const request = createSessionRequest(undefined, body)
+        await middleware.before!(request)
+        await middleware.after!(request)
+
+        return (request.response as { headers: Record<string, string> }).headers[MCP_SESSION_ID_HEADER]
+      }
+
+      const callTool = async (sessionId: string) => {
+        const request = createSessionRequest(sessionId, JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'get_session' } }))
+        await middleware.before!(request)
+        await middleware.after!(request)
+
+        return JSON.parse((request.response as { body: string }).body).result.content[0].text
+      }
+
+      middleware = middyMCP({ server: createServer, sessionStore })
+      const samplingSessionId = await initialize({ sampling: {} })
+      const elicitationSessionId = await initialize({ elicitation: {} })
+
+      expect(await Promise.all([callTool(samplingSessionId), callTool(elicitationSessionId)])).toEqual([
+        `${samplingSessionId} {"sampling":{}}`,
+        `${elicitationSessionId} {"elicitation":{}}`,
+      ])
+
+      // another process learns the client capabilities and version from the replayed initialize request
+      middleware = middyMCP({ server: createServer, sessionStore })
+
+      expect(await callTool(elicitationSessionId)).toBe(`${elicitationSessionId} {"elicitation":{}}`)
+      expect(servers[2].server.getClientVersion()).toEqual({ name: 'test-client', version: '1.0.0' })
+    })
+
+    it('should close the servers of expired sessions', async () => {
+      const now = Date.now()
+      const dateNowSpy = jest.spyOn(Date, 'now').mockReturnValue(now)
+      const expiredServer = { ...mockServer, close: jest.fn() } as unknown as jest.Mocked<McpServer>
+      const servers = [expiredServer, mockServer]
+      middleware = middyMCP({ server: () => servers.shift()!, sessionStore, sessionTTLInMS: 1000 })
+
+      await initializeSession()
+      dateNowSpy.mockReturnValue(now + 1000)
+      await initializeSession()
+
+      expect(expiredServer.close).toHaveBeenCalled()
+      expect(mockServer.close).not.toHaveBeenCalled()
+    })
+
+    it('should require the session id after initialize', async () => {
+      await expect(middleware.before!(createSessionRequest())).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(400, expect.stringContaining(`${MCP_SESSION_ID_HEADER} header is required`))
+    })
+
+    it('should reject unknown sessions', async () => {
+      await expect(middleware.before!(createSessionRequest('unknown-session'))).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(404, expect.stringContaining('Session not found'))
+      expect(getErrorResponse()).toEqual(expect.objectContaining({ id: 1 }))
+    })
+
+    it('should reject expired sessions', async () => {
+      middleware = middyMCP({ server: () => mockServer, sessionStore, sessionTTLInMS: -1 })
+      const sessionId = await initializeSession()
+
+      await expect(middleware.before!(createSessionRequest(sessionId))).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(404, expect.stringContaining('Session not found'))
+    })
+
+    it('should reject protocol versions that were not negotiated', async () => {
+      const sessionId = await initializeSession()
+
+      await expect(middleware.before!(createSessionRequest(sessionId, undefined, 'POST', { 'mcp-protocol-version': '2024-11-05' }))).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(400, expect.stringContaining('Protocol version 2024-11-05 was not negotiated'))
+    })
+
+    it('should reject initialize requests in batches', async () => {
+      const body = `[${initializeRequestBody},{"jsonrpc":"2.0","id":1,"method":"tools/list"}]`
+
+      await expect(middleware.before!(createSessionRequest(undefined, body))).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(400, expect.stringContaining('Only one initialization request is allowed'))
+    })
+
+    it('should terminate sessions on DELETE', async () => {
+      const sessionId = await initializeSession()
+
+      const request = createSessionRequest(sessionId, undefined, 'DELETE')
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.response).toEqual(expect.objectContaining({ statusCode: 200 }))
+      expect(await sessionStore.get(sessionId)).toBeUndefined()
+      expect(mockTransport.handleJSONRPCMessages).toHaveBeenCalledTimes(1)
+      expect(mockServer.close).toHaveBeenCalled()
+    })
+
+    it('should reject DELETE requests without sessions', async () => {
+      middleware = middyMCP({ server: mockServer })
+
+      await expect(middleware.before!(createSessionRequest('session-id', undefined, 'DELETE'))).rejects.toThrow()
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(405, expect.stringContaining('Sessions are not enabled'))
+    })
+
+    it('should not issue sessions without a session store', async () => {
+      middleware = middyMCP({ server: mockServer })
+      mockTransport.handleJSONRPCMessages.mockResolvedValue({ jsonrpc: '2.0', id: 0, result: {} })
+
+      const request = createSessionRequest(undefined, initializeRequestBody)
+      await middleware.before!(request)
+      await middleware.after!(request)
+
+      expect(request.context.mcpSession).toBeUndefined()
+      expect((request.response as { headers: Record<string, string> }).headers).not.toHaveProperty(MCP_SESSION_ID_HEADER)
+    })
   })
 
   describe('edge cases', () => {
@@ -386,7 +915,7 @@ describe('libs/middy/src/mcp/mcp', () => {
       const request = createMockRequest(null as any)
 
       await expect(middleware.before!(request)).rejects.toThrow()
-      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('Unprocessable Entity'))
+      expect(mockedCreateHttpError).toHaveBeenCalledWith(422, expect.stringContaining('"code":-32700'))
     })
   })
 })
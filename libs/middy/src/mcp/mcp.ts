@@ -1,47 +1,411 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
 import type middy from '@middy/core'
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
-import { type JSONRPCError, type JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js'
-import type { Context } from 'aws-lambda'
+import {
+  ErrorCode,
+  type InitializeRequest,
+  isInitializeRequest,
+  type JSONRPCError,
+  type JSONRPCMessage,
+  JSONRPCMessageSchema,
+  LATEST_PROTOCOL_VERSION,
+  type MessageExtraInfo,
+  type RequestId,
+  RequestIdSchema,
+  SUPPORTED_PROTOCOL_VERSIONS,
+} from '@modelcontextprotocol/sdk/types.js'
+import { randomUUID } from 'crypto'
 import createHttpError from 'http-errors'
-import { z } from 'zod'
-import type { RequestEvent, ResponseEvent } from '../types'
-import { HttpServerTransport } from './http-server-transport'
+import type { Writable } from 'stream'
+import { QC_API_TOKEN_HEADER } from '../quant-connect-client'
+import type { QCClientContext, RequestEvent, ResponseEvent } from '../types'
+import { HttpServerTransport, type HttpServerTransportOptions } from './http-server-transport'
+import { createEventStream, createStandaloneEventStream, EVENT_STREAM_CONTENT_TYPE, EVENT_STREAM_HEADERS } from './server-sent-events'
+import type { MCPSession, MCPSessionStore } from './session-store'
 
-const createMcpError = (httpStatusCode: number, mcpError: { code: number; message: string }) => {
-  const jsonRPCError: JSONRPCError = {
-    jsonrpc: '2.0',
-    error: mcpError,
-    id: 123,
-  }
+// time left to end a stream before the Lambda invocation times out
+const STREAM_END_MARGIN_IN_MS = 1000
+const DEFAULT_STANDALONE_STREAM_DURATION_IN_MS = 60000
+const DEFAULT_SESSION_TTL_IN_MS = 24 * 60 * 60 * 1000
 
-  return createHttpError(httpStatusCode, JSON.stringify(jsonRPCError))
-}
+export const MCP_SESSION_ID_HEADER = 'Mcp-Session-Id'
+
+/** Error response whose id is `null` if the id of the request is unknown, e.g. for parse errors */
+type JSONRPCErrorResponse = Omit<JSONRPCError, 'id'> & { id: RequestId | null }
+
+const createJSONRPCErrorResponse = (error: JSONRPCError['error'], id: RequestId | null): JSONRPCErrorResponse => ({
+  jsonrpc: '2.0',
+  error,
+  id,
+})
+
+const createMcpError = (httpStatusCode: number, mcpError: JSONRPCError['error'], id: RequestId | null = null) =>
+  createHttpError(httpStatusCode, JSON.stringify(createJSONRPCErrorResponse(mcpError, id)))
 
-type RequestContext = Context & {
+type RequestContext = QCClientContext & {
   jsonRPCMessages: JSONRPCMessage[]
+  /** Errors of the invalid messages of a batch, answered alongside the responses of the valid messages */
+  jsonRPCErrors?: JSONRPCErrorResponse[]
+  isBatch?: boolean
+  acceptsEventStream?: boolean
+  isStandaloneStreamRequest?: boolean
+  mcpSession?: MCPSession
+  isSessionTermination?: boolean
 }
 
 type MCPMiddlewareOptions = {
+  /** Answer requests with `text/event-stream` if the client accepts it, needs Lambda response streaming */
+  streaming?: boolean
+  /**
+   * All requests reach this process, e.g. the local server, so `GET` streams receive the messages that the server sends outside of requests
+   * and the client can answer requests of the server, e.g. elicitations, on streamed responses.
+   * Defaults to `MCP_SINGLE_PROCESS`. Off on Lambda, where these messages are sent by other containers and `GET` answers with `405`.
+   * Requests to the client fail right away there, as its answer would reach another container.
+   */
+  singleProcess?: boolean
+  /** Upper bound of how long a `GET` stream stays open, it ends earlier if the Lambda invocation runs out of time */
+  standaloneStreamDurationInMS?: number
+  sessionTTLInMS?: number
+} & (
+  | {
+      /** Server of all requests, which are stateless */
+      server: McpServer
+      sessionStore?: undefined
+    }
+  | {
+      /**
+       * Creates a server per session, so the client capabilities and request ids of concurrent sessions stay apart, and one for the requests without a session.
+       * The servers of the sessions that this process handles are kept until the sessions end or expire.
+       */
+      server: () => McpServer
+      /** Issue an `Mcp-Session-Id` on `initialize` and require it on all later requests, without a store every request is stateless */
+      sessionStore?: MCPSessionStore
+    }
+)
+
+const redactHeaders = (headers: RequestEvent['headers']) =>
+  headers && Object.fromEntries(Object.entries(headers).map(([key, value]) => [key, key.toLowerCase() === QC_API_TOKEN_HEADER ? '[REDACTED]' : value]))
+
+const isRequestMessage = (message: JSONRPCMessage) => 'method' in message && 'id' in message
+
+const getMessageId = (message: unknown): RequestId | null => {
+  const result = RequestIdSchema.safeParse(typeof message === 'object' && message !== null ? (message as { id?: unknown }).id : undefined)
+  return result.success ? result.data : null
+}
+
+/** Id to echo in errors that concern the whole HTTP request, which is only unambiguous for a single message */
+const getRequestId = (jsonRPCMessages: JSONRPCMessage[]) => (jsonRPCMessages.length === 1 ? getMessageId(jsonRPCMessages[0]) : null)
+
+const isInitializeRequestMessage = (message: JSONRPCMessage): message is JSONRPCMessage & InitializeRequest => isInitializeRequest(message)
+
+const getHttpMethod = (event: RequestEvent) => ('httpMethod' in event ? event.httpMethod : event.requestContext?.http?.method)?.toUpperCase()
+
+const getStandaloneStreamDurationInMS = (context: RequestContext, maxDurationInMS: number) =>
+  typeof context.getRemainingTimeInMillis === 'function'
+    ? Math.min(maxDurationInMS, context.getRemainingTimeInMillis() - STREAM_END_MARGIN_IN_MS)
+    : maxDurationInMS
+
+/** `GET` streams the messages that the server sends outside of requests */
+const validateStandaloneStreamRequest = (streaming: boolean, singleProcess: boolean, acceptsEventStream: boolean) => {
+  if (!streaming) {
+    throw createMcpError(405, {
+      code: -32000,
+      message: 'Method Not Allowed: SSE streaming is not enabled, use POST for JSON-RPC requests',
+    })
+  }
+
+  // an idle stream would only hold the invocation, as no other container can send messages to it
+  if (!singleProcess) {
+    throw createMcpError(405, {
+      code: -32000,
+      message: 'Method Not Allowed: The server sends no messages outside of requests, use POST for JSON-RPC requests',
+    })
+  }
+
+  if (!acceptsEventStream) {
+    throw createMcpError(406, {
+      code: -32000,
+      message: 'Not Acceptable: Client must accept text/event-stream',
+    })
+  }
+}
+
+const createSession = ({ params }: InitializeRequest, sessionTTLInMS: number): MCPSession => {
+  const now = Date.now()
+
+  return {
+    sessionId: randomUUID(),
+    // negotiated like the server answers the initialize request
+    protocolVersion: SUPPORTED_PROTOCOL_VERSIONS.includes(params.protocolVersion) ? params.protocolVersion : LATEST_PROTOCOL_VERSION,
+    clientCapabilities: params.capabilities,
+    clientInfo: params.clientInfo,
+    createdAt: now,
+    expiresAt: now + sessionTTLInMS,
+  }
+}
+
+type MCPConnection = {
   server: McpServer
+  transport: HttpServerTransport
+  ready: Promise<void>
+}
+
+const connect = (server: McpServer, transportOptions: HttpServerTransportOptions): MCPConnection => {
+  const transport = new HttpServerTransport(transportOptions)
+
+  return { server, transport, ready: server.connect(transport) }
 }
 
+/** The server only learns the client capabilities on `initialize`, which may have been handled by another Lambda container, so the request is replayed */
+const replayInitialize = async (transport: HttpServerTransport, { protocolVersion, clientCapabilities, clientInfo }: MCPSession) => {
+  await transport.handleJSONRPCMessages([
+    { jsonrpc: '2.0', id: 0, method: 'initialize', params: { protocolVersion, capabilities: clientCapabilities, clientInfo } },
+  ])
+}
+
+/** Session of a request after `initialize`, clients start a new session on 404 */
+const getSession = async (store: MCPSessionStore, headers: RequestEvent['headers'], requestId: RequestId | null = null) => {
+  const sessionId = headers?.[MCP_SESSION_ID_HEADER.toLowerCase()] ?? headers?.[MCP_SESSION_ID_HEADER]
+  const protocolVersion = headers?.['mcp-protocol-version'] ?? headers?.['MCP-Protocol-Version']
+
+  if (sessionId === undefined) {
+    throw createMcpError(
+      400,
+      {
+        code: -32000,
+        message: `Bad Request: ${MCP_SESSION_ID_HEADER} header is required`,
+      },
+      requestId
+    )
+  }
+
+  const session = await store.get(sessionId)
+
+  if (session === undefined) {
+    throw createMcpError(
+      404,
+      {
+        code: -32001,
+        message: 'Session not found',
+      },
+      requestId
+    )
+  }
+
+  if (protocolVersion !== undefined && protocolVersion !== session.protocolVersion) {
+    throw createMcpError(
+      400,
+      {
+        code: -32000,
+        message: `Bad Request: Protocol version ${protocolVersion} was not negotiated for this session`,
+      },
+      requestId
+    )
+  }
+
+  return session
+}
+
+/** `DELETE` ends the session of the request */
+const terminateSession = async (store: MCPSessionStore | undefined, headers: RequestEvent['headers']) => {
+  if (!store) {
+    throw createMcpError(405, {
+      code: -32000,
+      message: 'Method Not Allowed: Sessions are not enabled',
+    })
+  }
+
+  const session = await getSession(store, headers)
+  await store.delete(session.sessionId)
+
+  return session
+}
+
+/** Issue a new session on `initialize`, all other requests need to belong to a session */
+const getOrCreateSession = async (store: MCPSessionStore, jsonRPCMessages: JSONRPCMessage[], headers: RequestEvent['headers'], sessionTTLInMS: number) => {
+  const initializeRequest = jsonRPCMessages.find(isInitializeRequestMessage)
+
+  if (initializeRequest === undefined) {
+    return getSession(store, headers, getRequestId(jsonRPCMessages))
+  }
+
+  if (jsonRPCMessages.length > 1) {
+    throw createMcpError(
+      400,
+      {
+        code: ErrorCode.InvalidRequest,
+        message: 'Invalid Request: Only one initialization request is allowed',
+      },
+      getMessageId(initializeRequest)
+    )
+  }
+
+  const session = createSession(initializeRequest, sessionTTLInMS)
+  await store.set(session)
+
+  return session
+}
+
+/** Error of a message that is valid JSON but not a valid JSON-RPC message */
+const getInvalidMessageError = (message: unknown): JSONRPCErrorResponse => {
+  // well-formed requests whose params are not an object
+  const hasInvalidParams =
+    typeof message === 'object' && message !== null && 'params' in message && JSONRPCMessageSchema.safeParse({ ...message, params: undefined }).success
+
+  return createJSONRPCErrorResponse(
+    hasInvalidParams
+      ? { code: ErrorCode.InvalidParams, message: 'Invalid params: params must be an object' }
+      : { code: ErrorCode.InvalidRequest, message: 'Invalid Request: The message is not a valid JSON-RPC 2.0 message' },
+    getMessageId(message)
+  )
+}
+
+/** Invalid messages of a batch are answered individually, invalid single messages reject the whole request */
+const parseJSONRPCMessages = (body: RequestEvent['body'], isBase64Encoded: boolean | undefined) => {
+  let parsedBody: unknown
+
+  try {
+    parsedBody = JSON.parse(isBase64Encoded ? Buffer.from(body ?? '', 'base64').toString() : (body ?? ''))
+  } catch {
+    throw createMcpError(422, {
+      code: ErrorCode.ParseError,
+      message: 'Parse error: Invalid or malformed JSON was provided',
+    })
+  }
+
+  const isBatch = Array.isArray(parsedBody)
+  const messages: unknown[] = Array.isArray(parsedBody) ? parsedBody : [parsedBody]
+
+  if (messages.length === 0) {
+    throw createMcpError(422, {
+      code: ErrorCode.InvalidRequest,
+      message: 'Invalid Request: The batch is empty',
+    })
+  }
+
+  const jsonRPCMessages: JSONRPCMessage[] = []
+  const jsonRPCErrors: JSONRPCErrorResponse[] = []
+
+  messages.forEach((message) => {
+    const result = JSONRPCMessageSchema.safeParse(message)
+
+    if (result.success) {
+      jsonRPCMessages.push(result.data)
+    } else {
+      jsonRPCErrors.push(getInvalidMessageError(message))
+    }
+  })
+
+  if (!isBatch && jsonRPCErrors.length > 0) {
+    throw createMcpError(422, jsonRPCErrors[0].error, jsonRPCErrors[0].id)
+  }
+
+  return { jsonRPCMessages, jsonRPCErrors, isBatch }
+}
+
+const toArray = <T>(value: T | T[] | undefined): T[] => (value === undefined ? [] : Array.isArray(value) ? value : [value])
+
+/** Cancel the requests of the stream if the client goes away before all responses were sent, e.g. because the user aborted */
+const cancelRequestsOnClose = (stream: Writable, transport: HttpServerTransport, jsonRPCMessages: JSONRPCMessage[]) => {
+  stream.once('close', () => {
+    if (!stream.writableEnded) {
+      void transport.cancelRequests(
+        jsonRPCMessages.filter(isRequestMessage).flatMap((message) => getMessageId(message) ?? []),
+        'The client closed the stream'
+      )
+    }
+  })
+}
+
+/** The headers reach the request handlers as `extra.requestInfo`, like with the transports of the SDK */
+const getMessageExtraInfo = ({ headers }: RequestEvent): MessageExtraInfo => ({ requestInfo: { headers: headers ?? {} } })
+
 const getHeadersWithDefaults = (headers: Record<string, string | number | boolean> | undefined) => ({
   'Content-Type': 'application/json',
   ...headers,
 })
 
-export const middyMCP = ({ server }: MCPMiddlewareOptions): middy.MiddlewareObj<RequestEvent, ResponseEvent, Error, RequestContext> => {
-  const transport = new HttpServerTransport()
-  const serverReady = server.connect(transport)
+/** Connections of the servers, one for the requests without a session and one per session that this process handles */
+const createMCPConnections = (server: MCPMiddlewareOptions['server'], singleProcess: boolean) => {
+  const createServer = typeof server === 'function' ? server : () => server
+  let sharedConnection = typeof server === 'function' ? undefined : connect(server, { singleProcess })
+  const sessionConnections = new Map<string, MCPConnection & { expiresAt: number }>()
+
+  const closeSessionConnection = (sessionId: string) => {
+    void sessionConnections.get(sessionId)?.server.close()
+    sessionConnections.delete(sessionId)
+  }
+
+  /** Requests without a session share a server */
+  const getConnection = (session: MCPSession | undefined, isInitialize: boolean): MCPConnection => {
+    if (session === undefined || typeof server !== 'function') {
+      sharedConnection ??= connect(createServer(), { singleProcess })
+      return sharedConnection
+    }
+
+    const sessionConnection = sessionConnections.get(session.sessionId)
+
+    if (sessionConnection) {
+      return sessionConnection
+    }
+
+    const now = Date.now()
+    for (const [sessionId, { expiresAt }] of sessionConnections) {
+      if (expiresAt <= now) {
+        closeSessionConnection(sessionId)
+      }
+    }
+
+    const connection = connect(createServer(), { singleProcess, sessionId: session.sessionId })
+    const ready = isInitialize ? connection.ready : connection.ready.then(() => replayInitialize(connection.transport, session))
+
+    sessionConnections.set(session.sessionId, { ...connection, ready, expiresAt: session.expiresAt })
+    return { ...connection, ready }
+  }
+
+  return { getConnection, closeSessionConnection }
+}
+
+export const middyMCP = ({
+  server,
+  streaming = false,
+  singleProcess = process.env.MCP_SINGLE_PROCESS === 'true',
+  standaloneStreamDurationInMS = DEFAULT_STANDALONE_STREAM_DURATION_IN_MS,
+  sessionStore,
+  sessionTTLInMS = DEFAULT_SESSION_TTL_IN_MS,
+}: MCPMiddlewareOptions): middy.MiddlewareObj<RequestEvent, ResponseEvent, Error, RequestContext> => {
+  const connections = createMCPConnections(server, singleProcess)
 
   return {
-    before: async ({ event: { headers, body, isBase64Encoded }, context }) => {
+    before: async ({ event, context }) => {
+      const { headers, body, isBase64Encoded } = event
+
       // eslint-disable-next-line no-console
-      console.log('MCP request received', { headers, body, isBase64Encoded })
+      console.log('MCP request received', { headers: redactHeaders(headers), body, isBase64Encoded })
 
       const contentTypeHeaderValue = headers?.['content-type'] ?? headers?.['Content-Type']
       const acceptHeaderValue = headers?.['accept'] ?? headers?.['Accept']
 
+      context.acceptsEventStream = streaming && acceptHeaderValue?.includes(EVENT_STREAM_CONTENT_TYPE) === true
+
+      if (getHttpMethod(event) === 'DELETE') {
+        const { sessionId } = await terminateSession(sessionStore, headers)
+        connections.closeSessionConnection(sessionId)
+
+        context.jsonRPCMessages = []
+        context.isSessionTermination = true
+        return
+      }
+
+      if (getHttpMethod(event) === 'GET') {
+        validateStandaloneStreamRequest(streaming, singleProcess, context.acceptsEventStream)
+
+        context.mcpSession = sessionStore && (await getSession(sessionStore, headers))
+        context.jsonRPCMessages = []
+        context.isStandaloneStreamRequest = true
+        return
+      }
+
       if (acceptHeaderValue === undefined || !acceptHeaderValue.includes('application/json')) {
         throw createMcpError(406, {
           code: -32000,
@@ -56,58 +420,96 @@ export const middyMCP = ({ server }: MCPMiddlewareOptions): middy.MiddlewareObj<
         })
       }
 
-      try {
-        const jsonRPCMessages = z
-          .string()
-          .transform((body) => {
-            const decodedBody = isBase64Encoded ? Buffer.from(body, 'base64').toString() : body
-            const parsedJSONBody = JSON.parse(decodedBody)
-
-            return Array.isArray(parsedJSONBody) ? parsedJSONBody : [parsedJSONBody]
-          })
-          .pipe(z.array(JSONRPCMessageSchema))
-          .parse(body)
-
-        context.jsonRPCMessages = jsonRPCMessages
-      } catch {
-        throw createMcpError(422, {
-          code: -32000,
-          message: 'Unprocessable Entity: Invalid or malformed JSON was provided',
-        })
-      }
+      const { jsonRPCMessages, jsonRPCErrors, isBatch } = parseJSONRPCMessages(body, isBase64Encoded)
+
+      context.jsonRPCMessages = jsonRPCMessages
+      context.jsonRPCErrors = jsonRPCErrors
+      context.isBatch = isBatch
+      context.mcpSession = sessionStore && (await getOrCreateSession(sessionStore, context.jsonRPCMessages, headers, sessionTTLInMS))
     },
     after: async (request) => {
-      await serverReady
+      const {
+        qcClient,
+        jsonRPCMessages,
+        jsonRPCErrors = [],
+        isBatch,
+        acceptsEventStream,
+        isStandaloneStreamRequest,
+        mcpSession,
+        isSessionTermination,
+      } = request.context
+
+      if (isSessionTermination) {
+        request.response = { statusCode: 200, headers: { 'Content-Type': 'text/plain' }, body: '' }
+        return
+      }
 
-      if (request.response === null || typeof request.response === 'string') {
+      const { transport, ready } = connections.getConnection(mcpSession, jsonRPCMessages.some(isInitializeRequestMessage))
+      await ready
+
+      const sessionHeaders: Record<string, string> = mcpSession ? { [MCP_SESSION_ID_HEADER]: mcpSession.sessionId } : {}
+
+      if (isStandaloneStreamRequest) {
         request.response = {
-          headers: {
-            'Content-Type': 'text/plain',
-          },
+          statusCode: 200,
+          headers: { ...EVENT_STREAM_HEADERS, ...sessionHeaders },
+          body: createStandaloneEventStream(transport.openStandaloneStream, getStandaloneStreamDurationInMS(request.context, standaloneStreamDurationInMS)),
+        }
+        return
+      }
+
+      // tools resolve the QuantConnect client of the current request through QCClient.getInstance(), its retries must not outlive this invocation
+      const getRemainingTimeInMS = typeof request.context.getRemainingTimeInMillis === 'function' ? () => request.context.getRemainingTimeInMillis() : undefined
+      const runWithQCClient = <T>(fn: () => Promise<T>) => (qcClient ? QCClient.runWithInstance(qcClient, fn, getRemainingTimeInMS) : fn())
+
+      // the responses and the notifications of the requests, e.g. progress, are streamed as they are sent
+      if (acceptsEventStream && jsonRPCMessages.some(isRequestMessage)) {
+        const { stream, writeMessage } = createEventStream()
+
+        jsonRPCErrors.forEach((jsonRPCError) => writeMessage(jsonRPCError as JSONRPCMessage))
+
+        runWithQCClient(() => transport.handleJSONRPCMessages(jsonRPCMessages, writeMessage, getMessageExtraInfo(request.event))).then(
+          () => stream.end(),
+          (error) => stream.destroy(error)
+        )
+
+        cancelRequestsOnClose(stream, transport, jsonRPCMessages)
+
+        request.response = { statusCode: 200, headers: { ...EVENT_STREAM_HEADERS, ...sessionHeaders }, body: stream }
+        return
+      }
+
+      if (typeof request.response !== 'object' || request.response === null) {
+        request.response = {
+          headers: { 'Content-Type': 'text/plain' },
           statusCode: 202,
           body: '',
         }
       }
 
-      const responseMessages = await transport.handleJSONRPCMessages(request.context.jsonRPCMessages)
+      const handledMessages = await runWithQCClient(() => transport.handleJSONRPCMessages(jsonRPCMessages, undefined, getMessageExtraInfo(request.event)))
+      const responseMessages = [...toArray(handledMessages), ...jsonRPCErrors]
 
-      if (responseMessages !== undefined) {
+      if (responseMessages.length > 0) {
         request.response = {
           ...request.response,
-          headers: getHeadersWithDefaults(request.response?.headers),
+          headers: getHeadersWithDefaults({ ...request.response?.headers, ...sessionHeaders }),
           statusCode: 200,
-          body:
-            Array.isArray(responseMessages) && responseMessages.length === 0
-              ? '' // Empty response for notifications
-              : JSON.stringify(responseMessages),
+          body: JSON.stringify(isBatch ? responseMessages : responseMessages[0]),
         }
+        return
       }
 
-      if (!request.response.body || request.response.body?.length === 0) {
-        throw createMcpError(202, {
-          code: -32601,
-          message: 'Unsupported request.',
-        })
+      // notifications, responses of the client and cancelled requests are only acknowledged, other requests always need a response
+      if (handledMessages === undefined && !request.response.body && jsonRPCMessages.some(isRequestMessage)) {
+        throw createMcpError(
+          500,
+          {
+            code: ErrorCode.InternalError,
+            message: 'Internal error: No response was sent for the request',
+          },
+          getRequestId(jsonRPCMessages)
+        )
       }
     },
   }
@@ -0,0 +1,63 @@
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { Readable } from 'stream'
+import { createEventStream, createStandaloneEventStream, toServerSentEvent } from './server-sent-events'
+
+describe('libs/middy/src/mcp/server-sent-events', () => {
+  const message: JSONRPCMessage = { jsonrpc: '2.0', method: 'notifications/tools/list_changed' }
+
+  const readStream = (stream: Readable) => {
+    const chunks: string[] = []
+    stream.on('data', (chunk) => chunks.push(String(chunk)))
+    return chunks
+  }
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should serialize messages as message events', () => {
+    expect(toServerSentEvent(message)).toBe(`event: message\ndata: ${JSON.stringify(message)}\n\n`)
+  })
+
+  it('should ignore messages written after the stream ended', () => {
+    const { stream, writeMessage } = createEventStream()
+    const chunks = readStream(stream)
+
+    writeMessage(message)
+    stream.end()
+
+    expect(() => writeMessage(message)).not.toThrow()
+    expect(chunks).toEqual([toServerSentEvent(message)])
+  })
+
+  it('should keep the standalone stream alive and end it after its duration', () => {
+    jest.useFakeTimers()
+    const closeStandaloneStream = jest.fn()
+    const openStandaloneStream = jest.fn().mockReturnValue(closeStandaloneStream)
+
+    const stream = createStandaloneEventStream(openStandaloneStream, 20000)
+    const chunks = readStream(stream)
+    openStandaloneStream.mock.calls[0][0](message)
+
+    jest.advanceTimersByTime(15000)
+    expect(chunks).toEqual([toServerSentEvent(message), ': keep-alive\n\n'])
+    expect(stream.writableEnded).toBe(false)
+
+    jest.advanceTimersByTime(5000)
+    expect(stream.writableEnded).toBe(true)
+  })
+
+  it('should stop listening once the standalone stream is closed', () => {
+    const closeStandaloneStream = jest.fn()
+
+    const stream = createStandaloneEventStream(() => closeStandaloneStream, 20000)
+    stream.destroy()
+
+    return new Promise<void>((resolve) =>
+      stream.once('close', () => {
+        expect(closeStandaloneStream).toHaveBeenCalled()
+        resolve()
+      })
+    )
+  })
+})
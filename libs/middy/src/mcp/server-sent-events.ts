@@ -0,0 +1,46 @@
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { PassThrough } from 'stream'
+import type { JSONRPCMessageListener } from './http-server-transport'
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream'
+// comments keep idle connections from being closed by proxies
+const KEEP_ALIVE_INTERVAL_IN_MS = 15000
+
+export const EVENT_STREAM_HEADERS = {
+  'Content-Type': EVENT_STREAM_CONTENT_TYPE,
+  'Cache-Control': 'no-cache',
+}
+
+export const toServerSentEvent = (message: JSONRPCMessage) => `event: message\ndata: ${JSON.stringify(message)}\n\n`
+
+export const createEventStream = () => {
+  const stream = new PassThrough()
+
+  const writeMessage: JSONRPCMessageListener = (message) => {
+    if (!stream.writableEnded) {
+      stream.write(toServerSentEvent(message))
+    }
+  }
+
+  return { stream, writeMessage }
+}
+
+/** Stream the messages the server sends on its own for `durationInMS`, the client reconnects once the stream ends */
+export const createStandaloneEventStream = (openStandaloneStream: (listener: JSONRPCMessageListener) => () => void, durationInMS: number) => {
+  const { stream, writeMessage } = createEventStream()
+  const closeStandaloneStream = openStandaloneStream(writeMessage)
+
+  const keepAliveInterval = setInterval(() => stream.write(': keep-alive\n\n'), KEEP_ALIVE_INTERVAL_IN_MS)
+  const endTimeout = setTimeout(() => stream.end(), durationInMS)
+
+  const cleanUp = () => {
+    closeStandaloneStream()
+    clearInterval(keepAliveInterval)
+    clearTimeout(endTimeout)
+  }
+
+  stream.once('finish', cleanUp)
+  stream.once('close', cleanUp)
+
+  return stream
+}
@@ -0,0 +1,68 @@
+import { InMemoryMCPSessionStore, isSessionExpired, type MCPSession } from './session-store'
+
+describe('libs/middy/src/mcp/session-store', () => {
+  const getSession = (expiresAt: number): MCPSession => ({
+    sessionId: 'session-1',
+    protocolVersion: '2025-06-18',
+    clientCapabilities: {},
+    createdAt: 0,
+    expiresAt,
+  })
+
+  it('should consider sessions expired once their expiry is reached', () => {
+    expect(isSessionExpired(getSession(1000), 999)).toBe(false)
+    expect(isSessionExpired(getSession(1000), 1000)).toBe(true)
+  })
+
+  describe('InMemoryMCPSessionStore', () => {
+    it('should store, return and delete sessions', async () => {
+      const store = new InMemoryMCPSessionStore()
+      const session = getSession(Date.now() + 60000)
+
+      await store.set(session)
+      expect(await store.get('session-1')).toEqual(session)
+
+      await store.delete('session-1')
+      expect(await store.get('session-1')).toBeUndefined()
+    })
+
+    it('should keep the resource subscriptions per session until it is deleted', async () => {
+      const store = new InMemoryMCPSessionStore()
+
+      await store.set(getSession(Date.now() + 60000))
+      await store.set({ ...getSession(Date.now() + 60000), sessionId: 'session-2' })
+      await store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')
+      await store.addResourceSubscription('session-1', 'qc://projects/1/files/utils.py')
+      await store.deleteResourceSubscription('session-1', 'qc://projects/1/files/utils.py')
+
+      expect(await store.getResourceSubscriptions('session-1')).toEqual(['qc://projects/1/files/main.py'])
+      expect(await store.getResourceSubscriptions('session-2')).toEqual([])
+
+      await store.delete('session-1')
+
+      expect(await store.getResourceSubscriptions('session-1')).toEqual([])
+    })
+
+    it('should reject subscribing sessions that do not exist, like the DynamoDB store', async () => {
+      const store = new InMemoryMCPSessionStore()
+
+      await expect(store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Session session-1 not found')
+
+      await store.set(getSession(Date.now() - 1))
+      await expect(store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Session session-1 not found')
+
+      await store.set(getSession(Date.now() + 60000))
+      await store.delete('session-1')
+      await expect(store.addResourceSubscription('session-1', 'qc://projects/1/files/main.py')).rejects.toThrow('Session session-1 not found')
+      expect(await store.getResourceSubscriptions('session-1')).toEqual([])
+    })
+
+    it('should not return expired sessions', async () => {
+      const store = new InMemoryMCPSessionStore()
+
+      await store.set(getSession(Date.now() - 1))
+
+      expect(await store.get('session-1')).toBeUndefined()
+    })
+  })
+})
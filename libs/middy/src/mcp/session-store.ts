@@ -0,0 +1,66 @@
+import type { ClientCapabilities, Implementation } from '@modelcontextprotocol/sdk/types.js'
+
+/** What was negotiated on `initialize`, later requests of the session may be handled by another Lambda container */
+export interface MCPSession {
+  sessionId: string
+  protocolVersion: string
+  clientCapabilities: ClientCapabilities
+  clientInfo?: Implementation
+  createdAt: number
+  expiresAt: number
+}
+
+export interface MCPSessionStore {
+  get(sessionId: string): Promise<MCPSession | undefined>
+  set(session: MCPSession): Promise<void>
+  delete(sessionId: string): Promise<void>
+  /** URIs of the resources that the session subscribed to with `resources/subscribe` */
+  getResourceSubscriptions(sessionId: string): Promise<string[]>
+  addResourceSubscription(sessionId: string, uri: string): Promise<void>
+  deleteResourceSubscription(sessionId: string, uri: string): Promise<void>
+}
+
+export const isSessionExpired = (session: MCPSession, now = Date.now()) => session.expiresAt <= now
+
+/** Subscriptions can only be added to existing sessions, the stores reject them for unknown, expired or deleted sessions alike */
+export const createSessionNotFoundError = (sessionId: string) => new Error(`Session ${sessionId} not found`)
+
+/** Keeps the sessions of a single process, e.g. the local server. Sessions are lost when the process or Lambda container ends */
+export class InMemoryMCPSessionStore implements MCPSessionStore {
+  private readonly sessions = new Map<string, MCPSession>()
+  private readonly resourceSubscriptions = new Map<string, Set<string>>()
+
+  public get = async (sessionId: string) => {
+    const session = this.sessions.get(sessionId)
+
+    if (session && isSessionExpired(session)) {
+      this.sessions.delete(sessionId)
+      return
+    }
+
+    return session
+  }
+
+  public set = async (session: MCPSession) => {
+    this.sessions.set(session.sessionId, session)
+  }
+
+  public delete = async (sessionId: string) => {
+    this.sessions.delete(sessionId)
+    this.resourceSubscriptions.delete(sessionId)
+  }
+
+  public getResourceSubscriptions = async (sessionId: string) => ((await this.get(sessionId)) ? [...(this.resourceSubscriptions.get(sessionId) ?? [])] : [])
+
+  public addResourceSubscription = async (sessionId: string, uri: string) => {
+    if (!(await this.get(sessionId))) {
+      throw createSessionNotFoundError(sessionId)
+    }
+
+    this.resourceSubscriptions.set(sessionId, new Set([...(this.resourceSubscriptions.get(sessionId) ?? []), uri]))
+  }
+
+  public deleteResourceSubscription = async (sessionId: string, uri: string) => {
+    this.resourceSubscriptions.get(sessionId)?.delete(uri)
+  }
+}
@@ -12,8 +12,8 @@ const MockedSecretsManager = SecretsManager as jest.MockedClass<typeof SecretsMa
 // Mock QCClient
 jest.mock('@fschaeffler/quant-connect-client', () => ({
   QCClient: {
-    isInitialized: jest.fn(),
     getInstance: jest.fn(),
+    setMaxInstances: jest.fn(),
   },
 }))
 const MockedQCClient = QCClient as jest.Mocked<typeof QCClient>
@@ -23,6 +23,8 @@ describe('libs/middy/src/quant-connect-client', () => {
     getSecretValue: jest.fn(),
   }
 
+  const mockQCClientInstance = {}
+
   // Create mock request object for middleware
   const createMockRequest = () => ({
     event: {} as RequestEvent,
@@ -43,8 +45,7 @@ describe('libs/middy/src/quant-connect-client', () => {
     MockedSecretsManager.mockImplementation(() => mockSecretsManagerInstance as any)
 
     // Setup QCClient mocks
-    MockedQCClient.isInitialized.mockReturnValue(false)
-    MockedQCClient.getInstance.mockReturnValue({} as any)
+    MockedQCClient.getInstance.mockReturnValue(mockQCClientInstance as any)
   })
 
   describe('middyQCClient middleware factory', () => {
@@ -66,7 +67,7 @@ describe('libs/middy/src/quant-connect-client', () => {
       const params: MiddyQCClientParams = {
         userId: 'custom-user',
         apiToken: 'custom-token',
-        requestThrottleInMS: 1000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 1000 } },
       }
 
       const middleware = middyQCClient(params)
@@ -86,26 +87,49 @@ describe('libs/middy/src/quant-connect-client', () => {
   })
 
   describe('before hook behavior', () => {
-    it('should skip initialization if QCClient is already initialized', async () => {
-      MockedQCClient.isInitialized.mockReturnValue(true)
-
+    it('should pick the QCClient for every request and attach it to the context', async () => {
       const middleware = middyQCClient({
         userId: 'test-user',
         apiToken: 'test-token',
       })
 
+      const request1 = createMockRequest()
+      const request2 = createMockRequest()
+      await middleware.before!(request1)
+      await middleware.before!(request2)
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledTimes(2)
+      expect((request1.context as any).qcClient).toBe(mockQCClientInstance)
+      expect((request2.context as any).qcClient).toBe(mockQCClientInstance)
+    })
+
+    it('should fetch credentials from Secrets Manager only once', async () => {
+      mockSecretsManagerInstance.getSecretValue
+        .mockResolvedValueOnce({ SecretString: 'secret-user-id' })
+        .mockResolvedValueOnce({ SecretString: 'secret-api-token' })
+
+      const middleware = middyQCClient()
+      await middleware.before!(createMockRequest())
       await middleware.before!(createMockRequest())
 
-      expect(MockedQCClient.isInitialized).toHaveBeenCalledTimes(1)
-      expect(MockedQCClient.getInstance).not.toHaveBeenCalled()
-      expect(mockSecretsManagerInstance.getSecretValue).not.toHaveBeenCalled()
+      expect(mockSecretsManagerInstance.getSecretValue).toHaveBeenCalledTimes(2)
+      expect(MockedQCClient.getInstance).toHaveBeenNthCalledWith(2, {
+        userId: 'secret-user-id',
+        apiToken: 'secret-api-token',
+      })
+    })
+
+    it('should limit the number of cached clients', () => {
+      middyQCClient({ maxClients: 3 })
+
+      expect(MockedQCClient.setMaxInstances).toHaveBeenCalledWith(3)
     })
 
     it('should initialize QCClient with provided credentials', async () => {
       const params = {
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 2000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 2000 } },
       }
 
       const middleware = middyQCClient(params)
@@ -114,10 +138,30 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 2000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 2000 } },
       })
     })
 
+    it('should pass the base URL, timeout and adapter to QCClient', async () => {
+      const adapter = jest.fn()
+
+      const middleware = middyQCClient({ userId: 'test-user', apiToken: 'test-token', baseURL: 'http://localhost:4000/api/v2', timeoutInMS: 5000, adapter })
+      await middleware.before!(createMockRequest())
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'test-user', apiToken: 'test-token', baseURL: 'http://localhost:4000/api/v2', timeoutInMS: 5000, adapter })
+      )
+    })
+
+    it('should pass the cassette to QCClient', async () => {
+      const cassette = { mode: 'replay' as const, path: 'cassettes/session.json' }
+
+      const middleware = middyQCClient({ userId: 'test-user', apiToken: 'test-token', cassette })
+      await middleware.before!(createMockRequest())
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith(expect.objectContaining({ cassette }))
+    })
+
     it('should use environment variables when no params provided', async () => {
       process.env.QUANTCONNECT_USER_ID = 'env-user'
       process.env.QUANTCONNECT_API_TOKEN = 'env-token'
@@ -128,7 +172,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'env-user',
         apiToken: 'env-token',
-        requestThrottleInMS: 5000, // default value
       })
     })
 
@@ -148,7 +191,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'secret-user-id',
         apiToken: 'test-token',
-        requestThrottleInMS: 5000,
       })
     })
 
@@ -168,7 +210,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'test-user',
         apiToken: 'secret-api-token',
-        requestThrottleInMS: 5000,
       })
     })
 
@@ -190,26 +231,25 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'secret-user-id',
         apiToken: 'secret-api-token',
-        requestThrottleInMS: 5000,
       })
     })
 
-    it('should use custom requestThrottleInMS value', async () => {
+    it('should use custom rate limits', async () => {
       const middleware = middyQCClient({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 10000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 10000 } },
       })
       await middleware.before!(createMockRequest())
 
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 10000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 10000 } },
       })
     })
 
-    it('should use default requestThrottleInMS when not specified', async () => {
+    it('should leave rate limits to the QCClient defaults when not specified', async () => {
       const middleware = middyQCClient({
         userId: 'test-user',
         apiToken: 'test-token',
@@ -219,7 +259,79 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 5000,
+      })
+    })
+  })
+
+  describe('per-request credentials', () => {
+    const createMockRequestWithHeaders = (headers: Record<string, string>) => ({
+      ...createMockRequest(),
+      event: { headers } as unknown as RequestEvent,
+    })
+
+    it('should use credentials from request headers', async () => {
+      const middleware = middyQCClient({ userId: 'default-user', apiToken: 'default-token' })
+
+      await middleware.before!(createMockRequestWithHeaders({ 'X-QC-User-Id': 'header-user', 'x-qc-api-token': 'header-token' }))
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
+        userId: 'header-user',
+        apiToken: 'header-token',
+      })
+    })
+
+    it('should use credentials from the MCP auth context', async () => {
+      const request = createMockRequest()
+      ;(request.context as any).authInfo = {
+        token: 'mcp-token',
+        clientId: 'mcp-client',
+        scopes: [],
+        extra: { quantConnectUserId: 'auth-user', quantConnectApiToken: 'auth-token' },
+      }
+
+      const middleware = middyQCClient({ userId: 'default-user', apiToken: 'default-token' })
+      await middleware.before!(request)
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
+        userId: 'auth-user',
+        apiToken: 'auth-token',
+      })
+    })
+
+    it('should prefer request headers over the MCP auth context', async () => {
+      const request = createMockRequestWithHeaders({ 'x-qc-user-id': 'header-user', 'x-qc-api-token': 'header-token' })
+      ;(request.context as any).authInfo = {
+        token: 'mcp-token',
+        clientId: 'mcp-client',
+        scopes: [],
+        extra: { quantConnectUserId: 'auth-user', quantConnectApiToken: 'auth-token' },
+      }
+
+      const middleware = middyQCClient()
+      await middleware.before!(request)
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith(expect.objectContaining({ userId: 'header-user' }))
+      expect(mockSecretsManagerInstance.getSecretValue).not.toHaveBeenCalled()
+    })
+
+    it('should reject incomplete credentials in request headers', async () => {
+      const middleware = middyQCClient({ userId: 'default-user', apiToken: 'default-token' })
+
+      await expect(middleware.before!(createMockRequestWithHeaders({ 'x-qc-user-id': 'header-user' }))).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Both the QuantConnect user id and API token need to be provided in the request headers',
+      })
+      expect(MockedQCClient.getInstance).not.toHaveBeenCalled()
+    })
+
+    it('should ignore request credentials when disabled', async () => {
+      const middleware = middyQCClient({ userId: 'default-user', apiToken: 'default-token', allowRequestCredentials: false })
+
+      await middleware.before!(createMockRequestWithHeaders({ 'x-qc-user-id': 'header-user', 'x-qc-api-token': 'header-token' }))
+
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
+        userId: 'default-user',
+        apiToken: 'default-token',
       })
     })
   })
@@ -280,7 +392,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'param-user',
         apiToken: 'param-token',
-        requestThrottleInMS: 5000,
       })
     })
 
@@ -299,7 +410,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'secret-user',
         apiToken: 'secret-token',
-        requestThrottleInMS: 5000,
       })
     })
 
@@ -316,7 +426,6 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: '',
         apiToken: '',
-        requestThrottleInMS: 5000,
       })
     })
   })
@@ -326,17 +435,16 @@ describe('libs/middy/src/quant-connect-client', () => {
       const middleware = middyQCClient({
         userId: 'lambda-user',
         apiToken: 'lambda-token',
-        requestThrottleInMS: 1000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 1000 } },
       })
 
       // Simulate middleware execution
       await middleware.before!(createMockRequest())
 
-      expect(MockedQCClient.isInitialized).toHaveBeenCalled()
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'lambda-user',
         apiToken: 'lambda-token',
-        requestThrottleInMS: 1000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 1000 } },
       })
     })
 
@@ -345,16 +453,17 @@ describe('libs/middy/src/quant-connect-client', () => {
       const middleware1 = middyQCClient({ userId: 'user1', apiToken: 'token1' })
       await middleware1.before!(createMockRequest())
 
-      // Second middleware call - should skip initialization
-      MockedQCClient.isInitialized.mockReturnValue(true)
+      // Second middleware call - should use its own credentials
       const middleware2 = middyQCClient({ userId: 'user2', apiToken: 'token2' })
       await middleware2.before!(createMockRequest())
 
-      expect(MockedQCClient.getInstance).toHaveBeenCalledTimes(1)
-      expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
+      expect(MockedQCClient.getInstance).toHaveBeenNthCalledWith(1, {
         userId: 'user1',
         apiToken: 'token1',
-        requestThrottleInMS: 5000,
+      })
+      expect(MockedQCClient.getInstance).toHaveBeenNthCalledWith(2, {
+        userId: 'user2',
+        apiToken: 'token2',
       })
     })
 
@@ -365,9 +474,8 @@ describe('libs/middy/src/quant-connect-client', () => {
       // Simulate concurrent calls
       await Promise.all([middleware1.before!(createMockRequest()), middleware2.before!(createMockRequest())])
 
-      // QCClient should handle singleton pattern correctly
-      expect(MockedQCClient.isInitialized).toHaveBeenCalled()
-      expect(MockedQCClient.getInstance).toHaveBeenCalled()
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user1' }))
+      expect(MockedQCClient.getInstance).toHaveBeenCalledWith(expect.objectContaining({ userId: 'user2' }))
     })
   })
 
@@ -421,7 +529,7 @@ describe('libs/middy/src/quant-connect-client', () => {
       const validParams: MiddyQCClientParams = {
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: 3000,
+        rateLimits: { write: { capacity: 1, refillIntervalInMS: 3000 } },
       }
 
       expect(() => middyQCClient(validParams)).not.toThrow()
@@ -443,33 +551,23 @@ describe('libs/middy/src/quant-connect-client', () => {
       expect(() => middyQCClient()).not.toThrow()
     })
 
-    it('should handle zero requestThrottleInMS', async () => {
-      const middleware = middyQCClient({
-        userId: 'test-user',
-        apiToken: 'test-token',
-        requestThrottleInMS: 0,
-      })
-      await middleware.before!(createMockRequest())
-
-      expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
-        userId: 'test-user',
-        apiToken: 'test-token',
-        requestThrottleInMS: 0,
-      })
-    })
+    it('should pass separate read and write rate limits', async () => {
+      const rateLimits = {
+        read: { capacity: 5, refillIntervalInMS: 100 },
+        write: { capacity: 1, refillIntervalInMS: 0 },
+      }
 
-    it('should handle negative requestThrottleInMS', async () => {
       const middleware = middyQCClient({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: -1000,
+        rateLimits,
       })
       await middleware.before!(createMockRequest())
 
       expect(MockedQCClient.getInstance).toHaveBeenCalledWith({
         userId: 'test-user',
         apiToken: 'test-token',
-        requestThrottleInMS: -1000,
+        rateLimits,
       })
     })
   })
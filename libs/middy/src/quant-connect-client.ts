@@ -1,15 +1,26 @@
 import { SecretsManager } from '@aws-sdk/client-secrets-manager'
-import { QCClient } from '@fschaeffler/quant-connect-client'
+import { QCClient, type QCClientGetInstanceParams, type QCClientRateLimits } from '@fschaeffler/quant-connect-client'
 import type middy from '@middy/core'
-import type { Context } from 'aws-lambda'
-import type { RequestEvent, ResponseEvent } from './types'
+import createHttpError from 'http-errors'
+import type { QCClientContext, RequestEvent, ResponseEvent } from './types'
 
 export interface MiddyQCClientParams {
   userId?: string
   apiToken?: string
-  requestThrottleInMS?: number
+  baseURL?: QCClientGetInstanceParams['baseURL']
+  timeoutInMS?: QCClientGetInstanceParams['timeoutInMS']
+  adapter?: QCClientGetInstanceParams['adapter']
+  cassette?: QCClientGetInstanceParams['cassette']
+  rateLimits?: Partial<QCClientRateLimits>
+  maxClients?: number
+  allowRequestCredentials?: boolean
 }
 
+export const QC_USER_ID_HEADER = 'x-qc-user-id'
+export const QC_API_TOKEN_HEADER = 'x-qc-api-token'
+
+type QCCredentials = Pick<QCClientGetInstanceParams, 'userId' | 'apiToken'>
+
 const getSecretFromSecretsManager = async (secretId: string): Promise<string> => {
   const client = new SecretsManager()
   const secretValue = await client.getSecretValue({ SecretId: secretId })
@@ -21,20 +32,66 @@ const getSecretFromSecretsManager = async (secretId: string): Promise<string> =>
   return secretValue.SecretString
 }
 
+const getHeaderValue = (headers: RequestEvent['headers'], name: string): string | undefined =>
+  Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name)?.[1] ?? undefined
+
+const toCredentials = (userId: unknown, apiToken: unknown, source: string): QCCredentials | undefined => {
+  if (userId === undefined && apiToken === undefined) {
+    return
+  }
+
+  if (typeof userId !== 'string' || userId.length === 0 || typeof apiToken !== 'string' || apiToken.length === 0) {
+    throw createHttpError(400, `Both the QuantConnect user id and API token need to be provided in the ${source}`)
+  }
+
+  return { userId, apiToken }
+}
+
+const getRequestCredentials = (event: RequestEvent, context: QCClientContext): QCCredentials | undefined =>
+  toCredentials(getHeaderValue(event.headers, QC_USER_ID_HEADER), getHeaderValue(event.headers, QC_API_TOKEN_HEADER), 'request headers') ??
+  toCredentials(context.authInfo?.extra?.quantConnectUserId, context.authInfo?.extra?.quantConnectApiToken, 'MCP auth context')
+
 export const middyQCClient = ({
   userId = process.env.QUANTCONNECT_USER_ID,
   apiToken = process.env.QUANTCONNECT_API_TOKEN,
-  requestThrottleInMS = 5000,
-}: MiddyQCClientParams = {}): middy.MiddlewareObj<RequestEvent, ResponseEvent, Error, Context> => ({
-  before: async () => {
-    if (QCClient.isInitialized()) {
-      return
-    }
+  baseURL,
+  timeoutInMS,
+  adapter,
+  cassette,
+  rateLimits,
+  maxClients,
+  allowRequestCredentials = true,
+}: MiddyQCClientParams = {}): middy.MiddlewareObj<RequestEvent, ResponseEvent, Error, QCClientContext> => {
+  // the default credentials only need to be fetched once per Lambda container
+  let defaultCredentials: QCCredentials | undefined
 
-    QCClient.getInstance({
+  const getDefaultCredentials = async (): Promise<QCCredentials> => {
+    defaultCredentials ??= {
       userId: userId ?? (await getSecretFromSecretsManager('quant-connect-mcp/user-id')),
       apiToken: apiToken ?? (await getSecretFromSecretsManager('quant-connect-mcp/api-token')),
-      requestThrottleInMS,
-    })
-  },
-})
+    }
+
+    return defaultCredentials
+  }
+
+  if (maxClients !== undefined) {
+    QCClient.setMaxInstances(maxClients)
+  }
+
+  return {
+    before: async ({ event, context }) => {
+      const requestCredentials = allowRequestCredentials ? getRequestCredentials(event, context) : undefined
+
+      const qcClient = QCClient.getInstance({
+        ...(requestCredentials ?? (await getDefaultCredentials())),
+        baseURL,
+        timeoutInMS,
+        adapter,
+        cassette,
+        rateLimits,
+      })
+
+      context.qcClient = qcClient
+    },
+  }
+}
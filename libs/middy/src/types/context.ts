@@ -0,0 +1,9 @@
+import type { QCClient } from '@fschaeffler/quant-connect-client'
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import type { Context } from 'aws-lambda'
+
+export type QCClientContext = Context & {
+  qcClient?: QCClient
+  /** MCP auth context set by an upstream auth middleware; may carry `quantConnectUserId` and `quantConnectApiToken` in `extra` */
+  authInfo?: AuthInfo
+}
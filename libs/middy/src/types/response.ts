@@ -1,3 +1,7 @@
 import { ALBResult, APIGatewayProxyResult, APIGatewayProxyResultV2 } from 'aws-lambda'
+import type { Readable } from 'stream'
 
-export type ResponseEvent = APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult
+/** Response of a handler with Lambda response streaming, the body is piped to the client */
+export type StreamingResponseEvent = Omit<APIGatewayProxyResult, 'body'> & { body: Readable }
+
+export type ResponseEvent = APIGatewayProxyResult | APIGatewayProxyResultV2 | ALBResult | StreamingResponseEvent
@@ -0,0 +1,217 @@
+/* eslint-disable max-lines-per-function */
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type InternalAxiosRequestConfig } from 'axios'
+import FormData from 'form-data'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { CASSETTE_VERSION, getEnvironmentCassette, readCassette, REDACTED_HEADER_VALUE, type QCCassette, type QCCassetteInteraction } from './cassette'
+import { QCClient, type QCClientGetInstanceParams } from './client'
+import { QCApiError, QCCassetteError } from './errors'
+
+describe('libs/quant-connect-client/src/cassette', () => {
+  let cassetteDirectory: string
+  let cassettePath: string
+
+  const validParams: QCClientGetInstanceParams = {
+    userId: 'test-user-123',
+    apiToken: 'test-api-token-456',
+    rateLimits: { read: { capacity: 100, refillIntervalInMS: 1 }, write: { capacity: 100, refillIntervalInMS: 1 } },
+    retryPolicy: { maxAttempts: 1 },
+  }
+
+  const createAdapter = (respond: (config: InternalAxiosRequestConfig) => { status: number; data: unknown }) =>
+    jest.fn<ReturnType<AxiosAdapter>, Parameters<AxiosAdapter>>(async (config) => {
+      const { status, data } = respond(config)
+      const response = { status, statusText: String(status), data: JSON.stringify(data), headers: AxiosHeaders.from({ 'x-request-id': 'request-1' }), config }
+
+      if (status >= 300) {
+        throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_RESPONSE, config, null, response)
+      }
+
+      return response
+    })
+
+  const writeCassette = (cassette: QCCassette) => {
+    fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+    fs.writeFileSync(cassettePath, JSON.stringify(cassette))
+  }
+
+  const getInteraction = (url: string, body: unknown, data: unknown, status = 200): QCCassetteInteraction => ({
+    request: { method: 'POST', url, headers: {}, body },
+    response: { status, statusText: String(status), headers: {}, data },
+  })
+
+  beforeEach(() => {
+    ;(QCClient as any).instances.clear()
+
+    cassetteDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'qc-cassette-'))
+    cassettePath = path.join(cassetteDirectory, 'cassettes', 'session.json')
+  })
+
+  afterEach(() => {
+    fs.rmSync(cassetteDirectory, { recursive: true, force: true })
+  })
+
+  describe('record mode', () => {
+    it('should write the request/response pairs with redacted auth headers', async () => {
+      const adapter = createAdapter(() => ({ status: 200, data: { projects: [{ projectId: 1 }], success: true } }))
+      const client = QCClient.getInstance({ ...validParams, adapter, cassette: { mode: 'record', path: cassettePath } })
+
+      const data = await client.post('/projects/read', { projectId: 1 })
+
+      const cassette = readCassette(cassettePath)
+
+      expect(data).toEqual({ projects: [{ projectId: 1 }], success: true })
+      expect(adapter).toHaveBeenCalledTimes(1)
+      expect(cassette.interactions).toEqual([
+        {
+          request: {
+            method: 'POST',
+            url: '/projects/read',
+            headers: expect.objectContaining({ Authorization: REDACTED_HEADER_VALUE, Timestamp: REDACTED_HEADER_VALUE }),
+            body: { projectId: 1 },
+          },
+          response: { status: 200, statusText: '200', headers: { 'x-request-id': 'request-1' }, data: { projects: [{ projectId: 1 }], success: true } },
+        },
+      ])
+      expect(JSON.stringify(cassette)).not.toContain(validParams.userId)
+    })
+
+    it('should record failed responses', async () => {
+      const adapter = createAdapter(() => ({ status: 404, data: { success: false } }))
+      const client = QCClient.getInstance({ ...validParams, adapter, cassette: { mode: 'record', path: cassettePath } })
+
+      await expect(client.post('/projects/read', { projectId: 1 })).rejects.toThrow('Request failed with status code 404')
+
+      expect(readCassette(cassettePath).interactions).toEqual([expect.objectContaining({ response: expect.objectContaining({ status: 404 }) })])
+    })
+
+    it('should not record the body of form data', async () => {
+      const adapter = createAdapter(() => ({ status: 200, data: { success: true } }))
+      const client = QCClient.getInstance({ ...validParams, adapter, cassette: { mode: 'record', path: cassettePath } })
+      const formData = new FormData()
+      formData.append('objectData', 'content')
+
+      await client.postFormData('/object/set', { organizationId: 'org-1', key: 'key' }, formData)
+
+      expect(readCassette(cassettePath).interactions[0].request).not.toHaveProperty('body')
+    })
+  })
+
+  describe('replay mode', () => {
+    it('should serve the recorded responses without sending requests', async () => {
+      writeCassette({
+        version: CASSETTE_VERSION,
+        interactions: [getInteraction('/projects/read', { projectId: 1 }, { projects: [{ projectId: 1 }], success: true })],
+      })
+      const adapter = createAdapter(() => ({ status: 500, data: {} }))
+      const client = QCClient.getInstance({ ...validParams, adapter, cassette: { mode: 'replay', path: cassettePath } })
+
+      const data = await client.post('projects/read', { projectId: 1 })
+
+      expect(data).toEqual({ projects: [{ projectId: 1 }], success: true })
+      expect(adapter).not.toHaveBeenCalled()
+    })
+
+    it('should serve the responses of identical requests in order and repeat the last one', async () => {
+      writeCassette({
+        version: CASSETTE_VERSION,
+        interactions: [
+          getInteraction('/backtests/read', { projectId: 1, backtestId: 'b' }, { backtest: { progress: 0.5 }, success: true }),
+          getInteraction('/backtests/read', { projectId: 1, backtestId: 'b' }, { backtest: { progress: 1 }, success: true }),
+        ],
+      })
+      const client = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      const responses = []
+      for (let index = 0; index < 3; index++) {
+        responses.push(await client.post('/backtests/read', { backtestId: 'b', projectId: 1 }))
+      }
+
+      expect(responses).toEqual([
+        { backtest: { progress: 0.5 }, success: true },
+        { backtest: { progress: 1 }, success: true },
+        { backtest: { progress: 1 }, success: true },
+      ])
+    })
+
+    it('should replay failed responses', async () => {
+      writeCassette({
+        version: CASSETTE_VERSION,
+        interactions: [getInteraction('/projects/read', { projectId: 2 }, { success: false, errors: ['Project not found'] })],
+      })
+      const client = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      await expect(client.post('/projects/read', { projectId: 2 })).rejects.toThrow(new QCApiError('/projects/read', ['Project not found']))
+    })
+
+    it('should replay HTTP errors', async () => {
+      writeCassette({ version: CASSETTE_VERSION, interactions: [getInteraction('/projects/read', { projectId: 2 }, { success: false }, 404)] })
+      const client = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      await expect(client.post('/projects/read', { projectId: 2 })).rejects.toMatchObject({ response: { status: 404 } })
+    })
+
+    it('should reject requests that were not recorded', async () => {
+      writeCassette({ version: CASSETTE_VERSION, interactions: [getInteraction('/projects/read', { projectId: 1 }, { success: true })] })
+      const client = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      await expect(client.post('/projects/read', { projectId: 2 })).rejects.toThrow(QCCassetteError)
+    })
+
+    it('should reject missing cassettes', async () => {
+      const client = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      await expect(client.post('/projects/read', { projectId: 1 })).rejects.toThrow(`Cassette ${cassettePath} does not exist`)
+    })
+
+    it('should replay what was recorded', async () => {
+      const adapter = createAdapter((config) => ({ status: 200, data: { request: JSON.parse(config.data), success: true } }))
+      const recordingClient = QCClient.getInstance({ ...validParams, adapter, cassette: { mode: 'record', path: cassettePath } })
+      const replayingClient = QCClient.getInstance({ ...validParams, cassette: { mode: 'replay', path: cassettePath } })
+
+      const recorded = await recordingClient.post('/files/read', { projectId: 1, name: 'main.py' })
+      const replayed = await replayingClient.post('/files/read', { name: 'main.py', projectId: 1 })
+
+      expect(replayed).toEqual(recorded)
+    })
+  })
+
+  describe('getEnvironmentCassette', () => {
+    afterEach(() => {
+      delete process.env.QUANTCONNECT_CASSETTE_MODE
+      delete process.env.QUANTCONNECT_CASSETTE_PATH
+    })
+
+    it('should return no cassette without a mode', () => {
+      expect(getEnvironmentCassette()).toBeUndefined()
+    })
+
+    it('should return the cassette of the environment', () => {
+      process.env.QUANTCONNECT_CASSETTE_MODE = 'replay'
+      process.env.QUANTCONNECT_CASSETTE_PATH = cassettePath
+
+      expect(getEnvironmentCassette()).toEqual({ mode: 'replay', path: cassettePath })
+    })
+
+    it('should reject invalid modes and missing paths', () => {
+      process.env.QUANTCONNECT_CASSETTE_MODE = 'rewind'
+      process.env.QUANTCONNECT_CASSETTE_PATH = cassettePath
+
+      expect(() => getEnvironmentCassette()).toThrow(QCCassetteError)
+
+      process.env.QUANTCONNECT_CASSETTE_MODE = 'record'
+      delete process.env.QUANTCONNECT_CASSETTE_PATH
+
+      expect(() => getEnvironmentCassette()).toThrow(QCCassetteError)
+    })
+  })
+
+  describe('readCassette', () => {
+    it('should reject cassettes of other versions', () => {
+      writeCassette({ version: 0, interactions: [] })
+
+      expect(() => readCassette(cassettePath)).toThrow(`Cassette ${cassettePath} is not a version ${CASSETTE_VERSION} cassette`)
+    })
+  })
+})
@@ -0,0 +1,210 @@
+import axios, { AxiosError, AxiosHeaders, type AxiosAdapter, type AxiosRequestConfig, type AxiosResponse, type InternalAxiosRequestConfig } from 'axios'
+import fs from 'fs'
+import path from 'path'
+import { QCCassetteError } from './errors'
+
+export type QCCassetteMode = 'record' | 'replay'
+
+export interface QCCassetteOptions {
+  mode: QCCassetteMode
+  /** JSON file the interactions are written to or read from */
+  path: string
+}
+
+export interface QCCassetteInteraction {
+  request: {
+    method: string
+    url: string
+    headers: Record<string, string>
+    /** Parsed JSON body, form data bodies are not recorded */
+    body?: unknown
+  }
+  response: {
+    status: number
+    statusText: string
+    headers: Record<string, string>
+    data: unknown
+  }
+}
+
+export interface QCCassette {
+  version: number
+  interactions: QCCassetteInteraction[]
+}
+
+export const CASSETTE_VERSION = 1
+export const REDACTED_HEADER_VALUE = '[REDACTED]'
+
+// headers that would allow to replay the requests against QuantConnect
+const REDACTED_HEADERS = ['authorization', 'timestamp']
+
+const toPlainHeaders = (headers: unknown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(AxiosHeaders.from(headers as AxiosHeaders).toJSON()).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : String(value)])
+  )
+
+const redactHeaders = (headers: unknown): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(toPlainHeaders(headers)).map(([key, value]) => [key, REDACTED_HEADERS.includes(key.toLowerCase()) ? REDACTED_HEADER_VALUE : value])
+  )
+
+const parseJSON = (data: unknown): unknown => {
+  if (typeof data !== 'string') {
+    return data
+  }
+
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+// multipart boundaries are random, so form data can't be matched on replay
+const getRequestBody = (config: InternalAxiosRequestConfig): unknown => (typeof config.data?.getBuffer === 'function' ? undefined : parseJSON(config.data))
+
+// URLs are kept relative to the base URL, so cassettes can be replayed against any base URL
+const getRequestURL = (config: InternalAxiosRequestConfig): string => `/${(config.url ?? '').replace(/^\/+/, '')}`
+
+/** Serialize with sorted object keys, so the same payload always results in the same key */
+const toStableJSON = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(toStableJSON).join(',')}]`
+  }
+
+  if (typeof value === 'object' && value !== null) {
+    return `{${Object.keys(value)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${toStableJSON((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`
+  }
+
+  return JSON.stringify(value) ?? 'undefined'
+}
+
+const getInteractionKey = ({ method, url, body }: QCCassetteInteraction['request']) => `${method.toUpperCase()} ${url} ${toStableJSON(body)}`
+
+const toAxiosResponse = ({ response }: QCCassetteInteraction, config: InternalAxiosRequestConfig): AxiosResponse => ({
+  data: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+  status: response.status,
+  statusText: response.statusText,
+  headers: AxiosHeaders.from(response.headers),
+  config,
+})
+
+export const readCassette = (cassettePath: string): QCCassette => {
+  if (!fs.existsSync(cassettePath)) {
+    throw new QCCassetteError(`Cassette ${cassettePath} does not exist`)
+  }
+
+  const cassette = JSON.parse(fs.readFileSync(cassettePath, 'utf8')) as QCCassette
+
+  if (cassette.version !== CASSETTE_VERSION || !Array.isArray(cassette.interactions)) {
+    throw new QCCassetteError(`Cassette ${cassettePath} is not a version ${CASSETTE_VERSION} cassette`)
+  }
+
+  return cassette
+}
+
+const writeCassette = (cassettePath: string, cassette: QCCassette) => {
+  fs.mkdirSync(path.dirname(cassettePath), { recursive: true })
+  fs.writeFileSync(cassettePath, `${JSON.stringify(cassette, null, 2)}\n`)
+}
+
+/** Send the requests with `adapter` and write every request/response pair to the cassette, which is overwritten on the first request */
+const createRecordAdapter = (cassettePath: string, adapter: AxiosRequestConfig['adapter']): AxiosAdapter => {
+  const sendRequest = axios.getAdapter(adapter ?? axios.defaults.adapter)
+  const cassette: QCCassette = { version: CASSETTE_VERSION, interactions: [] }
+
+  const record = (config: InternalAxiosRequestConfig, response: AxiosResponse) => {
+    cassette.interactions.push({
+      request: {
+        method: (config.method ?? 'get').toUpperCase(),
+        url: getRequestURL(config),
+        headers: redactHeaders(config.headers),
+        body: getRequestBody(config),
+      },
+      response: { status: response.status, statusText: response.statusText, headers: toPlainHeaders(response.headers), data: parseJSON(response.data) },
+    })
+
+    writeCassette(cassettePath, cassette)
+  }
+
+  return async (config) => {
+    try {
+      const response = await sendRequest(config)
+      record(config, response)
+      return response
+    } catch (error) {
+      // failed responses are replayed as well, requests without a response are not
+      if (axios.isAxiosError(error) && error.response) {
+        record(config, error.response)
+      }
+
+      throw error
+    }
+  }
+}
+
+/**
+ * Answer the requests with the recorded responses of the cassette, without sending them.
+ * Identical requests get their recorded responses in order, the last one is repeated once they are used up, e.g. for polling.
+ */
+const createReplayAdapter = (cassettePath: string): AxiosAdapter => {
+  let interactionsByKey: Map<string, QCCassetteInteraction[]> | undefined
+  const replayCounts = new Map<string, number>()
+
+  const getInteractionsByKey = () => {
+    interactionsByKey ??= readCassette(cassettePath).interactions.reduce((interactions, interaction) => {
+      const key = getInteractionKey(interaction.request)
+      return interactions.set(key, [...(interactions.get(key) ?? []), interaction])
+    }, new Map<string, QCCassetteInteraction[]>())
+
+    return interactionsByKey
+  }
+
+  return async (config) => {
+    const key = getInteractionKey({ method: config.method ?? 'get', url: getRequestURL(config), headers: {}, body: getRequestBody(config) })
+    const interactions = getInteractionsByKey().get(key)
+
+    if (!interactions) {
+      throw new QCCassetteError(`No recorded response in cassette ${cassettePath} for ${key}`)
+    }
+
+    const replayCount = replayCounts.get(key) ?? 0
+    replayCounts.set(key, replayCount + 1)
+
+    const response = toAxiosResponse(interactions[Math.min(replayCount, interactions.length - 1)], config)
+
+    if (config.validateStatus && !config.validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        null,
+        response
+      )
+    }
+
+    return response
+  }
+}
+
+export const createCassetteAdapter = ({ mode, path: cassettePath }: QCCassetteOptions, adapter?: AxiosRequestConfig['adapter']): AxiosAdapter =>
+  mode === 'record' ? createRecordAdapter(cassettePath, adapter) : createReplayAdapter(cassettePath)
+
+/** Cassette configured by `QUANTCONNECT_CASSETTE_MODE` and `QUANTCONNECT_CASSETTE_PATH` */
+export const getEnvironmentCassette = (): QCCassetteOptions | undefined => {
+  const mode = process.env.QUANTCONNECT_CASSETTE_MODE
+  const cassettePath = process.env.QUANTCONNECT_CASSETTE_PATH
+
+  if (!mode) {
+    return
+  }
+
+  if ((mode !== 'record' && mode !== 'replay') || !cassettePath) {
+    throw new QCCassetteError('QUANTCONNECT_CASSETTE_MODE needs to be record or replay and QUANTCONNECT_CASSETTE_PATH needs to be set')
+  }
+
+  return { mode, path: cassettePath }
+}
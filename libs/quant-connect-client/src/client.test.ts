@@ -4,6 +4,8 @@ import crypto from 'crypto'
 import FormData from 'form-data'
 import { QCClient, QCClientGetInstanceParams } from './client'
 import { fixDateStrings } from './date-time-parser'
+import { QCApiError, QCRateLimitError } from './errors'
+import { DEFAULT_RETRY_POLICY } from './retry-policy'
 
 // Mock axios
 jest.mock('axios')
@@ -20,6 +22,7 @@ jest.mock('crypto', () => ({
       digest: jest.fn(() => 'mocked-hash'),
     })),
   })),
+  createHmac: jest.requireActual('crypto').createHmac,
   randomBytes: jest.fn(() => Buffer.from('mocked-boundary', 'utf8')),
 }))
 
@@ -42,8 +45,9 @@ describe('libs/quant-connect-client/src/client', () => {
   beforeEach(() => {
     jest.clearAllMocks()
 
-    // Reset QCClient singleton
-    ;(QCClient as any).instance = undefined
+    // Reset QCClient registry
+    ;(QCClient as any).instances.clear()
+    QCClient.setMaxInstances(10)
 
     // Setup default axios mock
     mockedAxios.create.mockReturnValue(mockAxiosInstance as any)
@@ -74,38 +78,84 @@ describe('libs/quant-connect-client/src/client', () => {
       })
     })
 
-    it('should return same instance on subsequent calls', () => {
+    it('should return same instance for the same credentials', () => {
       const client1 = QCClient.getInstance(validParams)
-      const client2 = QCClient.getInstance()
+      const client2 = QCClient.getInstance({ ...validParams })
 
       expect(client1).toBe(client2)
       expect(mockedAxios.create).toHaveBeenCalledTimes(1)
     })
 
-    it('should throw error when called first time without params', () => {
-      expect(() => QCClient.getInstance()).toThrow('userId and apiToken need be provided for initial instance retrieval')
+    it('should throw error when called without params outside of a bound request', () => {
+      QCClient.getInstance(validParams)
+
+      expect(() => QCClient.getInstance()).toThrow('userId and apiToken need be provided if no instance is bound to the current request')
     })
 
-    it('should ignore params on subsequent calls', () => {
+    it('should return a separate instance for different credentials', () => {
       const client1 = QCClient.getInstance(validParams)
       const client2 = QCClient.getInstance({
         userId: 'different-user',
         apiToken: 'different-token',
       })
 
-      expect(client1).toBe(client2)
-      expect(mockedAxios.create).toHaveBeenCalledTimes(1)
+      expect(client1).not.toBe(client2)
+      expect(mockedAxios.create).toHaveBeenCalledTimes(2)
     })
   })
 
-  describe('isInitialized', () => {
-    it('should return false when no instance exists', () => {
-      expect(QCClient.isInitialized()).toBe(false)
+  describe('instance registry', () => {
+    const getParams = (index: number): QCClientGetInstanceParams => ({ userId: `user-${index}`, apiToken: `token-${index}` })
+
+    it('should evict the least recently used instance', () => {
+      QCClient.setMaxInstances(2)
+
+      const client1 = QCClient.getInstance(getParams(1))
+      const client2 = QCClient.getInstance(getParams(2))
+
+      // mark client1 as recently used, so client2 is evicted next
+      QCClient.getInstance(getParams(1))
+      QCClient.getInstance(getParams(3))
+
+      expect(QCClient.getInstance(getParams(1))).toBe(client1)
+      expect(QCClient.getInstance(getParams(2))).not.toBe(client2)
     })
 
-    it('should return true when instance exists', () => {
-      QCClient.getInstance(validParams)
-      expect(QCClient.isInitialized()).toBe(true)
+    it('should evict instances when the limit is lowered', () => {
+      const client1 = QCClient.getInstance(getParams(1))
+      QCClient.getInstance(getParams(2))
+
+      QCClient.setMaxInstances(1)
+
+      expect((QCClient as any).instances.size).toBe(1)
+      expect(QCClient.getInstance(getParams(1))).not.toBe(client1)
+    })
+  })
+
+  describe('runWithInstance', () => {
+    it('should bind the instance to getInstance without params', () => {
+      const client = QCClient.getInstance(validParams)
+
+      const result = QCClient.runWithInstance(client, () => QCClient.getInstance())
+
+      expect(result).toBe(client)
+    })
+
+    it('should keep concurrent requests separated', async () => {
+      const client1 = QCClient.getInstance({ userId: 'user-1', apiToken: 'token-1' })
+      const client2 = QCClient.getInstance({ userId: 'user-2', apiToken: 'token-2' })
+
+      const resolveAfterTick = async (client: QCClient) => {
+        await new Promise((resolve) => setImmediate(resolve))
+        return QCClient.getInstance() === client
+      }
+
+      const results = await Promise.all([
+        QCClient.runWithInstance(client1, () => resolveAfterTick(client1)),
+        QCClient.runWithInstance(client2, () => resolveAfterTick(client2)),
+      ])
+
+      expect(results).toEqual([true, true])
     })
   })
 
@@ -123,40 +173,66 @@ describe('libs/quant-connect-client/src/client', () => {
       })
     })
 
-    it('should set up request interceptor for authentication', () => {
-      QCClient.getInstance(validParams)
+    it('should use the provided base URL, timeout and adapter', () => {
+      const adapter = jest.fn()
 
-      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalled()
+      QCClient.getInstance({ ...validParams, baseURL: 'http://localhost:4000/api/v2', timeoutInMS: 5000, adapter })
 
-      // Get the interceptor function
-      const interceptorCall = mockAxiosInstance.interceptors.request.use.mock.calls.find((call) => call[0].toString().includes('quantConnectHeaders'))
-      expect(interceptorCall).toBeDefined()
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'http://localhost:4000/api/v2', timeout: 5000, adapter }))
     })
 
-    it('should set up throttling interceptor when requestThrottleInMS is provided', () => {
-      // Reset instance first
-      ;(QCClient as any).instance = undefined
+    it('should fall back to the base URL and timeout of the environment', () => {
+      process.env.QUANTCONNECT_API_BASE_URL = 'http://proxy.local/api/v2'
+      process.env.QUANTCONNECT_API_TIMEOUT_IN_MS = '10000'
 
-      const paramsWithThrottle = {
-        ...validParams,
-        requestThrottleInMS: 1000,
+      try {
+        QCClient.getInstance(validParams)
+      } finally {
+        delete process.env.QUANTCONNECT_API_BASE_URL
+        delete process.env.QUANTCONNECT_API_TIMEOUT_IN_MS
       }
 
-      QCClient.getInstance(paramsWithThrottle)
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ baseURL: 'http://proxy.local/api/v2', timeout: 10000 }))
+    })
+
+    it('should ignore an invalid timeout in the environment', () => {
+      process.env.QUANTCONNECT_API_TIMEOUT_IN_MS = 'soon'
 
-      // Should have 2 interceptors: throttling + auth
-      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalledTimes(2)
+      try {
+        QCClient.getInstance(validParams)
+      } finally {
+        delete process.env.QUANTCONNECT_API_TIMEOUT_IN_MS
+      }
 
-      // Check that the first interceptor is the throttling one
-      const throttleInterceptorCall = mockAxiosInstance.interceptors.request.use.mock.calls[0]
-      expect(throttleInterceptorCall[0].toString()).toContain('setTimeout')
+      expect(mockedAxios.create).toHaveBeenCalledWith(expect.objectContaining({ timeout: 25000 }))
     })
 
-    it('should not set up throttling interceptor when requestThrottleInMS is not provided', () => {
+    it('should keep separate instances for different base URLs', () => {
+      const client1 = QCClient.getInstance(validParams)
+      const client2 = QCClient.getInstance({ ...validParams, baseURL: 'http://localhost:4000/api/v2' })
+
+      expect(client1).not.toBe(client2)
+    })
+
+    it('should set up request interceptor for authentication', () => {
       QCClient.getInstance(validParams)
 
-      // Should have only 1 interceptor: auth
-      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalledTimes(1)
+      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalled()
+
+      // Get the interceptor function
+      const interceptorCall = mockAxiosInstance.interceptors.request.use.mock.calls.find((call) => call[0].toString().includes('quantConnectHeaders'))
+      expect(interceptorCall).toBeDefined()
+    })
+
+    it('should set up rate limiting interceptor before authentication interceptor', () => {
+      QCClient.getInstance(validParams)
+
+      // Should have 2 interceptors: rate limiting + auth
+      expect(mockAxiosInstance.interceptors.request.use).toHaveBeenCalledTimes(2)
+
+      // Check that the first interceptor is the rate limiting one
+      const rateLimitInterceptorCall = mockAxiosInstance.interceptors.request.use.mock.calls[0]
+      expect(rateLimitInterceptorCall[0].toString()).toContain('RateLimiter')
     })
   })
 
@@ -260,6 +336,42 @@ describe('libs/quant-connect-client/src/client', () => {
     })
   })
 
+  describe('failed QuantConnect responses', () => {
+    it('should throw QCApiError for responses with success false', async () => {
+      const client = QCClient.getInstance(validParams)
+
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { success: false, errors: ['Project not found'] },
+        headers: { 'x-request-id': 'request-123' },
+      })
+
+      const error = await client.post('/projects/read', { projectId: 1 }).catch((error) => error)
+
+      expect(error).toBeInstanceOf(QCApiError)
+      expect(error).toMatchObject({ endpoint: '/projects/read', errors: ['Project not found'], requestId: 'request-123' })
+      expect(mockedFixDateStrings).not.toHaveBeenCalled()
+    })
+
+    it('should throw QCApiError for failed form data uploads', async () => {
+      const client = QCClient.getInstance(validParams)
+      const formData = new FormData()
+
+      jest.spyOn(formData, 'getHeaders').mockReturnValue({})
+      mockAxiosInstance.post.mockResolvedValue({ data: { success: false } })
+
+      await expect(client.postFormData('/object/set', {}, formData)).rejects.toThrow('QuantConnect API request to /object/set failed: Unknown error')
+    })
+
+    it('should return failed responses unchanged from postWithRawResponse', async () => {
+      const client = QCClient.getInstance(validParams)
+      const mockResponse = { data: { success: false, errors: ['error'] } }
+
+      mockAxiosInstance.post.mockResolvedValue(mockResponse)
+
+      await expect(client.postWithRawResponse('/live/auth0/authorize')).resolves.toBe(mockResponse)
+    })
+  })
+
   describe('postWithRawResponse method', () => {
     it('should make POST request and return raw axios response', async () => {
       const client = QCClient.getInstance(validParams)
@@ -349,37 +461,325 @@ describe('libs/quant-connect-client/src/client', () => {
     })
   })
 
-  describe('throttling behavior', () => {
+  describe('rate limiting behavior', () => {
     beforeEach(() => {
-      jest.useFakeTimers()
+      jest.useFakeTimers({ now: 0 })
     })
 
     afterEach(() => {
       jest.useRealTimers()
     })
 
-    it('should delay requests when throttling is enabled', async () => {
-      const paramsWithThrottle = {
+    const getRateLimitInterceptor = () => mockAxiosInstance.interceptors.request.use.mock.calls[0][0]
+
+    it('should not delay reads while writes are rate limited', async () => {
+      QCClient.getInstance(validParams)
+
+      const rateLimitInterceptor = getRateLimitInterceptor()
+
+      await rateLimitInterceptor({ url: '/files/update', headers: {} })
+      const secondWrite = jest.fn()
+      rateLimitInterceptor({ url: '/files/update', headers: {} }).then(secondWrite)
+
+      const readConfig = { url: '/projects/read', headers: {} }
+      const readResult = await rateLimitInterceptor(readConfig)
+
+      expect(readResult).toBe(readConfig)
+      expect(secondWrite).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(5000)
+      expect(secondWrite).toHaveBeenCalled()
+    })
+
+    it('should stop waiting for a write token once the request is cancelled', async () => {
+      QCClient.getInstance(validParams)
+
+      const rateLimitInterceptor = getRateLimitInterceptor()
+      const abortController = new AbortController()
+
+      await rateLimitInterceptor({ url: '/files/update', headers: {} })
+      const secondWrite = rateLimitInterceptor({ url: '/files/update', headers: {}, signal: abortController.signal })
+      const assertion = expect(secondWrite).rejects.toBeDefined()
+
+      abortController.abort()
+      await assertion
+      expect(Date.now()).toBe(0)
+    })
+
+    it('should not wait for a write token beyond the reserve of the remaining time', async () => {
+      QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 8000 })
+
+      const rateLimitInterceptor = getRateLimitInterceptor()
+
+      await rateLimitInterceptor({ url: '/files/update', headers: {} })
+
+      await expect(rateLimitInterceptor({ url: '/files/update', headers: {} })).rejects.toThrow(QCRateLimitError)
+      expect(Date.now()).toBe(0)
+    })
+
+    it('should use custom rate limits', async () => {
+      QCClient.getInstance({
         ...validParams,
-        requestThrottleInMS: 1000,
-      }
+        rateLimits: { read: { capacity: 1, refillIntervalInMS: 1000 } },
+      })
 
-      QCClient.getInstance(paramsWithThrottle)
+      const rateLimitInterceptor = getRateLimitInterceptor()
 
-      // Get the throttling interceptor
-      const throttleInterceptorCall = mockAxiosInstance.interceptors.request.use.mock.calls[0]
-      const throttleInterceptor = throttleInterceptorCall[0]
+      await rateLimitInterceptor({ url: '/projects/read', headers: {} })
+      const secondRead = jest.fn()
+      rateLimitInterceptor({ url: '/projects/read', headers: {} }).then(secondRead)
 
-      const mockConfig = { headers: {} }
+      await jest.advanceTimersByTimeAsync(999)
+      expect(secondRead).not.toHaveBeenCalled()
 
-      // Call the interceptor
-      const promise = throttleInterceptor(mockConfig)
+      await jest.advanceTimersByTimeAsync(1)
+      expect(secondRead).toHaveBeenCalled()
+    })
+  })
+
+  describe('retry behavior', () => {
+    const createHTTPError = (status: number, headers: Record<string, string> = {}) => ({
+      response: { status, headers },
+      message: `Request failed with status code ${status}`,
+    })
+
+    beforeEach(() => {
+      jest.spyOn(Math, 'random').mockReturnValue(0)
+    })
+
+    it('should retry idempotent requests on transient server errors', async () => {
+      const client = QCClient.getInstance(validParams)
+
+      mockAxiosInstance.post.mockRejectedValueOnce(createHTTPError(503)).mockResolvedValueOnce({ data: { success: true } })
+
+      const result = await client.post('/projects/read', { projectId: 1 })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2)
+      expect(result).toEqual({ success: true })
+    })
+
+    it('should not retry non-idempotent requests on server errors', async () => {
+      const client = QCClient.getInstance(validParams)
+      const error = createHTTPError(503)
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/create', { name: 'test' })).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
 
-      // Fast-forward time
-      jest.advanceTimersByTime(1000)
+    it('should retry non-idempotent requests on 429', async () => {
+      const client = QCClient.getInstance(validParams)
+
+      mockAxiosInstance.post.mockRejectedValueOnce(createHTTPError(429)).mockResolvedValueOnce({ data: { success: true } })
+
+      await client.postWithRawResponse('/projects/create', { name: 'test' })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up after maxAttempts', async () => {
+      const client = QCClient.getInstance({ ...validParams, retryPolicy: { maxAttempts: 2 } })
+      const error = createHTTPError(502)
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/read')).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should wait for the Retry-After delay', async () => {
+      jest.useFakeTimers()
+
+      const client = QCClient.getInstance(validParams)
+
+      mockAxiosInstance.post.mockRejectedValueOnce(createHTTPError(429, { 'retry-after': '2' })).mockResolvedValueOnce({ data: { success: true } })
+
+      const promise = client.post('/projects/read')
+
+      await jest.advanceTimersByTimeAsync(1999)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+
+      await jest.advanceTimersByTimeAsync(1)
+      await promise
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2)
+
+      jest.useRealTimers()
+    })
+
+    it('should not retry when the Retry-After delay exceeds maxDelayInMS', async () => {
+      const client = QCClient.getInstance(validParams)
+      const error = createHTTPError(429, { 'retry-after': '3600' })
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/read')).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry when the remaining time budget is exhausted', async () => {
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 6000 })
+      const error = createHTTPError(429, { 'retry-after': '2' })
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/read')).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should not retry if the next attempt would not get the shortest timeout before the reserve of the remaining time', async () => {
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 5500 })
+      const error = createHTTPError(503)
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/read')).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should end every attempt before the reserve of the remaining time', async () => {
+      const remainingTimesInMS = [12000, 10000, 9000]
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => remainingTimesInMS.shift() ?? 0 })
+
+      mockAxiosInstance.post.mockRejectedValueOnce(createHTTPError(503)).mockResolvedValueOnce({ data: { success: true } })
+
+      await client.post('/projects/read', { projectId: 1 })
+
+      expect(mockAxiosInstance.post.mock.calls.map(([, , config]) => config?.timeout)).toEqual([7000, 4000])
+    })
+
+    it('should keep a shorter timeout of the request within the remaining time', async () => {
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 60000 })
+
+      mockAxiosInstance.post.mockResolvedValue({ data: { success: true } })
+
+      await client.post('/projects/read', { projectId: 1 }, { timeout: 5000 })
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/projects/read', { projectId: 1 }, { timeout: 5000 })
+    })
+
+    it('should not retry cancelled requests', async () => {
+      const client = QCClient.getInstance(validParams)
+      const abortController = new AbortController()
+      const error = createHTTPError(503)
+
+      abortController.abort()
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(client.post('/projects/read', undefined, { signal: abortController.signal })).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
+
+    it('should stop waiting for the retry when the request is cancelled', async () => {
+      jest.useFakeTimers()
+
+      const client = QCClient.getInstance(validParams)
+      const abortController = new AbortController()
+      const error = createHTTPError(429, { 'retry-after': '2' })
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      const promise = client.post('/projects/read', undefined, { signal: abortController.signal })
+      const assertion = expect(promise).rejects.toBe(error)
+
+      await jest.advanceTimersByTimeAsync(500)
+      abortController.abort()
+      await assertion
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+
+      jest.useRealTimers()
+    })
+
+    it('should remove the abort listener once the retry delay elapsed', async () => {
+      jest.useFakeTimers()
+
+      const client = QCClient.getInstance(validParams)
+      const abortController = new AbortController()
+      const addEventListener = jest.spyOn(abortController.signal, 'addEventListener')
+      const removeEventListener = jest.spyOn(abortController.signal, 'removeEventListener')
+
+      mockAxiosInstance.post.mockRejectedValueOnce(createHTTPError(503)).mockResolvedValueOnce({ data: { success: true }, headers: {} })
+
+      const promise = client.post('/projects/read', undefined, { signal: abortController.signal })
+
+      await jest.advanceTimersByTimeAsync(DEFAULT_RETRY_POLICY.maxDelayInMS)
+      await promise
+
+      expect(addEventListener).toHaveBeenCalledWith('abort', expect.any(Function), { once: true })
+      expect(removeEventListener).toHaveBeenCalledWith('abort', addEventListener.mock.calls[0][1])
+
+      jest.useRealTimers()
+    })
+
+    it('should use the remaining time of the request bound by runWithInstance', async () => {
+      const client = QCClient.getInstance(validParams)
+      const error = createHTTPError(503)
+
+      mockAxiosInstance.post.mockRejectedValue(error)
+
+      await expect(
+        QCClient.runWithInstance(
+          client,
+          () => client.post('/projects/read'),
+          () => 1000
+        )
+      ).rejects.toBe(error)
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('getRemainingTimeBudgetInMS', () => {
+    it('should return the remaining time of the provider', () => {
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 12000 })
+
+      expect(client.getRemainingTimeBudgetInMS()).toBe(12000)
+    })
+
+    it('should return undefined without a provider', () => {
+      const client = QCClient.getInstance(validParams)
+
+      expect(client.getRemainingTimeBudgetInMS()).toBeUndefined()
+    })
 
-      const result = await promise
-      expect(result).toBe(mockConfig)
+    it('should prefer the remaining time of the request bound by runWithInstance', () => {
+      const client = QCClient.getInstance({ ...validParams, getRemainingTimeInMS: () => 12000 })
+
+      expect(
+        QCClient.runWithInstance(
+          client,
+          () => client.getRemainingTimeBudgetInMS(),
+          () => 3000
+        )
+      ).toBe(3000)
+      expect(client.getRemainingTimeBudgetInMS()).toBe(12000)
+    })
+
+    it('should keep the remaining time of concurrent requests with the same client separated', async () => {
+      const client = QCClient.getInstance(validParams)
+
+      const resolveAfterTick = async () => {
+        await new Promise((resolve) => setImmediate(resolve))
+        return client.getRemainingTimeBudgetInMS()
+      }
+
+      const results = await Promise.all([
+        QCClient.runWithInstance(client, resolveAfterTick, () => 1000),
+        QCClient.runWithInstance(client, resolveAfterTick, () => 2000),
+      ])
+
+      expect(results).toEqual([1000, 2000])
+    })
+  })
+
+  describe('sign', () => {
+    it('should sign the data with the credentials', () => {
+      const client = QCClient.getInstance(validParams)
+
+      expect(client.sign('delete_project:1')).toBe(
+        crypto.createHmac('sha256', 'test-api-token-456').update('test-user-123:delete_project:1').digest('base64url')
+      )
+      expect(client.sign('delete_project:1')).not.toBe(client.sign('delete_project:2'))
     })
   })
 
@@ -465,29 +865,4 @@ describe('libs/quant-connect-client/src/client', () => {
       expect(postCall[2].headers).toHaveProperty('content-type')
     })
   })
-
-  describe('singleton pattern edge cases', () => {
-    it('should maintain singleton across multiple modules', () => {
-      // Simulate getting instance from different modules
-      const client1 = QCClient.getInstance(validParams)
-      const client2 = QCClient.getInstance()
-      const client3 = QCClient.getInstance({ userId: 'ignored', apiToken: 'ignored' })
-
-      expect(client1).toBe(client2)
-      expect(client2).toBe(client3)
-      expect(QCClient.isInitialized()).toBe(true)
-    })
-
-    it('should handle concurrent getInstance calls', () => {
-      // Reset instance
-      ;(QCClient as any).instance = undefined
-
-      // Simulate concurrent calls
-      const client1 = QCClient.getInstance(validParams)
-      const client2 = QCClient.getInstance(validParams)
-
-      expect(client1).toBe(client2)
-      expect(mockedAxios.create).toHaveBeenCalledTimes(1)
-    })
-  })
 })
@@ -1,43 +1,113 @@
-import axios, { AxiosInstance, AxiosRequestConfig, InternalAxiosRequestConfig } from 'axios'
+import { AsyncLocalStorage } from 'async_hooks'
+import axios, { AxiosInstance, AxiosRequestConfig, GenericAbortSignal, InternalAxiosRequestConfig } from 'axios'
 import crypto from 'crypto'
 import FormData from 'form-data'
+import { createCassetteAdapter, getEnvironmentCassette, type QCCassetteOptions } from './cassette'
 import { fixDateStrings } from './date-time-parser'
+import { isReadOnlyEndpoint } from './endpoints'
+import { isFailedQCApiResponse, QCApiError } from './errors'
+import { DEFAULT_RATE_LIMITS, QCClientRateLimits, TokenBucket } from './rate-limiter'
+import { DEFAULT_RETRY_POLICY, getRetryDelayInMS, isRetryableError, parseRetryAfterInMS, QCClientRetryPolicy } from './retry-policy'
+
+export const DEFAULT_BASE_URL = 'https://www.quantconnect.com/api/v2'
+// Timeout of a single attempt, below the 29s that API Gateway waits for buffered responses. Streamed responses can take as long as the
+// Lambda invocation, where every attempt is cut off before the remaining time of the invocation runs out
+export const DEFAULT_TIMEOUT_IN_MS = 25000
+// Shortest timeout of an attempt, so an attempt with little remaining time still has a chance to succeed
+const MIN_ATTEMPT_TIMEOUT_IN_MS = 1000
+
+/** Resolve after the delay or as soon as the request is cancelled */
+const waitForRetry = (delayInMS: number, signal?: GenericAbortSignal) =>
+  new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timeout)
+      resolve(undefined)
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener?.('abort', onAbort)
+      resolve(undefined)
+    }, delayInMS)
+
+    signal?.addEventListener?.('abort', onAbort, { once: true })
+  })
 
 export interface QCClientGetInstanceParams {
   userId: string
   apiToken: string
-  requestThrottleInMS?: number
+  /** Defaults to `QUANTCONNECT_API_BASE_URL` or the QuantConnect API, e.g. to point the client at a local fake API or a proxy */
+  baseURL?: string
+  /** Defaults to `QUANTCONNECT_API_TIMEOUT_IN_MS` or 25s */
+  timeoutInMS?: number
+  /** Custom axios adapter that sends the requests instead of the default HTTP adapter */
+  adapter?: AxiosRequestConfig['adapter']
+  /** Defaults to `QUANTCONNECT_CASSETTE_MODE` and `QUANTCONNECT_CASSETTE_PATH`, records the traffic to or replays it from a cassette file */
+  cassette?: QCCassetteOptions
+  rateLimits?: Partial<QCClientRateLimits>
+  retryPolicy?: Partial<QCClientRetryPolicy>
+  /** Remaining time outside of `runWithInstance`, the client is shared by the requests with the same credentials */
+  getRemainingTimeInMS?: () => number
+}
+
+// the client bound to the current request, with the remaining time of the invocation that handles it
+interface QCClientScope {
+  instance: QCClient
+  getRemainingTimeInMS?: () => number
 }
 
 export class QCClient {
   private client: AxiosInstance
   private userId: string
   private apiToken: string
-  private requestThrottleInMS?: number
+  private readRateLimiter: TokenBucket
+  private writeRateLimiter: TokenBucket
+  private retryPolicy: QCClientRetryPolicy
+  private timeoutInMS: number
+  private isReplaying: boolean
+  private getRemainingTimeInMS?: () => number
 
-  private static instance: QCClient
+  // clients keyed by credentials in least recently used order
+  private static instances = new Map<string, QCClient>()
+  private static maxInstances = 10
+  private static currentScope = new AsyncLocalStorage<QCClientScope>()
+
+  private constructor({ userId, apiToken, baseURL, timeoutInMS, adapter, cassette, rateLimits, retryPolicy, getRemainingTimeInMS }: QCClientGetInstanceParams) {
+    const activeCassette = cassette ?? getEnvironmentCassette()
 
-  private constructor({ userId, apiToken, requestThrottleInMS }: QCClientGetInstanceParams) {
     this.userId = userId
     this.apiToken = apiToken
-    this.requestThrottleInMS = requestThrottleInMS
+    this.readRateLimiter = new TokenBucket(rateLimits?.read ?? DEFAULT_RATE_LIMITS.read)
+    this.writeRateLimiter = new TokenBucket(rateLimits?.write ?? DEFAULT_RATE_LIMITS.write)
+    this.retryPolicy = { ...DEFAULT_RETRY_POLICY, ...retryPolicy }
+    this.getRemainingTimeInMS = getRemainingTimeInMS
+    this.timeoutInMS = timeoutInMS ?? QCClient.getEnvironmentTimeoutInMS() ?? DEFAULT_TIMEOUT_IN_MS
+    this.isReplaying = activeCassette?.mode === 'replay'
 
     this.client = axios.create({
-      baseURL: 'https://www.quantconnect.com/api/v2',
+      baseURL: QCClient.getBaseURL(baseURL),
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-cache',
       },
-      // Timeout before API Gateway's hard 29s limit to allow graceful error responses
-      timeout: 25000,
+      timeout: this.timeoutInMS,
+      adapter: activeCassette ? createCassetteAdapter(activeCassette, adapter) : adapter,
     })
 
-    if (this.requestThrottleInMS) {
-      this.client.interceptors.request.use(async (value: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> => {
-        await new Promise((resolve) => setTimeout(() => resolve(undefined), this.requestThrottleInMS)) // delay to avoid getting dirty write errors
+    this.client.interceptors.request.use(async (value: InternalAxiosRequestConfig): Promise<InternalAxiosRequestConfig> => {
+      // replayed requests never reach QuantConnect
+      if (this.isReplaying) {
         return value
-      })
-    }
+      }
+
+      // the wait for a token ends like an attempt before the reserve of the remaining time
+      const remainingTimeInMS = this.getRemainingTimeBudgetInMS()
+      const deadline =
+        remainingTimeInMS === undefined ? undefined : Date.now() + remainingTimeInMS - this.retryPolicy.minRemainingTimeInMS - MIN_ATTEMPT_TIMEOUT_IN_MS
+
+      // reads and writes have separate budgets, so reads are not slowed down by the spacing of writes
+      await (isReadOnlyEndpoint(value.url) ? this.readRateLimiter : this.writeRateLimiter).acquire({ signal: value.signal, deadline })
+      return value
+    })
 
     this.client.interceptors.request.use((value: InternalAxiosRequestConfig): InternalAxiosRequestConfig => {
       const quantConnectHeaders = this.getAuthHeaders()
@@ -64,30 +134,150 @@ export class QCClient {
     }
   }
 
-  public static isInitialized(): boolean {
-    return !!this.instance
+  /** Timeout of the next attempt that ends before the reserve of the remaining time, `undefined` without a time budget */
+  private getAttemptTimeoutInMS(timeoutInMS = this.timeoutInMS): number | undefined {
+    const remainingTimeInMS = this.getRemainingTimeBudgetInMS()
+
+    if (remainingTimeInMS === undefined) {
+      return
+    }
+
+    return Math.min(timeoutInMS, Math.max(remainingTimeInMS - this.retryPolicy.minRemainingTimeInMS, MIN_ATTEMPT_TIMEOUT_IN_MS))
   }
 
+  private async requestWithRetry<T, TInput>(
+    url: string,
+    request: (config?: AxiosRequestConfig<TInput>) => Promise<T>,
+    config?: AxiosRequestConfig<TInput>
+  ): Promise<T> {
+    const signal = config?.signal
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const timeout = this.getAttemptTimeoutInMS(config?.timeout || undefined)
+
+        return await request(timeout === undefined ? config : { ...config, timeout })
+      } catch (error: any) {
+        // cancelled requests are not retried
+        if (signal?.aborted || attempt >= this.retryPolicy.maxAttempts || !isRetryableError(this.retryPolicy, url, error)) {
+          throw error
+        }
+
+        const retryAfterInMS = parseRetryAfterInMS(error?.response?.headers?.['retry-after'])
+
+        // fail fast instead of waiting longer than any backoff delay, an earlier attempt would only be rejected again
+        if (retryAfterInMS !== undefined && retryAfterInMS > this.retryPolicy.maxDelayInMS) {
+          throw error
+        }
+
+        const delayInMS = getRetryDelayInMS(this.retryPolicy, attempt, retryAfterInMS)
+
+        // give up if the next attempt would not have the shortest timeout before the reserve of the Lambda invocation
+        const remainingTimeInMS = this.getRemainingTimeBudgetInMS()
+        if (remainingTimeInMS !== undefined && remainingTimeInMS - delayInMS < this.retryPolicy.minRemainingTimeInMS + MIN_ATTEMPT_TIMEOUT_IN_MS) {
+          throw error
+        }
+
+        await waitForRetry(delayInMS, signal)
+
+        if (signal?.aborted) {
+          throw error
+        }
+      }
+    }
+  }
+
+  /** Remaining time of the current Lambda invocation, `undefined` if there is no time budget */
+  public getRemainingTimeBudgetInMS(): number | undefined {
+    const scope = QCClient.currentScope.getStore()
+    const getRemainingTimeInMS = scope?.instance === this && scope.getRemainingTimeInMS ? scope.getRemainingTimeInMS : this.getRemainingTimeInMS
+
+    return getRemainingTimeInMS?.()
+  }
+
+  /** HMAC of the data keyed by the credentials, e.g. for tokens that only the same QuantConnect account can redeem on any Lambda container */
+  public sign(data: string): string {
+    return crypto.createHmac('sha256', this.apiToken).update(`${this.userId}:${data}`, 'utf8').digest('base64url')
+  }
+
+  private static getBaseURL(baseURL?: string): string {
+    return baseURL ?? process.env.QUANTCONNECT_API_BASE_URL ?? DEFAULT_BASE_URL
+  }
+
+  private static getEnvironmentTimeoutInMS(): number | undefined {
+    const timeoutInMS = Number(process.env.QUANTCONNECT_API_TIMEOUT_IN_MS)
+    return process.env.QUANTCONNECT_API_TIMEOUT_IN_MS && Number.isFinite(timeoutInMS) ? timeoutInMS : undefined
+  }
+
+  private static getInstanceKey({ userId, apiToken, baseURL, cassette }: QCClientGetInstanceParams): string {
+    const key = `${QCClient.getBaseURL(baseURL)}|${userId}:${crypto.createHash('sha256').update(apiToken, 'utf8').digest('hex')}`
+    return cassette ? `${key}|${cassette.mode}:${cassette.path}` : key
+  }
+
+  /** Limit the number of cached clients; the least recently used clients get evicted first */
+  public static setMaxInstances(maxInstances: number) {
+    this.maxInstances = maxInstances
+    this.evictInstances()
+  }
+
+  private static evictInstances() {
+    for (const key of this.instances.keys()) {
+      if (this.instances.size <= this.maxInstances) {
+        break
+      }
+
+      this.instances.delete(key)
+    }
+  }
+
+  /**
+   * Bind a client to everything that is run within `fn`, so `getInstance()` without params resolves to it.
+   * The remaining time, e.g. of the current Lambda invocation, only applies within `fn`, as other requests share the client.
+   */
+  public static runWithInstance<T>(instance: QCClient, fn: () => T, getRemainingTimeInMS?: () => number): T {
+    return this.currentScope.run({ instance, getRemainingTimeInMS }, fn)
+  }
+
+  /**
+   * Without params, return the client bound to the current request by `runWithInstance`.
+   * With params, return the client for these credentials and create it if needed.
+   */
   public static getInstance(params?: QCClientGetInstanceParams): QCClient {
-    if (!this.instance) {
-      if (!params) {
-        throw new Error('userId and apiToken need be provided for initial instance retrieval')
+    if (!params) {
+      const currentScope = this.currentScope.getStore()
+
+      if (!currentScope) {
+        throw new Error('userId and apiToken need be provided if no instance is bound to the current request')
       }
 
-      this.instance = new QCClient(params)
+      return currentScope.instance
     }
 
-    return this.instance
+    const key = this.getInstanceKey(params)
+    const instance = this.instances.get(key) ?? new QCClient(params)
+
+    // re-insert to mark the client as most recently used
+    this.instances.delete(key)
+    this.instances.set(key, instance)
+    this.evictInstances()
+
+    return instance
   }
 
   public async post<TInput, TOutput>(url: string, params?: TInput, config?: AxiosRequestConfig<TInput>): Promise<TOutput> {
-    const { data: rawData } = await this.client.post<TOutput>(url, params, config)
+    const { data: rawData, headers } = await this.requestWithRetry(url, (attemptConfig) => this.client.post<TOutput>(url, params, attemptConfig), config)
+
+    if (isFailedQCApiResponse(rawData)) {
+      const errors = Array.isArray(rawData.errors) ? rawData.errors.map(String) : []
+      throw new QCApiError(url, errors, headers?.['x-request-id'] ?? headers?.['cf-ray'])
+    }
+
     const data = fixDateStrings(rawData)
     return data
   }
 
   public async postWithRawResponse<TInput, TOutput>(url: string, params?: TInput, config?: AxiosRequestConfig<TInput>) {
-    return await this.client.post<TOutput>(url, params, config)
+    return await this.requestWithRetry(url, (attemptConfig) => this.client.post<TOutput>(url, params, attemptConfig), config)
   }
 
   public async postFormData<TInput, TOutput>(url: string, data: TInput, formData: FormData, config?: AxiosRequestConfig<TInput>): Promise<TOutput> {
@@ -0,0 +1,4 @@
+const READ_ONLY_ENDPOINT_REGEX = /(^|\/)(read|list|get|properties|estimate)(\/|$)/
+
+/** QuantConnect only uses POST, so read-only endpoints are told apart by their path, e.g. `/projects/read`, `/object/get` or `backtests/read/insights` */
+export const isReadOnlyEndpoint = (url: string | undefined): boolean => READ_ONLY_ENDPOINT_REGEX.test(url ?? '')
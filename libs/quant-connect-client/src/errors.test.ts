@@ -0,0 +1,38 @@
+import { isFailedQCApiResponse, QCApiError } from './errors'
+
+describe('libs/quant-connect-client/src/errors', () => {
+  describe('QCApiError', () => {
+    it('should carry endpoint, errors and request id', () => {
+      const error = new QCApiError('/projects/read', ['Project not found'], 'request-123')
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error.name).toBe('QCApiError')
+      expect(error.endpoint).toBe('/projects/read')
+      expect(error.errors).toEqual(['Project not found'])
+      expect(error.requestId).toBe('request-123')
+    })
+
+    it('should build a readable message', () => {
+      expect(new QCApiError('/files/update', ['File not found', 'Project locked']).message).toBe(
+        'QuantConnect API request to /files/update failed: File not found; Project locked'
+      )
+      expect(new QCApiError('/files/update', [], 'request-123').message).toBe(
+        'QuantConnect API request to /files/update failed: Unknown error (request id: request-123)'
+      )
+    })
+  })
+
+  describe('isFailedQCApiResponse', () => {
+    it('should detect responses with success false', () => {
+      expect(isFailedQCApiResponse({ success: false, errors: ['error'] })).toBe(true)
+      expect(isFailedQCApiResponse({ success: false })).toBe(true)
+    })
+
+    it('should ignore successful or non-object responses', () => {
+      expect(isFailedQCApiResponse({ success: true })).toBe(false)
+      expect(isFailedQCApiResponse({ projects: [] })).toBe(false)
+      expect(isFailedQCApiResponse(null)).toBe(false)
+      expect(isFailedQCApiResponse('success')).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,35 @@
+const getErrorMessage = (endpoint: string, errors: string[], requestId?: string) => {
+  const message = `QuantConnect API request to ${endpoint} failed: ${errors.length > 0 ? errors.join('; ') : 'Unknown error'}`
+  return requestId ? `${message} (request id: ${requestId})` : message
+}
+
+/** QuantConnect answers many failed requests with HTTP 200 and `{ success: false, errors: [...] }` */
+export class QCApiError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly errors: string[],
+    public readonly requestId?: string
+  ) {
+    super(getErrorMessage(endpoint, errors, requestId))
+    this.name = 'QCApiError'
+  }
+}
+
+/** The request would have to wait for the rate limit beyond its deadline, e.g. the end of the Lambda invocation */
+export class QCRateLimitError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QCRateLimitError'
+  }
+}
+
+/** The cassette of the record and replay mode can't be used or has no recorded response for a request */
+export class QCCassetteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QCCassetteError'
+  }
+}
+
+export const isFailedQCApiResponse = (data: unknown): data is { success: false; errors?: unknown } =>
+  typeof data === 'object' && data !== null && (data as { success?: unknown }).success === false
@@ -1 +1,6 @@
+export * from './cassette'
 export * from './client'
+export * from './endpoints'
+export * from './errors'
+export * from './rate-limiter'
+export * from './retry-policy'
@@ -0,0 +1,113 @@
+import { QCRateLimitError } from './errors'
+import { TokenBucket } from './rate-limiter'
+
+describe('libs/quant-connect-client/src/rate-limiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: 0 })
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('TokenBucket', () => {
+    it('should allow bursts up to the capacity without waiting', async () => {
+      const bucket = new TokenBucket({ capacity: 3, refillIntervalInMS: 1000 })
+
+      await bucket.acquire()
+      await bucket.acquire()
+      await bucket.acquire()
+
+      expect(Date.now()).toBe(0)
+    })
+
+    it('should wait for a refill once the bucket is empty', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 1000 })
+      const acquired = jest.fn()
+
+      await bucket.acquire()
+      bucket.acquire().then(acquired)
+
+      await jest.advanceTimersByTimeAsync(999)
+      expect(acquired).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(acquired).toHaveBeenCalled()
+    })
+
+    it('should serve waiting requests in order', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 100 })
+      const order: number[] = []
+
+      const acquisitions = [1, 2, 3].map((index) => bucket.acquire().then(() => order.push(index)))
+      await jest.advanceTimersByTimeAsync(200)
+      await Promise.all(acquisitions)
+
+      expect(order).toEqual([1, 2, 3])
+    })
+
+    it('should not refill beyond the capacity', async () => {
+      const bucket = new TokenBucket({ capacity: 2, refillIntervalInMS: 100 })
+      const acquired = jest.fn()
+
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await bucket.acquire()
+      await bucket.acquire()
+      bucket.acquire().then(acquired)
+
+      await jest.advanceTimersByTimeAsync(99)
+      expect(acquired).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(acquired).toHaveBeenCalled()
+    })
+
+    it('should stop waiting once the request is cancelled without using up a token', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 1000 })
+      const abortController = new AbortController()
+      const acquired = jest.fn()
+
+      await bucket.acquire()
+      const cancelled = bucket.acquire({ signal: abortController.signal })
+      const assertion = expect(cancelled).rejects.toThrow('canceled')
+      bucket.acquire().then(acquired)
+
+      abortController.abort()
+      await assertion
+
+      await jest.advanceTimersByTimeAsync(1000)
+      expect(acquired).toHaveBeenCalled()
+    })
+
+    it('should reject requests that are already cancelled', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 1000 })
+      const abortController = new AbortController()
+      abortController.abort()
+
+      await expect(bucket.acquire({ signal: abortController.signal })).rejects.toThrow('canceled')
+      await expect(bucket.acquire()).resolves.toBeUndefined()
+    })
+
+    it('should reject requests that would get a token after their deadline', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 5000 })
+
+      await bucket.acquire()
+
+      await expect(bucket.acquire({ deadline: 4000 })).rejects.toThrow(QCRateLimitError)
+      expect(Date.now()).toBe(0)
+    })
+
+    it('should reject requests that reach their deadline while waiting for earlier requests', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillIntervalInMS: 1000 })
+
+      await bucket.acquire()
+      bucket.acquire()
+      const promise = bucket.acquire({ deadline: 1500 })
+      const assertion = expect(promise).rejects.toThrow(QCRateLimitError)
+
+      await jest.advanceTimersByTimeAsync(1500)
+      await assertion
+    })
+  })
+})
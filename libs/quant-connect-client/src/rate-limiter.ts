@@ -0,0 +1,110 @@
+import { CanceledError, type GenericAbortSignal } from 'axios'
+import { QCRateLimitError } from './errors'
+
+export interface TokenBucketOptions {
+  /** Maximum number of requests that can be sent in a burst */
+  capacity: number
+  /** Time it takes to refill a single token */
+  refillIntervalInMS: number
+}
+
+export interface TokenBucketAcquireOptions {
+  /** Stop waiting once the request is cancelled */
+  signal?: GenericAbortSignal
+  /** Stop waiting if no token is available by then, in ms since the epoch */
+  deadline?: number
+}
+
+export interface QCClientRateLimits {
+  read: TokenBucketOptions
+  write: TokenBucketOptions
+}
+
+export const DEFAULT_RATE_LIMITS: QCClientRateLimits = {
+  // QuantConnect allows about 100 requests per minute
+  read: { capacity: 10, refillIntervalInMS: 600 },
+  // writes in quick succession cause dirty write errors, e.g. compiling right after a file update
+  write: { capacity: 1, refillIntervalInMS: 5000 },
+}
+
+export class TokenBucket {
+  private tokens: number
+  private lastRefillAt: number
+  private queue: Promise<void> = Promise.resolve()
+
+  constructor(private readonly options: TokenBucketOptions) {
+    this.tokens = options.capacity
+    this.lastRefillAt = Date.now()
+  }
+
+  private refill() {
+    const now = Date.now()
+    const refilledTokens = Math.floor((now - this.lastRefillAt) / this.options.refillIntervalInMS)
+
+    if (refilledTokens <= 0) {
+      return
+    }
+
+    this.tokens = Math.min(this.options.capacity, this.tokens + refilledTokens)
+    this.lastRefillAt = this.tokens === this.options.capacity ? now : this.lastRefillAt + refilledTokens * this.options.refillIntervalInMS
+  }
+
+  private take = async ({ signal, deadline = Infinity }: TokenBucketAcquireOptions) => {
+    this.refill()
+
+    while (this.tokens < 1) {
+      const waitInMS = this.lastRefillAt + this.options.refillIntervalInMS - Date.now()
+
+      // requests that gave up while waiting for earlier requests neither wait nor use up a token
+      if (signal?.aborted || Date.now() + waitInMS > deadline) {
+        return false
+      }
+
+      await new Promise((resolve) => setTimeout(() => resolve(undefined), Math.max(0, waitInMS)))
+      this.refill()
+    }
+
+    if (signal?.aborted || Date.now() > deadline) {
+      return false
+    }
+
+    this.tokens -= 1
+    return true
+  }
+
+  /** Wait until a token is available and consume it. Waiting requests are served in order and stop waiting once they are cancelled or reach their deadline. */
+  public acquire({ signal, deadline }: TokenBucketAcquireOptions = {}): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new CanceledError())
+      const onDeadline = () => reject(new QCRateLimitError('The rate limit allows no request to QuantConnect before the deadline of the request'))
+      const deadlineTimeout = deadline === undefined ? undefined : setTimeout(onDeadline, Math.max(0, deadline - Date.now()))
+
+      signal?.addEventListener?.('abort', onAbort, { once: true })
+
+      if (signal?.aborted) {
+        onAbort()
+      }
+
+      const acquired = this.queue.then(() => this.take({ signal, deadline }))
+      this.queue = acquired.then(
+        () => undefined,
+        () => undefined
+      )
+
+      acquired
+        .then((isAcquired) => {
+          if (isAcquired) {
+            resolve()
+          } else if (signal?.aborted) {
+            onAbort()
+          } else {
+            onDeadline()
+          }
+        }, reject)
+        .finally(() => {
+          clearTimeout(deadlineTimeout)
+          signal?.removeEventListener?.('abort', onAbort)
+        })
+    })
+  }
+}
@@ -0,0 +1,87 @@
+import { DEFAULT_RETRY_POLICY, getRetryDelayInMS, isRetryableError, parseRetryAfterInMS } from './retry-policy'
+
+describe('libs/quant-connect-client/src/retry-policy', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('DEFAULT_RETRY_POLICY', () => {
+    it('should treat read and list endpoints as idempotent', () => {
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/projects/read')).toBe(true)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('backtests/list')).toBe(true)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('backtests/read/insights')).toBe(true)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/object/properties')).toBe(true)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/object/get')).toBe(true)
+    })
+
+    it('should treat write endpoints as non-idempotent', () => {
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/projects/create')).toBe(false)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/files/update')).toBe(false)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/live/update/liquidate')).toBe(false)
+      expect(DEFAULT_RETRY_POLICY.isIdempotentRequest('/projects/readme')).toBe(false)
+    })
+  })
+
+  describe('parseRetryAfterInMS', () => {
+    it('should parse delay seconds', () => {
+      expect(parseRetryAfterInMS('3')).toBe(3000)
+      expect(parseRetryAfterInMS(2)).toBe(2000)
+    })
+
+    it('should parse HTTP dates relative to now', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2015 07:28:00 GMT'))
+
+      expect(parseRetryAfterInMS('Wed, 21 Oct 2015 07:28:05 GMT')).toBe(5000)
+      expect(parseRetryAfterInMS('Wed, 21 Oct 2015 07:27:00 GMT')).toBe(0)
+    })
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfterInMS(undefined)).toBeUndefined()
+      expect(parseRetryAfterInMS('')).toBeUndefined()
+      expect(parseRetryAfterInMS('soon')).toBeUndefined()
+    })
+  })
+
+  describe('getRetryDelayInMS', () => {
+    it('should prefer the Retry-After delay', () => {
+      expect(getRetryDelayInMS(DEFAULT_RETRY_POLICY, 1, 4000)).toBe(4000)
+    })
+
+    it('should apply full jitter to the exponential delay', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.5)
+
+      expect(getRetryDelayInMS(DEFAULT_RETRY_POLICY, 1)).toBe(250)
+      expect(getRetryDelayInMS(DEFAULT_RETRY_POLICY, 2)).toBe(500)
+      expect(getRetryDelayInMS(DEFAULT_RETRY_POLICY, 3)).toBe(1000)
+    })
+
+    it('should cap the delay at maxDelayInMS', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.999)
+
+      expect(getRetryDelayInMS(DEFAULT_RETRY_POLICY, 10)).toBeLessThan(DEFAULT_RETRY_POLICY.maxDelayInMS)
+    })
+  })
+
+  describe('isRetryableError', () => {
+    it('should retry 429 for any request', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/create', { response: { status: 429 } })).toBe(true)
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', { response: { status: 429 } })).toBe(true)
+    })
+
+    it('should retry 5xx only for idempotent requests', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', { response: { status: 503 } })).toBe(true)
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/create', { response: { status: 503 } })).toBe(false)
+    })
+
+    it('should not retry client errors', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', { response: { status: 401 } })).toBe(false)
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', { response: { status: 404 } })).toBe(false)
+    })
+
+    it('should retry network errors only for idempotent requests', () => {
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', { code: 'ECONNRESET' })).toBe(true)
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/create', { code: 'ECONNRESET' })).toBe(false)
+      expect(isRetryableError(DEFAULT_RETRY_POLICY, '/projects/read', new Error('Unknown'))).toBe(false)
+    })
+  })
+})
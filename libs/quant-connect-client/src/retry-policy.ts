@@ -0,0 +1,76 @@
+import { isReadOnlyEndpoint } from './endpoints'
+
+export interface QCClientRetryPolicy {
+  /** Maximum number of attempts per request, including the initial one */
+  maxAttempts: number
+  /** Base delay of the exponential backoff */
+  baseDelayInMS: number
+  /** Upper bound of a single backoff delay, requests with a longer `Retry-After` are not retried */
+  maxDelayInMS: number
+  /** Status codes that are retried for idempotent requests */
+  retryableStatusCodes: number[]
+  /** Status codes that are retried for non-idempotent requests as well, as the request was rejected before being processed */
+  retryableStatusCodesNonIdempotent: number[]
+  /** Time kept in reserve to answer before the invocation times out, attempts are cut off and not retried within it */
+  minRemainingTimeInMS: number
+  /** Decides whether a request can safely be sent more than once */
+  isIdempotentRequest: (url: string) => boolean
+}
+
+export const DEFAULT_RETRY_POLICY: QCClientRetryPolicy = {
+  maxAttempts: 3,
+  baseDelayInMS: 500,
+  maxDelayInMS: 8000,
+  retryableStatusCodes: [408, 429, 500, 502, 503, 504],
+  retryableStatusCodesNonIdempotent: [429],
+  // Keep enough time to answer with the error before the Lambda invocation times out
+  minRemainingTimeInMS: 5000,
+  isIdempotentRequest: isReadOnlyEndpoint,
+}
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'ERR_NETWORK']
+
+/** Parse the `Retry-After` header, which is either a number of seconds or an HTTP date */
+export const parseRetryAfterInMS = (retryAfter: unknown): number | undefined => {
+  if (typeof retryAfter !== 'string' && typeof retryAfter !== 'number') {
+    return
+  }
+
+  const seconds = Number(retryAfter)
+  if (String(retryAfter).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(String(retryAfter))
+  if (Number.isNaN(date)) {
+    return
+  }
+
+  return Math.max(0, date - Date.now())
+}
+
+/** Exponential backoff with full jitter; a `Retry-After` given by the server takes precedence */
+export const getRetryDelayInMS = (policy: QCClientRetryPolicy, attempt: number, retryAfterInMS?: number): number => {
+  if (retryAfterInMS !== undefined) {
+    return retryAfterInMS
+  }
+
+  const exponentialDelay = Math.min(policy.maxDelayInMS, policy.baseDelayInMS * 2 ** (attempt - 1))
+  return Math.floor(Math.random() * exponentialDelay)
+}
+
+export const isRetryableError = (policy: QCClientRetryPolicy, url: string, error: any): boolean => {
+  const status: number | undefined = error?.response?.status
+  const isIdempotent = policy.isIdempotentRequest(url)
+
+  if (status === undefined) {
+    // no response received, so the request might or might not have reached QuantConnect
+    return isIdempotent && NETWORK_ERROR_CODES.includes(error?.code)
+  }
+
+  if (policy.retryableStatusCodesNonIdempotent.includes(status)) {
+    return true
+  }
+
+  return isIdempotent && policy.retryableStatusCodes.includes(status)
+}
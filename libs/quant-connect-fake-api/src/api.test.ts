@@ -0,0 +1,302 @@
+/* eslint-disable max-lines-per-function */
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import {
+  createBacktestResponse,
+  createCompileResponse,
+  createLiveResponse,
+  createOptimizationResponse,
+  createProjectResponse,
+  getObjectPropertiesResponse,
+  listBacktestsResponse,
+  listObjectResponse,
+  readBacktestChartResponse,
+  readBacktestOrderResponse,
+  readBacktestResponse,
+  readCompileResponse,
+  readFileResponse,
+  readLiveLogResponse,
+  readLiveResponse,
+  readOptimizationResponse,
+  syntaxCheckAiToolResponse,
+} from '@fschaeffler/quant-connect-types'
+import axios from 'axios'
+import FormData from 'form-data'
+import z from 'zod'
+import { FakeQCApi } from './api'
+
+describe('libs/quant-connect-fake-api/src/api', () => {
+  let fakeQCApi: FakeQCApi
+  let client: QCClient
+  let credentialIndex = 0
+
+  // every test gets its own client, as clients are cached per credentials and base URL
+  const getClient = (api: FakeQCApi, params: { apiToken?: string; baseURL?: string } = {}) =>
+    QCClient.getInstance({
+      userId: api.credentials.userId,
+      apiToken: api.credentials.apiToken,
+      baseURL: `http://${credentialIndex++}.fake-quantconnect.local/api/v2`,
+      adapter: api.adapter,
+      rateLimits: { read: { capacity: 100, refillIntervalInMS: 1 }, write: { capacity: 100, refillIntervalInMS: 1 } },
+      retryPolicy: { maxAttempts: 1 },
+      ...params,
+    })
+
+  const createProject = async (language: 'Py' | 'C#' = 'Py') => {
+    const { projects } = createProjectResponse.parse(await client.post('/projects/create', { name: 'Test Project', language }))
+    return projects![0].projectId!
+  }
+
+  const compileProject = async (projectId: number) => {
+    const { compileId } = createCompileResponse.parse(await client.post('/compile/create', { projectId }))
+    return compileId!
+  }
+
+  beforeEach(() => {
+    fakeQCApi = new FakeQCApi()
+    client = getClient(fakeQCApi)
+  })
+
+  describe('requests', () => {
+    it('should reject requests with wrong credentials', async () => {
+      const unauthorizedClient = getClient(fakeQCApi, { apiToken: 'wrong-token' })
+
+      await expect(unauthorizedClient.post('/projects/read', {})).rejects.toThrow(new QCApiError('/projects/read', ["Hash doesn't match"]))
+    })
+
+    it('should reject payloads that do not match the request schema', async () => {
+      await expect(client.post('/projects/create', { name: 'Test Project' })).rejects.toThrow(QCApiError)
+      await expect(client.post('/projects/create', { name: 'Test Project' })).rejects.toMatchObject({ errors: [expect.stringMatching(/^language: /)] })
+    })
+
+    it('should answer unknown endpoints with 404', async () => {
+      await expect(client.post('/unknown/endpoint', {})).rejects.toMatchObject({ response: { status: 404 } })
+    })
+
+    it('should resolve paths with and without a leading slash', async () => {
+      const projectId = await createProject()
+
+      const response = await client.post<unknown, { projects: unknown[] }>('projects/read', { projectId })
+
+      expect(response.projects).toHaveLength(1)
+    })
+
+    it('should return failed responses for errors of the fake API', async () => {
+      await expect(client.post('/projects/read', { projectId: 42 })).rejects.toMatchObject({ errors: ['Project 42 not found'] })
+    })
+  })
+
+  describe('projects and files', () => {
+    it('should create a project with a default file', async () => {
+      const projectId = await createProject()
+
+      const { files } = readFileResponse.parse(await client.post('/files/read', { projectId }))
+
+      expect(files).toEqual([expect.objectContaining({ name: 'main.py', isLibrary: false })])
+    })
+
+    it('should create, update and delete files', async () => {
+      const projectId = await createProject()
+
+      await client.post('/files/create', { projectId, name: 'utils.py', content: 'x = 1' })
+      await client.post('/files/update', { projectId, name: 'utils.py', content: 'x = 2' })
+      await client.post('/files/update', { projectId, name: 'utils.py', newName: 'helpers.py' })
+
+      const { files } = readFileResponse.parse(await client.post('/files/read', { projectId, name: 'helpers.py' }))
+      expect(files).toEqual([expect.objectContaining({ name: 'helpers.py', content: 'x = 2' })])
+
+      await client.post('/files/delete', { projectId, name: 'helpers.py' })
+      await expect(client.post('/files/read', { projectId, name: 'helpers.py' })).rejects.toThrow(QCApiError)
+    })
+
+    it('should delete the backtests of a deleted project', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+      const { backtest } = createBacktestResponse.parse(await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest' }))
+
+      await client.post('/projects/delete', { projectId })
+
+      expect(fakeQCApi.state.backtests.has(backtest!.backtestId!)).toBe(false)
+    })
+  })
+
+  describe('backtests', () => {
+    it('should compile a project', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+
+      const compile = readCompileResponse.parse(await client.post('/compile/read', { projectId, compileId }))
+
+      expect(compile.state).toBe('BuildSuccess')
+    })
+
+    it('should run a backtest with deterministic results', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+
+      const { backtest: created } = createBacktestResponse.parse(
+        await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest', parameters: { period: 10 } })
+      )
+      const { backtest } = readBacktestResponse.parse(await client.post('/backtests/read', { projectId, backtestId: created!.backtestId }))
+      const { backtest: rerun } = createBacktestResponse.parse(
+        await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest', parameters: { period: 10 } })
+      )
+      const { backtest: rerunResult } = readBacktestResponse.parse(await client.post('/backtests/read', { projectId, backtestId: rerun!.backtestId }))
+
+      expect(backtest).toMatchObject({ status: 'Completed.', completed: true, progress: 1 })
+      expect(backtest!.statistics).toEqual(rerunResult!.statistics)
+    })
+
+    it('should report running backtests until their duration passed', async () => {
+      fakeQCApi = new FakeQCApi({ backtestDurationInMS: 60000 })
+      client = getClient(fakeQCApi)
+
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+      const { backtest: created } = createBacktestResponse.parse(
+        await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest' })
+      )
+
+      const { backtest } = readBacktestResponse.parse(await client.post('/backtests/read', { projectId, backtestId: created!.backtestId }))
+
+      expect(backtest).toMatchObject({ completed: false })
+    })
+
+    it('should read orders, charts and lists of a backtest', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+      const { backtest } = createBacktestResponse.parse(await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest' }))
+      const backtestId = backtest!.backtestId
+
+      const { orders, length } = readBacktestOrderResponse.parse(await client.post('/backtests/orders/read', { projectId, backtestId, start: 0, end: 10 }))
+      const chart = await client.post<unknown, z.infer<typeof readBacktestChartResponse>>('/backtests/chart/read', {
+        projectId,
+        backtestId,
+        name: 'Strategy Equity',
+        count: 50,
+        start: 0,
+        end: 2000000000,
+      })
+      const { backtests } = listBacktestsResponse.parse(await client.post('/backtests/list', { projectId, includeStatistics: true }))
+
+      expect(orders).toHaveLength(Math.min(10, length!))
+      expect(chart).toMatchObject({ chart: { name: 'Strategy Equity' } })
+      expect(backtests).toEqual([expect.objectContaining({ backtestId })])
+    })
+
+    it('should reject order pages of more than 100 orders', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+      const { backtest } = createBacktestResponse.parse(await client.post('/backtests/create', { projectId, compileId, backtestName: 'Test Backtest' }))
+
+      await expect(client.post('/backtests/orders/read', { projectId, backtestId: backtest!.backtestId, start: 0, end: 101 })).rejects.toThrow(QCApiError)
+    })
+  })
+
+  describe('optimizations', () => {
+    it('should run a backtest per parameter set', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+
+      const { optimizations } = createOptimizationResponse.parse(
+        await client.post('/optimizations/create', {
+          projectId,
+          name: 'Test Optimization',
+          target: 'TotalPerformance.PortfolioStatistics.SharpeRatio',
+          targetTo: 'max',
+          strategy: 'QuantConnect.Optimizer.Strategies.GridSearchOptimizationStrategy',
+          compileId,
+          parameters: [
+            { name: 'fast', min: 1, max: 3, step: 1 },
+            { name: 'slow', min: 10, max: 20, step: 10 },
+          ],
+          estimatedCost: 1,
+          nodeType: 'O2-8',
+          parallelNodes: 2,
+        })
+      )
+      const { optimization } = readOptimizationResponse.parse(await client.post('/optimizations/read', { optimizationId: optimizations![0].optimizationId }))
+
+      expect(optimization).toMatchObject({ status: 'completed', runtimeStatistics: { Total: '6', Completed: '6' } })
+      expect(Object.keys(optimization!.backtests!)).toHaveLength(6)
+    })
+  })
+
+  describe('live algorithms', () => {
+    it('should deploy, read and stop a live algorithm', async () => {
+      const projectId = await createProject()
+      const compileId = await compileProject(projectId)
+
+      const created = createLiveResponse.parse(
+        await client.post('/live/create', {
+          versionId: '-1',
+          projectId,
+          compileId,
+          nodeId: 'LN-fake',
+          brokerage: { id: 'QuantConnectBrokerage' },
+          dataProviders: { QuantConnectBrokerage: { id: 'QuantConnectBrokerage' } },
+        })
+      )
+      await client.post('/live/update/stop', { projectId })
+
+      const live = readLiveResponse.parse(await client.post('/live/read', { projectId }))
+      const { logs } = readLiveLogResponse.parse(
+        await client.post('/live/logs/read', { projectId, algorithmId: created.deployId, format: 'json', startLine: 0, endLine: 10 })
+      )
+
+      expect(live).toMatchObject({ deployId: created.deployId, status: 'Stopped' })
+      expect(logs).toHaveLength(2)
+    })
+  })
+
+  describe('object store', () => {
+    it('should store objects sent as form data', async () => {
+      const { organizationId } = fakeQCApi.state
+      const formData = new FormData()
+      formData.append('objectData', 'a,b\n1,2')
+
+      await client.postFormData('/object/set', { organizationId, key: 'data/prices.csv', objectData: 'a,b\n1,2' }, formData)
+
+      const { metadata } = getObjectPropertiesResponse.parse(await client.post('/object/properties', { organizationId, key: 'data/prices.csv' }))
+      const { objects } = listObjectResponse.parse(await client.post('/object/list', { organizationId, path: 'data' }))
+
+      expect(metadata).toMatchObject({ key: 'data/prices.csv', size: 7, mime: 'text/csv', preview: 'a,b\n1,2' })
+      expect(objects).toEqual([expect.objectContaining({ key: '/data/prices.csv', name: 'prices.csv', folder: false })])
+    })
+  })
+
+  describe('ai tools', () => {
+    it('should report unbalanced brackets as syntax errors', async () => {
+      const response = syntaxCheckAiToolResponse.parse(
+        await client.post('/ai/tools/syntax-check', { language: 'Py', files: [{ name: 'main.py', content: 'def f(:\n  pass' }] })
+      )
+
+      expect(response).toMatchObject({ state: 'Error', payload: [expect.stringContaining('main.py')] })
+    })
+  })
+
+  describe('listen', () => {
+    afterEach(async () => {
+      await fakeQCApi.close()
+    })
+
+    it('should serve the API over HTTP', async () => {
+      fakeQCApi = new FakeQCApi()
+      const baseURL = await fakeQCApi.listen()
+      const httpClient = getClient(fakeQCApi, { baseURL })
+
+      const response = await httpClient.post<unknown, { success: boolean }>('/projects/create', { name: 'Test Project', language: 'C#' })
+
+      expect(baseURL).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/api\/v2$/)
+      expect(response.success).toBe(true)
+    })
+
+    it('should only accept POST requests', async () => {
+      fakeQCApi = new FakeQCApi()
+      const baseURL = await fakeQCApi.listen()
+
+      const response = await axios.get(`${baseURL}/projects/read`, { validateStatus: () => true })
+
+      expect(response.status).toBe(405)
+    })
+  })
+})
@@ -0,0 +1,189 @@
+import { AxiosError, AxiosHeaders, type AxiosAdapter, type AxiosResponse } from 'axios'
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { getAuthError, type FakeQCCredentials } from './auth'
+import { FakeQCApiError } from './errors'
+import { parseMultipartBody } from './multipart'
+import { FakeQCRawResponse, fakeQCRoutes, type FakeQCRoutes } from './routes'
+import { FakeQCState, type FakeQCStateOptions } from './state'
+
+export const DEFAULT_FAKE_QC_CREDENTIALS: FakeQCCredentials = { userId: 'fake-user-id', apiToken: 'fake-api-token' }
+
+export interface FakeQCApiOptions extends FakeQCStateOptions {
+  credentials?: FakeQCCredentials
+  /** Path the API is served under, like `/api/v2` of the QuantConnect API */
+  basePath?: string
+}
+
+export interface FakeQCRequest {
+  path: string
+  headers: Record<string, unknown>
+  body?: unknown
+}
+
+export interface FakeQCResponse {
+  status: number
+  headers: Record<string, string>
+  data: unknown
+}
+
+const getFailedResponse = (status: number, errors: string[]): FakeQCResponse => ({ status, headers: {}, data: { success: false, errors } })
+
+/** In-memory stand-in for the QuantConnect REST API that can be used as HTTP server or axios adapter */
+export class FakeQCApi {
+  public readonly state: FakeQCState
+  public readonly credentials: FakeQCCredentials
+
+  private readonly basePath: string
+  private readonly routes: FakeQCRoutes = fakeQCRoutes
+  private server?: http.Server
+
+  constructor({ credentials = DEFAULT_FAKE_QC_CREDENTIALS, basePath = '/api/v2', ...stateOptions }: FakeQCApiOptions = {}) {
+    this.state = new FakeQCState(stateOptions)
+    this.credentials = credentials
+    this.basePath = basePath.replace(/\/+$/, '')
+  }
+
+  private getRoutePath(path: string): string {
+    const pathname = path.split('?')[0]
+    const routePath = pathname.startsWith(`${this.basePath}/`) ? pathname.slice(this.basePath.length) : pathname
+
+    return `/${routePath.replace(/^\/+/, '')}`
+  }
+
+  public handleRequest({ path, headers, body }: FakeQCRequest): FakeQCResponse {
+    const routePath = this.getRoutePath(path)
+    const route = this.routes[routePath]
+
+    if (!route) {
+      return getFailedResponse(404, [`Unknown endpoint ${routePath}`])
+    }
+
+    const authError = getAuthError(headers, this.credentials)
+
+    if (authError) {
+      return getFailedResponse(200, [authError])
+    }
+
+    const parsedBody = route.body.safeParse(body ?? {})
+
+    if (!parsedBody.success) {
+      return getFailedResponse(
+        200,
+        parsedBody.error.issues.map((issue) => `${issue.path.join('.') || 'body'}: ${issue.message}`)
+      )
+    }
+
+    try {
+      const result = route.handler(parsedBody.data, this.state)
+
+      if (result instanceof FakeQCRawResponse) {
+        return { status: result.status, headers: result.headers, data: result.data }
+      }
+
+      return { status: 200, headers: {}, data: result }
+    } catch (error) {
+      if (error instanceof FakeQCApiError) {
+        return getFailedResponse(200, [error.message])
+      }
+
+      return getFailedResponse(500, [error instanceof Error ? error.message : String(error)])
+    }
+  }
+
+  private parseBody(body: Buffer, contentType = ''): unknown {
+    if (contentType.startsWith('multipart/form-data')) {
+      return parseMultipartBody(body, contentType)
+    }
+
+    return body.length === 0 ? {} : JSON.parse(body.toString('utf8'))
+  }
+
+  /** Axios adapter that answers requests in-process, e.g. `QCClient.getInstance({ ...credentials, adapter: fakeQCApi.adapter })` */
+  public readonly adapter: AxiosAdapter = async (config) => {
+    const headers = AxiosHeaders.from(config.headers as AxiosHeaders).toJSON() as Record<string, string>
+    // relative URLs are appended to the base URL the same way the HTTP adapter of axios does it
+    const url = new URL(
+      /^https?:\/\//.test(config.url ?? '')
+        ? config.url!
+        : `${(config.baseURL ?? 'http://localhost').replace(/\/+$/, '')}/${(config.url ?? '').replace(/^\/+/, '')}`
+    )
+
+    let body: unknown
+
+    if (config.data && typeof config.data.getBuffer === 'function') {
+      // axios serializes form data with its own boundary, which only the form data itself knows about
+      body = this.parseBody(config.data.getBuffer(), config.data.getHeaders()['content-type'])
+    } else {
+      body = typeof config.data === 'string' ? this.parseBody(Buffer.from(config.data, 'utf8')) : (config.data ?? {})
+    }
+
+    const { status, headers: responseHeaders, data } = this.handleRequest({ path: url.pathname, headers, body })
+
+    const response: AxiosResponse = {
+      data: JSON.stringify(data),
+      status,
+      statusText: http.STATUS_CODES[status] ?? '',
+      headers: AxiosHeaders.from({ ...responseHeaders, 'content-type': 'application/json' }),
+      config,
+    }
+
+    if (config.validateStatus && !config.validateStatus(status)) {
+      throw new AxiosError(
+        `Request failed with status code ${status}`,
+        status < 500 ? AxiosError.ERR_BAD_REQUEST : AxiosError.ERR_BAD_RESPONSE,
+        config,
+        null,
+        response
+      )
+    }
+
+    return response
+  }
+
+  private handleHttpRequest(request: http.IncomingMessage, response: http.ServerResponse) {
+    const chunks: Buffer[] = []
+
+    request.on('data', (chunk: Buffer) => chunks.push(chunk))
+    request.on('end', () => {
+      let result: FakeQCResponse
+
+      try {
+        const body = this.parseBody(Buffer.concat(chunks), request.headers['content-type'])
+        result =
+          request.method === 'POST'
+            ? this.handleRequest({ path: request.url ?? '/', headers: request.headers, body })
+            : getFailedResponse(405, ['Only POST requests are supported'])
+      } catch (error) {
+        result = getFailedResponse(400, [`Invalid request body: ${error instanceof Error ? error.message : String(error)}`])
+      }
+
+      response.writeHead(result.status, { ...result.headers, 'Content-Type': 'application/json' })
+      response.end(JSON.stringify(result.data))
+    })
+  }
+
+  /** Start an HTTP server and return its base URL, e.g. `http://127.0.0.1:4000/api/v2` */
+  public async listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    const server = http.createServer((request, response) => this.handleHttpRequest(request, response))
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(port, host, () => resolve())
+    })
+
+    this.server = server
+
+    return `http://${host}:${(server.address() as AddressInfo).port}${this.basePath}`
+  }
+
+  public async close(): Promise<void> {
+    const server = this.server
+    this.server = undefined
+
+    if (server) {
+      server.closeAllConnections()
+      await new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())))
+    }
+  }
+}
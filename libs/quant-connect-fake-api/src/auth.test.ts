@@ -0,0 +1,48 @@
+import crypto from 'crypto'
+import { getAuthError, MAX_TIMESTAMP_AGE_IN_S } from './auth'
+
+describe('libs/quant-connect-fake-api/src/auth', () => {
+  const credentials = { userId: 'test-user', apiToken: 'test-token' }
+  const now = 1640995200000
+
+  const getHeaders = ({ userId = credentials.userId, apiToken = credentials.apiToken, timestamp = String(now / 1000) } = {}) => {
+    const hashedToken = crypto.createHash('sha256').update(`${apiToken}:${timestamp}`, 'utf8').digest('hex')
+
+    return {
+      Authorization: `Basic ${Buffer.from(`${userId}:${hashedToken}`, 'utf8').toString('base64')}`,
+      Timestamp: timestamp,
+    }
+  }
+
+  it('should accept the headers of QCClient', () => {
+    expect(getAuthError(getHeaders(), credentials, now)).toBeUndefined()
+  })
+
+  it('should match the header names case-insensitively', () => {
+    const { Authorization, Timestamp } = getHeaders()
+
+    expect(getAuthError({ authorization: Authorization, timestamp: Timestamp }, credentials, now)).toBeUndefined()
+  })
+
+  it('should reject missing headers', () => {
+    expect(getAuthError({}, credentials, now)).toBe('Authorization and Timestamp headers are required')
+    expect(getAuthError({ Authorization: getHeaders().Authorization }, credentials, now)).toBe('Authorization and Timestamp headers are required')
+  })
+
+  it('should reject outdated timestamps', () => {
+    const timestamp = String(now / 1000 - MAX_TIMESTAMP_AGE_IN_S - 1)
+
+    expect(getAuthError(getHeaders({ timestamp }), credentials, now)).toBe('Timestamp is invalid or expired')
+  })
+
+  it('should reject a wrong user id or API token', () => {
+    expect(getAuthError(getHeaders({ userId: 'other-user' }), credentials, now)).toBe("Hash doesn't match")
+    expect(getAuthError(getHeaders({ apiToken: 'other-token' }), credentials, now)).toBe("Hash doesn't match")
+  })
+
+  it('should reject a hash of a different timestamp', () => {
+    const headers = { ...getHeaders(), Timestamp: String(now / 1000 - 1) }
+
+    expect(getAuthError(headers, credentials, now)).toBe("Hash doesn't match")
+  })
+})
@@ -0,0 +1,38 @@
+import crypto from 'crypto'
+
+export interface FakeQCCredentials {
+  userId: string
+  apiToken: string
+}
+
+// QuantConnect rejects requests with outdated timestamps to prevent replay attacks
+export const MAX_TIMESTAMP_AGE_IN_S = 7200
+
+const getHeaderValue = (headers: Record<string, unknown>, name: string): string | undefined => {
+  const value = Object.entries(headers).find(([key]) => key.toLowerCase() === name)?.[1]
+  return Array.isArray(value) ? String(value[0]) : value === undefined || value === null ? undefined : String(value)
+}
+
+/**
+ * Validate the `Authorization: Basic base64(userId:sha256(apiToken:timestamp))` and `Timestamp` headers
+ * that `QCClient` sends with every request. Returns the error message for invalid headers.
+ */
+export const getAuthError = (headers: Record<string, unknown>, credentials: FakeQCCredentials, now = Date.now()): string | undefined => {
+  const authorization = getHeaderValue(headers, 'authorization')
+  const timestamp = getHeaderValue(headers, 'timestamp')
+
+  if (!authorization?.startsWith('Basic ') || !timestamp) {
+    return 'Authorization and Timestamp headers are required'
+  }
+
+  if (!/^\d+$/.test(timestamp) || Math.abs(Math.floor(now / 1000) - Number(timestamp)) > MAX_TIMESTAMP_AGE_IN_S) {
+    return 'Timestamp is invalid or expired'
+  }
+
+  const [userId, hashedToken] = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8').split(':')
+  const expectedHashedToken = crypto.createHash('sha256').update(`${credentials.apiToken}:${timestamp}`, 'utf8').digest('hex')
+
+  if (userId !== credentials.userId || hashedToken !== expectedHashedToken) {
+    return "Hash doesn't match"
+  }
+}
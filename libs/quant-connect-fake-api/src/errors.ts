@@ -0,0 +1,7 @@
+/** Error that is returned as a failed QuantConnect response `{ success: false, errors: [message] }` */
+export class FakeQCApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'FakeQCApiError'
+  }
+}
@@ -0,0 +1,6 @@
+export * from './api'
+export * from './auth'
+export * from './errors'
+export * from './results'
+export * from './routes'
+export * from './state'
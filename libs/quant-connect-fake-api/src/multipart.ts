@@ -0,0 +1,38 @@
+/** Parse the fields of a `multipart/form-data` body; file fields are kept as buffers */
+export const parseMultipartBody = (body: Buffer, contentType: string): Record<string, string | Buffer> => {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType)
+  const fields: Record<string, string | Buffer> = {}
+
+  if (!boundary) {
+    return fields
+  }
+
+  const delimiter = Buffer.from(`--${boundary[1] ?? boundary[2]}`)
+  let start = body.indexOf(delimiter)
+
+  while (start !== -1) {
+    const end = body.indexOf(delimiter, start + delimiter.length)
+
+    if (end === -1) {
+      break
+    }
+
+    // every part starts with CRLF after the delimiter and ends with CRLF before the next one
+    const part = body.subarray(start + delimiter.length + 2, end - 2)
+    const headerEnd = part.indexOf('\r\n\r\n')
+
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf8')
+      const content = part.subarray(headerEnd + 4)
+      const name = /name="([^"]*)"/i.exec(headers)?.[1]
+
+      if (name) {
+        fields[name] = /filename="/i.test(headers) ? content : content.toString('utf8')
+      }
+    }
+
+    start = end
+  }
+
+  return fields
+}
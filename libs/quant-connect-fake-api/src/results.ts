@@ -0,0 +1,179 @@
+import crypto from 'crypto'
+import type { FakeQCBacktest } from './state'
+
+export type FakeQCCandle = [number, number, number, number, number]
+export type FakeQCPoint = [number, number]
+
+export interface FakeQCOrder {
+  id: number
+  time: Date
+  price: number
+  quantity: number
+  fee: number
+}
+
+export interface FakeQCClosedTrade {
+  entryTime: Date
+  entryPrice: number
+  exitTime: Date
+  exitPrice: number
+  quantity: number
+  profitLoss: number
+  totalFees: number
+}
+
+export interface FakeQCBacktestResult {
+  start: Date
+  end: Date
+  startEquity: number
+  endEquity: number
+  equity: FakeQCCandle[]
+  returns: FakeQCPoint[]
+  drawdown: FakeQCPoint[]
+  benchmark: FakeQCPoint[]
+  orders: FakeQCOrder[]
+  closedTrades: FakeQCClosedTrade[]
+  netProfit: number
+  compoundingAnnualReturn: number
+  maxDrawdown: number
+  sharpeRatio: number
+  annualStandardDeviation: number
+  winRate: number
+  totalFees: number
+}
+
+const START_EQUITY = 100000
+const START_DATE = Date.UTC(2024, 0, 1)
+const END_DATE = Date.UTC(2024, 11, 31)
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const TRADING_DAYS_PER_YEAR = 252
+const FEE_PER_ORDER = 1
+
+export const FAKE_QC_SYMBOL = { value: 'SPY', id: 'SPY R735QTJ8XC9X', permtick: 'SPY' }
+
+/** Deterministic pseudo random numbers, so the same compile and parameters always produce the same backtest */
+const createRandom = (seed: string) => {
+  let state = crypto.createHash('sha256').update(seed, 'utf8').digest().readUInt32LE(0)
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let value = Math.imul(state ^ (state >>> 15), 1 | state)
+    value = (value + Math.imul(value ^ (value >>> 7), 61 | value)) ^ value
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+const createNormalRandom = (random: () => number) => () => Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random())
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits
+
+const getTradingDays = (): Date[] => {
+  const days: Date[] = []
+
+  for (let time = START_DATE; time <= END_DATE; time += DAY_IN_MS) {
+    const day = new Date(time)
+
+    if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6) {
+      days.push(day)
+    }
+  }
+
+  return days
+}
+
+const getStandardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / Math.max(1, values.length - 1))
+}
+
+/** Simulate a long-only SPY strategy that enters and exits at a fixed interval */
+export const createBacktestResult = (backtest: Pick<FakeQCBacktest, 'compileId' | 'parameters'>): FakeQCBacktestResult => {
+  const random = createRandom(`${backtest.compileId}:${JSON.stringify(Object.entries(backtest.parameters).sort())}`)
+  const normalRandom = createNormalRandom(random)
+  const holdingDays = 5 + Math.floor(random() * 11)
+
+  const days = getTradingDays()
+  const orders: FakeQCOrder[] = []
+  const closedTrades: FakeQCClosedTrade[] = []
+  const equity: FakeQCCandle[] = []
+  const returns: FakeQCPoint[] = []
+  const drawdown: FakeQCPoint[] = []
+  const benchmark: FakeQCPoint[] = []
+  const dailyReturns: number[] = []
+
+  let price = 470
+  let cash = START_EQUITY
+  let shares = 0
+  let previousEquity = START_EQUITY
+  let peakEquity = START_EQUITY
+  let maxDrawdown = 0
+
+  days.forEach((day, index) => {
+    price = round(price * Math.exp(0.0004 + 0.011 * normalRandom()))
+    const time = Math.floor(day.getTime() / 1000)
+
+    if (index % holdingDays === 0 && index < days.length - 1) {
+      const quantity = shares === 0 ? Math.floor((cash * 0.95) / price) : -shares
+      orders.push({ id: orders.length + 1, time: day, price, quantity, fee: FEE_PER_ORDER })
+
+      cash -= quantity * price + FEE_PER_ORDER
+      shares += quantity
+
+      if (shares === 0) {
+        const entry = orders[orders.length - 2]
+        closedTrades.push({
+          entryTime: entry.time,
+          entryPrice: entry.price,
+          exitTime: day,
+          exitPrice: price,
+          quantity: entry.quantity,
+          profitLoss: round((price - entry.price) * entry.quantity),
+          totalFees: 2 * FEE_PER_ORDER,
+        })
+      }
+    }
+
+    const currentEquity = round(cash + shares * price)
+    peakEquity = Math.max(peakEquity, currentEquity)
+    maxDrawdown = Math.max(maxDrawdown, 1 - currentEquity / peakEquity)
+    dailyReturns.push(currentEquity / previousEquity - 1)
+
+    equity.push([
+      time,
+      previousEquity,
+      round(Math.max(previousEquity, currentEquity) * 1.001),
+      round(Math.min(previousEquity, currentEquity) * 0.999),
+      currentEquity,
+    ])
+    returns.push([time, round((currentEquity / previousEquity - 1) * 100, 4)])
+    drawdown.push([time, round((currentEquity / peakEquity - 1) * 100, 4)])
+    benchmark.push([time, price])
+
+    previousEquity = currentEquity
+  })
+
+  const endEquity = previousEquity
+  const years = (days[days.length - 1].getTime() - days[0].getTime()) / (365.25 * DAY_IN_MS)
+  const dailyStandardDeviation = getStandardDeviation(dailyReturns)
+  const meanDailyReturn = dailyReturns.reduce((sum, value) => sum + value, 0) / dailyReturns.length
+
+  return {
+    start: days[0],
+    end: days[days.length - 1],
+    startEquity: START_EQUITY,
+    endEquity,
+    equity,
+    returns,
+    drawdown,
+    benchmark,
+    orders,
+    closedTrades,
+    netProfit: endEquity / START_EQUITY - 1,
+    compoundingAnnualReturn: (endEquity / START_EQUITY) ** (1 / years) - 1,
+    maxDrawdown,
+    sharpeRatio: dailyStandardDeviation === 0 ? 0 : (meanDailyReturn / dailyStandardDeviation) * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    annualStandardDeviation: dailyStandardDeviation * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    winRate: closedTrades.length === 0 ? 0 : closedTrades.filter((trade) => trade.profitLoss > 0).length / closedTrades.length,
+    totalFees: orders.length * FEE_PER_ORDER,
+  }
+}
@@ -0,0 +1,23 @@
+import z from 'zod'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+const LEAN_VERSION = {
+  id: 17000,
+  created: new Date(Date.UTC(2025, 0, 1)),
+  description: 'Fake LEAN version',
+  leanHash: 'fake-lean-hash',
+  leanCloudHash: 'fake-lean-cloud-hash',
+  name: 'v2.5.17000',
+  ref: 'master',
+  public: true,
+}
+
+export const accountRoutes: FakeQCRoutes = {
+  '/account/read': defineRoute(z.object({}).passthrough(), (_body, state) => ({
+    organizationId: state.organizationId,
+    creditBalance: 1000,
+    card: { brand: 'visa', expiration: '12/99', last4: '4242' },
+    success: true,
+  })),
+  '/lean/versions/read': defineRoute(z.object({}).passthrough(), () => ({ versions: [LEAN_VERSION], success: true })),
+}
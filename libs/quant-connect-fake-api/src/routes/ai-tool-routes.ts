@@ -0,0 +1,94 @@
+import {
+  backtestInitAiToolBody,
+  completeAiToolBody,
+  errorEnhanceAiToolBody,
+  pep8ConvertAiToolBody,
+  searchAiToolBody,
+  syntaxCheckAiToolBody,
+} from '@fschaeffler/quant-connect-types'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+const VERSION = 1
+
+const PEP8_NAMES: Record<string, string> = {
+  Initialize: 'initialize',
+  OnData: 'on_data',
+  SetStartDate: 'set_start_date',
+  SetEndDate: 'set_end_date',
+  SetCash: 'set_cash',
+  AddEquity: 'add_equity',
+  SetHoldings: 'set_holdings',
+  Liquidate: 'liquidate',
+  Debug: 'debug',
+  Portfolio: 'portfolio',
+}
+
+const toPep8 = (content: string) => content.replace(/\b[A-Z][A-Za-z]+\b/g, (name) => PEP8_NAMES[name] ?? name)
+
+// unbalanced brackets are the only syntax errors the fake API detects
+const getSyntaxErrors = (name: string, content: string): string[] => {
+  const pairs: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+  const openBrackets: string[] = []
+
+  for (const [index, line] of content.split('\n').entries()) {
+    for (const character of line) {
+      if (Object.values(pairs).includes(character)) {
+        openBrackets.push(character)
+      } else if (pairs[character] && openBrackets.pop() !== pairs[character]) {
+        return [`${name}:${index + 1}: SyntaxError: unmatched '${character}'`]
+      }
+    }
+  }
+
+  return openBrackets.length > 0 ? [`${name}: SyntaxError: '${openBrackets.at(-1)}' was never closed`] : []
+}
+
+export const aiToolRoutes: FakeQCRoutes = {
+  '/ai/tools/backtest-init': defineRoute(backtestInitAiToolBody, ({ files }) => {
+    const errors = files.flatMap(({ name, content }) => getSyntaxErrors(name ?? '', content ?? ''))
+
+    return {
+      state: errors.length > 0 ? 'Error' : 'End',
+      version: VERSION,
+      payload: errors.length > 0 ? errors.join('\n') : 'The algorithm initializes without errors.',
+      payloadType: 'string',
+    }
+  }),
+  '/ai/tools/complete': defineRoute(completeAiToolBody, ({ language, sentence, responseSizeLimit }) => {
+    const completions = Object.entries(PEP8_NAMES)
+      .map(([name, pep8Name]) => (language === 'Py' ? `self.${pep8Name}` : name))
+      .filter((completion) => completion.toLowerCase().includes(sentence.split(/[.\s]/).at(-1)?.toLowerCase() ?? ''))
+
+    return { state: 'End', version: VERSION, payload: completions.slice(0, responseSizeLimit ?? completions.length), payloadType: 'array' }
+  }),
+  '/ai/tools/error-enhance': defineRoute(errorEnhanceAiToolBody, ({ error }) => ({
+    state: 'End',
+    version: VERSION,
+    payload: `The error "${error.message}" is raised by the algorithm. Check the values used at the location of the stack trace.`,
+    payloadType: 'string',
+  })),
+  '/ai/tools/pep8-convert': defineRoute(pep8ConvertAiToolBody, ({ files }) => ({
+    state: 'End',
+    version: VERSION,
+    payload: Object.fromEntries(files.map(({ name, content }) => [name, toPep8(content ?? '')])),
+    payloadType: 'object',
+  })),
+  '/ai/tools/syntax-check': defineRoute(syntaxCheckAiToolBody, ({ files }) => {
+    const errors = files.flatMap(({ name, content }) => getSyntaxErrors(name ?? '', content ?? ''))
+
+    return { state: errors.length > 0 ? 'Error' : 'End', version: VERSION, payload: errors, payloadType: 'array' }
+  }),
+  '/ai/tools/search': defineRoute(searchAiToolBody, ({ criteria }) => ({
+    state: 'End',
+    version: VERSION,
+    retrivals: criteria.flatMap(({ input, type, count }) =>
+      Array.from({ length: Math.min(count ?? 1, 3) }, (_, index) => ({
+        url: `https://www.quantconnect.com/docs/v2/search?type=${type}&q=${encodeURIComponent(input)}&result=${index + 1}`,
+        score: 1 - index / 10,
+        content: `${type} result ${index + 1} for "${input}"`,
+        type: index,
+      }))
+    ),
+    messageId: 1,
+  })),
+}
@@ -0,0 +1,336 @@
+import {
+  createBacktestBody,
+  deleteBacktestBody,
+  listBacktestsBody,
+  readBacktestBody,
+  readBacktestChartBody,
+  readBacktestOrderBody,
+  readBacktestsInsightsBody,
+  readBacktestsReportBody,
+  updateBacktestBody,
+} from '@fschaeffler/quant-connect-types'
+import { FakeQCApiError } from '../errors'
+import { createBacktestResult, FAKE_QC_SYMBOL, type FakeQCBacktestResult, type FakeQCOrder } from '../results'
+import type { FakeQCBacktest, FakeQCState } from '../state'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+// QuantConnect limits paginated reads of orders and insights to 100 items
+const MAX_PAGE_SIZE = 100
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(3)}%`
+const formatNumber = (value: number) => value.toFixed(3)
+
+export const getStatistics = (result: FakeQCBacktestResult) => ({
+  'Total Orders': String(result.orders.length),
+  'Compounding Annual Return': formatPercent(result.compoundingAnnualReturn),
+  Drawdown: formatPercent(result.maxDrawdown),
+  'Start Equity': String(result.startEquity),
+  'End Equity': result.endEquity.toFixed(2),
+  'Net Profit': formatPercent(result.netProfit),
+  'Sharpe Ratio': formatNumber(result.sharpeRatio),
+  'Win Rate': `${Math.round(result.winRate * 100)}%`,
+  'Loss Rate': `${Math.round((1 - result.winRate) * 100)}%`,
+  'Annual Standard Deviation': formatNumber(result.annualStandardDeviation),
+  'Total Fees': `$${result.totalFees.toFixed(2)}`,
+})
+
+export const getRuntimeStatistics = (result: FakeQCBacktestResult) => ({
+  Equity: `$${result.endEquity.toFixed(2)}`,
+  Fees: `-$${result.totalFees.toFixed(2)}`,
+  Holdings: '$0.00',
+  'Net Profit': `$${(result.endEquity - result.startEquity).toFixed(2)}`,
+  Return: formatPercent(result.netProfit),
+  Unrealized: '$0.00',
+})
+
+export const getCharts = (result: Pick<FakeQCBacktestResult, 'equity' | 'returns' | 'drawdown' | 'benchmark'>) => ({
+  'Strategy Equity': {
+    name: 'Strategy Equity',
+    chartType: 0,
+    series: {
+      Equity: { name: 'Equity', unit: '$', index: 0, seriesType: 2, values: result.equity },
+      Return: { name: 'Return', unit: '%', index: 1, seriesType: 3, values: result.returns },
+    },
+  },
+  Drawdown: {
+    name: 'Drawdown',
+    chartType: 0,
+    series: { 'Equity Drawdown': { name: 'Equity Drawdown', unit: '%', index: 0, seriesType: 0, values: result.drawdown } },
+  },
+  Benchmark: {
+    name: 'Benchmark',
+    chartType: 0,
+    series: { Benchmark: { name: 'Benchmark', unit: '$', index: 0, seriesType: 0, values: result.benchmark } },
+  },
+})
+
+export const toOrderResponse = (order: FakeQCOrder, algorithmId: string) => ({
+  id: order.id,
+  symbol: FAKE_QC_SYMBOL,
+  price: order.price,
+  priceCurrency: 'USD',
+  time: order.time,
+  createdTime: order.time,
+  lastFillTime: order.time,
+  quantity: order.quantity,
+  type: 0,
+  status: 3,
+  securityType: 1,
+  direction: order.quantity > 0 ? 0 : 1,
+  value: order.price * order.quantity,
+  events: [
+    {
+      algorithmId,
+      symbol: FAKE_QC_SYMBOL.id,
+      symbolValue: FAKE_QC_SYMBOL.value,
+      orderId: order.id,
+      orderEventId: 1,
+      id: `${order.id}-1`,
+      status: 'filled',
+      orderFeeAmount: order.fee,
+      orderFeeCurrency: 'USD',
+      fillPrice: order.price,
+      fillPriceCurrency: 'USD',
+      fillQuantity: order.quantity,
+      direction: order.quantity > 0 ? 'buy' : 'sell',
+    },
+  ],
+})
+
+export const getPage = <T>(items: T[], start: number, end: number, maxPageSize = MAX_PAGE_SIZE): T[] => {
+  if (end - start > maxPageSize) {
+    throw new FakeQCApiError(`The difference between end and start must not exceed ${maxPageSize}`)
+  }
+
+  return items.slice(start, end)
+}
+
+/** Pick at most `count` evenly spaced points between `start` and `end` in Unix time */
+export const selectChartValues = (values: [number, ...number[]][], count: number, start: number, end: number) => {
+  const selectedValues = values.filter(([time]) => time >= start && time <= end)
+
+  if (count <= 0 || selectedValues.length <= count) {
+    return selectedValues
+  }
+
+  return Array.from({ length: count }, (_, index) => selectedValues[Math.round((index * (selectedValues.length - 1)) / Math.max(1, count - 1))])
+}
+
+const getCompletedResult = (backtest: FakeQCBacktest, state: FakeQCState): FakeQCBacktestResult => {
+  if (!state.isBacktestCompleted(backtest)) {
+    throw new FakeQCApiError(`Backtest ${backtest.backtestId} is still running`)
+  }
+
+  return createBacktestResult(backtest)
+}
+
+const getProgress = (backtest: FakeQCBacktest, state: FakeQCState) =>
+  state.backtestDurationInMS === 0 ? 1 : Math.min(1, (Date.now() - backtest.created.getTime()) / state.backtestDurationInMS)
+
+export const toBacktestResponse = (backtest: FakeQCBacktest, state: FakeQCState) => {
+  const completed = state.isBacktestCompleted(backtest)
+
+  const summary = {
+    backtestId: backtest.backtestId,
+    projectId: backtest.projectId,
+    organizationId: state.organizationId,
+    name: backtest.name,
+    note: backtest.note,
+    created: backtest.created,
+    optimizationId: backtest.optimizationId,
+    parameterSet: backtest.parameters,
+    completed,
+    progress: completed ? 1 : getProgress(backtest, state),
+    status: completed ? 'Completed.' : 'In Progress...',
+    hasInitializeError: false,
+  }
+
+  if (!completed) {
+    return summary
+  }
+
+  const result = createBacktestResult(backtest)
+
+  return {
+    ...summary,
+    backtestStart: result.start,
+    backtestEnd: result.end,
+    tradeableDates: result.equity.length,
+    charts: Object.fromEntries(Object.keys(getCharts(result)).map((name) => [name, { name }])),
+    runtimeStatistics: getRuntimeStatistics(result),
+    statistics: getStatistics(result),
+    totalPerformance: {
+      tradeStatistics: {
+        startDateTime: result.closedTrades.at(0)?.entryTime,
+        endDateTime: result.closedTrades.at(-1)?.exitTime,
+        totalNumberOfTrades: result.closedTrades.length,
+        numberOfWinningTrades: result.closedTrades.filter((trade) => trade.profitLoss > 0).length,
+        numberOfLosingTrades: result.closedTrades.filter((trade) => trade.profitLoss <= 0).length,
+        totalProfitLoss: result.closedTrades.reduce((sum, trade) => sum + trade.profitLoss, 0),
+        totalFees: result.totalFees,
+        winRate: result.winRate,
+        lossRate: result.closedTrades.length === 0 ? 0 : 1 - result.winRate,
+      },
+      portfolioStatistics: {
+        startEquity: result.startEquity,
+        endEquity: result.endEquity,
+        totalNetProfit: result.netProfit,
+        compoundingAnnualReturn: result.compoundingAnnualReturn,
+        drawdown: result.maxDrawdown,
+        sharpeRatio: result.sharpeRatio,
+        annualStandardDeviation: result.annualStandardDeviation,
+        annualVariance: result.annualStandardDeviation ** 2,
+        winRate: result.winRate,
+        lossRate: result.closedTrades.length === 0 ? 0 : 1 - result.winRate,
+      },
+      closedTrades: result.closedTrades.map((trade) => ({
+        symbol: FAKE_QC_SYMBOL,
+        entryTime: trade.entryTime,
+        entryPrice: trade.entryPrice,
+        direction: 0,
+        quantity: trade.quantity,
+        exitTime: trade.exitTime,
+        exitPrice: trade.exitPrice,
+        profitLoss: trade.profitLoss,
+        totalFees: trade.totalFees,
+      })),
+    },
+  }
+}
+
+const toBacktestListItem = (backtest: FakeQCBacktest, state: FakeQCState, includeStatistics: boolean) => {
+  const completed = state.isBacktestCompleted(backtest)
+  const item = {
+    backtestId: backtest.backtestId,
+    name: backtest.name,
+    created: backtest.created,
+    status: completed ? 'Completed.' : 'In Progress...',
+    progress: completed ? 1 : getProgress(backtest, state),
+    optimizationId: backtest.optimizationId,
+    parameterSet: backtest.parameters,
+    tags: [],
+  }
+
+  if (!includeStatistics || !completed) {
+    return item
+  }
+
+  const result = createBacktestResult(backtest)
+
+  return {
+    ...item,
+    tradeableDates: result.equity.length,
+    sharpeRatio: result.sharpeRatio,
+    compoundingAnnualReturn: result.compoundingAnnualReturn,
+    drawdown: result.maxDrawdown,
+    netProfit: result.netProfit,
+    winRate: result.winRate,
+    lossRate: result.closedTrades.length === 0 ? 0 : 1 - result.winRate,
+    trades: result.closedTrades.length,
+    parameters: Object.keys(backtest.parameters).length,
+  }
+}
+
+/** Create a backtest, also used for the backtests of optimizations */
+export const createBacktest = (state: FakeQCState, params: Pick<FakeQCBacktest, 'projectId' | 'compileId' | 'name' | 'parameters' | 'optimizationId'>) => {
+  const compile = state.compiles.get(params.compileId)
+
+  if (!compile || compile.projectId !== params.projectId) {
+    throw new FakeQCApiError(`Compile ${params.compileId} not found in project ${params.projectId}`)
+  }
+
+  const created = new Date()
+  const backtest: FakeQCBacktest = {
+    ...params,
+    backtestId: state.nextId(),
+    note: '',
+    created,
+    completesAt: created.getTime() + state.backtestDurationInMS,
+  }
+
+  state.backtests.set(backtest.backtestId, backtest)
+
+  return backtest
+}
+
+export const backtestRoutes: FakeQCRoutes = {
+  '/backtests/create': defineRoute(createBacktestBody, ({ projectId, compileId, backtestName, parameters }, state) => {
+    state.getProject(projectId)
+
+    const backtest = createBacktest(state, { projectId, compileId, name: backtestName, parameters: parameters ?? {} })
+
+    return { backtest: toBacktestResponse(backtest, state), debugging: false, success: true }
+  }),
+  '/backtests/read': defineRoute(readBacktestBody, ({ projectId, backtestId }, state) => ({
+    backtest: toBacktestResponse(state.getBacktest(projectId, backtestId), state),
+    debugging: false,
+    success: true,
+  })),
+  '/backtests/list': defineRoute(listBacktestsBody, ({ projectId, includeStatistics }, state) => {
+    state.getProject(projectId)
+
+    const backtests = [...state.backtests.values()].filter((backtest) => backtest.projectId === projectId && !backtest.optimizationId)
+
+    return {
+      backtests: backtests.map((backtest) => toBacktestListItem(backtest, state, includeStatistics ?? false)),
+      count: backtests.length,
+      success: true,
+    }
+  }),
+  '/backtests/update': defineRoute(updateBacktestBody, ({ projectId, backtestId, name, note }, state) => {
+    const backtest = state.getBacktest(projectId, backtestId)
+
+    backtest.name = name ?? backtest.name
+    backtest.note = note ?? backtest.note
+
+    return { success: true }
+  }),
+  '/backtests/delete': defineRoute(deleteBacktestBody, ({ projectId, backtestId }, state) => {
+    state.getBacktest(projectId, backtestId)
+    state.backtests.delete(backtestId)
+
+    return { success: true }
+  }),
+  '/backtests/orders/read': defineRoute(readBacktestOrderBody, ({ projectId, backtestId, start, end }, state) => {
+    const result = getCompletedResult(state.getBacktest(projectId, backtestId), state)
+
+    return {
+      orders: getPage(result.orders, start, end).map((order) => toOrderResponse(order, backtestId)),
+      length: result.orders.length,
+      success: true,
+    }
+  }),
+  '/backtests/chart/read': defineRoute(readBacktestChartBody, ({ projectId, backtestId, name, count, start, end }, state) => {
+    const backtest = state.getBacktest(projectId, backtestId)
+
+    if (!state.isBacktestCompleted(backtest)) {
+      return { progress: getProgress(backtest, state), status: 'loading', success: true }
+    }
+
+    const chart = getCharts(createBacktestResult(backtest))[name as keyof ReturnType<typeof getCharts>]
+
+    if (!chart) {
+      throw new FakeQCApiError(`Chart ${name} not found in backtest ${backtestId}`)
+    }
+
+    const series = Object.fromEntries(
+      Object.entries(chart.series).map(([seriesName, series]) => [seriesName, { ...series, values: selectChartValues(series.values, count, start, end) }])
+    )
+
+    return { chart: { ...chart, series }, success: true }
+  }),
+  '/backtests/read/insights': defineRoute(readBacktestsInsightsBody, ({ projectId, backtestId, start, end }, state) => {
+    getCompletedResult(state.getBacktest(projectId, backtestId), state)
+    getPage([], start, end)
+
+    return { insights: [], length: 0, success: true }
+  }),
+  '/backtests/read/report': defineRoute(readBacktestsReportBody, ({ projectId, backtestId }, state) => {
+    const backtest = state.getBacktest(projectId, backtestId)
+    const result = getCompletedResult(backtest, state)
+
+    const rows = Object.entries(getStatistics(result)).map(([name, value]) => `<tr><td>${name}</td><td>${value}</td></tr>`)
+
+    return { report: `<html><body><h1>${backtest.name}</h1><table>${rows.join('')}</table></body></html>`, success: true }
+  }),
+}
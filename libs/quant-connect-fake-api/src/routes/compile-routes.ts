@@ -0,0 +1,42 @@
+import { createCompileBody, readCompileBody } from '@fschaeffler/quant-connect-types'
+import crypto from 'crypto'
+import { FakeQCApiError } from '../errors'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+export const compileRoutes: FakeQCRoutes = {
+  '/compile/create': defineRoute(createCompileBody, ({ projectId }, state) => {
+    const project = state.getProject(projectId)
+
+    const signature = crypto
+      .createHash('md5')
+      .update(project.files.map((file) => `${file.name}:${file.content}`).join('\n'), 'utf8')
+      .digest('hex')
+    const compile = { compileId: `${signature}-${state.nextId()}`, projectId, signature, created: new Date() }
+
+    state.compiles.set(compile.compileId, compile)
+
+    return {
+      compileId: compile.compileId,
+      state: 'InQueue',
+      parameters: [],
+      projectId,
+      signature,
+      signatureOrder: project.files.map((file) => file.name),
+      success: true,
+    }
+  }),
+  '/compile/read': defineRoute(readCompileBody, ({ projectId, compileId }, state) => {
+    const compile = state.compiles.get(compileId)
+
+    if (!compile || compile.projectId !== projectId) {
+      throw new FakeQCApiError(`Compile ${compileId} not found in project ${projectId}`)
+    }
+
+    return {
+      compileId,
+      state: 'BuildSuccess',
+      logs: [`Build Request Successful for Project ID: ${projectId}, with CompileID: ${compileId}`],
+      success: true,
+    }
+  }),
+}
@@ -0,0 +1,73 @@
+import { createFileBody, deleteFileBody, readFileBody, updateFileBody } from '@fschaeffler/quant-connect-types'
+import { FakeQCApiError } from '../errors'
+import type { FakeQCFile, FakeQCProject } from '../state'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+const getFile = (project: FakeQCProject, name: string): FakeQCFile => {
+  const file = project.files.find((file) => file.name === name)
+
+  if (!file) {
+    throw new FakeQCApiError(`File ${name} not found in project ${project.projectId}`)
+  }
+
+  return file
+}
+
+const toFileResponse = (project: FakeQCProject, file: FakeQCFile) => ({
+  id: file.id,
+  projectId: project.projectId,
+  name: file.name,
+  content: file.content,
+  modified: file.modified,
+  open: false,
+  isLibrary: false,
+})
+
+export const fileRoutes: FakeQCRoutes = {
+  '/files/create': defineRoute(createFileBody, ({ projectId, name, content }, state) => {
+    const project = state.getProject(projectId)
+
+    if (project.files.some((file) => file.name === name)) {
+      throw new FakeQCApiError(`File ${name} already exists in project ${projectId}`)
+    }
+
+    project.files.push({ id: state.nextNumericId(), name, content: content ?? '', modified: new Date() })
+    project.modified = new Date()
+
+    return { success: true }
+  }),
+  '/files/read': defineRoute(readFileBody, ({ projectId, name }, state) => {
+    const project = state.getProject(projectId)
+    const files = name ? [getFile(project, name)] : project.files
+
+    return { files: files.map((file) => toFileResponse(project, file)), success: true }
+  }),
+  '/files/update': defineRoute(updateFileBody, (body, state) => {
+    const project = state.getProject(body.projectId)
+    const file = getFile(project, body.name)
+
+    if ('newName' in body) {
+      if (project.files.some(({ name }) => name === body.newName)) {
+        throw new FakeQCApiError(`File ${body.newName} already exists in project ${body.projectId}`)
+      }
+
+      file.name = body.newName
+    } else {
+      file.content = body.content
+    }
+
+    file.modified = new Date()
+    project.modified = file.modified
+
+    return { success: true }
+  }),
+  '/files/delete': defineRoute(deleteFileBody, ({ projectId, name }, state) => {
+    const project = state.getProject(projectId)
+    const file = getFile(project, name)
+
+    project.files = project.files.filter((projectFile) => projectFile !== file)
+    project.modified = new Date()
+
+    return { success: true }
+  }),
+}
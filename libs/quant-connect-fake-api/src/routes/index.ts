@@ -0,0 +1,24 @@
+import { accountRoutes } from './account-routes'
+import { aiToolRoutes } from './ai-tool-routes'
+import { backtestRoutes } from './backtest-routes'
+import { compileRoutes } from './compile-routes'
+import { fileRoutes } from './file-routes'
+import { liveRoutes } from './live-routes'
+import { objectStoreRoutes } from './object-store-routes'
+import { optimizationRoutes } from './optimization-routes'
+import { projectRoutes } from './project-routes'
+import type { FakeQCRoutes } from './route'
+
+export * from './route'
+
+export const fakeQCRoutes: FakeQCRoutes = {
+  ...accountRoutes,
+  ...projectRoutes,
+  ...fileRoutes,
+  ...compileRoutes,
+  ...backtestRoutes,
+  ...optimizationRoutes,
+  ...objectStoreRoutes,
+  ...liveRoutes,
+  ...aiToolRoutes,
+}
@@ -0,0 +1,213 @@
+import {
+  broadcastLiveCommandBody,
+  createLiveBody,
+  createLiveCommandBody,
+  liquidateLiveBody,
+  listLiveBody,
+  readLiveAuth0Body,
+  readLiveBody,
+  readLiveChartBody,
+  readLiveInsightBody,
+  readLiveLogBody,
+  readLiveOrderBody,
+  readLivePortfolioBody,
+  stopLiveBody,
+} from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+import { FakeQCApiError } from '../errors'
+import { createBacktestResult } from '../results'
+import type { FakeQCLiveAlgorithm, FakeQCState } from '../state'
+import { getCharts, getPage, getRuntimeStatistics, selectChartValues, toOrderResponse } from './backtest-routes'
+import { defineRoute, FakeQCRawResponse, type FakeQCRoutes } from './route'
+
+// QuantConnect limits a single read of live logs to 250 lines
+const MAX_LOG_LINES = 250
+const MAX_ORDERS_PAGE_SIZE = 1000
+const AUTHORIZATION_URL = 'https://auth.fake-quantconnect.local/authorize'
+
+const getLiveAlgorithm = (state: FakeQCState, projectId: number, algorithmId?: string | null): FakeQCLiveAlgorithm => {
+  if (!algorithmId) {
+    return state.getLatestLiveAlgorithm(projectId)
+  }
+
+  const liveAlgorithm = state.liveAlgorithms.get(algorithmId)
+
+  if (!liveAlgorithm || liveAlgorithm.projectId !== projectId) {
+    throw new FakeQCApiError(`Live algorithm ${algorithmId} not found in project ${projectId}`)
+  }
+
+  return liveAlgorithm
+}
+
+// live algorithms trade like a backtest of their compile
+const getLiveResult = (liveAlgorithm: FakeQCLiveAlgorithm) => createBacktestResult({ compileId: liveAlgorithm.compileId, parameters: {} })
+
+const toLiveResponse = (liveAlgorithm: FakeQCLiveAlgorithm) => ({
+  deployId: liveAlgorithm.deployId,
+  status: liveAlgorithm.status,
+  launched: liveAlgorithm.launched,
+  stopped: liveAlgorithm.stopped,
+  brokerage: liveAlgorithm.brokerage,
+  securityTypes: 'Equity',
+  datacenter: 'fake',
+  isPublicStreaming: false,
+  public: false,
+  runtimeStatistics: getRuntimeStatistics(getLiveResult(liveAlgorithm)),
+})
+
+const stopLiveAlgorithm = (state: FakeQCState, projectId: number, status: 'Stopped' | 'Liquidated') => {
+  const liveAlgorithm = state.getLatestLiveAlgorithm(projectId)
+
+  if (liveAlgorithm.status !== 'Running') {
+    throw new FakeQCApiError(`Live algorithm of project ${projectId} is not running`)
+  }
+
+  liveAlgorithm.status = status
+  liveAlgorithm.stopped = new Date()
+  liveAlgorithm.logs.push(`${liveAlgorithm.stopped.toISOString()} Algorithm ${status.toLowerCase()}.`)
+}
+
+export const liveRoutes: FakeQCRoutes = {
+  '/live/create': defineRoute(createLiveBody, ({ projectId, compileId, versionId, brokerage }, state) => {
+    const project = state.getProject(projectId)
+    const compile = state.compiles.get(compileId)
+
+    if (!compile || compile.projectId !== projectId) {
+      throw new FakeQCApiError(`Compile ${compileId} not found in project ${projectId}`)
+    }
+
+    if ([...state.liveAlgorithms.values()].some((algorithm) => algorithm.projectId === projectId && algorithm.status === 'Running')) {
+      throw new FakeQCApiError(`Project ${projectId} already has a running live algorithm`)
+    }
+
+    const launched = new Date()
+    const liveAlgorithm: FakeQCLiveAlgorithm = {
+      deployId: state.nextId('L-'),
+      projectId,
+      compileId,
+      brokerage: brokerage.id,
+      status: 'Running',
+      launched,
+      logs: [`${launched.toISOString()} Launching ${project.name} with ${brokerage.id}.`],
+      commands: [],
+    }
+
+    state.liveAlgorithms.set(liveAlgorithm.deployId, liveAlgorithm)
+
+    return {
+      responseCode: 'Success',
+      source: 'api',
+      deployId: liveAlgorithm.deployId,
+      versionId: Number(versionId) || undefined,
+      projectId,
+      live: toLiveResponse(liveAlgorithm),
+      success: true,
+    }
+  }),
+  '/live/read': defineRoute(readLiveBody, ({ projectId }, state) => ({
+    ...toLiveResponse(state.getLatestLiveAlgorithm(projectId)),
+    projectName: state.getProject(projectId).name,
+    success: true,
+  })),
+  '/live/list': defineRoute(listLiveBody, ({ projectId, status }, state) => ({
+    live: [...state.liveAlgorithms.values()]
+      .filter((algorithm) => (!projectId || algorithm.projectId === projectId) && (!status || algorithm.status === status))
+      .map((algorithm) => ({
+        projectId: algorithm.projectId,
+        deployId: algorithm.deployId,
+        status: algorithm.status,
+        launched: algorithm.launched,
+        stopped: algorithm.stopped,
+        brokerage: algorithm.brokerage,
+        equity: getLiveResult(algorithm).endEquity,
+      })),
+    success: true,
+  })),
+  '/live/logs/read': defineRoute(readLiveLogBody, ({ projectId, algorithmId, startLine, endLine }, state) => {
+    const liveAlgorithm = getLiveAlgorithm(state, projectId, algorithmId)
+
+    if (endLine - startLine > MAX_LOG_LINES) {
+      throw new FakeQCApiError(`The difference between endLine and startLine must not exceed ${MAX_LOG_LINES}`)
+    }
+
+    return { logs: liveAlgorithm.logs.slice(startLine, endLine), length: liveAlgorithm.logs.length, deploymentOffset: 0, success: true }
+  }),
+  '/live/portfolio/read': defineRoute(readLivePortfolioBody, ({ projectId }, state) => {
+    const result = getLiveResult(state.getLatestLiveAlgorithm(projectId))
+
+    return {
+      portfolio: {
+        holdings: {},
+        cash: { USD: { symbol: 'USD', amount: result.endEquity, conversionRate: 1, currencySymbol: '$', valueInAccountCurrency: result.endEquity } },
+      },
+      success: true,
+    }
+  }),
+  '/live/orders/read': defineRoute(readLiveOrderBody, ({ projectId, algorithmId, start, end }, state) => {
+    const liveAlgorithm = getLiveAlgorithm(state, projectId, algorithmId)
+    const { orders } = getLiveResult(liveAlgorithm)
+
+    return {
+      orders: getPage(orders, start, end, MAX_ORDERS_PAGE_SIZE).map((order) => toOrderResponse(order, liveAlgorithm.deployId)),
+      length: orders.length,
+      success: true,
+    }
+  }),
+  '/live/insights/read': defineRoute(readLiveInsightBody, ({ projectId, algorithmId, start, end }, state) => {
+    getLiveAlgorithm(state, projectId, algorithmId)
+    getPage([], start ?? 0, end)
+
+    return { insights: [], length: 0, success: true }
+  }),
+  '/live/chart/read': defineRoute(readLiveChartBody, ({ projectId, name, count, start, end }, state) => {
+    const chart = getCharts(getLiveResult(state.getLatestLiveAlgorithm(projectId)))[name as keyof ReturnType<typeof getCharts>]
+
+    if (!chart) {
+      throw new FakeQCApiError(`Chart ${name} not found in the live algorithm of project ${projectId}`)
+    }
+
+    const series = Object.fromEntries(
+      Object.entries(chart.series).map(([seriesName, series]) => [seriesName, { ...series, values: selectChartValues(series.values, count, start, end) }])
+    )
+
+    return { chart: { ...chart, series }, success: true }
+  }),
+  '/live/update/liquidate': defineRoute(liquidateLiveBody, ({ projectId }, state) => {
+    stopLiveAlgorithm(state, projectId, 'Liquidated')
+
+    return { success: true }
+  }),
+  '/live/update/stop': defineRoute(stopLiveBody, ({ projectId }, state) => {
+    stopLiveAlgorithm(state, projectId, 'Stopped')
+
+    return { success: true }
+  }),
+  '/live/commands/create': defineRoute(createLiveCommandBody, ({ projectId, command }, state) => {
+    const liveAlgorithm = state.getLatestLiveAlgorithm(projectId)
+
+    if (liveAlgorithm.status !== 'Running') {
+      throw new FakeQCApiError(`Live algorithm of project ${projectId} is not running`)
+    }
+
+    liveAlgorithm.commands.push(command)
+
+    return { success: true }
+  }),
+  '/live/commands/broadcast': defineRoute(broadcastLiveCommandBody, ({ organizationId, excludeProjectId, command }, state) => {
+    state.verifyOrganization(organizationId)
+
+    for (const liveAlgorithm of state.liveAlgorithms.values()) {
+      if (liveAlgorithm.status === 'Running' && liveAlgorithm.projectId !== excludeProjectId) {
+        liveAlgorithm.commands.push(command)
+      }
+    }
+
+    return { success: true }
+  }),
+  // QCClient only sends `redirect: false` to start the authorization, so there is no body to validate
+  '/live/auth0/authorize': defineRoute(z.object({}).passthrough(), () => new FakeQCRawResponse({ success: true }, { Location: AUTHORIZATION_URL })),
+  '/live/auth0/read': defineRoute(readLiveAuth0Body, ({ brokerage }) => ({
+    authorization: { brokerage, accessToken: 'fake-access-token', refreshToken: 'fake-refresh-token' },
+    success: true,
+  })),
+}
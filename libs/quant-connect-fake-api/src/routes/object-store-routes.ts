@@ -0,0 +1,136 @@
+import { deleteObjectBody, getObjectBody, getObjectPropertiesBody, listObjectBody, setObjectBody } from '@fschaeffler/quant-connect-types'
+import crypto from 'crypto'
+import z from 'zod'
+import { FakeQCApiError } from '../errors'
+import type { FakeQCObject, FakeQCState } from '../state'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+// download URLs of the fake API can't be resolved, they only mimic the response of QuantConnect
+const DOWNLOAD_BASE_URL = 'https://object-store.fake-quantconnect.local'
+const PREVIEW_LENGTH = 100
+
+// the schema expects a browser `File`, but multipart bodies are parsed into strings and buffers
+const setObjectFormDataBody = setObjectBody.extend({ objectData: z.union([z.string(), z.instanceof(Buffer)]).optional() })
+
+const normalizeKey = (key: string) => key.replace(/^\/+/, '')
+
+const getObject = (state: FakeQCState, key: string): FakeQCObject => {
+  const object = state.objects.get(normalizeKey(key))
+
+  if (!object) {
+    throw new FakeQCApiError(`Object ${key} not found`)
+  }
+
+  return object
+}
+
+const toBuffer = (objectData: string | Buffer = ''): Buffer => (Buffer.isBuffer(objectData) ? objectData : Buffer.from(objectData, 'utf8'))
+
+const getMime = (key: string) => {
+  if (key.endsWith('.json')) {
+    return 'application/json'
+  }
+
+  return key.endsWith('.csv') ? 'text/csv' : 'text/plain'
+}
+
+export const objectStoreRoutes: FakeQCRoutes = {
+  '/object/set': defineRoute(setObjectFormDataBody, ({ organizationId, key, objectData }, state) => {
+    state.verifyOrganization(organizationId)
+
+    const normalizedKey = normalizeKey(key)
+    const now = new Date()
+
+    state.objects.set(normalizedKey, {
+      key: normalizedKey,
+      data: toBuffer(objectData),
+      mime: getMime(normalizedKey),
+      created: state.objects.get(normalizedKey)?.created ?? now,
+      modified: now,
+    })
+
+    return { success: true }
+  }),
+  '/object/properties': defineRoute(getObjectPropertiesBody, ({ organizationId, key }, state) => {
+    state.verifyOrganization(organizationId)
+
+    const object = getObject(state, key)
+
+    return {
+      metadata: {
+        key: object.key,
+        created: object.created,
+        modified: object.modified,
+        size: object.data.length,
+        md5: crypto.createHash('md5').update(object.data).digest('hex'),
+        mime: object.mime,
+        preview: object.data.toString('utf8').slice(0, PREVIEW_LENGTH),
+      },
+      success: true,
+    }
+  }),
+  '/object/get': defineRoute(getObjectBody, (body, state) => {
+    state.verifyOrganization(body.organizationId)
+
+    if ('jobId' in body && body.jobId) {
+      if (!state.objectJobs.has(body.jobId)) {
+        throw new FakeQCApiError(`Job ${body.jobId} not found`)
+      }
+
+      return { jobId: body.jobId, url: `${DOWNLOAD_BASE_URL}/${body.jobId}.zip`, success: true }
+    }
+
+    const keys = 'keys' in body ? body.keys.map((key) => getObject(state, key).key) : []
+    const jobId = state.nextId()
+
+    state.objectJobs.set(jobId, keys)
+
+    return { jobId, success: true }
+  }),
+  '/object/list': defineRoute(listObjectBody, ({ organizationId, path }, state) => {
+    state.verifyOrganization(organizationId)
+
+    const prefix = normalizeKey(path ?? '')
+      .replace(/\/?$/, '/')
+      .replace(/^\/$/, '')
+    const objects = new Map<string, { key: string; name: string; modified?: Date; mime?: string; folder: boolean; size: number }>()
+
+    for (const object of state.objects.values()) {
+      if (!object.key.startsWith(prefix)) {
+        continue
+      }
+
+      const [name, ...rest] = object.key.slice(prefix.length).split('/')
+      const folder = rest.length > 0
+      const key = `${prefix}${name}`
+      const entry = objects.get(key) ?? { key: `/${key}`, name, folder, size: 0 }
+
+      entry.size += object.data.length
+
+      if (!folder) {
+        entry.modified = object.modified
+        entry.mime = object.mime
+      }
+
+      objects.set(key, entry)
+    }
+
+    const objectStorageUsed = [...state.objects.values()].reduce((size, object) => size + object.data.length, 0)
+
+    return {
+      path: `/${prefix}`,
+      objects: [...objects.values()],
+      page: 1,
+      totalPages: 1,
+      objectStorageUsed,
+      objectStorageUsedHuman: `${(objectStorageUsed / 1024).toFixed(2)} KB`,
+      success: true,
+    }
+  }),
+  '/object/delete': defineRoute(deleteObjectBody, ({ organizationId, key }, state) => {
+    state.verifyOrganization(organizationId)
+    state.objects.delete(getObject(state, key).key)
+
+    return { success: true }
+  }),
+}
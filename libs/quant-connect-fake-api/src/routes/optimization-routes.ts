@@ -0,0 +1,209 @@
+import {
+  abortOptimizationBody,
+  createOptimizationBody,
+  deleteOptimizationBody,
+  estimateOptimizationBody,
+  listOptimizationsBody,
+  readOptimizationBody,
+  updateOptimizationBody,
+} from '@fschaeffler/quant-connect-types'
+import { FakeQCApiError } from '../errors'
+import { createBacktestResult, type FakeQCBacktestResult } from '../results'
+import type { FakeQCOptimization, FakeQCState } from '../state'
+import { createBacktest } from './backtest-routes'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+// keeps the in-memory state small, the QuantConnect limit is far higher
+const MAX_PARAMETER_SETS = 100
+// seconds a single backtest of an optimization is estimated to run
+const ESTIMATED_BACKTEST_TIME_IN_S = 30
+
+const getTargetValue = (target: string, result: FakeQCBacktestResult): number => {
+  switch (target) {
+    case 'TotalPerformance.PortfolioStatistics.CompoundingAnnualReturn':
+      return result.compoundingAnnualReturn
+    case 'TotalPerformance.PortfolioStatistics.Drawdown':
+      return result.maxDrawdown
+    default:
+      return result.sharpeRatio
+  }
+}
+
+/** All combinations of the parameter values of a grid search */
+const getParameterSets = (parameters: FakeQCOptimization['parameters']): Record<string, number>[] => {
+  const parameterSets = parameters.reduce<Record<string, number>[]>(
+    (sets, { name, min, max, step }) => {
+      const values: number[] = []
+
+      for (let value = min; value <= max && values.length <= MAX_PARAMETER_SETS; value += step) {
+        values.push(value)
+      }
+
+      return sets.flatMap((set) => values.map((value) => ({ ...set, [name]: value })))
+    },
+    [{}]
+  )
+
+  if (parameterSets.length > MAX_PARAMETER_SETS) {
+    throw new FakeQCApiError(`An optimization is limited to ${MAX_PARAMETER_SETS} parameter sets`)
+  }
+
+  return parameterSets
+}
+
+// backtests of an optimization can be deleted on their own
+const getBacktests = (optimization: FakeQCOptimization, state: FakeQCState) =>
+  optimization.backtestIds.map((backtestId) => state.backtests.get(backtestId)).filter((backtest) => backtest !== undefined)
+
+const getStatus = (optimization: FakeQCOptimization, state: FakeQCState): FakeQCOptimization['status'] => {
+  if (optimization.status === 'aborted') {
+    return optimization.status
+  }
+
+  return getBacktests(optimization, state).every((backtest) => state.isBacktestCompleted(backtest)) ? 'completed' : 'running'
+}
+
+const getBestResult = (optimization: FakeQCOptimization, state: FakeQCState): FakeQCBacktestResult | undefined =>
+  getBacktests(optimization, state)
+    .filter((backtest) => state.isBacktestCompleted(backtest))
+    .map((backtest) => createBacktestResult(backtest))
+    .sort((a, b) => (getTargetValue(optimization.target, a) - getTargetValue(optimization.target, b)) * (optimization.targetTo === 'max' ? -1 : 1))
+    .at(0)
+
+const toOptimizationSummary = (optimization: FakeQCOptimization, state: FakeQCState) => {
+  const bestResult = getBestResult(optimization, state)
+
+  return {
+    optimizationId: optimization.optimizationId,
+    projectId: optimization.projectId,
+    name: optimization.name,
+    status: getStatus(optimization, state),
+    nodeType: optimization.nodeType,
+    criterion: { target: optimization.target, extremum: optimization.targetTo },
+    created: optimization.created,
+    sharpeRatio: bestResult?.sharpeRatio,
+    trades: bestResult?.closedTrades.length,
+    parameters: optimization.parameters,
+  }
+}
+
+export const optimizationRoutes: FakeQCRoutes = {
+  '/optimizations/estimate': defineRoute(estimateOptimizationBody, ({ projectId, parameters }, state) => {
+    state.getProject(projectId)
+
+    const parameterSets = getParameterSets(parameters)
+
+    return {
+      estimate: { estimateId: state.nextId(), time: parameterSets.length * ESTIMATED_BACKTEST_TIME_IN_S, balance: 1000 },
+      success: true,
+    }
+  }),
+  '/optimizations/create': defineRoute(
+    createOptimizationBody,
+    ({ projectId, name, target, targetTo, compileId, parameters, nodeType, parallelNodes }, state) => {
+      state.getProject(projectId)
+
+      const optimization: FakeQCOptimization = {
+        optimizationId: state.nextId('O-'),
+        projectId,
+        compileId,
+        name,
+        status: 'running',
+        target,
+        targetTo,
+        nodeType,
+        parallelNodes,
+        parameters,
+        created: new Date(),
+        backtestIds: [],
+      }
+
+      optimization.backtestIds = getParameterSets(parameters).map(
+        (parameterSet) =>
+          createBacktest(state, {
+            projectId,
+            compileId,
+            name: `${name} ${JSON.stringify(parameterSet)}`,
+            parameters: parameterSet,
+            optimizationId: optimization.optimizationId,
+          }).backtestId
+      )
+
+      state.optimizations.set(optimization.optimizationId, optimization)
+
+      return { optimizations: [toOptimizationSummary(optimization, state)], success: true }
+    }
+  ),
+  '/optimizations/read': defineRoute(readOptimizationBody, ({ optimizationId }, state) => {
+    const optimization = state.getOptimization(optimizationId)
+    const backtests = getBacktests(optimization, state)
+    const completedBacktests = backtests.filter((backtest) => state.isBacktestCompleted(backtest))
+
+    return {
+      optimization: {
+        ...toOptimizationSummary(optimization, state),
+        parallelNodes: optimization.parallelNodes,
+        strategy: 'QuantConnect.Optimizer.Strategies.GridSearchOptimizationStrategy',
+        optimizationTarget: optimization.target,
+        requested: optimization.created,
+        runtimeStatistics: {
+          Completed: String(completedBacktests.length),
+          Failed: '0',
+          Running: String(backtests.length - completedBacktests.length),
+          Total: String(backtests.length),
+        },
+        constraints: [],
+        backtests: Object.fromEntries(
+          completedBacktests.map((backtest) => {
+            const result = createBacktestResult(backtest)
+
+            return [
+              backtest.backtestId,
+              {
+                id: backtest.backtestId,
+                name: backtest.name,
+                progress: 1,
+                exitCode: 0,
+                parameterSet: backtest.parameters,
+                startDate: result.start,
+                endDate: result.end,
+              },
+            ]
+          })
+        ),
+      },
+      success: true,
+    }
+  }),
+  '/optimizations/list': defineRoute(listOptimizationsBody, ({ projectId }, state) => {
+    state.getProject(projectId)
+
+    const optimizations = [...state.optimizations.values()].filter((optimization) => optimization.projectId === projectId)
+
+    return { optimizations: optimizations.map((optimization) => toOptimizationSummary(optimization, state)), success: true }
+  }),
+  '/optimizations/update': defineRoute(updateOptimizationBody, ({ optimizationId, name }, state) => {
+    state.getOptimization(optimizationId).name = name
+
+    return { success: true }
+  }),
+  '/optimizations/abort': defineRoute(abortOptimizationBody, ({ optimizationId }, state) => {
+    const optimization = state.getOptimization(optimizationId)
+
+    if (getStatus(optimization, state) === 'completed') {
+      throw new FakeQCApiError(`Optimization ${optimizationId} is already completed`)
+    }
+
+    optimization.status = 'aborted'
+
+    return { success: true }
+  }),
+  '/optimizations/delete': defineRoute(deleteOptimizationBody, ({ optimizationId }, state) => {
+    const optimization = state.getOptimization(optimizationId)
+
+    optimization.backtestIds.forEach((backtestId) => state.backtests.delete(backtestId))
+    state.optimizations.delete(optimizationId)
+
+    return { success: true }
+  }),
+}
@@ -0,0 +1,169 @@
+import {
+  acquireProjectCollaborationLockBody,
+  createProjectBody,
+  createProjectCollaborationBody,
+  deleteProjectBody,
+  deleteProjectCollaborationBody,
+  readProjectBody,
+  readProjectCollaborationBody,
+  readProjectNodeBody,
+  updateProjectBody,
+  updateProjectCollaborationBody,
+  updateProjectNodeBody,
+} from '@fschaeffler/quant-connect-types'
+import { FakeQCApiError } from '../errors'
+import type { FakeQCLanguage, FakeQCProject, FakeQCState } from '../state'
+import { defineRoute, type FakeQCRoutes } from './route'
+
+const DEFAULT_FILES: Record<FakeQCLanguage, { name: string; content: string }> = {
+  Py: {
+    name: 'main.py',
+    content: [
+      'from AlgorithmImports import *',
+      '',
+      '',
+      'class MyAlgorithm(QCAlgorithm):',
+      '    def initialize(self):',
+      '        self.add_equity("SPY")',
+      '',
+    ].join('\n'),
+  },
+  'C#': {
+    name: 'Main.cs',
+    content: ['namespace QuantConnect.Algorithm.CSharp', '{', '    public class MyAlgorithm : QCAlgorithm', '    {', '    }', '}', ''].join('\n'),
+  },
+}
+
+// the account owner of the fake API
+const OWNER_UID = 1
+
+const BACKTEST_NODE = { id: 'fake-backtest-node', name: 'B2-8', sku: 'B2-8', busy: false, cpu: 2, ram: 8 }
+
+export const toProjectResponse = (project: FakeQCProject, state: FakeQCState) => ({
+  projectId: project.projectId,
+  organizationId: state.organizationId,
+  name: project.name,
+  description: project.description,
+  modified: project.modified,
+  created: project.created,
+  ownerId: OWNER_UID,
+  language: project.language,
+  collaborators: project.collaborators,
+  leanVersionId: 17000,
+  leanPinnedToMaster: true,
+  owner: true,
+  parameters: [],
+  libraries: [],
+})
+
+const getCollaborationResponse = (project: FakeQCProject) => ({ collaborators: project.collaborators, success: true })
+
+const getNodesResponse = (project: FakeQCProject) => ({
+  nodes: {
+    backtest: [{ ...BACKTEST_NODE, active: project.nodes.includes(BACKTEST_NODE.id) }],
+    live: [],
+    research: [],
+  },
+  autoSelectNode: project.nodes.length === 0,
+  success: true,
+})
+
+export const projectRoutes: FakeQCRoutes = {
+  '/projects/create': defineRoute(createProjectBody, ({ name, language, organizationId }, state) => {
+    state.verifyOrganization(organizationId)
+
+    const now = new Date()
+    const project: FakeQCProject = {
+      projectId: state.nextNumericId(),
+      name,
+      description: '',
+      language,
+      created: now,
+      modified: now,
+      files: [{ id: state.nextNumericId(), ...DEFAULT_FILES[language], modified: now }],
+      collaborators: [{ uid: OWNER_UID, publicId: 'fake-user', liveControl: true, permission: 'write', owner: true }],
+      nodes: [],
+    }
+
+    state.projects.set(project.projectId, project)
+
+    return { projects: [toProjectResponse(project, state)], versions: [], success: true }
+  }),
+  '/projects/read': defineRoute(readProjectBody, ({ projectId, start, end }, state) => {
+    const projects = projectId ? [state.getProject(projectId)] : [...state.projects.values()].slice(start ?? 0, end ?? undefined)
+
+    return { projects: projects.map((project) => toProjectResponse(project, state)), versions: [], success: true }
+  }),
+  '/projects/update': defineRoute(updateProjectBody, ({ projectId, name, description }, state) => {
+    const project = state.getProject(projectId)
+
+    project.name = name ?? project.name
+    project.description = description ?? project.description
+    project.modified = new Date()
+
+    return { success: true }
+  }),
+  '/projects/delete': defineRoute(deleteProjectBody, ({ projectId }, state) => {
+    state.deleteProject(projectId)
+
+    return { success: true }
+  }),
+  '/projects/collaboration/create': defineRoute(
+    createProjectCollaborationBody,
+    ({ projectId, collaboratorUserId, collaborationLiveControl, collaborationWrite }, state) => {
+      const project = state.getProject(projectId)
+
+      if (project.collaborators.some((collaborator) => collaborator.publicId === collaboratorUserId)) {
+        throw new FakeQCApiError(`User ${collaboratorUserId} is already a collaborator`)
+      }
+
+      project.collaborators.push({
+        uid: state.nextNumericId(),
+        publicId: collaboratorUserId,
+        liveControl: collaborationLiveControl,
+        permission: collaborationWrite ? 'write' : 'read',
+        owner: false,
+      })
+
+      return getCollaborationResponse(project)
+    }
+  ),
+  '/projects/collaboration/read': defineRoute(readProjectCollaborationBody, ({ projectId }, state) => ({
+    ...getCollaborationResponse(state.getProject(projectId)),
+    userLiveControl: true,
+    userPermissions: 'write',
+  })),
+  '/projects/collaboration/update': defineRoute(updateProjectCollaborationBody, ({ projectId, collaboratorUserId, liveControl, write }, state) => {
+    const project = state.getProject(projectId)
+    const collaborator = project.collaborators.find(({ publicId }) => publicId === collaboratorUserId)
+
+    if (!collaborator) {
+      throw new FakeQCApiError(`User ${collaboratorUserId} is no collaborator`)
+    }
+
+    collaborator.liveControl = liveControl
+    collaborator.permission = write ? 'write' : 'read'
+
+    return getCollaborationResponse(project)
+  }),
+  '/projects/collaboration/delete': defineRoute(deleteProjectCollaborationBody, ({ projectId, collaboratorId }, state) => {
+    const project = state.getProject(projectId)
+
+    project.collaborators = project.collaborators.filter(({ publicId, owner }) => owner || publicId !== collaboratorId)
+
+    return getCollaborationResponse(project)
+  }),
+  '/projects/collaboration/lock/acquire': defineRoute(acquireProjectCollaborationLockBody, ({ projectId }, state) => {
+    state.getProject(projectId)
+
+    return { success: true }
+  }),
+  '/projects/nodes/read': defineRoute(readProjectNodeBody, ({ projectId }, state) => getNodesResponse(state.getProject(projectId))),
+  '/projects/nodes/update': defineRoute(updateProjectNodeBody, ({ projectId, nodes }, state) => {
+    const project = state.getProject(projectId)
+
+    project.nodes = nodes ?? []
+
+    return getNodesResponse(project)
+  }),
+}
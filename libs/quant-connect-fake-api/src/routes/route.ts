@@ -0,0 +1,24 @@
+import type { z, ZodTypeAny } from 'zod'
+import type { FakeQCState } from '../state'
+
+export interface FakeQCRoute {
+  /** Zod schema of `@fschaeffler/quant-connect-types` the request body gets validated against */
+  body: ZodTypeAny
+  handler: (body: any, state: FakeQCState) => unknown
+}
+
+export type FakeQCRoutes = Record<string, FakeQCRoute>
+
+export const defineRoute = <TBody extends ZodTypeAny>(body: TBody, handler: (body: z.infer<TBody>, state: FakeQCState) => unknown): FakeQCRoute => ({
+  body,
+  handler,
+})
+
+/** Route result that needs a status code or headers besides the JSON body */
+export class FakeQCRawResponse {
+  constructor(
+    public readonly data: unknown,
+    public readonly headers: Record<string, string> = {},
+    public readonly status = 200
+  ) {}
+}
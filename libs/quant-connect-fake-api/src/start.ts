@@ -0,0 +1,12 @@
+import { FakeQCApi } from './api'
+
+const fakeQCApi = new FakeQCApi({
+  credentials:
+    process.env.QUANTCONNECT_USER_ID && process.env.QUANTCONNECT_API_TOKEN
+      ? { userId: process.env.QUANTCONNECT_USER_ID, apiToken: process.env.QUANTCONNECT_API_TOKEN }
+      : undefined,
+  backtestDurationInMS: Number(process.env.QUANTCONNECT_FAKE_API_BACKTEST_DURATION_IN_MS ?? 0),
+})
+
+// eslint-disable-next-line no-console
+fakeQCApi.listen(Number(process.env.QUANTCONNECT_FAKE_API_PORT ?? 4000), '0.0.0.0').then((baseURL) => console.log(baseURL))
@@ -0,0 +1,185 @@
+import crypto from 'crypto'
+import { FakeQCApiError } from './errors'
+
+export type FakeQCLanguage = 'C#' | 'Py'
+
+export interface FakeQCFile {
+  id: number
+  name: string
+  content: string
+  modified: Date
+}
+
+export interface FakeQCCollaborator {
+  uid: number
+  publicId: string
+  liveControl: boolean
+  permission: 'read' | 'write'
+  owner: boolean
+}
+
+export interface FakeQCProject {
+  projectId: number
+  name: string
+  description: string
+  language: FakeQCLanguage
+  created: Date
+  modified: Date
+  files: FakeQCFile[]
+  collaborators: FakeQCCollaborator[]
+  nodes: string[]
+}
+
+export interface FakeQCCompile {
+  compileId: string
+  projectId: number
+  signature: string
+  created: Date
+}
+
+export interface FakeQCBacktest {
+  backtestId: string
+  projectId: number
+  compileId: string
+  name: string
+  note: string
+  parameters: Record<string, string | number>
+  created: Date
+  completesAt: number
+  optimizationId?: string
+}
+
+export interface FakeQCOptimization {
+  optimizationId: string
+  projectId: number
+  compileId: string
+  name: string
+  status: 'new' | 'aborted' | 'running' | 'completed'
+  target: string
+  targetTo: 'min' | 'max'
+  nodeType: 'O2-8' | 'O4-12' | 'O8-16'
+  parallelNodes: number
+  parameters: { name: string; min: number; max: number; step: number }[]
+  created: Date
+  backtestIds: string[]
+}
+
+export interface FakeQCObject {
+  key: string
+  data: Buffer
+  mime: string
+  created: Date
+  modified: Date
+}
+
+export interface FakeQCLiveAlgorithm {
+  deployId: string
+  projectId: number
+  compileId: string
+  brokerage: string
+  status: 'Running' | 'Stopped' | 'Liquidated'
+  launched: Date
+  stopped?: Date
+  logs: string[]
+  commands: Record<string, unknown>[]
+}
+
+export interface FakeQCStateOptions {
+  organizationId?: string
+  /** Time a backtest stays in progress before it is reported as completed */
+  backtestDurationInMS?: number
+}
+
+/** In-memory data of a single fake QuantConnect account */
+export class FakeQCState {
+  public readonly organizationId: string
+  public readonly backtestDurationInMS: number
+
+  public readonly projects = new Map<number, FakeQCProject>()
+  public readonly compiles = new Map<string, FakeQCCompile>()
+  public readonly backtests = new Map<string, FakeQCBacktest>()
+  public readonly optimizations = new Map<string, FakeQCOptimization>()
+  public readonly objects = new Map<string, FakeQCObject>()
+  public readonly objectJobs = new Map<string, string[]>()
+  public readonly liveAlgorithms = new Map<string, FakeQCLiveAlgorithm>()
+
+  private lastNumericId = 1000
+
+  constructor({ organizationId = 'fake-organization-id', backtestDurationInMS = 0 }: FakeQCStateOptions = {}) {
+    this.organizationId = organizationId
+    this.backtestDurationInMS = backtestDurationInMS
+  }
+
+  public nextNumericId(): number {
+    this.lastNumericId += 1
+    return this.lastNumericId
+  }
+
+  public nextId(prefix = ''): string {
+    return `${prefix}${crypto.randomBytes(16).toString('hex')}`
+  }
+
+  public getProject(projectId: number): FakeQCProject {
+    const project = this.projects.get(projectId)
+
+    if (!project) {
+      throw new FakeQCApiError(`Project ${projectId} not found`)
+    }
+
+    return project
+  }
+
+  public getBacktest(projectId: number, backtestId: string): FakeQCBacktest {
+    const backtest = this.backtests.get(backtestId)
+
+    if (!backtest || backtest.projectId !== projectId) {
+      throw new FakeQCApiError(`Backtest ${backtestId} not found in project ${projectId}`)
+    }
+
+    return backtest
+  }
+
+  public getOptimization(optimizationId: string): FakeQCOptimization {
+    const optimization = this.optimizations.get(optimizationId)
+
+    if (!optimization) {
+      throw new FakeQCApiError(`Optimization ${optimizationId} not found`)
+    }
+
+    return optimization
+  }
+
+  public getLatestLiveAlgorithm(projectId: number): FakeQCLiveAlgorithm {
+    const liveAlgorithm = [...this.liveAlgorithms.values()].filter((algorithm) => algorithm.projectId === projectId).at(-1)
+
+    if (!liveAlgorithm) {
+      throw new FakeQCApiError(`Project ${projectId} has no live algorithm`)
+    }
+
+    return liveAlgorithm
+  }
+
+  public verifyOrganization(organizationId?: string | null) {
+    if (organizationId && organizationId !== this.organizationId) {
+      throw new FakeQCApiError(`Organization ${organizationId} not found`)
+    }
+  }
+
+  public isBacktestCompleted(backtest: FakeQCBacktest, now = Date.now()): boolean {
+    return now >= backtest.completesAt
+  }
+
+  /** Remove a project together with everything that belongs to it */
+  public deleteProject(projectId: number) {
+    this.getProject(projectId)
+    this.projects.delete(projectId)
+
+    for (const entities of [this.compiles, this.backtests, this.optimizations, this.liveAlgorithms] as Map<string, { projectId: number }>[]) {
+      for (const [id, entity] of entities) {
+        if (entity.projectId === projectId) {
+          entities.delete(id)
+        }
+      }
+    }
+  }
+}
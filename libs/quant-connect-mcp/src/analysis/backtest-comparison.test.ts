@@ -0,0 +1,133 @@
+import { compareBacktests, formatBacktestComparison, parseStatistic } from './backtest-comparison'
+
+describe('libs/quant-connect-mcp/src/analysis/backtest-comparison', () => {
+  const baseline = {
+    backtestId: 'backtest-1',
+    name: 'Fast 10',
+    status: 'Completed.' as const,
+    parameterSet: { fast: 10, slow: 50 },
+    totalPerformance: {
+      portfolioStatistics: { sharpeRatio: 1, compoundingAnnualReturn: 0.1, drawdown: 0.2, winRate: 0.5, portfolioTurnover: 0.05 },
+      tradeStatistics: { totalFees: 100 },
+    },
+  }
+
+  const candidate = {
+    backtestId: 'backtest-2',
+    name: 'Fast 20',
+    status: 'Completed.' as const,
+    parameterSet: { fast: 20, slow: 50 },
+    totalPerformance: {
+      portfolioStatistics: { sharpeRatio: 1.5, compoundingAnnualReturn: 0.12, drawdown: 0.1, winRate: 0.5, portfolioTurnover: 0 },
+      tradeStatistics: { totalFees: 50 },
+    },
+  }
+
+  describe('parseStatistic', () => {
+    it('should return numbers as they are', () => {
+      expect(parseStatistic(1.25)).toBe(1.25)
+      expect(parseStatistic(Number.NaN)).toBeNull()
+    })
+
+    it('should parse percentages as fractions', () => {
+      expect(parseStatistic('12.5%')).toBeCloseTo(0.125)
+      expect(parseStatistic('-3%')).toBeCloseTo(-0.03)
+    })
+
+    it('should parse currencies', () => {
+      expect(parseStatistic('$1,234.50')).toBe(1234.5)
+    })
+
+    it('should return null for missing or invalid values', () => {
+      expect(parseStatistic(undefined)).toBeNull()
+      expect(parseStatistic(null)).toBeNull()
+      expect(parseStatistic('')).toBeNull()
+      expect(parseStatistic('AAPL R735QTJ8XC9X')).toBeNull()
+    })
+  })
+
+  describe('compareBacktests', () => {
+    it('should align the statistics with their differences to the baseline', () => {
+      const { baselineBacktestId, statistics } = compareBacktests([baseline, candidate])
+
+      expect(baselineBacktestId).toBe('backtest-1')
+      expect(statistics.map(({ name }) => name)).toEqual(['sharpeRatio', 'compoundingAnnualReturn', 'drawdown', 'winRate', 'totalFees', 'portfolioTurnover'])
+      expect(statistics[0]).toEqual({
+        name: 'sharpeRatio',
+        label: 'Sharpe Ratio',
+        values: [
+          { backtestId: 'backtest-1', value: 1, absoluteDifference: 0, relativeDifference: 0 },
+          { backtestId: 'backtest-2', value: 1.5, absoluteDifference: 0.5, relativeDifference: 0.5 },
+        ],
+      })
+      expect(statistics[4].values[1]).toEqual({ backtestId: 'backtest-2', value: 50, absoluteDifference: -50, relativeDifference: -0.5 })
+    })
+
+    it('should not compute a relative difference to a baseline of zero', () => {
+      const { statistics } = compareBacktests([candidate, baseline])
+
+      expect(statistics[5].values[1]).toEqual({ backtestId: 'backtest-1', value: 0.05, absoluteDifference: 0.05, relativeDifference: null })
+    })
+
+    it('should fall back to the summary statistics', () => {
+      const { statistics } = compareBacktests([
+        baseline,
+        { backtestId: 'backtest-3', statistics: { 'Sharpe Ratio': '2', 'Compounding Annual Return': '15%', 'Total Fees': '$25.00' } },
+      ])
+
+      expect(statistics[0].values[1].value).toBe(2)
+      expect(statistics[1].values[1].value).toBeCloseTo(0.15)
+      expect(statistics[4].values[1].value).toBe(25)
+      expect(statistics[2].values[1]).toEqual({ backtestId: 'backtest-3', value: null, absoluteDifference: null, relativeDifference: null })
+    })
+
+    it('should flag the parameters that changed', () => {
+      const { backtests, changedParameters } = compareBacktests([baseline, candidate, { backtestId: 'backtest-3', parameterSet: { fast: 10 } }])
+
+      expect(backtests[0]).toEqual({ backtestId: 'backtest-1', name: 'Fast 10', status: 'Completed.', parameters: { fast: '10', slow: '50' } })
+      expect(changedParameters).toEqual([
+        {
+          name: 'fast',
+          values: [
+            { backtestId: 'backtest-1', value: '10' },
+            { backtestId: 'backtest-2', value: '20' },
+            { backtestId: 'backtest-3', value: '10' },
+          ],
+        },
+        {
+          name: 'slow',
+          values: [
+            { backtestId: 'backtest-1', value: '50' },
+            { backtestId: 'backtest-2', value: '50' },
+            { backtestId: 'backtest-3', value: null },
+          ],
+        },
+      ])
+    })
+  })
+
+  describe('formatBacktestComparison', () => {
+    it('should render the statistics and changed parameters as Markdown tables', () => {
+      expect(formatBacktestComparison(compareBacktests([baseline, candidate])).split('\n')).toEqual([
+        '| Statistic | Fast 10 (baseline) | Fast 20 |',
+        '| --- | ---: | ---: |',
+        '| Sharpe Ratio | 1.000 | 1.500 (+0.500, +50.00%) |',
+        '| CAGR | 10.00% | 12.00% (+2.00%, +20.00%) |',
+        '| Drawdown | 20.00% | 10.00% (-10.00%, -50.00%) |',
+        '| Win Rate | 50.00% | 50.00% (0.00%, 0.00%) |',
+        '| Fees | $100.00 | $50.00 (-$50.00, -50.00%) |',
+        '| Turnover | 5.00% | 0.00% (-5.00%, -100.00%) |',
+        '',
+        '| Parameter | Fast 10 (baseline) | Fast 20 |',
+        '| --- | --- | --- |',
+        '| fast | 10 | 20 |',
+      ])
+    })
+
+    it('should note that the parameters did not change', () => {
+      const text = formatBacktestComparison(compareBacktests([baseline, { ...candidate, parameterSet: baseline.parameterSet }]))
+
+      expect(text.split('\n').at(-1)).toBe('The backtests ran with the same parameters.')
+    })
+  })
+})
@@ -0,0 +1,217 @@
+import type { readBacktestResponse } from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+
+type Backtest = NonNullable<z.infer<typeof readBacktestResponse>['backtest']>
+
+type StatisticFormat = 'ratio' | 'percent' | 'currency'
+
+interface ComparedStatistic {
+  name: string
+  label: string
+  format: StatisticFormat
+  read: (backtest: Backtest) => number | string | null | undefined
+}
+
+// portfolioStatistics holds the statistics as numbers, the summary statistics are a fallback for backtests without total performance
+const COMPARED_STATISTICS: ComparedStatistic[] = [
+  {
+    name: 'sharpeRatio',
+    label: 'Sharpe Ratio',
+    format: 'ratio',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.portfolioStatistics?.sharpeRatio ?? statistics?.['Sharpe Ratio'],
+  },
+  {
+    name: 'compoundingAnnualReturn',
+    label: 'CAGR',
+    format: 'percent',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.portfolioStatistics?.compoundingAnnualReturn ?? statistics?.['Compounding Annual Return'],
+  },
+  {
+    name: 'drawdown',
+    label: 'Drawdown',
+    format: 'percent',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.portfolioStatistics?.drawdown ?? statistics?.Drawdown,
+  },
+  {
+    name: 'winRate',
+    label: 'Win Rate',
+    format: 'percent',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.portfolioStatistics?.winRate ?? statistics?.['Win Rate'],
+  },
+  {
+    name: 'totalFees',
+    label: 'Fees',
+    format: 'currency',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.tradeStatistics?.totalFees ?? statistics?.['Total Fees'],
+  },
+  {
+    name: 'portfolioTurnover',
+    label: 'Turnover',
+    format: 'percent',
+    read: ({ totalPerformance, statistics }) => totalPerformance?.portfolioStatistics?.portfolioTurnover ?? statistics?.['Portfolio Turnover'],
+  },
+]
+
+const comparedValue = z.object({
+  backtestId: z.string().describe('Id of the backtest.'),
+  value: z.number().nullable().describe('Value of the statistic, percentages are fractions.'),
+  absoluteDifference: z.number().nullable().describe('Difference to the baseline.'),
+  relativeDifference: z.number().nullable().describe('Difference to the baseline as a fraction of its absolute value.'),
+})
+
+export const backtestComparison = z.object({
+  baselineBacktestId: z.string().describe('Id of the backtest the others are compared to.'),
+  backtests: z
+    .array(
+      z.object({
+        backtestId: z.string().describe('Id of the backtest.'),
+        name: z.string().optional().describe('Name of the backtest.'),
+        status: z.string().optional().describe('Status of the backtest.'),
+        parameters: z.record(z.string(), z.string()).describe('Parameters the backtest ran with.'),
+      })
+    )
+    .describe('Compared backtests, the first one is the baseline.'),
+  statistics: z
+    .array(
+      z.object({
+        name: z.string().describe('Name of the statistic in the portfolio statistics.'),
+        label: z.string().describe('Display name of the statistic.'),
+        values: z.array(comparedValue).describe('Values of the backtests in the order of the backtests.'),
+      })
+    )
+    .describe('Key statistics of the backtests.'),
+  changedParameters: z
+    .array(
+      z.object({
+        name: z.string().describe('Name of the parameter.'),
+        values: z.array(z.object({ backtestId: z.string(), value: z.string().nullable() })).describe('Values of the backtests, null if not set.'),
+      })
+    )
+    .describe('Parameters whose values differ between the backtests.'),
+})
+
+export type BacktestComparison = z.infer<typeof backtestComparison>
+
+/** Parse the summary statistics like "12.5%" or "$1,234.50", percentages are returned as fractions */
+export const parseStatistic = (value: number | string | null | undefined): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const number = Number(value.replace(/[$,\s%]/g, ''))
+
+  if (value.trim() === '' || !Number.isFinite(number)) {
+    return null
+  }
+
+  return value.includes('%') ? number / 100 : number
+}
+
+const getParameters = ({ parameterSet }: Backtest): Record<string, string> =>
+  Object.fromEntries(Object.entries(parameterSet ?? {}).map(([name, value]) => [name, String(value)]))
+
+const getDifferences = (value: number | null, baseline: number | null) => {
+  if (value === null || baseline === null) {
+    return { absoluteDifference: null, relativeDifference: null }
+  }
+
+  return {
+    absoluteDifference: value - baseline,
+    relativeDifference: baseline === 0 ? null : (value - baseline) / Math.abs(baseline),
+  }
+}
+
+/** Align the key statistics and parameters of the backtests, the first backtest is the baseline of the differences */
+export const compareBacktests = (backtests: Backtest[]): BacktestComparison => {
+  const backtestIds = backtests.map(({ backtestId }, index) => backtestId ?? `backtest-${index + 1}`)
+  const parameters = backtests.map(getParameters)
+  const parameterNames = [...new Set(parameters.flatMap((backtestParameters) => Object.keys(backtestParameters)))].sort()
+
+  return {
+    baselineBacktestId: backtestIds[0],
+    backtests: backtests.map(({ name, status }, index) => ({
+      backtestId: backtestIds[index],
+      name: name ?? undefined,
+      status: status ?? undefined,
+      parameters: parameters[index],
+    })),
+    statistics: COMPARED_STATISTICS.map(({ name, label, read }) => {
+      const values = backtests.map((backtest) => parseStatistic(read(backtest)))
+
+      return {
+        name,
+        label,
+        values: values.map((value, index) => ({ backtestId: backtestIds[index], value, ...getDifferences(value, values[0]) })),
+      }
+    }),
+    changedParameters: parameterNames
+      .map((name) => ({
+        name,
+        values: parameters.map((backtestParameters, index) => ({ backtestId: backtestIds[index], value: backtestParameters[name] ?? null })),
+      }))
+      .filter(({ values }) => new Set(values.map(({ value }) => value)).size > 1),
+  }
+}
+
+const formatValue = (value: number | null, format: StatisticFormat, signed = false) => {
+  if (value === null) {
+    return 'n/a'
+  }
+
+  const sign = value < 0 ? '-' : signed && value > 0 ? '+' : ''
+  const magnitude = Math.abs(value)
+
+  switch (format) {
+    case 'percent':
+      return `${sign}${(magnitude * 100).toFixed(2)}%`
+    case 'currency':
+      return `${sign}$${magnitude.toFixed(2)}`
+    case 'ratio':
+      return `${sign}${magnitude.toFixed(3)}`
+  }
+}
+
+const toRow = (cells: string[]) => `| ${cells.map((cell) => cell.replace(/\|/g, '\\|')).join(' | ')} |`
+
+/** Render the comparison as Markdown tables, the differences to the baseline are shown next to each value */
+export const formatBacktestComparison = ({ backtests, statistics, changedParameters }: BacktestComparison) => {
+  const header = backtests.map(({ backtestId, name }, index) => `${name ?? backtestId}${index === 0 ? ' (baseline)' : ''}`)
+  const formats = new Map(COMPARED_STATISTICS.map(({ name, format }) => [name, format]))
+
+  const lines = [
+    toRow(['Statistic', ...header]),
+    toRow(['---', ...header.map(() => '---:')]),
+    ...statistics.map(({ name, label, values }) => {
+      const format = formats.get(name) ?? 'ratio'
+
+      return toRow([
+        label,
+        ...values.map(({ value, absoluteDifference, relativeDifference }, index) => {
+          if (index === 0 || absoluteDifference === null) {
+            return formatValue(value, format)
+          }
+
+          const relative = relativeDifference === null ? '' : `, ${formatValue(relativeDifference, 'percent', true)}`
+          return `${formatValue(value, format)} (${formatValue(absoluteDifference, format, true)}${relative})`
+        }),
+      ])
+    }),
+  ]
+
+  if (changedParameters.length > 0) {
+    lines.push(
+      '',
+      toRow(['Parameter', ...header]),
+      toRow(['---', ...header.map(() => '---')]),
+      ...changedParameters.map(({ name, values }) => toRow([name, ...values.map(({ value }) => value ?? 'n/a')]))
+    )
+  } else {
+    lines.push('', 'The backtests ran with the same parameters.')
+  }
+
+  return lines.join('\n')
+}
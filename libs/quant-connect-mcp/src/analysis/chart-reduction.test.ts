@@ -0,0 +1,97 @@
+import { CHART_DOWNSAMPLING, downsampleLTTB, reduceChart, resample } from './chart-reduction'
+
+const day = 24 * 60 * 60
+const start = 1704067200
+
+/** Line series with one value per day */
+const toValues = (values: number[]) => values.map((value, index) => [start + index * day, value])
+
+describe('libs/quant-connect-mcp/src/analysis/chart-reduction', () => {
+  describe('downsampleLTTB', () => {
+    it('should keep the first, the last and the most significant values', () => {
+      const values = toValues([1, 1, 1, 10, 1, 1, 1, 1, -5, 1, 1])
+
+      expect(downsampleLTTB(values, 4)).toEqual([values[0], values[3], values[8], values[10]])
+    })
+
+    it('should keep series that are short enough unchanged', () => {
+      const values = [...toValues([1, 2]), [start + 2 * day, null]]
+
+      expect(downsampleLTTB(values, 3)).toBe(values)
+    })
+
+    it('should drop values without a value when downsampling', () => {
+      expect(downsampleLTTB([...toValues([1, 2, 3]), [start + 3 * day, null]], 3)).toEqual(toValues([1, 2, 3]))
+    })
+  })
+
+  describe('resample', () => {
+    it('should keep the last value of each interval', () => {
+      expect(resample(toValues([1, 2, 3, 4, 5, 6, 7]), 3)).toEqual([
+        [start + day, 2],
+        [start + 3 * day, 4],
+        [start + 6 * day, 7],
+      ])
+    })
+
+    it('should aggregate candles of an interval', () => {
+      const candles = [
+        [start, 10, 12, 9, 11],
+        [start + day, 11, 15, 10, 14],
+        [start + 2 * day, 14, 14, 8, 9],
+        [start + 3 * day, 9, 10, 7, 8],
+      ]
+
+      expect(resample(candles, 2)).toEqual([
+        [start, 10, 15, 9, 14],
+        [start + 2 * day, 14, 14, 7, 8],
+      ])
+    })
+
+    it('should skip missing values when aggregating candles', () => {
+      const candles = [
+        [start, null, 12, null, 11],
+        [start + day, 11, null, 10, 14],
+        [start + 2 * day, null, null, null, 9],
+        [start + 3 * day, null, null, null, 8],
+      ]
+
+      expect(resample(candles, 2)).toEqual([
+        [start, 11, 12, 10, 14],
+        [start + 2 * day, null, null, null, 8],
+      ])
+    })
+  })
+
+  describe('reduceChart', () => {
+    const chart = {
+      name: 'Strategy Equity',
+      chartType: 0,
+      series: {
+        Equity: { name: 'Equity', seriesType: 2, values: toValues([1, 2, 3, 4, 5, 6, 7]) },
+        Return: { name: 'Return', values: toValues([0, 1, 1, 1, 1, 1, 1]) },
+      },
+    }
+
+    it('should select series and limit their values to the date range', () => {
+      expect(reduceChart(chart, { series: ['Equity'], start: start + day, end: start + 3 * day })).toEqual({
+        name: 'Strategy Equity',
+        chartType: 0,
+        series: { Equity: { name: 'Equity', seriesType: 2, values: toValues([1, 2, 3, 4]).slice(1) } },
+      })
+    })
+
+    it('should downsample series with more values than the maximum', () => {
+      const reduced = reduceChart(chart, { maxPoints: 3, downsampling: CHART_DOWNSAMPLING.RESAMPLE })
+
+      expect(reduced.series.Equity.values).toHaveLength(3)
+      expect(reduced.series.Return.values).toHaveLength(3)
+    })
+
+    it('should fail for series that are not in the chart', () => {
+      expect(() => reduceChart(chart, { series: ['Equity', 'Drawdown'] })).toThrow(
+        'The chart Strategy Equity has no series Drawdown, available series: Equity, Return'
+      )
+    })
+  })
+})
@@ -0,0 +1,162 @@
+import z, { type ZodNumber } from 'zod'
+import { isValidSeriesPoint, toSeriesPoint, type ChartValue } from './chart-series'
+import type { SeriesPoint } from './performance-metrics'
+
+export enum CHART_DOWNSAMPLING {
+  LTTB = 'lttb',
+  RESAMPLE = 'resample',
+}
+
+export const chartReductionShape = {
+  series: z.array(z.string()).min(1).optional().describe('Names of the series to return, defaults to all series of the chart.'),
+  maxPoints: z.number().int().min(3).max(5000).optional().describe('Maximum number of points per series, larger series are downsampled.'),
+  downsampling: z
+    .nativeEnum(CHART_DOWNSAMPLING)
+    .optional()
+    .describe('lttb keeps the visual shape of the series, resample keeps one point per fixed time interval with candles aggregated. Defaults to lttb.'),
+}
+
+/** Input of the chart tools with an optional date range and the reduction options */
+export const withChartReduction = <Shape extends { start: ZodNumber; end: ZodNumber }>(shape: Shape) => ({
+  ...shape,
+  start: shape.start.optional().describe(`${shape.start.description} Values before it are dropped, defaults to 0.`),
+  end: shape.end.optional().describe(`${shape.end.description} Values after it are dropped, defaults to now.`),
+  ...chartReductionShape,
+})
+
+export interface ChartReductionOptions {
+  series?: string[]
+  maxPoints?: number
+  downsampling?: CHART_DOWNSAMPLING
+  /** Unix time in seconds */
+  start?: number
+  /** Unix time in seconds */
+  end?: number
+}
+
+interface ReducibleChart {
+  name?: string | null
+  series?: Record<string, { values?: ChartValue[] | null }> | null
+}
+
+type ChartPoint<T extends ChartValue> = SeriesPoint & { entry: T }
+
+// values without a time or value can't be weighed and are dropped when downsampling
+const toChartPoints = <T extends ChartValue>(values: T[]): ChartPoint<T>[] =>
+  values.map((entry) => ({ entry, ...toSeriesPoint(entry) })).filter(isValidSeriesPoint)
+
+/** Largest-Triangle-Three-Buckets, keeps the first and the last value and of each bucket the value spanning the largest triangle with its neighbours */
+export const downsampleLTTB = <T extends ChartValue>(values: T[], maxPoints: number): T[] => {
+  if (values.length <= maxPoints) {
+    return values
+  }
+
+  const points = toChartPoints(values)
+
+  if (points.length <= maxPoints) {
+    return points.map(({ entry }) => entry)
+  }
+
+  const bucketSize = (points.length - 2) / (maxPoints - 2)
+  const sampled = [points[0]]
+  let previous = points[0]
+
+  for (let bucket = 0; bucket < maxPoints - 2; bucket++) {
+    // the average of the next bucket is the third corner of the triangles
+    const next = points.slice(Math.floor((bucket + 1) * bucketSize) + 1, Math.min(Math.floor((bucket + 2) * bucketSize) + 1, points.length))
+    const nextTime = next.reduce((sum, { time }) => sum + time, 0) / next.length
+    const nextValue = next.reduce((sum, { value }) => sum + value, 0) / next.length
+
+    const candidates = points.slice(Math.floor(bucket * bucketSize) + 1, Math.floor((bucket + 1) * bucketSize) + 1)
+    const getArea = ({ time, value }: SeriesPoint) =>
+      Math.abs((previous.time - nextTime) * (value - previous.value) - (previous.time - time) * (nextValue - previous.value))
+
+    previous = candidates.reduce((largest, candidate) => (getArea(candidate) > getArea(largest) ? candidate : largest))
+    sampled.push(previous)
+  }
+
+  sampled.push(points[points.length - 1])
+
+  return sampled.map(({ entry }) => entry)
+}
+
+const isCandle = (entry: ChartValue): entry is (number | string | null)[] => Array.isArray(entry) && entry.length === 5
+
+// missing values are skipped, they would count as 0 otherwise
+const getCandleValues = (candles: (number | string | null)[][], index: number) =>
+  candles.map((candle) => candle[index]).filter((value): value is number | string => value !== null && value !== undefined)
+
+/** Aggregate the candles of a bucket, values that are missing in all of its candles stay null */
+const aggregateCandles = (candles: (number | string | null)[][]) => {
+  const opens = getCandleValues(candles, 1)
+  const highs = getCandleValues(candles, 2).map(Number)
+  const lows = getCandleValues(candles, 3).map(Number)
+  const closes = getCandleValues(candles, 4)
+
+  return [
+    candles[0][0],
+    opens.length ? opens[0] : null,
+    highs.length ? Math.max(...highs) : null,
+    lows.length ? Math.min(...lows) : null,
+    closes.length ? closes[closes.length - 1] : null,
+  ]
+}
+
+/** Split the time range into intervals of the same length and keep the last value of each interval, candles are aggregated to one candle */
+export const resample = <T extends ChartValue>(values: T[], maxPoints: number): T[] => {
+  if (values.length <= maxPoints) {
+    return values
+  }
+
+  const points = toChartPoints(values)
+
+  if (points.length <= maxPoints) {
+    return points.map(({ entry }) => entry)
+  }
+
+  const first = points[0].time
+  const interval = (points[points.length - 1].time - first) / maxPoints || 1
+  const buckets = new Map<number, T[]>()
+
+  points.forEach(({ entry, time }) => {
+    const bucket = Math.min(Math.floor((time - first) / interval), maxPoints - 1)
+    buckets.set(bucket, [...(buckets.get(bucket) ?? []), entry])
+  })
+
+  return [...buckets.values()].map((entries) =>
+    entries.every(isCandle) ? (aggregateCandles(entries as (number | string | null)[][]) as T) : entries[entries.length - 1]
+  )
+}
+
+const isInRange = (entry: ChartValue, start = -Infinity, end = Infinity) => {
+  const { time } = toSeriesPoint(entry)
+
+  // values without a time can't be placed in the range
+  return !Number.isFinite(time) || (time >= start && time <= end)
+}
+
+/** Select series of a chart, limit their values to the date range and downsample series with more than `maxPoints` values */
+export const reduceChart = <T extends ReducibleChart>(
+  chart: T,
+  { series, maxPoints, downsampling = CHART_DOWNSAMPLING.LTTB, start, end }: ChartReductionOptions
+): T => {
+  const allSeries = chart.series ?? {}
+  const missingSeries = (series ?? []).filter((name) => !Object.hasOwn(allSeries, name))
+
+  if (missingSeries.length > 0) {
+    throw new Error(`The chart ${chart.name} has no series ${missingSeries.join(', ')}, available series: ${Object.keys(allSeries).join(', ')}`)
+  }
+
+  const downsample = downsampling === CHART_DOWNSAMPLING.RESAMPLE ? resample : downsampleLTTB
+  const reducedSeries = Object.fromEntries(
+    Object.entries(allSeries)
+      .filter(([name]) => !series || series.includes(name))
+      .map(([name, { values, ...properties }]) => {
+        const valuesInRange = values?.filter((entry) => isInRange(entry, start, end))
+
+        return [name, { ...properties, values: maxPoints && valuesInRange ? downsample(valuesInRange, maxPoints) : valuesInRange }]
+      })
+  )
+
+  return { ...chart, series: chart.series ? reducedSeries : chart.series }
+}
@@ -0,0 +1,44 @@
+import { toSeriesPoints } from './chart-series'
+
+describe('libs/quant-connect-mcp/src/analysis/chart-series', () => {
+  describe('toSeriesPoints', () => {
+    it('should read line series', () => {
+      expect(
+        toSeriesPoints([
+          [1704067200, 100],
+          [1704153600, 101.5],
+        ])
+      ).toEqual([
+        { time: 1704067200, value: 100 },
+        { time: 1704153600, value: 101.5 },
+      ])
+    })
+
+    it('should use the close of candle series', () => {
+      expect(toSeriesPoints([[1704067200, 100, 105, 99, 104]])).toEqual([{ time: 1704067200, value: 104 }])
+    })
+
+    it('should read object values', () => {
+      expect(
+        toSeriesPoints([
+          { x: 1704067200, y: 100 },
+          { time: 1704153600, close: 101 },
+        ])
+      ).toEqual([
+        { time: 1704067200, value: 100 },
+        { time: 1704153600, value: 101 },
+      ])
+    })
+
+    it('should drop points without a value', () => {
+      expect(
+        toSeriesPoints([
+          [1704067200, null],
+          [1704153600, ''],
+          [1704240000, '102'],
+        ])
+      ).toEqual([{ time: 1704240000, value: 102 }])
+      expect(toSeriesPoints(undefined)).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,19 @@
+import type { SeriesPoint } from './performance-metrics'
+
+export type ChartValue = (number | string | null)[] | Record<string, any>
+
+const toNumber = (value: unknown) => (value === null || value === undefined || value === '' ? Number.NaN : Number(value))
+
+/**
+ * Turn a value of a chart series into a point, line series are `[time, value]`, candle series `[time, open, high, low, close]`
+ * and older results use objects like `{ x, y }` or `{ time, close }`. The close is used for candles, missing parts are `NaN`.
+ */
+export const toSeriesPoint = (value: ChartValue): SeriesPoint =>
+  Array.isArray(value)
+    ? { time: toNumber(value[0]), value: toNumber(value[value.length - 1]) }
+    : { time: toNumber(value.x ?? value.time), value: toNumber(value.y ?? value.close ?? value.value) }
+
+export const isValidSeriesPoint = ({ time, value }: SeriesPoint) => Number.isFinite(time) && Number.isFinite(value)
+
+/** Turn the values of a chart series into points, points without a value are dropped */
+export const toSeriesPoints = (values: ChartValue[] | null | undefined): SeriesPoint[] => (values ?? []).map(toSeriesPoint).filter(isValidSeriesPoint)
@@ -0,0 +1,5 @@
+export * from './backtest-comparison'
+export * from './chart-reduction'
+export * from './chart-series'
+export * from './performance-metrics'
+export * from './tear-sheet'
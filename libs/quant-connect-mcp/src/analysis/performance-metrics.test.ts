@@ -0,0 +1,157 @@
+import { computePerformanceMetrics, computeTopDrawdowns, formatPerformanceMetrics, toDailySeries, type SeriesPoint } from './performance-metrics'
+
+const toTime = (date: string) => Date.parse(`${date}T16:00:00Z`) / 1000
+
+const toSeries = (values: Record<string, number>): SeriesPoint[] => Object.entries(values).map(([date, value]) => ({ time: toTime(date), value }))
+
+/** Daily series from 2024-01-01 on with the given returns */
+const fromReturns = (returns: number[], start = 100) => {
+  const values = [start]
+  returns.forEach((value) => values.push(values[values.length - 1] * (1 + value)))
+
+  return values.map((value, index) => ({ time: toTime('2024-01-01') + index * 24 * 60 * 60, value }))
+}
+
+describe('libs/quant-connect-mcp/src/analysis/performance-metrics', () => {
+  const options = { rollingWindowInDays: 20, riskFreeRate: 0 }
+
+  const equity = toSeries({
+    '2024-01-01': 100,
+    '2024-01-02': 110,
+    '2024-01-03': 99,
+    '2024-01-04': 104.5,
+    '2024-01-05': 121,
+    '2024-02-01': 121,
+    '2024-02-02': 133.1,
+  })
+
+  describe('toDailySeries', () => {
+    it('should keep the last value of each day in time order', () => {
+      expect(
+        toDailySeries([
+          { time: toTime('2024-01-02'), value: 3 },
+          { time: toTime('2024-01-01') - 3600, value: 1 },
+          { time: toTime('2024-01-01'), value: 2 },
+        ])
+      ).toEqual([
+        { date: '2024-01-01', value: 2 },
+        { date: '2024-01-02', value: 3 },
+      ])
+    })
+  })
+
+  describe('computePerformanceMetrics', () => {
+    it('should compute the period and returns', () => {
+      const metrics = computePerformanceMetrics(equity, undefined, options)
+
+      expect(metrics).toEqual(expect.objectContaining({ start: '2024-01-01', end: '2024-02-02', tradingDays: 7 }))
+      expect(metrics.totalReturn).toBeCloseTo(0.331)
+      expect(metrics.monthlyReturns).toEqual([
+        { year: 2024, month: 1, return: expect.closeTo(0.21) },
+        { year: 2024, month: 2, return: expect.closeTo(0.1) },
+      ])
+      expect(metrics.yearlyReturns).toEqual([{ year: 2024, return: expect.closeTo(0.331) }])
+      expect(metrics.benchmark).toBeNull()
+    })
+
+    it('should find the max drawdown with its recovery', () => {
+      const { maxDrawdown, underwater } = computePerformanceMetrics(equity, undefined, options)
+
+      expect(maxDrawdown).toEqual({
+        depth: expect.closeTo(0.1),
+        start: '2024-01-02',
+        trough: '2024-01-03',
+        recovery: '2024-01-05',
+        daysToTrough: 1,
+        daysToRecovery: 3,
+      })
+      expect(underwater).toEqual({ longestInDays: 3, currentInDays: 0, timeUnderwater: 2 / 7 })
+    })
+
+    it('should report drawdowns that did not recover', () => {
+      const { maxDrawdown, underwater } = computePerformanceMetrics(toSeries({ '2024-01-01': 100, '2024-01-02': 90, '2024-01-04': 95 }), undefined, options)
+
+      expect(maxDrawdown).toEqual(expect.objectContaining({ start: '2024-01-01', trough: '2024-01-02', recovery: null, daysToRecovery: null }))
+      expect(underwater).toEqual(expect.objectContaining({ longestInDays: 3, currentInDays: 3 }))
+    })
+
+    it('should not report a drawdown for rising equity', () => {
+      expect(computePerformanceMetrics(fromReturns([0.01, 0.02]), undefined, options).maxDrawdown).toBeNull()
+    })
+
+    it('should annualize the Sharpe and Sortino ratios', () => {
+      const metrics = computePerformanceMetrics(fromReturns([0.01, 0.03]), undefined, options)
+
+      expect(metrics.sharpeRatio).toBeCloseTo((0.02 / Math.sqrt(0.0002)) * Math.sqrt(252))
+      // without losses there is no downside deviation
+      expect(metrics.sortinoRatio).toBeNull()
+
+      const losingMetrics = computePerformanceMetrics(fromReturns([0.02, -0.01]), undefined, options)
+      expect(losingMetrics.sortinoRatio).toBeCloseTo((0.005 / Math.sqrt(0.0001 / 2)) * Math.sqrt(252))
+    })
+
+    it('should subtract the risk-free rate', () => {
+      const metrics = computePerformanceMetrics(fromReturns([0.01, 0.03]), undefined, { ...options, riskFreeRate: 0.252 })
+
+      expect(metrics.sharpeRatio).toBeCloseTo((0.019 / Math.sqrt(0.0002)) * Math.sqrt(252))
+    })
+
+    it('should compute the rolling ratios at the end of each month', () => {
+      const returns = Array.from({ length: 59 }, (_, index) => (index % 3 === 0 ? -0.01 : 0.01))
+      const { rolling } = computePerformanceMetrics(fromReturns(returns), undefined, options)
+
+      expect(rolling.windowInDays).toBe(20)
+      expect(rolling.values.map(({ date }) => date)).toEqual(['2024-01-31', '2024-02-29'])
+      expect(rolling.values[0]).toEqual({ date: '2024-01-31', sharpeRatio: expect.any(Number), sortinoRatio: expect.any(Number) })
+    })
+
+    it('should compute beta and alpha against the benchmark', () => {
+      const benchmarkReturns = [0.01, -0.02, 0.015, 0.005, -0.01]
+      const benchmark = fromReturns(benchmarkReturns)
+      const leveragedEquity = fromReturns(benchmarkReturns.map((value) => 2 * value))
+
+      const { benchmark: benchmarkMetrics } = computePerformanceMetrics(leveragedEquity, benchmark, options)
+
+      expect(benchmarkMetrics?.beta).toBeCloseTo(2)
+      expect(benchmarkMetrics?.alpha).toBeCloseTo(0)
+      expect(benchmarkMetrics?.correlation).toBeCloseTo(1)
+    })
+
+    it('should not compute beta without enough benchmark values', () => {
+      const { benchmark } = computePerformanceMetrics(equity, toSeries({ '2024-01-01': 100 }), options)
+
+      expect(benchmark).toEqual({ beta: null, alpha: null, correlation: null })
+    })
+
+    it('should fail without values of two days', () => {
+      expect(() => computePerformanceMetrics(toSeries({ '2024-01-01': 100 }), undefined, options)).toThrow(
+        'The equity series needs values of at least two days to compute performance metrics'
+      )
+    })
+  })
+
+  describe('computeTopDrawdowns', () => {
+    it('should list the drawdowns deepest first', () => {
+      const drawdowns = computeTopDrawdowns(
+        toSeries({ '2024-01-01': 100, '2024-01-02': 95, '2024-01-03': 101, '2024-01-04': 80, '2024-01-05': 102, '2024-01-08': 99 }),
+        2
+      )
+
+      expect(drawdowns).toEqual([
+        { depth: expect.closeTo(0.208), start: '2024-01-03', trough: '2024-01-04', recovery: '2024-01-05', daysToTrough: 1, daysToRecovery: 2 },
+        { depth: expect.closeTo(0.05), start: '2024-01-01', trough: '2024-01-02', recovery: '2024-01-03', daysToTrough: 1, daysToRecovery: 2 },
+      ])
+    })
+  })
+
+  describe('formatPerformanceMetrics', () => {
+    it('should render the metrics and the monthly returns as Markdown tables', () => {
+      const lines = formatPerformanceMetrics(computePerformanceMetrics(equity, undefined, options)).split('\n')
+
+      expect(lines).toContain('| Total Return | 33.10% |')
+      expect(lines).toContain('| Max Drawdown | -10.00% (2024-01-02 to 2024-01-03, recovered 2024-01-05) |')
+      expect(lines).toContain('| Year | Jan | Feb | Mar | Apr | May | Jun | Jul | Aug | Sep | Oct | Nov | Dec | Year |')
+      expect(lines.at(-1)).toBe('| 2024 | 21.00% | 10.00% |  |  |  |  |  |  |  |  |  |  | 33.10% |')
+    })
+  })
+})
@@ -0,0 +1,300 @@
+import z from 'zod'
+
+const TRADING_DAYS_PER_YEAR = 252
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+export interface SeriesPoint {
+  /** Unix time in seconds, as in the chart series of QuantConnect */
+  time: number
+  value: number
+}
+
+interface DailyPoint {
+  date: string
+  value: number
+}
+
+export interface PerformanceMetricsOptions {
+  rollingWindowInDays: number
+  /** Annual risk-free rate as a fraction */
+  riskFreeRate: number
+}
+
+const dateString = z.string().describe('Date in the format YYYY-MM-DD.')
+
+export const drawdown = z.object({
+  depth: z.number().describe('Largest loss from the peak as a fraction.'),
+  start: dateString.describe('Day of the peak before the drawdown.'),
+  trough: dateString.describe('Day of the lowest equity of the drawdown.'),
+  recovery: dateString.nullable().describe('First day the peak was reached again, null if the equity did not recover.'),
+  daysToTrough: z.number().describe('Calendar days from the peak to the trough.'),
+  daysToRecovery: z.number().nullable().describe('Calendar days from the peak to the recovery.'),
+})
+
+export type Drawdown = z.infer<typeof drawdown>
+
+export const performanceMetrics = z.object({
+  start: dateString.describe('First day of the equity series.'),
+  end: dateString.describe('Last day of the equity series.'),
+  tradingDays: z.number().describe('Number of days with an equity value.'),
+  totalReturn: z.number().describe('Return over the whole backtest as a fraction.'),
+  compoundingAnnualReturn: z.number().nullable().describe('Annualized return as a fraction.'),
+  annualVolatility: z.number().nullable().describe('Annualized standard deviation of the daily returns.'),
+  sharpeRatio: z.number().nullable().describe('Annualized Sharpe ratio of the daily returns.'),
+  sortinoRatio: z.number().nullable().describe('Annualized Sortino ratio of the daily returns.'),
+  maxDrawdown: drawdown.nullable().describe('Largest drawdown of the equity, null if the equity never fell below a peak.'),
+  underwater: z
+    .object({
+      longestInDays: z.number().describe('Calendar days of the longest period below a previous peak.'),
+      currentInDays: z.number().describe('Calendar days the equity is below its peak at the end, 0 if it is at a peak.'),
+      timeUnderwater: z.number().describe('Share of the trading days below a previous peak.'),
+    })
+    .describe('Periods in which the equity was below a previous peak.'),
+  rolling: z
+    .object({
+      windowInDays: z.number().describe('Trading days in the rolling window.'),
+      values: z
+        .array(z.object({ date: dateString, sharpeRatio: z.number().nullable(), sortinoRatio: z.number().nullable() }))
+        .describe('Rolling ratios at the end of each month.'),
+    })
+    .describe('Rolling Sharpe and Sortino ratios.'),
+  monthlyReturns: z.array(z.object({ year: z.number(), month: z.number().describe('Month 1-12.'), return: z.number() })).describe('Returns per month.'),
+  yearlyReturns: z.array(z.object({ year: z.number(), return: z.number() })).describe('Returns per calendar year.'),
+  benchmark: z
+    .object({
+      beta: z.number().nullable().describe('Beta of the daily returns against the benchmark.'),
+      alpha: z.number().nullable().describe('Annualized Jensen alpha against the benchmark.'),
+      correlation: z.number().nullable().describe('Correlation of the daily returns with the benchmark.'),
+    })
+    .nullable()
+    .describe('Metrics against the benchmark, null without a benchmark series.'),
+})
+
+export type PerformanceMetrics = z.infer<typeof performanceMetrics>
+
+const toDate = (time: number) => new Date(time * 1000).toISOString().slice(0, 10)
+
+const getDaysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY_IN_MS)
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+const standardDeviation = (values: number[]) => {
+  if (values.length < 2) {
+    return null
+  }
+
+  const average = mean(values)
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1))
+}
+
+/** The last value of each day, intraday points of the equity are not needed for daily metrics */
+export const toDailySeries = (points: SeriesPoint[]): DailyPoint[] => {
+  const days = new Map<string, number>()
+
+  ;[...points].sort((a, b) => a.time - b.time).forEach(({ time, value }) => days.set(toDate(time), value))
+
+  return [...days.entries()].map(([date, value]) => ({ date, value }))
+}
+
+const getReturns = (series: DailyPoint[]) => series.slice(1).map(({ value }, index) => value / series[index].value - 1)
+
+const getRatios = (returns: number[], dailyRiskFreeRate: number) => {
+  const excessReturns = returns.map((value) => value - dailyRiskFreeRate)
+  const deviation = standardDeviation(excessReturns)
+  const downsideDeviation = excessReturns.length > 0 ? Math.sqrt(mean(excessReturns.map((value) => Math.min(0, value) ** 2))) : 0
+  const annualizedMean = excessReturns.length > 0 ? mean(excessReturns) * Math.sqrt(TRADING_DAYS_PER_YEAR) : 0
+
+  return {
+    sharpeRatio: deviation ? annualizedMean / deviation : null,
+    sortinoRatio: downsideDeviation ? annualizedMean / downsideDeviation : null,
+  }
+}
+
+/** Every period below a previous peak, from the peak to the first day the peak is reached again */
+const getDrawdownPeriods = (series: DailyPoint[]) => {
+  const periods: Drawdown[] = []
+  let peak = series[0]
+  let current: Drawdown | undefined
+
+  for (const point of series) {
+    if (point.value >= peak.value) {
+      if (current) {
+        periods.push({ ...current, recovery: point.date, daysToRecovery: getDaysBetween(current.start, point.date) })
+        current = undefined
+      }
+
+      peak = point
+      continue
+    }
+
+    const depth = 1 - point.value / peak.value
+
+    if (!current || depth > current.depth) {
+      current = { depth, start: peak.date, trough: point.date, recovery: null, daysToTrough: getDaysBetween(peak.date, point.date), daysToRecovery: null }
+    }
+  }
+
+  return current ? [...periods, current] : periods
+}
+
+const getDrawdowns = (series: DailyPoint[]) => {
+  const periods = getDrawdownPeriods(series)
+  const last = series[series.length - 1]
+  const getUnderwaterDays = ({ start, recovery }: Drawdown) => getDaysBetween(start, recovery ?? last.date)
+  const current = periods.find(({ recovery }) => recovery === null)
+  // the peak and the recovery are above water
+  const underwaterDays = series.filter(({ date }) => periods.some(({ start, recovery }) => date > start && (recovery === null || date < recovery))).length
+
+  return {
+    maxDrawdown: periods.reduce<Drawdown | null>((largest, period) => (!largest || period.depth > largest.depth ? period : largest), null),
+    underwater: {
+      longestInDays: Math.max(0, ...periods.map(getUnderwaterDays)),
+      currentInDays: current ? getUnderwaterDays(current) : 0,
+      timeUnderwater: underwaterDays / series.length,
+    },
+  }
+}
+
+/** The deepest drawdowns of the equity series, deepest first */
+export const computeTopDrawdowns = (equity: SeriesPoint[], limit: number) =>
+  getDrawdownPeriods(toDailySeries(equity).filter(({ value }) => value > 0))
+    .sort((a, b) => b.depth - a.depth)
+    .slice(0, limit)
+
+/** Returns between the last values of consecutive periods, the first period starts at the first value */
+const getPeriodReturns = (series: DailyPoint[], getPeriod: (date: string) => string) => {
+  const periodEnds = new Map<string, number>()
+  series.forEach(({ date, value }) => periodEnds.set(getPeriod(date), value))
+
+  let previousValue = series[0].value
+
+  return [...periodEnds.entries()].map(([period, value]) => {
+    const periodReturn = value / previousValue - 1
+    previousValue = value
+
+    return { period, return: periodReturn }
+  })
+}
+
+const getRollingRatios = (series: DailyPoint[], returns: number[], { rollingWindowInDays, riskFreeRate }: PerformanceMetricsOptions) =>
+  series
+    .map(({ date }, index) => ({ date, index }))
+    // the returns up to a month end, which is the last day before the month changes
+    .filter(({ date, index }) => index >= rollingWindowInDays && (index === series.length - 1 || series[index + 1].date.slice(0, 7) !== date.slice(0, 7)))
+    .map(({ date, index }) => ({ date, ...getRatios(returns.slice(index - rollingWindowInDays, index), riskFreeRate / TRADING_DAYS_PER_YEAR) }))
+
+const getBenchmarkMetrics = (series: DailyPoint[], benchmarkSeries: DailyPoint[], riskFreeRate: number): PerformanceMetrics['benchmark'] => {
+  const benchmarkValues = new Map(benchmarkSeries.map(({ date, value }) => [date, value]))
+  const alignedSeries = series.filter(({ date }) => benchmarkValues.has(date))
+
+  if (alignedSeries.length < 3) {
+    return { beta: null, alpha: null, correlation: null }
+  }
+
+  const dailyRiskFreeRate = riskFreeRate / TRADING_DAYS_PER_YEAR
+  const returns = getReturns(alignedSeries).map((value) => value - dailyRiskFreeRate)
+  const benchmarkReturns = getReturns(alignedSeries.map(({ date }) => ({ date, value: benchmarkValues.get(date) as number }))).map(
+    (value) => value - dailyRiskFreeRate
+  )
+  const averageReturn = mean(returns)
+  const averageBenchmarkReturn = mean(benchmarkReturns)
+  const covariance =
+    returns.reduce((sum, value, index) => sum + (value - averageReturn) * (benchmarkReturns[index] - averageBenchmarkReturn), 0) / (returns.length - 1)
+  const deviation = standardDeviation(returns)
+  const benchmarkDeviation = standardDeviation(benchmarkReturns)
+
+  if (!benchmarkDeviation) {
+    return { beta: null, alpha: null, correlation: null }
+  }
+
+  const beta = covariance / benchmarkDeviation ** 2
+
+  return {
+    beta,
+    alpha: (averageReturn - beta * averageBenchmarkReturn) * TRADING_DAYS_PER_YEAR,
+    correlation: deviation ? covariance / (deviation * benchmarkDeviation) : null,
+  }
+}
+
+/** Compute the performance metrics from the equity and benchmark series of a backtest */
+export const computePerformanceMetrics = (
+  equity: SeriesPoint[],
+  benchmark: SeriesPoint[] | undefined,
+  options: PerformanceMetricsOptions
+): PerformanceMetrics => {
+  const series = toDailySeries(equity).filter(({ value }) => value > 0)
+
+  if (series.length < 2) {
+    throw new Error('The equity series needs values of at least two days to compute performance metrics')
+  }
+
+  const first = series[0]
+  const last = series[series.length - 1]
+  const returns = getReturns(series)
+  const years = getDaysBetween(first.date, last.date) / 365.25
+  const totalReturn = last.value / first.value - 1
+  const annualDeviation = standardDeviation(returns)
+
+  return {
+    start: first.date,
+    end: last.date,
+    tradingDays: series.length,
+    totalReturn,
+    compoundingAnnualReturn: years > 0 ? (1 + totalReturn) ** (1 / years) - 1 : null,
+    annualVolatility: annualDeviation === null ? null : annualDeviation * Math.sqrt(TRADING_DAYS_PER_YEAR),
+    ...getRatios(returns, options.riskFreeRate / TRADING_DAYS_PER_YEAR),
+    ...getDrawdowns(series),
+    rolling: { windowInDays: options.rollingWindowInDays, values: getRollingRatios(series, returns, options) },
+    monthlyReturns: getPeriodReturns(series, (date) => date.slice(0, 7)).map(({ period, return: monthlyReturn }) => ({
+      year: Number(period.slice(0, 4)),
+      month: Number(period.slice(5, 7)),
+      return: monthlyReturn,
+    })),
+    yearlyReturns: getPeriodReturns(series, (date) => date.slice(0, 4)).map(({ period, return: yearlyReturn }) => ({
+      year: Number(period),
+      return: yearlyReturn,
+    })),
+    benchmark: benchmark && benchmark.length > 0 ? getBenchmarkMetrics(series, toDailySeries(benchmark), options.riskFreeRate) : null,
+  }
+}
+
+export const formatPercent = (value: number | null | undefined) => (value === null || value === undefined ? '' : `${(value * 100).toFixed(2)}%`)
+
+const formatRatio = (value: number | null) => (value === null ? 'n/a' : value.toFixed(3))
+
+/** Render the monthly returns as a Markdown table with one row per year */
+export const formatMonthlyReturns = ({ monthlyReturns, yearlyReturns }: Pick<PerformanceMetrics, 'monthlyReturns' | 'yearlyReturns'>) => {
+  const monthlyReturnsByMonth = new Map(monthlyReturns.map(({ year, month, return: monthlyReturn }) => [`${year}-${month}`, monthlyReturn]))
+  const formatYear = (year: number) => MONTHS.map((_, index) => formatPercent(monthlyReturnsByMonth.get(`${year}-${index + 1}`))).join(' | ')
+
+  return [
+    `| Year | ${MONTHS.join(' | ')} | Year |`,
+    `| --- | ${MONTHS.map(() => '---:').join(' | ')} | ---: |`,
+    ...yearlyReturns.map(({ year, return: yearlyReturn }) => `| ${year} | ${formatYear(year)} | ${formatPercent(yearlyReturn)} |`),
+  ].join('\n')
+}
+
+/** Render the key metrics and the monthly returns as Markdown tables */
+export const formatPerformanceMetrics = (metrics: PerformanceMetrics) => {
+  const { maxDrawdown, underwater, benchmark } = metrics
+
+  const recovery = maxDrawdown?.recovery ? `recovered ${maxDrawdown.recovery}` : 'not recovered'
+  const drawdown = maxDrawdown ? `${formatPercent(-maxDrawdown.depth)} (${maxDrawdown.start} to ${maxDrawdown.trough}, ${recovery})` : 'none'
+
+  return [
+    `| Metric | Value |`,
+    `| --- | ---: |`,
+    `| Period | ${metrics.start} to ${metrics.end} |`,
+    `| Total Return | ${formatPercent(metrics.totalReturn)} |`,
+    `| CAGR | ${formatPercent(metrics.compoundingAnnualReturn) || 'n/a'} |`,
+    `| Volatility | ${formatPercent(metrics.annualVolatility) || 'n/a'} |`,
+    `| Sharpe Ratio | ${formatRatio(metrics.sharpeRatio)} |`,
+    `| Sortino Ratio | ${formatRatio(metrics.sortinoRatio)} |`,
+    `| Max Drawdown | ${drawdown} |`,
+    `| Longest Underwater | ${underwater.longestInDays} days |`,
+    ...(benchmark ? [`| Beta | ${formatRatio(benchmark.beta)} |`, `| Alpha | ${formatPercent(benchmark.alpha) || 'n/a'} |`] : []),
+    '',
+    formatMonthlyReturns(metrics),
+  ].join('\n')
+}
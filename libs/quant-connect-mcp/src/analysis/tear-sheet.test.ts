@@ -0,0 +1,103 @@
+import { computePerformanceMetrics } from './performance-metrics'
+import { buildTearSheet, extractReportStatistics, formatTearSheet } from './tear-sheet'
+
+const toTime = (date: string) => Date.parse(`${date}T16:00:00Z`) / 1000
+
+describe('libs/quant-connect-mcp/src/analysis/tear-sheet', () => {
+  const metrics = computePerformanceMetrics(
+    [
+      { time: toTime('2024-01-02'), value: 100 },
+      { time: toTime('2024-01-03'), value: 90 },
+      { time: toTime('2024-02-01'), value: 110 },
+    ],
+    undefined,
+    { rollingWindowInDays: 20, riskFreeRate: 0 }
+  )
+  const drawdowns = [{ depth: 0.1, start: '2024-01-02', trough: '2024-01-03', recovery: '2024-02-01', daysToTrough: 1, daysToRecovery: 30 }]
+  const trade = (profitLoss: number) => ({
+    symbol: { value: 'SPY' },
+    direction: 0 as const,
+    entryTime: new Date('2024-01-02T15:00:00Z'),
+    exitTime: new Date('2024-01-05T15:00:00Z'),
+    quantity: 10,
+    entryPrice: 470,
+    exitPrice: 470 + profitLoss / 10,
+    profitLoss,
+  })
+  const backtest = {
+    backtestId: 'backtest-1',
+    name: 'Momentum',
+    statistics: { 'Total Orders': '6', 'Sharpe Ratio': '1.2', Expectancy: '0.3', 'Net Profit': '10%', 'Sortino Ratio': null },
+    runtimeStatistics: { Equity: '$110,000.00', Fees: '-$6.00', Holdings: null },
+    totalPerformance: { closedTrades: [trade(50), trade(-20), trade(120), trade(-70), trade(0)] },
+  }
+
+  describe('buildTearSheet', () => {
+    it('should pick the headline statistics and the biggest trades', () => {
+      const tearSheet = buildTearSheet(backtest, metrics, drawdowns, null, 1)
+
+      expect(tearSheet).toEqual(
+        expect.objectContaining({
+          backtestId: 'backtest-1',
+          name: 'Momentum',
+          start: '2024-01-02',
+          end: '2024-02-01',
+          statistics: { 'Net Profit': '10%', 'Sharpe Ratio': '1.2', 'Total Orders': '6' },
+          runtimeStatistics: { Equity: '$110,000.00', Fees: '-$6.00' },
+          drawdowns,
+          report: null,
+        })
+      )
+      expect(tearSheet.winningTrades).toEqual([
+        {
+          symbol: 'SPY',
+          direction: 'long',
+          entryTime: '2024-01-02T15:00:00.000Z',
+          exitTime: '2024-01-05T15:00:00.000Z',
+          quantity: 10,
+          entryPrice: 470,
+          exitPrice: 482,
+          profitLoss: 120,
+        },
+      ])
+      expect(tearSheet.losingTrades.map(({ profitLoss }) => profitLoss)).toEqual([-70])
+    })
+  })
+
+  describe('extractReportStatistics', () => {
+    it('should read the name and value rows of the report tables', () => {
+      const html = [
+        '<html><body><h1>Momentum</h1><img src="data:image/png;base64,AAAA"/>',
+        '<table><tr><th>Statistic</th><th>Value</th><th>Benchmark</th></tr>',
+        '<tr><td class="name">Sharpe &amp; Sortino</td><td><b>1.2</b></td></tr>',
+        '<tr>\n<td>PSR</td>\n<td>&nbsp;57%</td>\n</tr><tr><td>Empty</td><td></td></tr></table></body></html>',
+      ].join('')
+
+      expect(extractReportStatistics(html)).toEqual({ 'Sharpe & Sortino': '1.2', PSR: '57%' })
+    })
+  })
+
+  describe('formatTearSheet', () => {
+    it('should render the sections as Markdown', () => {
+      const lines = formatTearSheet(buildTearSheet(backtest, metrics, drawdowns, { PSR: '57%' }, 2)).split('\n')
+
+      expect(lines[0]).toBe('# Momentum')
+      expect(lines).toContain('Backtest backtest-1, 2024-01-02 to 2024-02-01')
+      expect(lines).toContain('| Sharpe Ratio | 1.2 |')
+      expect(lines).toContain('| 1 | -10.00% | 2024-01-02 | 2024-01-03 | 2024-02-01 | 30 |')
+      expect(lines).toContain('| 2024 | -10.00% | 22.22% |  |  |  |  |  |  |  |  |  |  | 10.00% |')
+      expect(lines).toContain('| SPY | long | 2024-01-02 | 2024-01-05 | 10 | 470.00 | 463.00 | -70.00 |')
+      expect(lines).toContain('| Equity | $110,000.00 |')
+      expect(lines.slice(-5)).toEqual(['## Report', '', '| Statistic | Value |', '| --- | ---: |', '| PSR | 57% |'])
+    })
+
+    it('should mention sections without entries', () => {
+      const text = formatTearSheet(buildTearSheet({ backtestId: 'backtest-1' }, metrics, [], null, 5))
+
+      expect(text).toContain('# backtest-1')
+      expect(text).toContain('## Top Drawdowns\n\nNone')
+      expect(text).toContain('## Biggest Winners\n\nNone')
+      expect(text).not.toContain('## Report')
+    })
+  })
+})
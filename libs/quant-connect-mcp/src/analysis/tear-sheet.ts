@@ -0,0 +1,192 @@
+import type { readBacktestResponse } from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+import { drawdown, formatMonthlyReturns, formatPercent, performanceMetrics, type Drawdown, type PerformanceMetrics } from './performance-metrics'
+
+type Backtest = NonNullable<z.infer<typeof readBacktestResponse>['backtest']>
+
+type ClosedTrade = NonNullable<NonNullable<Backtest['totalPerformance']>['closedTrades']>[number]
+
+// the statistics of QuantConnect are formatted strings, these are the ones worth a glance
+const HEADLINE_STATISTICS = [
+  'Net Profit',
+  'Compounding Annual Return',
+  'Sharpe Ratio',
+  'Sortino Ratio',
+  'Probabilistic Sharpe Ratio',
+  'Drawdown',
+  'Annual Standard Deviation',
+  'Win Rate',
+  'Profit-Loss Ratio',
+  'Total Orders',
+  'Total Fees',
+  'Portfolio Turnover',
+  'Start Equity',
+  'End Equity',
+]
+
+const tearSheetTrade = z.object({
+  symbol: z.string().nullable(),
+  direction: z.enum(['long', 'short']).nullable(),
+  entryTime: z.string().nullable().describe('ISO date and time the trade was opened.'),
+  exitTime: z.string().nullable().describe('ISO date and time the trade was closed.'),
+  quantity: z.number().nullable(),
+  entryPrice: z.number().nullable(),
+  exitPrice: z.number().nullable(),
+  profitLoss: z.number().describe('Profit or loss of the trade in the account currency.'),
+})
+
+export type TearSheetTrade = z.infer<typeof tearSheetTrade>
+
+export const backtestTearSheet = z.object({
+  backtestId: z.string(),
+  name: z.string().nullable(),
+  start: performanceMetrics.shape.start,
+  end: performanceMetrics.shape.end,
+  statistics: z.record(z.string(), z.string()).describe('Headline statistics of QuantConnect.'),
+  drawdowns: z.array(drawdown).describe('Deepest drawdowns computed from the equity chart, deepest first.'),
+  monthlyReturns: performanceMetrics.shape.monthlyReturns,
+  yearlyReturns: performanceMetrics.shape.yearlyReturns,
+  winningTrades: z.array(tearSheetTrade).describe('Closed trades with the largest profits.'),
+  losingTrades: z.array(tearSheetTrade).describe('Closed trades with the largest losses.'),
+  runtimeStatistics: z.record(z.string(), z.string()).describe('Runtime statistics of QuantConnect, e.g. equity, fees and holdings.'),
+  report: z.record(z.string(), z.string()).nullable().describe('Statistics from the tables of the backtest report, null if the report was not read.'),
+})
+
+export type BacktestTearSheet = z.infer<typeof backtestTearSheet>
+
+const toIsoString = (value: Date | string | null | undefined) => (value ? new Date(value).toISOString() : null)
+
+const toTearSheetTrade = ({ symbol, direction, entryTime, exitTime, quantity, entryPrice, exitPrice, profitLoss }: ClosedTrade): TearSheetTrade => ({
+  symbol: symbol?.value ?? null,
+  direction: direction === 0 ? 'long' : direction === 1 ? 'short' : null,
+  entryTime: toIsoString(entryTime),
+  exitTime: toIsoString(exitTime),
+  quantity: quantity ?? null,
+  entryPrice: entryPrice ?? null,
+  exitPrice: exitPrice ?? null,
+  profitLoss: profitLoss ?? 0,
+})
+
+const withoutEmptyValues = (values: Record<string, string | null | undefined> | null | undefined) =>
+  Object.fromEntries(Object.entries(values ?? {}).filter((entry): entry is [string, string] => !!entry[1]))
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+
+/** Read the name and value rows of the tables in the HTML report, the charts of the report are images and are skipped */
+export const extractReportStatistics = (html: string) => {
+  const statistics: Record<string, string> = {}
+
+  for (const [, row] of html.matchAll(/<tr[^>]*>([\s\S]*?)<\/tr>/gi)) {
+    const cells = [...row.matchAll(/<t[dh][^>]*>([\s\S]*?)<\/t[dh]>/gi)].map(([, cell]) => decodeEntities(cell.replace(/<[^>]*>/g, '')).trim())
+
+    if (cells.length === 2 && cells[0] && cells[1]) {
+      statistics[cells[0]] = cells[1]
+    }
+  }
+
+  return statistics
+}
+
+/** Collect the tear sheet of a backtest from its statistics, closed trades, equity metrics and drawdowns */
+export const buildTearSheet = (
+  backtest: Backtest,
+  metrics: PerformanceMetrics,
+  drawdowns: Drawdown[],
+  report: Record<string, string> | null,
+  tradeCount: number
+): BacktestTearSheet => {
+  const statistics = withoutEmptyValues(backtest.statistics)
+  const trades = (backtest.totalPerformance?.closedTrades ?? []).map(toTearSheetTrade)
+
+  return {
+    backtestId: backtest.backtestId ?? '',
+    name: backtest.name ?? null,
+    start: metrics.start,
+    end: metrics.end,
+    statistics: Object.fromEntries(HEADLINE_STATISTICS.filter((name) => statistics[name]).map((name) => [name, statistics[name]])),
+    drawdowns,
+    monthlyReturns: metrics.monthlyReturns,
+    yearlyReturns: metrics.yearlyReturns,
+    winningTrades: trades
+      .filter(({ profitLoss }) => profitLoss > 0)
+      .sort((a, b) => b.profitLoss - a.profitLoss)
+      .slice(0, tradeCount),
+    losingTrades: trades
+      .filter(({ profitLoss }) => profitLoss < 0)
+      .sort((a, b) => a.profitLoss - b.profitLoss)
+      .slice(0, tradeCount),
+    runtimeStatistics: withoutEmptyValues(backtest.runtimeStatistics),
+    report,
+  }
+}
+
+const formatTable = (header: string, values: Record<string, string>) => [
+  `| ${header} | Value |`,
+  `| --- | ---: |`,
+  ...Object.entries(values).map(([name, value]) => `| ${name} | ${value} |`),
+]
+
+const formatNumber = (value: number | null, fractionDigits = 2) => (value === null ? '' : value.toFixed(fractionDigits))
+
+const formatTrades = (title: string, trades: TearSheetTrade[]) => [
+  `## ${title}`,
+  '',
+  ...(trades.length === 0
+    ? ['None']
+    : [
+        '| Symbol | Direction | Entry | Exit | Quantity | Entry Price | Exit Price | P&L |',
+        '| --- | --- | --- | --- | ---: | ---: | ---: | ---: |',
+        ...trades.map(
+          ({ symbol, direction, entryTime, exitTime, quantity, entryPrice, exitPrice, profitLoss }) =>
+            `| ${symbol ?? ''} | ${direction ?? ''} | ${entryTime?.slice(0, 10) ?? ''} | ${exitTime?.slice(0, 10) ?? ''} | ${quantity ?? ''} | ` +
+            `${formatNumber(entryPrice)} | ${formatNumber(exitPrice)} | ${formatNumber(profitLoss)} |`
+        ),
+      ]),
+  '',
+]
+
+const formatDrawdowns = (drawdowns: Drawdown[]) =>
+  drawdowns.length === 0
+    ? ['None']
+    : [
+        '| # | Depth | Peak | Trough | Recovery | Days to Recovery |',
+        '| ---: | ---: | --- | --- | --- | ---: |',
+        ...drawdowns.map(
+          ({ depth, start, trough, recovery, daysToRecovery }, index) =>
+            `| ${index + 1} | ${formatPercent(-depth)} | ${start} | ${trough} | ${recovery ?? 'not recovered'} | ${daysToRecovery ?? ''} |`
+        ),
+      ]
+
+/** Render the tear sheet as Markdown with a section per part */
+export const formatTearSheet = (tearSheet: BacktestTearSheet) =>
+  [
+    `# ${tearSheet.name ?? tearSheet.backtestId}`,
+    '',
+    `Backtest ${tearSheet.backtestId}, ${tearSheet.start} to ${tearSheet.end}`,
+    '',
+    '## Statistics',
+    '',
+    ...formatTable('Statistic', tearSheet.statistics),
+    '',
+    '## Top Drawdowns',
+    '',
+    ...formatDrawdowns(tearSheet.drawdowns),
+    '',
+    '## Monthly Returns',
+    '',
+    formatMonthlyReturns(tearSheet),
+    '',
+    ...formatTrades('Biggest Winners', tearSheet.winningTrades),
+    ...formatTrades('Biggest Losers', tearSheet.losingTrades),
+    '## Runtime Statistics',
+    '',
+    ...formatTable('Statistic', tearSheet.runtimeStatistics),
+    ...(tearSheet.report ? ['', '## Report', '', ...formatTable('Statistic', tearSheet.report)] : []),
+  ].join('\n')
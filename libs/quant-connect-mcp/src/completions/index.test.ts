@@ -0,0 +1,239 @@
+/* eslint-disable max-lines-per-function */
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { QCMCPServer } from '../server'
+import { completeBacktestIds, completeFileNames, completeObjectStoreKeys, completeOrganizationIds, completeProjectIds, registerCompleters } from './index'
+
+jest.mock('@fschaeffler/quant-connect-client', () => ({
+  QCApiError: jest.requireActual('@fschaeffler/quant-connect-client').QCApiError,
+  QCClient: { getInstance: jest.fn() },
+}))
+jest.mock('../server')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+const toProject = (projectId: number, name: string) => ({
+  projectId,
+  organizationId: 'organization-1',
+  name,
+  modified: '2024-01-02T00:00:00Z',
+  created: '2024-01-01T00:00:00Z',
+  ownerId: 1,
+  language: 'Py',
+  collaborators: [],
+  parameters: [],
+  libraries: [],
+})
+
+describe('libs/quant-connect-mcp/src/completions/index', () => {
+  let mockQCClientInstance: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockQCClientInstance = { post: jest.fn() }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('registerCompleters', () => {
+    let client: Client
+    let completeName: jest.Mock
+
+    beforeEach(async () => {
+      completeName = jest.fn().mockResolvedValue(Array.from({ length: 150 }, (_, index) => `name-${index}`))
+
+      const qcMCPServer = { server: new McpServer({ name: 'test', version: '1.0.0' }) } as unknown as QCMCPServer & { server: McpServer }
+      registerCompleters.call(qcMCPServer, { prompts: { name_prompt: { name: completeName } } })
+      registerCompleters.call(qcMCPServer, { resources: { 'qc://names/{name}': { name: completeName } } })
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      serverTransport.sessionId = 'session-1'
+      client = new Client({ name: 'test-client', version: '1.0.0' })
+      await Promise.all([qcMCPServer.server.connect(serverTransport), client.connect(clientTransport)])
+    })
+
+    afterEach(async () => {
+      await client.close()
+    })
+
+    it('should pass the abort signal and the session of the request to the completers', async () => {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/prompt', name: 'name_prompt' },
+        argument: { name: 'name', value: 'na' },
+        context: { arguments: { projectId: '1' } },
+      })
+
+      expect(completeName).toHaveBeenCalledWith('na', { arguments: { projectId: '1' } }, { signal: expect.any(AbortSignal), sessionId: 'session-1' })
+      expect(completion).toEqual({ values: expect.any(Array), total: 150, hasMore: true })
+      expect(completion.values).toHaveLength(100)
+    })
+
+    it('should keep the completers of earlier registrations', async () => {
+      await client.complete({ ref: { type: 'ref/resource', uri: 'qc://names/{name}' }, argument: { name: 'name', value: 'na' } })
+
+      expect(completeName).toHaveBeenCalledTimes(1)
+    })
+
+    it('should suggest nothing for arguments without a completer', async () => {
+      const { completion } = await client.complete({ ref: { type: 'ref/prompt', name: 'name_prompt' }, argument: { name: 'other', value: '' } })
+
+      expect(completion.values).toEqual([])
+    })
+
+    it('should reject unknown prompts and resource templates', async () => {
+      await expect(client.complete({ ref: { type: 'ref/prompt', name: 'other_prompt' }, argument: { name: 'name', value: '' } })).rejects.toThrow(
+        'Prompt other_prompt not found'
+      )
+      await expect(client.complete({ ref: { type: 'ref/resource', uri: 'qc://other/{name}' }, argument: { name: 'name', value: '' } })).rejects.toThrow(
+        'Resource template qc://other/{name} not found'
+      )
+    })
+  })
+
+  describe('completeProjectIds', () => {
+    beforeEach(() => {
+      mockQCClientInstance.post.mockResolvedValue({
+        projects: [toProject(12, 'Momentum'), toProject(34, 'Mean Reversion')],
+      })
+    })
+
+    it('should complete project ids by the name of the project', async () => {
+      expect(await completeProjectIds('REVERSION')).toEqual(['34'])
+    })
+
+    it('should complete project ids by the id of the project', async () => {
+      expect(await completeProjectIds('1')).toEqual(['12'])
+    })
+
+    it('should suggest nothing when QuantConnect fails', async () => {
+      mockQCClientInstance.post.mockRejectedValue(new QCApiError('projects/read', ['Invalid credentials']))
+
+      expect(await completeProjectIds('')).toEqual([])
+    })
+
+    it('should rethrow other errors', async () => {
+      mockQCClientInstance.post.mockRejectedValue(new Error('Network error'))
+
+      await expect(completeProjectIds('')).rejects.toThrow('Network error')
+    })
+
+    it('should pass the abort signal of the completion to QuantConnect', async () => {
+      const { signal } = new AbortController()
+
+      await completeProjectIds('', undefined, { signal })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('projects/read', {}, { signal })
+    })
+
+    it('should read the projects once per session and credentials', async () => {
+      await completeProjectIds('m', undefined, { sessionId: 'session-1' })
+      await completeProjectIds('mo', undefined, { sessionId: 'session-1' })
+      await completeProjectIds('m', undefined, { sessionId: 'session-2' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(2)
+
+      mockedQCClient.getInstance.mockReturnValue({ post: mockQCClientInstance.post } as any)
+      await completeProjectIds('mom', undefined, { sessionId: 'session-1' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(3)
+    })
+
+    it('should read the projects again once the cache expired', async () => {
+      const now = Date.now()
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValueOnce(now)
+        .mockReturnValueOnce(now + 30000)
+
+      await completeProjectIds('m', undefined, { sessionId: 'session-3' })
+      await completeProjectIds('mo', undefined, { sessionId: 'session-3' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should not cache the projects without a session', async () => {
+      await completeProjectIds('m')
+      await completeProjectIds('mo')
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('completeBacktestIds', () => {
+    it('should complete the backtest ids of the project newest first', async () => {
+      mockQCClientInstance.post.mockResolvedValue({
+        backtests: [
+          { backtestId: 'backtest-1', name: 'Baseline', created: '2024-01-01 00:00:00' },
+          { backtestId: 'backtest-2', name: 'Baseline with stops', created: '2024-01-02 00:00:00' },
+          { backtestId: 'backtest-3', name: 'Leverage', created: '2024-01-03 00:00:00' },
+        ],
+      })
+
+      expect(await completeBacktestIds('baseline', { arguments: { projectId: '12' } })).toEqual(['backtest-2', 'backtest-1'])
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/list', { projectId: 12 }, { signal: undefined })
+    })
+
+    it('should suggest nothing without a valid project id', async () => {
+      expect(await completeBacktestIds('')).toEqual([])
+      expect(await completeBacktestIds('', { arguments: { projectId: 'Momentum' } })).toEqual([])
+      expect(mockQCClientInstance.post).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('completeFileNames', () => {
+    it('should complete the names of the files of the project', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ files: [{ name: 'main.py' }, { name: 'research.ipynb' }, { name: 'utils/main_helpers.py' }] })
+
+      expect(await completeFileNames('main', { arguments: { projectId: '12' } })).toEqual(['main.py', 'utils/main_helpers.py'])
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/files/read', { projectId: 12 }, { signal: undefined })
+    })
+  })
+
+  describe('completeOrganizationIds', () => {
+    it('should complete the organization of the account', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ organizationId: 'organization-1' })
+
+      expect(await completeOrganizationIds('org')).toEqual(['organization-1'])
+      expect(await completeOrganizationIds('other')).toEqual([])
+    })
+  })
+
+  describe('completeObjectStoreKeys', () => {
+    it('should complete the keys in the folder of the value', async () => {
+      mockQCClientInstance.post.mockResolvedValue({
+        objects: [
+          { key: 'signals/spy.csv', folder: false },
+          { key: 'signals/daily', folder: true },
+          { key: 'signals/qqq.csv', folder: false },
+        ],
+      })
+
+      expect(await completeObjectStoreKeys('signals/s', { arguments: { organizationId: 'organization-1' } })).toEqual(['signals/spy.csv'])
+      expect(await completeObjectStoreKeys('signals/', { arguments: { organizationId: 'organization-1' } })).toEqual([
+        'signals/spy.csv',
+        'signals/daily/',
+        'signals/qqq.csv',
+      ])
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/object/list', { organizationId: 'organization-1', path: 'signals/' }, { signal: undefined })
+    })
+
+    it('should list the root folder for values without a folder', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ objects: [] })
+
+      await completeObjectStoreKeys('sig', { arguments: { organizationId: 'organization-1' } })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/object/list', { organizationId: 'organization-1', path: '/' }, { signal: undefined })
+    })
+
+    it('should suggest nothing without an organization id', async () => {
+      expect(await completeObjectStoreKeys('signals/')).toEqual([])
+      expect(mockQCClientInstance.post).not.toHaveBeenCalled()
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import { listBacktestsResponse, listObjectResponse, readAccountResponse, readFileResponse, readProjectResponse } from '@fschaeffler/quant-connect-types'
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { CompleteRequestSchema, ErrorCode, McpError, type CompleteResult } from '@modelcontextprotocol/sdk/types.js'
+import type z from 'zod'
+import type { QCMCPServer } from '../server'
+
+/** Values of the other arguments of the prompt or the other variables of the URI template */
+export interface CompletionContext {
+  arguments?: Record<string, string>
+}
+
+/** The `completion/complete` request, which the SDK does not pass to the completers, see `registerCompleters` */
+export interface CompletionRequestContext {
+  /** Aborted when the client cancels the completion, e.g. on the next keystroke */
+  signal?: AbortSignal
+  sessionId?: string
+}
+
+export type CompleteCallback = (value: string, context?: CompletionContext, request?: CompletionRequestContext) => Promise<string[]>
+
+export interface CompleterDefinitions {
+  /** Completers of the arguments by the name of the prompt */
+  prompts: Record<string, Record<string, CompleteCallback>>
+  /** Completers of the variables by the URI template of the resource template */
+  resources: Record<string, Record<string, CompleteCallback>>
+}
+
+// the spec allows at most 100 values per completion
+const MAX_COMPLETION_VALUES = 100
+// a completion reads the projects on each keystroke, so the list is kept for the session for a while
+const PROJECTS_CACHE_TTL_IN_MS = 30000
+
+type Project = NonNullable<z.infer<typeof readProjectResponse>['projects']>[number]
+
+const projectsCache = new Map<string, { client: QCClient; expiresAt: number; projects: Project[] }>()
+const serverCompleters = new WeakMap<McpServer, CompleterDefinitions>()
+
+const matches = (value: string, ...candidates: (string | number | null | undefined)[]) =>
+  candidates.some((candidate) => candidate !== null && candidate !== undefined && String(candidate).toLowerCase().includes(value.toLowerCase()))
+
+const getProjectId = (context?: CompletionContext) => {
+  const projectId = context?.arguments?.projectId
+
+  return projectId && /^\d+$/.test(projectId) ? Number(projectId) : undefined
+}
+
+// suggestions are a convenience, a failed QuantConnect request suggests nothing instead of failing the completion
+const withoutQCApiErrors =
+  (complete: CompleteCallback): CompleteCallback =>
+  async (value, context, request) => {
+    try {
+      return await complete(value, context, request)
+    } catch (error) {
+      if (error instanceof QCApiError) {
+        return []
+      }
+
+      throw error
+    }
+  }
+
+/** The projects of the account, cached per session as long as the session uses the same credentials */
+const readProjects = async ({ signal, sessionId }: CompletionRequestContext = {}) => {
+  const client = QCClient.getInstance()
+  const now = Date.now()
+  const cached = sessionId === undefined ? undefined : projectsCache.get(sessionId)
+
+  if (cached && cached.client === client && cached.expiresAt > now) {
+    return cached.projects
+  }
+
+  const projects = readProjectResponse.parse(await client.post('projects/read', {}, { signal })).projects ?? []
+
+  if (sessionId !== undefined) {
+    for (const [key, { expiresAt }] of projectsCache) {
+      if (expiresAt <= now) {
+        projectsCache.delete(key)
+      }
+    }
+
+    projectsCache.set(sessionId, { client, expiresAt: now + PROJECTS_CACHE_TTL_IN_MS, projects })
+  }
+
+  return projects
+}
+
+/**
+ * Answer `completion/complete` with the completers of the prompts and resource templates of the server, called once by each module that has completers.
+ * The handler of the SDK calls the completers without the request, so it is replaced to pass on its abort signal and session
+ */
+export function registerCompleters(this: QCMCPServer, { prompts = {}, resources = {} }: Partial<CompleterDefinitions>) {
+  const registered = serverCompleters.get(this.server) ?? { prompts: {}, resources: {} }
+  const completers = { prompts: { ...registered.prompts, ...prompts }, resources: { ...registered.resources, ...resources } }
+
+  serverCompleters.set(this.server, completers)
+
+  this.server.server.setRequestHandler(
+    CompleteRequestSchema,
+    async ({ params: { ref, argument, context } }, { signal, sessionId }): Promise<CompleteResult> => {
+      const argumentCompleters = ref.type === 'ref/prompt' ? completers.prompts[ref.name] : completers.resources[ref.uri]
+
+      if (!argumentCompleters) {
+        throw new McpError(ErrorCode.InvalidParams, ref.type === 'ref/prompt' ? `Prompt ${ref.name} not found` : `Resource template ${ref.uri} not found`)
+      }
+
+      const values = (await argumentCompleters[argument.name]?.(argument.value, context, { signal, sessionId })) ?? []
+
+      return { completion: { values: values.slice(0, MAX_COMPLETION_VALUES), total: values.length, hasMore: values.length > MAX_COMPLETION_VALUES } }
+    }
+  )
+}
+
+/** Ids of the projects whose id or name contains the value, so a project can be picked by its name */
+export const completeProjectIds = withoutQCApiErrors(async (value, _context, request) => {
+  const projects = await readProjects(request)
+
+  return projects.filter(({ projectId, name }) => matches(value, projectId, name)).map(({ projectId }) => String(projectId))
+})
+
+/** Ids of the backtests of the project whose id or name contains the value, newest first */
+export const completeBacktestIds = withoutQCApiErrors(async (value, context, request) => {
+  const projectId = getProjectId(context)
+
+  if (projectId === undefined) {
+    return []
+  }
+
+  const { backtests } = listBacktestsResponse.parse(await QCClient.getInstance().post('backtests/list', { projectId }, { signal: request?.signal }))
+
+  return (backtests ?? [])
+    .filter(({ backtestId, name }) => backtestId && matches(value, backtestId, name))
+    .sort((a, b) => (b.created?.getTime() ?? 0) - (a.created?.getTime() ?? 0))
+    .map(({ backtestId }) => backtestId as string)
+})
+
+/** Names of the files of the project that contain the value */
+export const completeFileNames = withoutQCApiErrors(async (value, context, request) => {
+  const projectId = getProjectId(context)
+
+  if (projectId === undefined) {
+    return []
+  }
+
+  const { files } = readFileResponse.parse(await QCClient.getInstance().post('/files/read', { projectId }, { signal: request?.signal }))
+
+  return (files ?? []).map(({ name }) => name).filter((name): name is string => !!name && matches(value, name))
+})
+
+/** Id of the default organization of the account */
+export const completeOrganizationIds = withoutQCApiErrors(async (value, _context, request) => {
+  const { organizationId } = readAccountResponse.parse(await QCClient.getInstance().post('/account/read', {}, { signal: request?.signal }))
+
+  return organizationId && matches(value, organizationId) ? [organizationId] : []
+})
+
+/** Keys in the folder of the value that start with the value, folders end with a slash to continue into them */
+export const completeObjectStoreKeys = withoutQCApiErrors(async (value, context, request) => {
+  const organizationId = context?.arguments?.organizationId
+
+  if (!organizationId) {
+    return []
+  }
+
+  const path = value.slice(0, value.lastIndexOf('/') + 1)
+  const { objects } = listObjectResponse.parse(
+    await QCClient.getInstance().post('/object/list', { organizationId, path: path || '/' }, { signal: request?.signal })
+  )
+
+  return (objects ?? [])
+    .filter((object): object is typeof object & { key: string } => !!object.key)
+    .map(({ key, folder }) => (folder && !key.endsWith('/') ? `${key}/` : key))
+    .filter((key) => key.startsWith(value))
+})
@@ -1 +1,2 @@
+export type { ResourceSubscriptionStore } from './resources'
 export * from './server'
@@ -5,7 +5,9 @@ export const DEFAULT_MCP_SERVER_INSTRUCTIONS = [
   'Expose tools to manage Lean projects, files, datasets, backtests, deployments.',
   'Before any interaction, run getHealthCheckStatus to verify server health.',
   'Create new projects via createProject',
+  'For recurring workflows, start from the prompts: create_momentum_strategy, diagnose_backtest, prepare_live_deployment, tune_parameters.',
   'Never place live trades without "live: true" and a risk summary.',
+  'Destructive and live trading tools first answer with a preview and a confirmationToken; call again with the token only once the user agreed.',
   'Return MCP-compliant JSON outputs: {status, data, errors, next_actions}.',
   'For code edits, return diffs or full files with paths and rationale.',
   'Validate intent; ask only if blocked by missing inputs.',
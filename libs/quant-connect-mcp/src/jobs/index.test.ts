@@ -0,0 +1,123 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { JOB_DEFINITIONS, JOB_TYPES, waitForJob } from './index'
+
+jest.mock('@fschaeffler/quant-connect-client')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+describe('libs/quant-connect-mcp/src/jobs/index', () => {
+  let mockQCClientInstance: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+
+    mockQCClientInstance = { post: jest.fn() }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('JOB_DEFINITIONS', () => {
+    it('should read each job from its endpoint', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ success: true })
+
+      await JOB_DEFINITIONS[JOB_TYPES.COMPILE].read({ projectId: 1, compileId: 'compile-1' })
+      await JOB_DEFINITIONS[JOB_TYPES.BACKTEST].read({ projectId: 1, backtestId: 'backtest-1' })
+      await JOB_DEFINITIONS[JOB_TYPES.OPTIMIZATION].read({ optimizationId: 'optimization-1' })
+      await JOB_DEFINITIONS[JOB_TYPES.OBJECT_STORE_DOWNLOAD].read({ organizationId: 'organization-1', jobId: 'job-1' })
+
+      expect(mockQCClientInstance.post.mock.calls.map(([url]: [string]) => url)).toEqual([
+        '/compile/read',
+        'backtests/read',
+        '/optimizations/read',
+        '/object/get',
+      ])
+    })
+
+    it('should detect finished jobs', () => {
+      expect(JOB_DEFINITIONS[JOB_TYPES.COMPILE].isDone({ state: 'InQueue' })).toBe(false)
+      expect(JOB_DEFINITIONS[JOB_TYPES.COMPILE].isDone({ state: 'BuildError' })).toBe(true)
+      expect(JOB_DEFINITIONS[JOB_TYPES.COMPILE].isDone({ state: 'BuildSuccess' })).toBe(true)
+      expect(JOB_DEFINITIONS[JOB_TYPES.COMPILE].isDone({})).toBe(false)
+      expect(JOB_DEFINITIONS[JOB_TYPES.BACKTEST].isDone({ backtest: { completed: false } })).toBe(false)
+      expect(JOB_DEFINITIONS[JOB_TYPES.BACKTEST].isDone({ backtest: { completed: false, status: 'Runtime Error' } })).toBe(true)
+      expect(JOB_DEFINITIONS[JOB_TYPES.OPTIMIZATION].isDone({ optimization: { status: 'running' } })).toBe(false)
+      expect(JOB_DEFINITIONS[JOB_TYPES.OPTIMIZATION].isDone({ optimization: { status: 'aborted' } })).toBe(true)
+      expect(JOB_DEFINITIONS[JOB_TYPES.OBJECT_STORE_DOWNLOAD].isDone({})).toBe(false)
+      expect(JOB_DEFINITIONS[JOB_TYPES.OBJECT_STORE_DOWNLOAD].isDone({ url: 'https://example.com/files.zip' })).toBe(true)
+    })
+  })
+
+  describe('waitForJob', () => {
+    const compileJob = { type: JOB_TYPES.COMPILE as const, params: { projectId: 1, compileId: 'compile-1' }, status: 'InQueue' }
+
+    it('should return the result once the job is done', async () => {
+      mockQCClientInstance.post
+        .mockResolvedValueOnce({ compileId: 'compile-1', state: 'InQueue' })
+        .mockResolvedValueOnce({ compileId: 'compile-1', state: 'BuildSuccess' })
+
+      const promise = waitForJob(compileJob, Date.now() + 10000)
+      await jest.advanceTimersByTimeAsync(1000)
+
+      await expect(promise).resolves.toEqual({
+        result: { compileId: 'compile-1', state: 'BuildSuccess' },
+        isDone: true,
+        job: { ...compileJob, status: 'BuildSuccess' },
+      })
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/compile/read', compileJob.params, { signal: undefined })
+    })
+
+    it('should return the updated handle if the job is not done before the deadline', async () => {
+      const optimizationJob = { type: JOB_TYPES.OPTIMIZATION as const, params: { optimizationId: 'optimization-1' }, status: 'new' }
+      mockQCClientInstance.post.mockResolvedValue({ optimization: { optimizationId: 'optimization-1', projectId: 1, status: 'running' } })
+
+      const promise = waitForJob(optimizationJob, Date.now() + 8000)
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await expect(promise).resolves.toEqual(expect.objectContaining({ isDone: false, job: { ...optimizationJob, status: 'running' } }))
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(2)
+    })
+
+    it('should report the progress of backtests in percent', async () => {
+      const backtestJob = { type: JOB_TYPES.BACKTEST as const, params: { projectId: 1, backtestId: 'backtest-1' } }
+      mockQCClientInstance.post
+        .mockResolvedValueOnce({ backtest: { completed: false, progress: 0.25, status: 'In Progress...' } })
+        .mockResolvedValueOnce({ backtest: { completed: true, progress: 1, status: 'Completed.' } })
+      const reportProgress = jest.fn()
+
+      const promise = waitForJob(backtestJob, Date.now() + 10000, { reportProgress })
+      await jest.advanceTimersByTimeAsync(3000)
+      await promise
+
+      expect(reportProgress.mock.calls).toEqual([
+        [{ progress: 25, total: 100, message: 'In Progress...' }],
+        [{ progress: 100, total: 100, message: 'Completed.' }],
+      ])
+    })
+
+    it('should report the number of reads for jobs without a progress', async () => {
+      mockQCClientInstance.post.mockResolvedValueOnce({ state: 'InQueue' }).mockResolvedValueOnce({ state: 'BuildSuccess' })
+      const reportProgress = jest.fn()
+
+      const promise = waitForJob(compileJob, Date.now() + 10000, { reportProgress })
+      await jest.advanceTimersByTimeAsync(1000)
+      await promise
+
+      expect(reportProgress.mock.calls).toEqual([[{ progress: 1, message: 'InQueue' }], [{ progress: 2, message: 'BuildSuccess' }]])
+    })
+
+    it('should pass the abort signal to the QuantConnect requests', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ url: 'https://example.com/files.zip' })
+      const { signal } = new AbortController()
+      const downloadJob = { type: JOB_TYPES.OBJECT_STORE_DOWNLOAD as const, params: { organizationId: 'organization-1', jobId: 'job-1' } }
+
+      await expect(waitForJob(downloadJob, Date.now() + 10000, { reportProgress: jest.fn(), signal })).resolves.toEqual(
+        expect.objectContaining({ isDone: true, job: { ...downloadJob, status: 'ready' } })
+      )
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/object/get', downloadJob.params, { signal })
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { getObjectResponse, readBacktestResponse, readCompileResponse, readOptimizationResponse } from '@fschaeffler/quant-connect-types'
+import type z from 'zod'
+import type { ToolHandlerContext } from '../tools'
+import { readBacktestReduced } from '../tools/backtest-tools'
+import { pollUntil } from '../utils'
+import { JOB_TYPES, type JobHandle } from './job-handle'
+
+export * from './job-handle'
+
+type JobParams<T extends JOB_TYPES> = Extract<JobHandle, { type: T }>['params']
+
+interface JobDefinition<T extends JOB_TYPES, Result> {
+  read: (params: JobParams<T>, context?: ToolHandlerContext) => Promise<Result>
+  isDone: (result: Result) => boolean
+  getStatus: (result: Result) => string | undefined
+  /** Progress in percent, if the job reports it */
+  getProgress?: (result: Result) => number | undefined
+  intervalInMS: number
+}
+
+const post = async <T extends z.ZodTypeAny>(url: string, params: unknown, responseSchema: T, context?: ToolHandlerContext): Promise<z.infer<T>> =>
+  responseSchema.parse(await QCClient.getInstance().post(url, params, { signal: context?.signal }))
+
+export const isBacktestDone = ({ backtest }: z.infer<typeof readBacktestResponse>) =>
+  backtest?.completed === true || backtest?.status === 'Runtime Error' || !!backtest?.error
+
+export const JOB_DEFINITIONS: { [T in JOB_TYPES]: JobDefinition<T, any> } = {
+  [JOB_TYPES.COMPILE]: {
+    read: (params, context) => post('/compile/read', params, readCompileResponse, context),
+    isDone: ({ state }: z.infer<typeof readCompileResponse>) => state === 'BuildSuccess' || state === 'BuildError',
+    getStatus: ({ state }: z.infer<typeof readCompileResponse>) => state ?? undefined,
+    intervalInMS: 1000,
+  },
+  [JOB_TYPES.BACKTEST]: {
+    read: (params, context) => readBacktestReduced(params, context),
+    isDone: isBacktestDone,
+    getStatus: ({ backtest }: z.infer<typeof readBacktestResponse>) => backtest?.status ?? undefined,
+    getProgress: ({ backtest }: z.infer<typeof readBacktestResponse>) => (typeof backtest?.progress === 'number' ? backtest.progress * 100 : undefined),
+    intervalInMS: 3000,
+  },
+  [JOB_TYPES.OPTIMIZATION]: {
+    read: (params, context) => post('/optimizations/read', params, readOptimizationResponse, context),
+    isDone: ({ optimization }: z.infer<typeof readOptimizationResponse>) => optimization?.status === 'completed' || optimization?.status === 'aborted',
+    getStatus: ({ optimization }: z.infer<typeof readOptimizationResponse>) => optimization?.status ?? undefined,
+    intervalInMS: 5000,
+  },
+  [JOB_TYPES.OBJECT_STORE_DOWNLOAD]: {
+    read: (params, context) => post('/object/get', params, getObjectResponse, context),
+    // the download URL is only set once the files are packed
+    isDone: ({ url }: z.infer<typeof getObjectResponse>) => !!url,
+    getStatus: ({ url }: z.infer<typeof getObjectResponse>) => (url ? 'ready' : 'packing'),
+    intervalInMS: 2000,
+  },
+}
+
+/** Poll the job until it is done or the deadline is reached, the handle is updated with the last status */
+export const waitForJob = async (job: JobHandle, deadline: number, context?: ToolHandlerContext) => {
+  const definition = JOB_DEFINITIONS[job.type] as JobDefinition<JOB_TYPES, any>
+  let reads = 0
+
+  const { result, isDone } = await pollUntil({
+    read: () => definition.read(job.params, context),
+    isDone: definition.isDone,
+    deadline,
+    intervalInMS: definition.intervalInMS,
+    signal: context?.signal,
+    onRead: async (result) => {
+      const progress = definition.getProgress?.(result)
+      const message = definition.getStatus(result)
+
+      reads++
+      // jobs without a progress only report that they are still alive
+      await context?.reportProgress(progress === undefined ? { progress: reads, message } : { progress, total: 100, message })
+    },
+  })
+
+  return { result, isDone, job: { ...job, status: definition.getStatus(result) } as JobHandle }
+}
@@ -0,0 +1,67 @@
+import { getJobHandle, JOB_TYPES, jobHandle, withJobHandle } from './job-handle'
+
+describe('libs/quant-connect-mcp/src/jobs/job-handle', () => {
+  describe('getJobHandle', () => {
+    it('should return the handle of a compile job', () => {
+      expect(getJobHandle(JOB_TYPES.COMPILE, { projectId: 1 }, { compileId: 'compile-1', state: 'InQueue' })).toEqual({
+        type: JOB_TYPES.COMPILE,
+        params: { projectId: 1, compileId: 'compile-1' },
+        status: 'InQueue',
+      })
+    })
+
+    it('should return the handle of a backtest job', () => {
+      expect(
+        getJobHandle(JOB_TYPES.BACKTEST, { projectId: 1, compileId: 'compile-1' }, { backtest: { backtestId: 'backtest-1', status: 'In Queue...' } })
+      ).toEqual({
+        type: JOB_TYPES.BACKTEST,
+        params: { projectId: 1, backtestId: 'backtest-1' },
+        status: 'In Queue...',
+      })
+    })
+
+    it('should return the handle of an optimization job', () => {
+      expect(getJobHandle(JOB_TYPES.OPTIMIZATION, { projectId: 1 }, { optimizations: [{ optimizationId: 'optimization-1', status: 'new' }] })).toEqual({
+        type: JOB_TYPES.OPTIMIZATION,
+        params: { optimizationId: 'optimization-1' },
+        status: 'new',
+      })
+    })
+
+    it('should return the handle of an Object Store download job', () => {
+      expect(getJobHandle(JOB_TYPES.OBJECT_STORE_DOWNLOAD, { organizationId: 'organization-1', keys: ['a'] }, { jobId: 'job-1' })).toEqual({
+        type: JOB_TYPES.OBJECT_STORE_DOWNLOAD,
+        params: { organizationId: 'organization-1', jobId: 'job-1' },
+      })
+    })
+
+    it('should return undefined if the response does not identify a job', () => {
+      expect(getJobHandle(JOB_TYPES.COMPILE, { projectId: 1 }, { success: false, errors: ['Project not found'] })).toBeUndefined()
+      expect(getJobHandle(JOB_TYPES.BACKTEST, { projectId: 1 }, { backtest: {} })).toBeUndefined()
+      expect(getJobHandle(JOB_TYPES.OPTIMIZATION, { projectId: 1 }, { optimizations: [] })).toBeUndefined()
+      expect(getJobHandle(JOB_TYPES.OBJECT_STORE_DOWNLOAD, { organizationId: 'organization-1' }, undefined)).toBeUndefined()
+    })
+
+    it('should return handles that match the job handle schema', () => {
+      const handle = getJobHandle(JOB_TYPES.BACKTEST, { projectId: 1 }, { backtest: { backtestId: 'backtest-1' } })
+
+      expect(jobHandle.parse(handle)).toEqual(handle)
+    })
+  })
+
+  describe('jobHandle', () => {
+    it('should reject params that do not match the job type', () => {
+      expect(() => jobHandle.parse({ type: JOB_TYPES.COMPILE, params: { optimizationId: 'optimization-1' } })).toThrow()
+    })
+  })
+
+  describe('withJobHandle', () => {
+    it('should add an optional job handle to the shape', () => {
+      const shape = { success: jobHandle }
+      const extendedShape = withJobHandle(shape)
+
+      expect(extendedShape.success).toBe(shape.success)
+      expect(extendedShape.job.isOptional()).toBe(true)
+    })
+  })
+})
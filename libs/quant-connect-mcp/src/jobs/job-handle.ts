@@ -0,0 +1,65 @@
+import { readBacktestBody, readCompileBody, readOptimizationBody } from '@fschaeffler/quant-connect-types'
+import z, { type ZodRawShape } from 'zod'
+
+export const DEFAULT_MAX_WAIT_IN_SECONDS = 45
+export const MAX_WAIT_IN_SECONDS = 240
+
+export enum JOB_TYPES {
+  COMPILE = 'compile',
+  BACKTEST = 'backtest',
+  OPTIMIZATION = 'optimization',
+  OBJECT_STORE_DOWNLOAD = 'objectStoreDownload',
+}
+
+export const maxWaitInSeconds = z
+  .number()
+  .int()
+  .min(1)
+  .max(MAX_WAIT_IN_SECONDS)
+  .optional()
+  .describe(`Maximum time to wait, defaults to ${DEFAULT_MAX_WAIT_IN_SECONDS} seconds.`)
+
+const readObjectStoreDownloadBody = z.object({
+  organizationId: z.string().describe('Id of the organization that owns the Object Store.'),
+  jobId: z.string().describe('Id of the download job for the files.'),
+})
+
+const jobStatus = z.string().optional().describe('Last known status of the job.')
+
+/** The params of a job are the body of the request that reads it */
+export const jobHandle = z
+  .discriminatedUnion('type', [
+    z.object({ type: z.literal(JOB_TYPES.COMPILE), params: readCompileBody, status: jobStatus }),
+    z.object({ type: z.literal(JOB_TYPES.BACKTEST), params: readBacktestBody, status: jobStatus }),
+    z.object({ type: z.literal(JOB_TYPES.OPTIMIZATION), params: readOptimizationBody, status: jobStatus }),
+    z.object({ type: z.literal(JOB_TYPES.OBJECT_STORE_DOWNLOAD), params: readObjectStoreDownloadBody, status: jobStatus }),
+  ])
+  .describe('Handle of a long-running job, pass it to wait_for_job to wait for its result.')
+
+export type JobHandle = z.infer<typeof jobHandle>
+
+/** Output schema of a tool that starts a job */
+export const withJobHandle = <T extends ZodRawShape>(shape: T) => ({
+  ...shape,
+  job: jobHandle.optional().describe('Handle of the started job, pass it to wait_for_job to wait for its result.'),
+})
+
+/** Handle of the job that a tool started, `undefined` if the response does not identify a job */
+export const getJobHandle = (type: JOB_TYPES, params: any, response: any): JobHandle | undefined => {
+  switch (type) {
+    case JOB_TYPES.COMPILE:
+      return response?.compileId
+        ? { type, params: { projectId: params.projectId, compileId: response.compileId }, status: response.state ?? undefined }
+        : undefined
+    case JOB_TYPES.BACKTEST:
+      return response?.backtest?.backtestId
+        ? { type, params: { projectId: params.projectId, backtestId: response.backtest.backtestId }, status: response.backtest.status ?? undefined }
+        : undefined
+    case JOB_TYPES.OPTIMIZATION:
+      return response?.optimizations?.[0]?.optimizationId
+        ? { type, params: { optimizationId: response.optimizations[0].optimizationId }, status: response.optimizations[0].status ?? undefined }
+        : undefined
+    case JOB_TYPES.OBJECT_STORE_DOWNLOAD:
+      return response?.jobId ? { type, params: { organizationId: params.organizationId, jobId: response.jobId } } : undefined
+  }
+}
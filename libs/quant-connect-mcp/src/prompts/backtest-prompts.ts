@@ -0,0 +1,39 @@
+import type { PromptRegistrationDefinitions } from './index'
+import { backtestIdArgument, projectIdArgument, readBacktestContext, readProjectFilesContext, toTextMessage } from './prompt-context'
+import { BACKTEST_PROMPT_KEYS } from './prompt-keys'
+
+export const getBacktestPromptsDefinitions: PromptRegistrationDefinitions<BACKTEST_PROMPT_KEYS> = {
+  [BACKTEST_PROMPT_KEYS.DIAGNOSE_BACKTEST]: {
+    config: {
+      title: 'Diagnose a failing backtest',
+      description: 'Find the cause of a failed or unexpected backtest from its error, statistics and the files of the project, and fix it.',
+      argsSchema: {
+        projectId: projectIdArgument,
+        backtestId: backtestIdArgument,
+      },
+    },
+    func: async ({ projectId, backtestId }, context) => {
+      const [backtest, files] = await Promise.all([
+        readBacktestContext(Number(projectId), backtestId, context),
+        readProjectFilesContext(Number(projectId), context),
+      ])
+
+      return [
+        toTextMessage(
+          [
+            `Diagnose backtest ${backtestId} of project ${projectId}. Its status, error and statistics and the files of the project follow.`,
+            '',
+            'Steps:',
+            '1. If the backtest has an error, locate the failing line from the stacktrace in the files and explain the cause.',
+            '   Use enhance_error_message for unclear errors and check_initialization_errors for errors during initialization.',
+            '2. If it completed, look for signs of a broken algorithm, e.g. no trades, a flat equity or runtime errors in the statistics.',
+            '3. Propose a fix as a diff and apply it with update_file_contents once it is confirmed.',
+            '4. Rerun compile_and_backtest and compare the new backtest with the failed one using compare_backtests.',
+          ].join('\n')
+        ),
+        backtest,
+        ...files,
+      ]
+    },
+  },
+}
@@ -0,0 +1,191 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { QCMCPServer } from '../server'
+import { getAnalysisToolsDefinitions } from '../tools/analysis-tools'
+import { ANALYSIS_TOOL_KEYS } from '../tools/tool-keys'
+import { registerPrompts } from './index'
+
+jest.mock('@fschaeffler/quant-connect-client', () => ({
+  QCApiError: jest.requireActual('@fschaeffler/quant-connect-client').QCApiError,
+  QCClient: { getInstance: jest.fn() },
+}))
+jest.mock('../server')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+const project = {
+  projectId: 1,
+  organizationId: 'organization-1',
+  name: 'Momentum',
+  modified: '2024-01-02T00:00:00Z',
+  created: '2024-01-01T00:00:00Z',
+  ownerId: 1,
+  language: 'Py',
+  description: 'Rotation between ETFs',
+  parameters: { lookback: '126' },
+  collaborators: [],
+  libraries: [],
+}
+
+const backtest = {
+  backtestId: 'backtest-1',
+  name: 'Momentum',
+  status: 'Runtime Error',
+  error: "NameError: name 'spy' is not defined",
+  stacktrace: '  at on_data\n    self.set_holdings(spy, 1) in main.py: line 12',
+  statistics: { 'Total Orders': '0' },
+  charts: {},
+}
+
+describe('libs/quant-connect-mcp/src/prompts/index', () => {
+  let mockQCClientInstance: any
+  let client: Client
+
+  const getText = (message: { content: { type: string; text?: unknown } }) => (message.content.type === 'text' ? String(message.content.text) : '')
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    mockQCClientInstance = {
+      post: jest.fn().mockImplementation(async (url: string) => {
+        switch (url) {
+          case 'projects/read':
+            return { projects: [project], versions: [], success: true }
+          case 'backtests/read':
+            return { backtest, success: true }
+          case 'backtests/list':
+            return {
+              backtests: [
+                { backtestId: 'backtest-1', name: 'Momentum', created: '2024-01-01 00:00:00' },
+                { backtestId: 'backtest-2', name: 'Momentum with stops', created: '2024-01-02 00:00:00' },
+              ],
+              count: 2,
+              success: true,
+            }
+          case '/files/read':
+            return { files: [{ name: 'main.py', content: 'class Momentum(QCAlgorithm): pass' }], success: true }
+          default:
+            throw new Error(`Unexpected request to ${url}`)
+        }
+      }),
+    }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+
+    const qcMCPServer = { server: new McpServer({ name: 'test', version: '1.0.0' }) } as unknown as QCMCPServer
+    registerPrompts.call(qcMCPServer)
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([(qcMCPServer as any).server.connect(serverTransport), client.connect(clientTransport)])
+  })
+
+  afterEach(async () => {
+    jest.restoreAllMocks()
+    await client.close()
+  })
+
+  it('should list the prompts with their arguments', async () => {
+    const { prompts } = await client.listPrompts()
+
+    expect(prompts.map(({ name }) => name)).toEqual(['create_momentum_strategy', 'diagnose_backtest', 'prepare_live_deployment', 'tune_parameters'])
+    expect(prompts.find(({ name }) => name === 'diagnose_backtest')?.arguments).toEqual([
+      { name: 'projectId', description: 'Id of the project.', required: true },
+      { name: 'backtestId', description: 'Id of the backtest.', required: true },
+    ])
+  })
+
+  describe('completion/complete', () => {
+    it('should complete project ids by the name of the project', async () => {
+      const { completion } = await client.complete({ ref: { type: 'ref/prompt', name: 'diagnose_backtest' }, argument: { name: 'projectId', value: 'moment' } })
+
+      expect(completion.values).toEqual(['1'])
+    })
+
+    it('should complete the backtest ids of the project newest first', async () => {
+      const { completion } = await client.complete({
+        ref: { type: 'ref/prompt', name: 'tune_parameters' },
+        argument: { name: 'backtestId', value: '' },
+        context: { arguments: { projectId: '1' } },
+      })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/list', { projectId: 1 }, { signal: expect.any(AbortSignal) })
+      expect(completion.values).toEqual(['backtest-2', 'backtest-1'])
+    })
+  })
+
+  describe('create_momentum_strategy', () => {
+    it('should describe the strategy with the defaults', async () => {
+      const { messages } = await client.getPrompt({ name: 'create_momentum_strategy', arguments: { name: 'Rotation' } })
+
+      expect(messages).toHaveLength(1)
+      expect(getText(messages[0])).toContain('Create a QuantConnect project named "Rotation" with a momentum rotation strategy in Python.')
+      expect(getText(messages[0])).toContain('- Universe: SPY, QQQ, IWM, EFA, EEM, TLT, GLD,')
+      expect(mockQCClientInstance.post).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid arguments', async () => {
+      await expect(client.getPrompt({ name: 'create_momentum_strategy', arguments: { name: 'Rotation', lookbackDays: 'six months' } })).rejects.toThrow(
+        'The lookback has to be a number of days'
+      )
+    })
+  })
+
+  describe('diagnose_backtest', () => {
+    it('should embed the backtest and the files of the project', async () => {
+      const { messages } = await client.getPrompt({ name: 'diagnose_backtest', arguments: { projectId: '1', backtestId: 'backtest-1' } })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-1' }, expect.anything())
+      expect(messages).toHaveLength(3)
+      expect(getText(messages[1])).toContain('"error": "NameError: name \'spy\' is not defined"')
+      expect(getText(messages[1])).not.toContain('charts')
+      expect(messages[2].content).toEqual({
+        type: 'resource',
+        resource: { uri: 'qc://projects/1/files/main.py', mimeType: 'text/x-python', text: 'class Momentum(QCAlgorithm): pass' },
+      })
+    })
+
+    it('should reject project ids that are not numbers', async () => {
+      await expect(client.getPrompt({ name: 'diagnose_backtest', arguments: { projectId: 'Momentum', backtestId: 'backtest-1' } })).rejects.toThrow(
+        'The project id has to be a number'
+      )
+    })
+  })
+
+  describe('prepare_live_deployment', () => {
+    it('should embed the project and the tear sheet of the backtest', async () => {
+      const tearSheetTool = getAnalysisToolsDefinitions[ANALYSIS_TOOL_KEYS.READ_BACKTEST_TEAR_SHEET]
+      const tearSheet = { backtestId: 'backtest-1', name: 'Momentum' }
+      jest.spyOn(tearSheetTool as any, 'func').mockResolvedValue(tearSheet)
+      jest.spyOn(tearSheetTool as any, 'toText').mockReturnValue('# Momentum')
+
+      const { messages } = await client.getPrompt({ name: 'prepare_live_deployment', arguments: { projectId: '1', backtestId: 'backtest-1' } })
+
+      expect(getText(messages[0])).toContain('only call create_live_algorithm after the user confirmed every point')
+      expect(getText(messages[1])).toContain('"description": "Rotation between ETFs"')
+      expect(getText(messages[2])).toBe('# Momentum')
+    })
+  })
+
+  describe('tune_parameters', () => {
+    it('should embed the project and the baseline backtest', async () => {
+      const { messages } = await client.getPrompt({ name: 'tune_parameters', arguments: { projectId: '1', backtestId: 'backtest-1' } })
+
+      expect(getText(messages[0])).toContain('for TotalPerformance.PortfolioStatistics.SharpeRatio')
+      expect(getText(messages[1])).toContain('"lookback": "126"')
+      expect(getText(messages[2])).toContain('Backtest backtest-1')
+    })
+
+    it('should leave out the baseline without a backtest', async () => {
+      const { messages } = await client.getPrompt({
+        name: 'tune_parameters',
+        arguments: { projectId: '1', target: 'TotalPerformance.PortfolioStatistics.Drawdown' },
+      })
+
+      expect(messages).toHaveLength(2)
+      expect(getText(messages[0])).toContain('for TotalPerformance.PortfolioStatistics.Drawdown.\nThe project follows.')
+      expect(mockQCClientInstance.post).not.toHaveBeenCalledWith('backtests/read', expect.anything(), expect.anything())
+    })
+  })
+})
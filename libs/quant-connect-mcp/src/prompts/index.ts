@@ -0,0 +1,56 @@
+import { Completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import type { ZodType, ZodTypeDef } from 'zod'
+import { registerCompleters, type CompleteCallback } from '../completions'
+import { QCMCPServer } from '../server'
+import type { ToolHandlerContext } from '../tools'
+import { createProgressReporter } from '../utils'
+import { getBacktestPromptsDefinitions } from './backtest-prompts'
+import { getLivePromptsDefinitions } from './live-prompts'
+import { getOptimizationPromptsDefinitions } from './optimization-prompts'
+import { getProjectPromptsDefinitions } from './project-prompts'
+import type { PROMPT_KEYS } from './prompt-keys'
+
+/** Prompt arguments are passed as strings */
+export type PromptArgsShape = Record<string, ZodType<string | undefined, ZodTypeDef, string | undefined>>
+
+export interface PromptRegistrationDefinition {
+  config: {
+    title?: string
+    description?: string
+    argsSchema?: PromptArgsShape
+  }
+  /** Builds the messages of the prompt, the project or backtest context is fetched with the tool definitions */
+  func: (args: any, context: ToolHandlerContext) => Promise<PromptMessage[]>
+}
+
+export type PromptRegistrationDefinitions<T extends string> = Record<T, PromptRegistrationDefinition>
+
+// the completers are attached to the arguments with `completable`, see prompt-context
+const getArgumentCompleters = (argsSchema: PromptArgsShape = {}): Record<string, CompleteCallback> =>
+  Object.fromEntries(
+    Object.entries(argsSchema).flatMap(([name, argument]) => (argument instanceof Completable ? [[name, argument._def.complete as CompleteCallback]] : []))
+  )
+
+export function registerPrompts(this: QCMCPServer) {
+  const definitions: PromptRegistrationDefinitions<PROMPT_KEYS> = {
+    ...getProjectPromptsDefinitions,
+    ...getBacktestPromptsDefinitions,
+    ...getLivePromptsDefinitions,
+    ...getOptimizationPromptsDefinitions,
+  }
+
+  Object.entries(definitions).forEach(([promptName, definition]) => {
+    // the SDK completes optional arguments, but its types only allow completions of required ones
+    this.server.registerPrompt(promptName, definition.config as { argsSchema?: Record<string, ZodType<string, ZodTypeDef, string>> }, async (args, extra) => ({
+      description: definition.config.description,
+      messages: await definition.func(args, { reportProgress: createProgressReporter(extra), signal: extra.signal }),
+    }))
+  })
+
+  registerCompleters.call(this, {
+    prompts: Object.fromEntries(
+      Object.entries(definitions).map(([promptName, definition]) => [promptName, getArgumentCompleters(definition.config.argsSchema)])
+    ),
+  })
+}
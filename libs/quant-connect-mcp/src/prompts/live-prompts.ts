@@ -0,0 +1,42 @@
+import type { PromptRegistrationDefinitions } from './index'
+import { backtestIdArgument, projectIdArgument, readBacktestTearSheetContext, readProjectContext, toTextMessage } from './prompt-context'
+import { LIVE_PROMPT_KEYS } from './prompt-keys'
+
+export const getLivePromptsDefinitions: PromptRegistrationDefinitions<LIVE_PROMPT_KEYS> = {
+  [LIVE_PROMPT_KEYS.PREPARE_LIVE_DEPLOYMENT]: {
+    config: {
+      title: 'Prepare a live deployment checklist',
+      description: 'Review a project and the backtest it is deployed from and walk through a checklist before going live.',
+      argsSchema: {
+        projectId: projectIdArgument,
+        backtestId: backtestIdArgument.describe('Id of the backtest that validated the algorithm.'),
+      },
+    },
+    func: async ({ projectId, backtestId }, context) => {
+      const [project, tearSheet] = await Promise.all([
+        readProjectContext(Number(projectId), context),
+        readBacktestTearSheetContext(Number(projectId), backtestId, context),
+      ])
+
+      return [
+        toTextMessage(
+          [
+            `Prepare the live deployment of project ${projectId}, validated by backtest ${backtestId}. The project and the tear sheet of the backtest follow.`,
+            '',
+            'Checklist:',
+            '- Performance: are the drawdowns, the number of trades and the period of the backtest sufficient to trust the result?',
+            '- Risk: maximum leverage, exposure and drawdown guards of the algorithm, and the position sizing for the live cash.',
+            '- Brokerage: brokerage model, account type and data provider match the live account, authorize it with authorize_connection_step1.',
+            '- Node: a live node is available, see read_project_nodes.',
+            '- Parameters: the live parameters and the LEAN version are the ones of the backtest.',
+            '- Running deployments: list_live_algorithms shows no other live algorithm of the project.',
+            '',
+            'Present the checklist with a risk summary and only call create_live_algorithm after the user confirmed every point.',
+          ].join('\n')
+        ),
+        project,
+        tearSheet,
+      ]
+    },
+  },
+}
@@ -0,0 +1,49 @@
+import z from 'zod'
+import type { PromptRegistrationDefinitions } from './index'
+import { optionalBacktestIdArgument, projectIdArgument, readBacktestContext, readProjectContext, toTextMessage } from './prompt-context'
+import { OPTIMIZATION_PROMPT_KEYS } from './prompt-keys'
+
+const OPTIMIZATION_TARGETS = [
+  'TotalPerformance.PortfolioStatistics.SharpeRatio',
+  'TotalPerformance.PortfolioStatistics.CompoundingAnnualReturn',
+  'TotalPerformance.PortfolioStatistics.ProbabilisticSharpeRatio',
+  'TotalPerformance.PortfolioStatistics.Drawdown',
+] as const
+
+export const getOptimizationPromptsDefinitions: PromptRegistrationDefinitions<OPTIMIZATION_PROMPT_KEYS> = {
+  [OPTIMIZATION_PROMPT_KEYS.TUNE_PARAMETERS]: {
+    config: {
+      title: 'Tune parameters via optimization',
+      description: 'Tune the parameters of a project with a grid search optimization and check the result for overfitting.',
+      argsSchema: {
+        projectId: projectIdArgument,
+        backtestId: optionalBacktestIdArgument.describe('Id of a backtest to use as the baseline.'),
+        target: z.enum(OPTIMIZATION_TARGETS).optional().describe('Statistic to optimize, defaults to the Sharpe ratio.'),
+      },
+    },
+    func: async ({ projectId, backtestId, target = OPTIMIZATION_TARGETS[0] }, context) => {
+      const [project, baseline] = await Promise.all([
+        readProjectContext(Number(projectId), context),
+        backtestId ? readBacktestContext(Number(projectId), backtestId, context) : undefined,
+      ])
+
+      return [
+        toTextMessage(
+          [
+            `Tune the parameters of project ${projectId} for ${target}.`,
+            baseline ? 'The project and the baseline backtest follow.' : 'The project follows.',
+            '',
+            'Steps:',
+            '1. Pick the parameters worth tuning from the project parameters, with ranges and steps around their current values.',
+            '2. Compile the project with create_compile and estimate the cost with estimate_optimization_time, keep the grid small.',
+            '3. Start the optimization with create_optimization after the user accepted the estimate, then wait with wait_for_job.',
+            '4. Read the result with read_optimization and prefer parameters whose neighbours perform similarly over a single best run.',
+            '5. Backtest the chosen parameters and compare them with the baseline using compare_backtests.',
+          ].join('\n')
+        ),
+        project,
+        ...(baseline ? [baseline] : []),
+      ]
+    },
+  },
+}
@@ -0,0 +1,46 @@
+import z from 'zod'
+import type { PromptRegistrationDefinitions } from './index'
+import { toTextMessage } from './prompt-context'
+import { PROJECT_PROMPT_KEYS } from './prompt-keys'
+
+const DEFAULT_MOMENTUM_SYMBOLS = 'SPY, QQQ, IWM, EFA, EEM, TLT, GLD'
+const DEFAULT_LOOKBACK_DAYS = '126'
+
+export const getProjectPromptsDefinitions: PromptRegistrationDefinitions<PROJECT_PROMPT_KEYS> = {
+  [PROJECT_PROMPT_KEYS.CREATE_MOMENTUM_STRATEGY]: {
+    config: {
+      title: 'Create a momentum strategy project',
+      description: 'Create a project with a momentum rotation algorithm, compile and backtest it and summarize the result.',
+      argsSchema: {
+        name: z.string().min(1).describe('Name of the project to create.'),
+        language: z.enum(['Py', 'C#']).optional().describe('Programming language of the project, defaults to Py.'),
+        symbols: z.string().optional().describe(`Comma-separated tickers to rotate between, defaults to ${DEFAULT_MOMENTUM_SYMBOLS}.`),
+        lookbackDays: z
+          .string()
+          .regex(/^\d+$/, 'The lookback has to be a number of days')
+          .optional()
+          .describe(`Number of trading days the momentum is measured over, defaults to ${DEFAULT_LOOKBACK_DAYS}.`),
+      },
+    },
+    func: async ({ name, language = 'Py', symbols = DEFAULT_MOMENTUM_SYMBOLS, lookbackDays = DEFAULT_LOOKBACK_DAYS }) => [
+      toTextMessage(
+        [
+          `Create a QuantConnect project named "${name}" with a momentum rotation strategy in ${language === 'Py' ? 'Python' : 'C#'}.`,
+          '',
+          'Strategy:',
+          `- Universe: ${symbols}, added as daily equities with parameters for the tickers.`,
+          `- Rank the assets by their rate of change over ${lookbackDays} trading days with a warmed-up indicator, e.g. ROC or MOMP.`,
+          '- Once a month, hold the top ranked assets with equal weights and only if their momentum is positive, otherwise stay in cash.',
+          '- Use SetHoldings with PortfolioTarget lists and schedule the rebalance with a ScheduledEvent.',
+          '- Set the start date, end date, cash, brokerage model and benchmark explicitly and expose the lookback as a parameter.',
+          '',
+          'Steps:',
+          '1. Create the project with create_project.',
+          '2. Write the algorithm to the main file with update_file_contents.',
+          '3. Run compile_and_backtest and fix compile errors until it succeeds.',
+          '4. Summarize the result with read_backtest_tear_sheet and suggest next steps, e.g. tune_parameters.',
+        ].join('\n')
+      ),
+    ],
+  },
+}
@@ -0,0 +1,72 @@
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import type { PromptMessage } from '@modelcontextprotocol/sdk/types.js'
+import z from 'zod'
+import { completeBacktestIds, completeProjectIds, type CompletionRequestContext } from '../completions'
+import { getFileMimeType } from '../resources/project-resources'
+import { getProjectFileUri } from '../resources/resource-uris'
+import { executeToolDefinition, type ToolHandlerContext } from '../tools'
+import { getAnalysisToolsDefinitions } from '../tools/analysis-tools'
+import { getBacktestToolsDefinitions } from '../tools/backtest-tools'
+import { getFileToolsDefinitions } from '../tools/file-tools'
+import { getProjectToolsDefinitions } from '../tools/project-tools'
+import { ANALYSIS_TOOL_KEYS, BACKTEST_TOOL_KEYS, FILE_TOOL_KEYS, PROJECT_TOOL_KEYS } from '../tools/tool-keys'
+
+// prompt arguments are always strings, the completion has to wrap the optional argument to be found by the SDK
+export const projectIdArgument = completable(z.string().regex(/^\d+$/, 'The project id has to be a number'), completeProjectIds).describe('Id of the project.')
+
+export const backtestIdArgument = completable(z.string().min(1), completeBacktestIds).describe('Id of the backtest.')
+
+export const optionalBacktestIdArgument = completable(z.string().min(1).optional(), (value, context, request?: CompletionRequestContext) =>
+  completeBacktestIds(value ?? '', context, request)
+)
+
+export const toTextMessage = (text: string): PromptMessage => ({ role: 'user', content: { type: 'text', text } })
+
+const toJSONMessage = (title: string, data: unknown) => toTextMessage(`${title}:\n\n\`\`\`json\n${JSON.stringify(data, null, 2)}\n\`\`\``)
+
+/** The name, language, description and parameters of a project as read by `read_project` */
+export const readProjectContext = async (projectId: number, context: ToolHandlerContext) => {
+  const { projects } = await executeToolDefinition(getProjectToolsDefinitions[PROJECT_TOOL_KEYS.READ_PROJECT], { projectId }, context)
+  const { name, language, description, parameters, leanVersionId } = projects?.[0] ?? {}
+
+  return toJSONMessage(`Project ${projectId}`, { name, language, description, parameters, leanVersionId })
+}
+
+/** The files of a project as read by `read_file`, embedded as resources of the project file template */
+export const readProjectFilesContext = async (projectId: number, context: ToolHandlerContext): Promise<PromptMessage[]> => {
+  const { files } = await executeToolDefinition(getFileToolsDefinitions[FILE_TOOL_KEYS.READ_FILE], { projectId }, context)
+
+  return (files ?? [])
+    .filter(({ name }: { name?: string | null }) => !!name)
+    .map(({ name, content }: { name: string; content?: string | null }) => ({
+      role: 'user',
+      content: { type: 'resource', resource: { uri: getProjectFileUri(projectId, name), mimeType: getFileMimeType(name), text: content ?? '' } },
+    }))
+}
+
+/** The status, error and statistics of a backtest as read by `read_backtest_reduced` */
+export const readBacktestContext = async (projectId: number, backtestId: string, context: ToolHandlerContext) => {
+  const { backtest } = await executeToolDefinition(getBacktestToolsDefinitions[BACKTEST_TOOL_KEYS.READ_BACKTEST_REDUCED], { projectId, backtestId }, context)
+  const { name, status, backtestStart, backtestEnd, hasInitializeError, error, stacktrace, statistics, runtimeStatistics, parameterSet } = backtest ?? {}
+
+  return toJSONMessage(`Backtest ${backtestId}`, {
+    name,
+    status,
+    backtestStart,
+    backtestEnd,
+    hasInitializeError,
+    error,
+    stacktrace,
+    statistics,
+    runtimeStatistics,
+    parameterSet,
+  })
+}
+
+/** The Markdown tear sheet of a backtest as rendered by `read_backtest_tear_sheet` */
+export const readBacktestTearSheetContext = async (projectId: number, backtestId: string, context: ToolHandlerContext) => {
+  const definition = getAnalysisToolsDefinitions[ANALYSIS_TOOL_KEYS.READ_BACKTEST_TEAR_SHEET]
+  const tearSheet = await executeToolDefinition(definition, { projectId, backtestId }, context)
+
+  return toTextMessage('toText' in definition && definition.toText ? definition.toText(tearSheet) : JSON.stringify(tearSheet, null, 2))
+}
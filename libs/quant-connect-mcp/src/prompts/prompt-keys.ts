@@ -0,0 +1,17 @@
+export enum PROJECT_PROMPT_KEYS {
+  CREATE_MOMENTUM_STRATEGY = 'create_momentum_strategy',
+}
+
+export enum BACKTEST_PROMPT_KEYS {
+  DIAGNOSE_BACKTEST = 'diagnose_backtest',
+}
+
+export enum LIVE_PROMPT_KEYS {
+  PREPARE_LIVE_DEPLOYMENT = 'prepare_live_deployment',
+}
+
+export enum OPTIMIZATION_PROMPT_KEYS {
+  TUNE_PARAMETERS = 'tune_parameters',
+}
+
+export type PROMPT_KEYS = PROJECT_PROMPT_KEYS | BACKTEST_PROMPT_KEYS | LIVE_PROMPT_KEYS | OPTIMIZATION_PROMPT_KEYS
@@ -0,0 +1,26 @@
+import { completeBacktestIds, completeProjectIds } from '../completions'
+import { readBacktestReduced } from '../tools/backtest-tools'
+import type { ResourceTemplateDefinitions } from './index'
+import { getProjectIdVariable, getUriVariable, RESOURCE_TEMPLATE_KEYS } from './resource-uris'
+
+export const getBacktestResourcesDefinitions: ResourceTemplateDefinitions<RESOURCE_TEMPLATE_KEYS.BACKTEST> = {
+  [RESOURCE_TEMPLATE_KEYS.BACKTEST]: {
+    config: {
+      title: 'Backtest',
+      description: 'Statistics and runtime statistics of a backtest as JSON, without orders, charts and closed trades.',
+      mimeType: 'application/json',
+    },
+    complete: {
+      projectId: completeProjectIds,
+      backtestId: completeBacktestIds,
+    },
+    read: async (uri, variables, context) => {
+      const { backtest } = await readBacktestReduced(
+        { projectId: getProjectIdVariable(variables), backtestId: getUriVariable(variables, 'backtestId') },
+        context
+      )
+
+      return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(backtest ?? null, null, 2) }] }
+    },
+  },
+}
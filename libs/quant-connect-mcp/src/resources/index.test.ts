@@ -0,0 +1,293 @@
+/* eslint-disable max-lines-per-function */
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { ErrorCode, ResourceListChangedNotificationSchema, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js'
+import z from 'zod'
+import type { QCMCPServer } from '../server'
+import { notifyResourceListChanged, notifyResourcesUpdated, registerResources, RESOURCE_PAGE_SIZE, type ResourceSubscriptionStore } from './index'
+
+jest.mock('@fschaeffler/quant-connect-client')
+jest.mock('../server')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+const toProject = (projectId: number) => ({
+  projectId,
+  organizationId: 'organization-1',
+  name: `Project ${projectId}`,
+  modified: '2024-01-02T00:00:00Z',
+  created: '2024-01-01T00:00:00Z',
+  ownerId: 1,
+  language: 'Py',
+  collaborators: [],
+  parameters: [],
+  libraries: [],
+})
+
+describe('libs/quant-connect-mcp/src/resources/index', () => {
+  let mockQCClientInstance: any
+  let qcMCPServer: QCMCPServer & { server: McpServer; resourceSubscriptionStore?: ResourceSubscriptionStore }
+  let serverTransport: InMemoryTransport
+  let client: Client
+
+  const mockProjects = (total: number) =>
+    mockQCClientInstance.post.mockImplementation(async (url: string, body: any) => {
+      if (url === 'projects/read') {
+        const { start = 0, end = total } = body
+        return { projects: Array.from({ length: Math.max(Math.min(end, total) - start, 0) }, (_, index) => toProject(start + index + 1)) }
+      }
+
+      if (url === '/files/read') {
+        return {
+          files: [
+            { name: 'main.py', content: `# project ${body.projectId}` },
+            { name: 'utils/helpers.py', content: '' },
+          ],
+        }
+      }
+
+      throw new Error(`Unexpected request to ${url}`)
+    })
+
+  const createResourceSubscriptionStore = (): ResourceSubscriptionStore => {
+    const subscriptions = new Map<string, Set<string>>()
+
+    return {
+      getResourceSubscriptions: async (sessionId) => [...(subscriptions.get(sessionId) ?? [])],
+      addResourceSubscription: async (sessionId, uri) => {
+        subscriptions.set(sessionId, new Set([...(subscriptions.get(sessionId) ?? []), uri]))
+      },
+      deleteResourceSubscription: async (sessionId, uri) => {
+        subscriptions.get(sessionId)?.delete(uri)
+      },
+    }
+  }
+
+  const connect = async (resourceSubscriptionStore?: ResourceSubscriptionStore) => {
+    qcMCPServer = { server: new McpServer({ name: 'test', version: '1.0.0' }), resourceSubscriptionStore } as any
+    registerResources.call(qcMCPServer)
+
+    // stands in for a tool that changes resources
+    qcMCPServer.server.registerTool('update_resources', { inputSchema: { uris: z.array(z.string()) } }, async ({ uris }, extra) => {
+      await notifyResourcesUpdated.call(qcMCPServer, uris, extra)
+      return { content: [] }
+    })
+    qcMCPServer.server.registerTool('create_resource', { inputSchema: {} }, async (_args, extra) => {
+      await notifyResourceListChanged(extra)
+      return { content: [] }
+    })
+
+    let clientTransport: InMemoryTransport
+    ;[clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+    serverTransport.sessionId = 'session-1'
+
+    client = new Client({ name: 'test-client', version: '1.0.0' })
+    await Promise.all([qcMCPServer.server.connect(serverTransport), client.connect(clientTransport)])
+  }
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+
+    mockQCClientInstance = { post: jest.fn() }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+
+    await connect(createResourceSubscriptionStore())
+  })
+
+  afterEach(async () => {
+    await client.close()
+  })
+
+  it('should announce resource subscriptions', () => {
+    expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: true, listChanged: true })
+  })
+
+  it('should list the resource templates', async () => {
+    const { resourceTemplates } = await client.listResourceTemplates()
+
+    expect(resourceTemplates.map(({ name, uriTemplate }) => ({ name, uriTemplate }))).toEqual([
+      { name: 'project_file', uriTemplate: 'qc://projects/{projectId}/files/{+name}' },
+      { name: 'backtest', uriTemplate: 'qc://projects/{projectId}/backtests/{backtestId}' },
+      { name: 'object_store_object', uriTemplate: 'qc://organizations/{organizationId}/object-store/{+key}' },
+    ])
+  })
+
+  describe('resources/list', () => {
+    it('should list the files of a page of projects', async () => {
+      mockProjects(RESOURCE_PAGE_SIZE + 2)
+
+      const { resources, nextCursor } = await client.listResources()
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('projects/read', { start: 0, end: RESOURCE_PAGE_SIZE }, expect.anything())
+      expect(resources).toHaveLength(2 * RESOURCE_PAGE_SIZE)
+      expect(resources[0]).toEqual({ uri: 'qc://projects/1/files/main.py', name: 'main.py', title: 'Project 1/main.py', mimeType: 'text/x-python' })
+      expect(resources[1].uri).toBe('qc://projects/1/files/utils/helpers.py')
+      expect(nextCursor).toBe(String(RESOURCE_PAGE_SIZE))
+    })
+
+    it('should continue at the cursor and end after the last project', async () => {
+      mockProjects(RESOURCE_PAGE_SIZE + 2)
+
+      const { resources, nextCursor } = await client.listResources({ cursor: String(RESOURCE_PAGE_SIZE) })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('projects/read', { start: RESOURCE_PAGE_SIZE, end: 2 * RESOURCE_PAGE_SIZE }, expect.anything())
+      expect(resources.map(({ uri }) => uri)).toContain(`qc://projects/${RESOURCE_PAGE_SIZE + 2}/files/main.py`)
+      expect(nextCursor).toBeUndefined()
+    })
+
+    it('should reject invalid cursors', async () => {
+      await expect(client.listResources({ cursor: 'page-2' })).rejects.toThrow('Invalid cursor page-2')
+    })
+  })
+
+  describe('resources/read', () => {
+    it('should read a file of a project', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ files: [{ name: 'utils/helpers.py', content: 'def helper(): pass' }] })
+
+      const { contents } = await client.readResource({ uri: 'qc://projects/1/files/utils/helpers.py' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/files/read', { projectId: 1, name: 'utils/helpers.py' }, expect.anything())
+      expect(contents).toEqual([{ uri: 'qc://projects/1/files/utils/helpers.py', mimeType: 'text/x-python', text: 'def helper(): pass' }])
+    })
+
+    it('should reject files that do not exist', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ files: [], success: true })
+
+      await expect(client.readResource({ uri: 'qc://projects/1/files/missing.py' })).rejects.toThrow(
+        expect.objectContaining({ code: ErrorCode.InvalidParams, message: expect.stringContaining('Resource qc://projects/1/files/missing.py not found') })
+      )
+    })
+
+    it('should read a backtest without its orders and charts', async () => {
+      mockQCClientInstance.post.mockResolvedValue({
+        backtest: { backtestId: 'backtest-1', name: 'Momentum', statistics: { 'Sharpe Ratio': '1.2' }, charts: {} },
+        success: true,
+      })
+
+      const { contents } = await client.readResource({ uri: 'qc://projects/1/backtests/backtest-1' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-1' }, expect.anything())
+      expect(contents[0].mimeType).toBe('application/json')
+      expect(JSON.parse(contents[0].text as string)).toEqual({ backtestId: 'backtest-1', name: 'Momentum', statistics: { 'Sharpe Ratio': '1.2' } })
+    })
+
+    it('should read the properties of an Object Store object', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ metadata: { key: 'signals/spy.csv', size: 24, mime: 'text/csv', preview: 'date,signal' }, success: true })
+
+      const { contents } = await client.readResource({ uri: 'qc://organizations/organization-1/object-store/signals/spy.csv' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+        '/object/properties',
+        { organizationId: 'organization-1', key: 'signals/spy.csv' },
+        expect.anything()
+      )
+      expect(JSON.parse(contents[0].text as string)).toMatchObject({ key: 'signals/spy.csv', preview: 'date,signal' })
+    })
+
+    it('should reject URIs with an invalid project id', async () => {
+      await expect(client.readResource({ uri: 'qc://projects/abc/files/main.py' })).rejects.toThrow('Invalid project id abc')
+    })
+  })
+
+  describe('completion/complete', () => {
+    it('should complete the variables of the project file template', async () => {
+      mockProjects(2)
+
+      const { completion: projectIds } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'qc://projects/{projectId}/files/{+name}' },
+        argument: { name: 'projectId', value: 'project 2' },
+      })
+      const { completion: names } = await client.complete({
+        ref: { type: 'ref/resource', uri: 'qc://projects/{projectId}/files/{+name}' },
+        argument: { name: 'name', value: 'utils' },
+        context: { arguments: { projectId: '2' } },
+      })
+
+      expect(projectIds.values).toEqual(['2'])
+      expect(names.values).toEqual(['utils/helpers.py'])
+    })
+  })
+
+  describe('notifications/resources/list_changed', () => {
+    it('should notify the client of the changed resource list on the stream of the tool call', async () => {
+      const listChanged = jest.fn()
+      client.setNotificationHandler(ResourceListChangedNotificationSchema, listChanged)
+      const send = jest.spyOn(serverTransport, 'send')
+
+      await client.callTool({ name: 'create_resource', arguments: {} })
+
+      expect(listChanged).toHaveBeenCalled()
+      expect(send).toHaveBeenCalledWith({ jsonrpc: '2.0', method: 'notifications/resources/list_changed' }, { relatedRequestId: expect.anything() })
+    })
+
+    it('should not fail the tool call if the notification cannot be sent', async () => {
+      const sendNotification = jest.fn().mockRejectedValue(new Error('Stream closed'))
+
+      await expect(notifyResourceListChanged({ sendNotification } as any)).resolves.toBeUndefined()
+    })
+  })
+
+  describe('resources/subscribe', () => {
+    let updatedUris: string[]
+
+    beforeEach(() => {
+      updatedUris = []
+      client.setNotificationHandler(ResourceUpdatedNotificationSchema, ({ params }) => {
+        updatedUris.push(params.uri)
+      })
+    })
+
+    it('should notify the session of its updated resources on the stream of the tool call', async () => {
+      const send = jest.spyOn(serverTransport, 'send')
+
+      await client.subscribeResource({ uri: 'qc://projects/1/files/main.py' })
+      await client.callTool({ name: 'update_resources', arguments: { uris: ['qc://projects/1/files/main.py', 'qc://projects/1/files/research.ipynb'] } })
+      await client.unsubscribeResource({ uri: 'qc://projects/1/files/main.py' })
+      await client.callTool({ name: 'update_resources', arguments: { uris: ['qc://projects/1/files/main.py'] } })
+
+      expect(updatedUris).toEqual(['qc://projects/1/files/main.py'])
+      expect(send).toHaveBeenCalledWith(
+        { jsonrpc: '2.0', method: 'notifications/resources/updated', params: { uri: 'qc://projects/1/files/main.py' } },
+        { relatedRequestId: expect.anything() }
+      )
+    })
+
+    it('should not notify sessions of resources that other sessions subscribed to', async () => {
+      await qcMCPServer.resourceSubscriptionStore?.addResourceSubscription('session-2', 'qc://projects/1/files/main.py')
+
+      await client.callTool({ name: 'update_resources', arguments: { uris: ['qc://projects/1/files/main.py'] } })
+
+      expect(updatedUris).toEqual([])
+    })
+
+    it('should not fail the tool call if the subscriptions cannot be read', async () => {
+      await client.subscribeResource({ uri: 'qc://projects/1/files/main.py' })
+      jest.spyOn(qcMCPServer.resourceSubscriptionStore!, 'getResourceSubscriptions').mockRejectedValue(new Error('Table not found'))
+
+      const result = await client.callTool({ name: 'update_resources', arguments: { uris: ['qc://projects/1/files/main.py'] } })
+
+      expect(result.isError).toBeUndefined()
+      expect(updatedUris).toEqual([])
+    })
+
+    it('should reject subscriptions to unknown resources', async () => {
+      await expect(client.subscribeResource({ uri: 'qc://organizations/1' })).rejects.toThrow('Resource qc://organizations/1 not found')
+    })
+
+    it('should reject subscriptions without a session', async () => {
+      serverTransport.sessionId = undefined
+
+      await expect(client.subscribeResource({ uri: 'qc://projects/1/files/main.py' })).rejects.toThrow('Subscriptions need a session')
+    })
+
+    it('should not offer subscriptions without a store', async () => {
+      await client.close()
+      await connect()
+
+      expect(client.getServerCapabilities()?.resources).toEqual({ subscribe: false, listChanged: true })
+      await expect(client.subscribeResource({ uri: 'qc://projects/1/files/main.py' })).rejects.toThrow()
+    })
+  })
+})
@@ -0,0 +1,157 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { readProjectBody, readProjectResponse } from '@fschaeffler/quant-connect-types'
+import { ResourceTemplate, type ResourceMetadata } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  type ListResourcesResult,
+  type ReadResourceResult,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js'
+import z from 'zod'
+import { registerCompleters, type CompleteCallback } from '../completions'
+import { QCMCPServer } from '../server'
+import type { ToolHandlerContext } from '../tools'
+import { createProgressReporter } from '../utils'
+import { getBacktestResourcesDefinitions } from './backtest-resources'
+import { getObjectStoreResourcesDefinitions } from './object-store-resources'
+import { getProjectResourcesDefinitions, listProjectFileResources } from './project-resources'
+import { isResourceUri, RESOURCE_TEMPLATE_KEYS, RESOURCE_URI_TEMPLATES } from './resource-uris'
+
+export * from './resource-uris'
+
+/** Number of projects whose files are listed per page of `resources/list`, each of them costs a `/files/read` request with the content of all files */
+export const RESOURCE_PAGE_SIZE = 10
+
+export interface ResourceTemplateDefinition {
+  config: ResourceMetadata
+  /** Suggestions for the variables of the URI template, see `completion/complete` */
+  complete?: Record<string, CompleteCallback>
+  read: (uri: string, variables: Variables, context?: ToolHandlerContext) => Promise<ReadResourceResult>
+}
+
+export type ResourceTemplateDefinitions<T extends string> = Record<T, ResourceTemplateDefinition>
+
+/** Keeps the URIs that the sessions subscribed to, requests of a session may be handled by different Lambda containers */
+export interface ResourceSubscriptionStore {
+  getResourceSubscriptions(sessionId: string): Promise<string[]>
+  addResourceSubscription(sessionId: string, uri: string): Promise<void>
+  deleteResourceSubscription(sessionId: string, uri: string): Promise<void>
+}
+
+const getSubscriptionSessionId = (sessionId?: string) => {
+  if (sessionId === undefined) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Subscriptions need a session, send the Mcp-Session-Id header of the initialize response')
+  }
+
+  return sessionId
+}
+
+// the cursor is the index of the first project of the page
+const getPageStart = (cursor?: string) => {
+  if (cursor === undefined) {
+    return 0
+  }
+
+  if (!/^\d+$/.test(cursor)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid cursor ${cursor}`)
+  }
+
+  return Number(cursor)
+}
+
+/** List the files of a page of projects, the projects are paged with the start and end of `projects/read` */
+export const listResources = async (cursor?: string, context?: ToolHandlerContext): Promise<ListResourcesResult> => {
+  const start = getPageStart(cursor)
+  const end = start + RESOURCE_PAGE_SIZE
+  const { projects } = readProjectResponse.parse(
+    await QCClient.getInstance().post<z.infer<typeof readProjectBody>, z.infer<typeof readProjectResponse>>(
+      'projects/read',
+      { start, end },
+      { signal: context?.signal }
+    )
+  )
+  const resources = await Promise.all((projects ?? []).map((project) => listProjectFileResources(project, context)))
+
+  return { resources: resources.flat(), ...(projects?.length === RESOURCE_PAGE_SIZE ? { nextCursor: String(end) } : {}) }
+}
+
+export function registerResources(this: QCMCPServer) {
+  const definitions: ResourceTemplateDefinitions<RESOURCE_TEMPLATE_KEYS> = {
+    ...getProjectResourcesDefinitions,
+    ...getBacktestResourcesDefinitions,
+    ...getObjectStoreResourcesDefinitions,
+  }
+
+  Object.entries(definitions).forEach(([name, definition]) => {
+    this.server.registerResource(
+      name,
+      new ResourceTemplate(RESOURCE_URI_TEMPLATES[name as RESOURCE_TEMPLATE_KEYS], { list: undefined }),
+      definition.config,
+      (uri, variables, extra) => definition.read(uri.href, variables, { reportProgress: createProgressReporter(extra), signal: extra.signal })
+    )
+  })
+
+  // the SDK lists resources without pagination and has no subscriptions, its handlers are set by the first registered resource and replaced here.
+  // notifications/resources/list_changed is sent by the file tools that create, delete or rename files
+  this.server.server.registerCapabilities({ resources: { subscribe: !!this.resourceSubscriptionStore, listChanged: true } })
+
+  this.server.server.setRequestHandler(ListResourcesRequestSchema, ({ params }, extra) =>
+    listResources(params?.cursor, { reportProgress: createProgressReporter(extra), signal: extra.signal })
+  )
+
+  registerCompleters.call(this, {
+    resources: Object.fromEntries(
+      Object.entries(definitions).map(([name, definition]) => [RESOURCE_URI_TEMPLATES[name as RESOURCE_TEMPLATE_KEYS], definition.complete ?? {}])
+    ),
+  })
+
+  const store = this.resourceSubscriptionStore
+
+  if (!store) {
+    return
+  }
+
+  this.server.server.setRequestHandler(SubscribeRequestSchema, async ({ params: { uri } }, { sessionId }) => {
+    if (!isResourceUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`)
+    }
+
+    await store.addResourceSubscription(getSubscriptionSessionId(sessionId), uri)
+    return {}
+  })
+
+  this.server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params: { uri } }, { sessionId }) => {
+    await store.deleteResourceSubscription(getSubscriptionSessionId(sessionId), uri)
+    return {}
+  })
+}
+
+/**
+ * Send `notifications/resources/updated` for the URIs among the given ones that the session of the request subscribed to.
+ * They are sent on the stream of the request, as no other stream of the session may be open on the Lambda container
+ */
+export async function notifyResourcesUpdated(this: QCMCPServer, uris: string[], extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  if (!this.resourceSubscriptionStore || extra?.sessionId === undefined) {
+    return
+  }
+
+  // the notifications are informational, neither the store nor a closed stream must fail the tool call
+  const subscriptions = await this.resourceSubscriptionStore.getResourceSubscriptions(extra.sessionId).catch((): string[] => [])
+
+  await Promise.allSettled(
+    uris.filter((uri) => subscriptions.includes(uri)).map((uri) => extra.sendNotification({ method: 'notifications/resources/updated', params: { uri } }))
+  )
+}
+
+/** Send `notifications/resources/list_changed` on the stream of the request, like the updated notifications */
+export async function notifyResourceListChanged(extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) {
+  // the notification is informational, a closed stream must not fail the tool call
+  await extra?.sendNotification({ method: 'notifications/resources/list_changed' }).catch(() => undefined)
+}
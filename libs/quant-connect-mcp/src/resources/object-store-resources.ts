@@ -0,0 +1,30 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { getObjectPropertiesBody, getObjectPropertiesResponse } from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+import { completeObjectStoreKeys, completeOrganizationIds } from '../completions'
+import type { ResourceTemplateDefinitions } from './index'
+import { getUriVariable, RESOURCE_TEMPLATE_KEYS } from './resource-uris'
+
+export const getObjectStoreResourcesDefinitions: ResourceTemplateDefinitions<RESOURCE_TEMPLATE_KEYS.OBJECT_STORE_OBJECT> = {
+  [RESOURCE_TEMPLATE_KEYS.OBJECT_STORE_OBJECT]: {
+    config: {
+      title: 'Object Store object',
+      description: 'Properties of an Object Store file as JSON, e.g. its size, MIME type and a preview of its content.',
+      mimeType: 'application/json',
+    },
+    complete: {
+      organizationId: completeOrganizationIds,
+      key: completeObjectStoreKeys,
+    },
+    read: async (uri, variables, context) => {
+      const params = { organizationId: getUriVariable(variables, 'organizationId'), key: getUriVariable(variables, 'key') }
+      const { metadata } = getObjectPropertiesResponse.parse(
+        await QCClient.getInstance().post<z.infer<typeof getObjectPropertiesBody>, z.infer<typeof getObjectPropertiesResponse>>('/object/properties', params, {
+          signal: context?.signal,
+        })
+      )
+
+      return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(metadata ?? null, null, 2) }] }
+    },
+  },
+}
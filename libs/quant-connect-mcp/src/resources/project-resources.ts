@@ -0,0 +1,62 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { readFileBody, readFileResponse, readProjectResponse } from '@fschaeffler/quant-connect-types'
+import { ErrorCode, McpError, type Resource } from '@modelcontextprotocol/sdk/types.js'
+import z from 'zod'
+import { completeFileNames, completeProjectIds } from '../completions'
+import type { ToolHandlerContext } from '../tools'
+import type { ResourceTemplateDefinitions } from './index'
+import { getProjectFileUri, getProjectIdVariable, getUriVariable, RESOURCE_TEMPLATE_KEYS } from './resource-uris'
+
+type Project = NonNullable<z.infer<typeof readProjectResponse>['projects']>[number]
+
+const FILE_MIME_TYPES: Record<string, string> = {
+  py: 'text/x-python',
+  cs: 'text/x-csharp',
+  ipynb: 'application/x-ipynb+json',
+  json: 'application/json',
+  md: 'text/markdown',
+}
+
+export const getFileMimeType = (name: string) => FILE_MIME_TYPES[name.split('.').pop()?.toLowerCase() ?? ''] ?? 'text/plain'
+
+const readFiles = async (params: z.infer<typeof readFileBody>, context?: ToolHandlerContext) =>
+  readFileResponse.parse(await QCClient.getInstance().post('/files/read', params, { signal: context?.signal })).files ?? []
+
+/**
+ * The files of a project as entries of `resources/list`.
+ * QuantConnect has no endpoint that only lists the file names, so `/files/read` downloads the content of all files of the project
+ */
+export const listProjectFileResources = async ({ projectId, name: projectName }: Project, context?: ToolHandlerContext): Promise<Resource[]> =>
+  (await readFiles({ projectId }, context))
+    .filter((file): file is typeof file & { name: string } => !!file.name)
+    .map(({ name }) => ({
+      uri: getProjectFileUri(projectId, name),
+      name,
+      title: `${projectName}/${name}`,
+      mimeType: getFileMimeType(name),
+    }))
+
+export const getProjectResourcesDefinitions: ResourceTemplateDefinitions<RESOURCE_TEMPLATE_KEYS.PROJECT_FILE> = {
+  [RESOURCE_TEMPLATE_KEYS.PROJECT_FILE]: {
+    config: {
+      title: 'Project file',
+      description: 'Source file of a QuantConnect project, e.g. the main.py of the algorithm.',
+    },
+    complete: {
+      projectId: completeProjectIds,
+      name: completeFileNames,
+    },
+    read: async (uri, variables, context) => {
+      const projectId = getProjectIdVariable(variables)
+      const name = getUriVariable(variables, 'name')
+      const [file] = await readFiles({ projectId, name }, context)
+
+      // an empty text would pass off a missing file as an empty one
+      if (file === undefined) {
+        throw new McpError(ErrorCode.InvalidParams, `Resource ${uri} not found`)
+      }
+
+      return { contents: [{ uri, mimeType: getFileMimeType(name), text: file.content ?? '' }] }
+    },
+  },
+}
@@ -0,0 +1,44 @@
+import { UriTemplate, type Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js'
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js'
+
+export enum RESOURCE_TEMPLATE_KEYS {
+  PROJECT_FILE = 'project_file',
+  BACKTEST = 'backtest',
+  OBJECT_STORE_OBJECT = 'object_store_object',
+}
+
+// `{+name}` and `{+key}` keep the slashes of files in folders
+export const RESOURCE_URI_TEMPLATES: Record<RESOURCE_TEMPLATE_KEYS, UriTemplate> = {
+  [RESOURCE_TEMPLATE_KEYS.PROJECT_FILE]: new UriTemplate('qc://projects/{projectId}/files/{+name}'),
+  [RESOURCE_TEMPLATE_KEYS.BACKTEST]: new UriTemplate('qc://projects/{projectId}/backtests/{backtestId}'),
+  [RESOURCE_TEMPLATE_KEYS.OBJECT_STORE_OBJECT]: new UriTemplate('qc://organizations/{organizationId}/object-store/{+key}'),
+}
+
+export const getProjectFileUri = (projectId: number, name: string) =>
+  RESOURCE_URI_TEMPLATES[RESOURCE_TEMPLATE_KEYS.PROJECT_FILE].expand({ projectId: String(projectId), name })
+
+export const getBacktestUri = (projectId: number, backtestId: string) =>
+  RESOURCE_URI_TEMPLATES[RESOURCE_TEMPLATE_KEYS.BACKTEST].expand({ projectId: String(projectId), backtestId })
+
+export const getObjectStoreObjectUri = (organizationId: string, key: string) =>
+  RESOURCE_URI_TEMPLATES[RESOURCE_TEMPLATE_KEYS.OBJECT_STORE_OBJECT].expand({ organizationId, key })
+
+/** Whether the URI belongs to one of the resource templates of the server */
+export const isResourceUri = (uri: string) => Object.values(RESOURCE_URI_TEMPLATES).some((template) => template.match(uri) !== null)
+
+/** Value of a variable of a matched URI, the values are percent-encoded in the URI */
+export const getUriVariable = (variables: Variables, name: string) => {
+  const value = variables[name]
+
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : value)
+}
+
+export const getProjectIdVariable = (variables: Variables) => {
+  const projectId = Number(getUriVariable(variables, 'projectId'))
+
+  if (!Number.isInteger(projectId)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid project id ${variables.projectId}`)
+  }
+
+  return projectId
+}
@@ -1,13 +1,23 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { MCP_SERVER_DESCRIPTION, MCP_SERVER_IDENTIFIER, MCP_SERVER_NAME } from './configs'
 import { DEFAULT_MCP_SERVER_INSTRUCTIONS } from './instructions'
+import { registerPrompts } from './prompts'
+import { registerResources, type ResourceSubscriptionStore } from './resources'
 import { registerTools } from './tools'
 
+export interface QCMCPServerOptions {
+  /** Keeps the `resources/subscribe` subscriptions of the sessions, subscriptions are not offered without it */
+  resourceSubscriptionStore?: ResourceSubscriptionStore
+}
+
 export class QCMCPServer {
   private static instance: QCMCPServer
   protected server: McpServer
+  protected resourceSubscriptionStore?: ResourceSubscriptionStore
+
+  private constructor({ resourceSubscriptionStore }: QCMCPServerOptions) {
+    this.resourceSubscriptionStore = resourceSubscriptionStore
 
-  private constructor() {
     this.server = new McpServer(
       {
         name: MCP_SERVER_NAME,
@@ -20,11 +30,19 @@ export class QCMCPServer {
     )
 
     registerTools.call(this)
+    registerResources.call(this)
+    registerPrompts.call(this)
+  }
+
+  /** A new server, e.g. one per session, as the SDK keeps the client capabilities per server */
+  public static create(options: QCMCPServerOptions = {}): McpServer {
+    return new QCMCPServer(options).server
   }
 
-  public static getInstance(): McpServer {
+  /** The options are only used by the first call, which creates the instance */
+  public static getInstance(options: QCMCPServerOptions = {}): McpServer {
     if (!QCMCPServer.instance) {
-      QCMCPServer.instance = new QCMCPServer()
+      QCMCPServer.instance = new QCMCPServer(options)
     }
 
     return QCMCPServer.instance.server
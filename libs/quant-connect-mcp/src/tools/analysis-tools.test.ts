@@ -0,0 +1,270 @@
+/* eslint-disable max-lines-per-function */
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import { getAnalysisToolsDefinitions } from './analysis-tools'
+import { ANALYSIS_TOOL_KEYS } from './tool-keys'
+
+jest.mock('@fschaeffler/quant-connect-client')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+describe('libs/quant-connect-mcp/src/tools/analysis-tools', () => {
+  const compareTool = getAnalysisToolsDefinitions[ANALYSIS_TOOL_KEYS.COMPARE_BACKTESTS]
+  const metricsTool = getAnalysisToolsDefinitions[ANALYSIS_TOOL_KEYS.READ_BACKTEST_PERFORMANCE_METRICS]
+  const tearSheetTool = getAnalysisToolsDefinitions[ANALYSIS_TOOL_KEYS.READ_BACKTEST_TEAR_SHEET]
+  let mockQCClientInstance: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockQCClientInstance = {
+      post: jest.fn(async (_url: string, { backtestId }: { backtestId: string }) => ({
+        backtest: {
+          backtestId,
+          name: `Backtest ${backtestId}`,
+          parameterSet: { period: backtestId === 'backtest-1' ? 10 : 20 },
+          statistics: { 'Sharpe Ratio': backtestId === 'backtest-1' ? '1' : '2' },
+          charts: { Benchmark: {} },
+        },
+        success: true,
+      })),
+      getRemainingTimeBudgetInMS: jest.fn().mockReturnValue(undefined),
+    }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  describe('COMPARE_BACKTESTS tool', () => {
+    it('should have proper configuration', () => {
+      expect(compareTool.config.title).toBe('Compare backtests')
+      expect(compareTool.config.inputSchema).toEqual(expect.objectContaining({ projectId: expect.any(Object), backtestIds: expect.any(Object) }))
+      expect(compareTool.config.annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true })
+    })
+
+    it('should read the backtests and compare them', async () => {
+      if (!('func' in compareTool)) {
+        throw new Error('compare_backtests is expected to be a custom tool')
+      }
+
+      const comparison = await compareTool.func({ projectId: 1, backtestIds: ['backtest-1', 'backtest-2'] })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-1' }, { signal: undefined })
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-2' }, { signal: undefined })
+      expect(comparison.baselineBacktestId).toBe('backtest-1')
+      expect(comparison.statistics[0].values[1]).toEqual({ backtestId: 'backtest-2', value: 2, absoluteDifference: 1, relativeDifference: 1 })
+      expect(comparison.changedParameters).toEqual([
+        {
+          name: 'period',
+          values: [
+            { backtestId: 'backtest-1', value: '10' },
+            { backtestId: 'backtest-2', value: '20' },
+          ],
+        },
+      ])
+      expect(compareTool.toText?.(comparison)).toContain('| Sharpe Ratio | 1.000 | 2.000 (+1.000, +100.00%) |')
+    })
+
+    it('should keep the requested Id of backtests without an Id', async () => {
+      if (!('func' in compareTool)) {
+        throw new Error('compare_backtests is expected to be a custom tool')
+      }
+      mockQCClientInstance.post.mockResolvedValue({ backtest: {}, success: true })
+
+      const comparison = await compareTool.func({ projectId: 1, backtestIds: ['backtest-1', 'backtest-2'] })
+
+      expect(comparison.backtests.map(({ backtestId }: { backtestId: string }) => backtestId)).toEqual(['backtest-1', 'backtest-2'])
+    })
+  })
+
+  describe('READ_BACKTEST_PERFORMANCE_METRICS tool', () => {
+    const day = 24 * 60 * 60
+    const start = Date.parse('2024-01-01T00:00:00Z') / 1000
+    const equityChart = {
+      chart: {
+        name: 'Strategy Equity',
+        series: {
+          Equity: {
+            values: [
+              [start, 100, 100, 100, 100],
+              [start + day, 100, 110, 100, 110],
+              [start + 2 * day, 110, 110, 99, 99],
+              [start + 3 * day, 99, 118.8, 99, 118.8],
+            ],
+          },
+        },
+      },
+      success: true,
+    }
+    const benchmarkChart = {
+      chart: {
+        name: 'Benchmark',
+        series: {
+          Benchmark: {
+            values: [
+              [start, 100],
+              [start + day, 105],
+              [start + 2 * day, 99.75],
+              [start + 3 * day, 109.725],
+            ],
+          },
+        },
+      },
+      success: true,
+    }
+
+    const getCustomTool = () => {
+      if (!('func' in metricsTool)) {
+        throw new Error('read_backtest_performance_metrics is expected to be a custom tool')
+      }
+
+      return metricsTool
+    }
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: Date.parse('2024-06-01T00:00:00Z') })
+    })
+
+    afterEach(() => {
+      jest.useRealTimers()
+    })
+
+    it('should have proper configuration', () => {
+      expect(metricsTool.config.title).toBe('Read backtest performance metrics')
+      expect(metricsTool.config.outputSchema).toEqual(expect.objectContaining({ maxDrawdown: expect.any(Object), benchmark: expect.any(Object) }))
+      expect(metricsTool.config.annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true })
+    })
+
+    it('should compute the metrics from the equity and benchmark charts', async () => {
+      mockQCClientInstance.post.mockImplementation(async (_url: string, { name }: { name: string }) => (name === 'Benchmark' ? benchmarkChart : equityChart))
+
+      const metrics = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+        'backtests/chart/read',
+        { projectId: 1, backtestId: 'backtest-1', name: 'Strategy Equity', count: 5000, start: 0, end: Date.parse('2024-06-01T00:00:00Z') / 1000 },
+        { signal: undefined }
+      )
+      expect(metrics.totalReturn).toBeCloseTo(0.188)
+      expect(metrics.maxDrawdown).toEqual(expect.objectContaining({ start: '2024-01-02', trough: '2024-01-03', recovery: '2024-01-04' }))
+      expect(metrics.benchmark.beta).toBeCloseTo(2)
+      expect(getCustomTool().toText?.(metrics)).toContain('| Total Return | 18.80% |')
+    })
+
+    it('should wait while the chart is being generated', async () => {
+      mockQCClientInstance.post.mockResolvedValueOnce({ status: 'loading', progress: 0.5, success: true }).mockResolvedValue(equityChart)
+
+      const promise = getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })
+      await jest.advanceTimersByTimeAsync(2000)
+
+      await expect(promise).resolves.toEqual(expect.objectContaining({ tradingDays: 4 }))
+      expect(mockQCClientInstance.post).toHaveBeenCalledTimes(3)
+    })
+
+    it('should fail if the chart is not generated in time', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ status: 'loading', progress: 0.1, success: true })
+
+      const promise = getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })
+      const assertion = expect(promise).rejects.toThrow('The Strategy Equity chart of backtest backtest-1 is still being generated, try again in a few seconds')
+      await jest.advanceTimersByTimeAsync(40000)
+
+      await assertion
+    })
+
+    it('should compute the metrics without a benchmark chart', async () => {
+      mockQCClientInstance.post.mockImplementation(async (_url: string, { name }: { name: string }) => {
+        if (name === 'Benchmark') {
+          throw new QCApiError('backtests/chart/read', ['Chart Benchmark not found'])
+        }
+
+        return equityChart
+      })
+
+      await expect(getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })).resolves.toEqual(expect.objectContaining({ benchmark: null }))
+    })
+  })
+  describe('READ_BACKTEST_TEAR_SHEET tool', () => {
+    const day = 24 * 60 * 60
+    const start = Date.parse('2024-01-02T00:00:00Z') / 1000
+    const responses: Record<string, unknown> = {
+      'backtests/read': {
+        backtest: {
+          backtestId: 'backtest-1',
+          name: 'Momentum',
+          statistics: { 'Sharpe Ratio': '1.2' },
+          runtimeStatistics: { Equity: '$105.00' },
+          totalPerformance: { closedTrades: [{ symbol: { value: 'SPY' }, direction: 0, profitLoss: 5 }] },
+        },
+        success: true,
+      },
+      'backtests/chart/read': {
+        chart: {
+          series: {
+            Equity: {
+              values: [
+                [start, 100],
+                [start + day, 90],
+                [start + 2 * day, 105],
+              ],
+            },
+          },
+        },
+        success: true,
+      },
+      'backtests/read/report': { report: '<table><tr><td>PSR</td><td>57%</td></tr></table>', success: true },
+    }
+
+    const getCustomTool = () => {
+      if (!('func' in tearSheetTool)) {
+        throw new Error('read_backtest_tear_sheet is expected to be a custom tool')
+      }
+
+      return tearSheetTool
+    }
+
+    beforeEach(() => {
+      mockQCClientInstance.post.mockImplementation(async (url: string) => responses[url])
+    })
+
+    it('should have proper configuration', () => {
+      expect(tearSheetTool.config.title).toBe('Read backtest tear sheet')
+      expect(tearSheetTool.config.inputSchema).toEqual(expect.objectContaining({ includeReport: expect.any(Object), topCount: expect.any(Object) }))
+      expect(tearSheetTool.config.annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true })
+    })
+
+    it('should render the tear sheet without the report', async () => {
+      const tearSheet = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })
+
+      expect(mockQCClientInstance.post).not.toHaveBeenCalledWith('backtests/read/report', expect.anything(), expect.anything())
+      expect(tearSheet).toEqual(
+        expect.objectContaining({
+          statistics: { 'Sharpe Ratio': '1.2' },
+          drawdowns: [expect.objectContaining({ start: '2024-01-02', trough: '2024-01-03', recovery: '2024-01-04' })],
+          winningTrades: [expect.objectContaining({ symbol: 'SPY', profitLoss: 5 })],
+          report: null,
+        })
+      )
+      expect(getCustomTool().toText?.(tearSheet)).toContain('# Momentum')
+    })
+
+    it('should add the statistics of the report', async () => {
+      const tearSheet = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', includeReport: true })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read/report', { projectId: 1, backtestId: 'backtest-1' }, { signal: undefined })
+      expect(tearSheet.report).toEqual({ PSR: '57%' })
+    })
+
+    it('should fail while the report is being generated', async () => {
+      mockQCClientInstance.post.mockImplementation(async (url: string) =>
+        url === 'backtests/read/report' ? { generating: true, success: true } : responses[url]
+      )
+
+      await expect(getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', includeReport: true })).rejects.toThrow(
+        'The report of backtest backtest-1 is still being generated, try again in a few seconds'
+      )
+    })
+
+    it('should fail for unknown backtests', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ success: true })
+
+      await expect(getCustomTool().func({ projectId: 1, backtestId: 'backtest-1' })).rejects.toThrow('The backtest backtest-1 was not found')
+    })
+  })
+})
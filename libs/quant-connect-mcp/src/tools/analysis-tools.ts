@@ -0,0 +1,192 @@
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import { readBacktestBody, readBacktestChartLoadedResponse, readBacktestResponse, readBacktestsReportResponse } from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+import {
+  backtestComparison,
+  backtestTearSheet,
+  buildTearSheet,
+  compareBacktests,
+  computePerformanceMetrics,
+  computeTopDrawdowns,
+  extractReportStatistics,
+  formatBacktestComparison,
+  formatPerformanceMetrics,
+  formatTearSheet,
+  performanceMetrics,
+  toSeriesPoints,
+  type BacktestComparison,
+  type BacktestTearSheet,
+  type PerformanceMetrics,
+} from '../analysis'
+import { getPollingDeadline, mergeUnionToRawShape, pollUntil } from '../utils'
+import { readBacktestReduced } from './backtest-tools'
+import type { ToolHandlerContext, ToolRegistrationDefinitions } from './index'
+import { ANALYSIS_TOOL_KEYS } from './tool-keys'
+
+const compareBacktestsBody = z.object({
+  projectId: readBacktestBody.shape.projectId,
+  backtestIds: z.array(z.string()).min(2).max(10).describe('Ids of the backtests to compare, the first one is the baseline.'),
+})
+
+const readBacktestPerformanceMetricsBody = z.object({
+  projectId: readBacktestBody.shape.projectId,
+  backtestId: readBacktestBody.shape.backtestId,
+  rollingWindowInDays: z.number().int().min(5).max(504).optional().describe('Trading days of the rolling Sharpe and Sortino ratios, defaults to 126.'),
+  riskFreeRate: z.number().min(0).max(1).optional().describe('Annual risk-free rate as a fraction, defaults to 0.'),
+})
+
+const readBacktestTearSheetBody = z.object({
+  projectId: readBacktestBody.shape.projectId,
+  backtestId: readBacktestBody.shape.backtestId,
+  includeReport: z.boolean().optional().describe('Add the statistics of the backtest report, which QuantConnect generates on the first read.'),
+  topCount: z.number().int().min(1).max(20).optional().describe('Number of drawdowns and of winning and losing trades, defaults to 5.'),
+})
+
+// enough points for daily values of 20 years
+const CHART_POINT_COUNT = 5000
+const CHART_MAX_WAIT_IN_MS = 30000
+const CHART_POLLING_INTERVAL_IN_MS = 2000
+
+/** Read the series of a backtest chart, QuantConnect answers with a loading status until the chart is generated */
+export const readBacktestChartSeries = async (
+  { projectId, backtestId }: z.infer<typeof readBacktestBody>,
+  chartName: string,
+  seriesName: string,
+  context?: ToolHandlerContext
+) => {
+  const client = QCClient.getInstance()
+  const body = { projectId, backtestId, name: chartName, count: CHART_POINT_COUNT, start: 0, end: Math.floor(Date.now() / 1000) }
+
+  const { result, isDone } = await pollUntil<Record<string, any>>({
+    read: () => client.post('backtests/chart/read', body, { signal: context?.signal }),
+    isDone: (response) => !!response?.chart,
+    deadline: getPollingDeadline(CHART_MAX_WAIT_IN_MS, client.getRemainingTimeBudgetInMS()),
+    intervalInMS: CHART_POLLING_INTERVAL_IN_MS,
+    signal: context?.signal,
+  })
+
+  if (!isDone) {
+    throw new Error(`The ${chartName} chart of backtest ${backtestId} is still being generated, try again in a few seconds`)
+  }
+
+  return toSeriesPoints(readBacktestChartLoadedResponse.parse(result).chart?.series?.[seriesName]?.values)
+}
+
+const readBenchmarkSeries = async (params: z.infer<typeof readBacktestBody>, context?: ToolHandlerContext) => {
+  try {
+    return await readBacktestChartSeries(params, 'Benchmark', 'Benchmark', context)
+  } catch (error) {
+    // algorithms without a benchmark have no benchmark chart, the other metrics are still valid
+    if (error instanceof QCApiError) {
+      return undefined
+    }
+
+    throw error
+  }
+}
+
+const readReportStatistics = async (params: z.infer<typeof readBacktestBody>, context?: ToolHandlerContext) => {
+  const response = await QCClient.getInstance().post('backtests/read/report', params, { signal: context?.signal })
+  const { report, generating } = z.object(mergeUnionToRawShape(readBacktestsReportResponse)).parse(response)
+
+  if (!report) {
+    throw new Error(
+      generating
+        ? `The report of backtest ${params.backtestId} is still being generated, try again in a few seconds`
+        : `The backtest ${params.backtestId} has no report`
+    )
+  }
+
+  return extractReportStatistics(report)
+}
+
+export const getAnalysisToolsDefinitions: ToolRegistrationDefinitions<ANALYSIS_TOOL_KEYS> = {
+  [ANALYSIS_TOOL_KEYS.COMPARE_BACKTESTS]: {
+    config: {
+      title: 'Compare backtests',
+      description: [
+        'Compare two or more backtests of a project.',
+        'Aligns Sharpe, CAGR, drawdown, win rate, fees and turnover with their differences to the first backtest and lists the parameters that changed.',
+      ].join('\n'),
+      inputSchema: compareBacktestsBody.shape,
+      outputSchema: backtestComparison.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    func: async ({ projectId, backtestIds }: z.infer<typeof compareBacktestsBody>, context?: ToolHandlerContext) => {
+      const results = await Promise.all(backtestIds.map((backtestId) => readBacktestReduced({ projectId, backtestId }, context)))
+
+      // a backtest that is not found has no Id, the requested Id keeps the columns recognizable
+      return compareBacktests(results.map(({ backtest }, index) => ({ ...backtest, backtestId: backtest?.backtestId ?? backtestIds[index] })))
+    },
+    toText: (comparison: BacktestComparison) => formatBacktestComparison(comparison),
+  },
+  [ANALYSIS_TOOL_KEYS.READ_BACKTEST_PERFORMANCE_METRICS]: {
+    config: {
+      title: 'Read backtest performance metrics',
+      description: [
+        'Compute performance metrics from the equity and benchmark charts of a backtest.',
+        'Includes rolling Sharpe and Sortino ratios, the max drawdown with its start, trough and recovery, underwater durations,',
+        'monthly and yearly returns and beta and alpha against the benchmark.',
+      ].join('\n'),
+      inputSchema: readBacktestPerformanceMetricsBody.shape,
+      outputSchema: performanceMetrics.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    func: async (
+      { projectId, backtestId, rollingWindowInDays = 126, riskFreeRate = 0 }: z.infer<typeof readBacktestPerformanceMetricsBody>,
+      context?: ToolHandlerContext
+    ) => {
+      const equity = await readBacktestChartSeries({ projectId, backtestId }, 'Strategy Equity', 'Equity', context)
+      const benchmark = await readBenchmarkSeries({ projectId, backtestId }, context)
+
+      return computePerformanceMetrics(equity, benchmark, { rollingWindowInDays, riskFreeRate })
+    },
+    toText: (metrics: PerformanceMetrics) => formatPerformanceMetrics(metrics),
+  },
+  [ANALYSIS_TOOL_KEYS.READ_BACKTEST_TEAR_SHEET]: {
+    config: {
+      title: 'Read backtest tear sheet',
+      description: [
+        'Summarize a backtest as a Markdown tear sheet, returned as text content.',
+        'Includes the headline statistics, the top drawdowns, the monthly returns, the biggest winning and losing trades and the runtime statistics,',
+        'optionally with the statistics of the backtest report.',
+      ].join('\n'),
+      inputSchema: readBacktestTearSheetBody.shape,
+      outputSchema: backtestTearSheet.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    func: async ({ projectId, backtestId, includeReport = false, topCount = 5 }: z.infer<typeof readBacktestTearSheetBody>, context?: ToolHandlerContext) => {
+      // the closed trades are only part of the full backtest read
+      const response = await QCClient.getInstance().post('backtests/read', { projectId, backtestId }, { signal: context?.signal })
+      const { backtest } = readBacktestResponse.parse(response)
+
+      if (!backtest) {
+        throw new Error(`The backtest ${backtestId} was not found`)
+      }
+
+      const equity = await readBacktestChartSeries({ projectId, backtestId }, 'Strategy Equity', 'Equity', context)
+      const report = includeReport ? await readReportStatistics({ projectId, backtestId }, context) : null
+
+      return buildTearSheet(
+        { ...backtest, backtestId: backtest.backtestId ?? backtestId },
+        computePerformanceMetrics(equity, undefined, { rollingWindowInDays: 126, riskFreeRate: 0 }),
+        computeTopDrawdowns(equity, topCount),
+        report,
+        topCount
+      )
+    },
+    toText: (tearSheet: BacktestTearSheet) => formatTearSheet(tearSheet),
+  },
+}
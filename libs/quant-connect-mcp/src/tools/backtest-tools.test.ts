@@ -92,7 +92,7 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
       expect(createTool.config.title).toBe('Create backtest')
       expect(createTool.config.description).toBe('Create a new backtest request and get the backtest Id.')
       expect(createTool.config.inputSchema).toBe(createBacktestBody.shape)
-      expect(createTool.config.outputSchema).toBe(createBacktestResponse.shape)
+      expect(createTool.config.outputSchema).toEqual({ ...createBacktestResponse.shape, job: expect.any(Object) })
     })
 
     it('should have correct annotations', () => {
@@ -168,7 +168,7 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
         const mockParams = { backtestId: 12345 }
         const result = await reducedTool.func(mockParams)
 
-        expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', mockParams)
+        expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', mockParams, { signal: undefined })
 
         // Should call readBacktestResponse.parse
         expect(result).toBeDefined()
@@ -319,11 +319,38 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
 
   describe('READ_BACKTEST_CHART tool', () => {
     const chartTool = getBacktestToolsDefinitions[BACKTEST_TOOL_KEYS.READ_BACKTEST_CHART]
+    const chart = {
+      name: 'Strategy Equity',
+      series: {
+        Equity: { name: 'Equity', values: Array.from({ length: 10 }, (_, index) => [1704067200 + index * 86400, 100 + index]) },
+        Return: { name: 'Return', values: [[1704067200, 0]] },
+      },
+    }
+
+    const getCustomTool = () => {
+      if (!('func' in chartTool)) {
+        throw new Error('read_backtest_chart is expected to be a custom tool')
+      }
+
+      return chartTool
+    }
+
+    beforeEach(() => {
+      mockedMergeUnionToRawShape.mockImplementation(jest.requireActual('../utils').mergeUnionToRawShape)
+    })
 
     it('should have proper configuration', () => {
       expect(chartTool.config.title).toBe('Read backtest chart')
-      expect(chartTool.config.description).toBe('Read a chart from a backtest.')
-      expect(chartTool.config.inputSchema).toBe(readBacktestChartBody.shape)
+      expect(chartTool.config.description).toContain('Read a chart from a backtest.')
+      expect(chartTool.config.inputSchema).toEqual({
+        ...readBacktestChartBody.shape,
+        start: expect.any(Object),
+        end: expect.any(Object),
+        series: expect.any(Object),
+        maxPoints: expect.any(Object),
+        downsampling: expect.any(Object),
+      })
+      expect(chartTool.config.inputSchema?.start.isOptional()).toBe(true)
     })
 
     it('should have output schema configuration', () => {
@@ -336,11 +363,46 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
       expect(chartTool.config.annotations?.destructiveHint).toBe(false)
     })
 
-    it('should be a QC API tool', () => {
-      expect('url' in chartTool).toBe(true)
-      if ('url' in chartTool) {
-        expect(chartTool.url).toBe('backtests/chart/read')
-      }
+    it('should read the chart without the reduction options', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ chart, success: true })
+
+      const response = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', name: 'Strategy Equity', count: 100, start: 0, end: 1800000000 })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+        'backtests/chart/read',
+        { projectId: 1, backtestId: 'backtest-1', name: 'Strategy Equity', count: 100, start: 0, end: 1800000000 },
+        { signal: undefined }
+      )
+      expect(response.chart.series.Equity.values).toHaveLength(10)
+    })
+
+    it('should reduce the chart to the selected series, date range and number of points', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ chart, success: true })
+
+      const response = await getCustomTool().func({
+        projectId: 1,
+        backtestId: 'backtest-1',
+        name: 'Strategy Equity',
+        count: 100,
+        end: 1704067200 + 8 * 86400,
+        series: ['Equity'],
+        maxPoints: 3,
+      })
+
+      expect(mockQCClientInstance.post.mock.calls[0][1]).toEqual(expect.objectContaining({ start: 0, end: 1704067200 + 8 * 86400 }))
+      expect(Object.keys(response.chart.series)).toEqual(['Equity'])
+      expect(response.chart.series.Equity.values).toHaveLength(3)
+      expect(response.chart.series.Equity.values.at(-1)).toEqual([1704067200 + 8 * 86400, 108])
+    })
+
+    it('should return charts that are still being generated', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ progress: 0.5, status: 'loading', success: true })
+
+      await expect(getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', name: 'Strategy Equity', count: 100, maxPoints: 3 })).resolves.toEqual({
+        progress: 0.5,
+        status: 'loading',
+        success: true,
+      })
     })
   })
 
@@ -495,7 +557,7 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
       const tools = getBacktestToolsDefinitions
 
       // These should use direct schema shapes, not mergeUnionToRawShape
-      expect(tools[BACKTEST_TOOL_KEYS.CREATE_BACKTEST].config.outputSchema).toBe(createBacktestResponse.shape)
+      expect(tools[BACKTEST_TOOL_KEYS.CREATE_BACKTEST].config.outputSchema).toEqual({ ...createBacktestResponse.shape, job: expect.any(Object) })
       expect(tools[BACKTEST_TOOL_KEYS.READ_BACKTEST].config.outputSchema).toBe(readBacktestResponse.shape)
       expect(tools[BACKTEST_TOOL_KEYS.LIST_BACKTESTS].config.outputSchema).toBe(listBacktestsResponse.shape)
       expect(tools[BACKTEST_TOOL_KEYS.READ_BACKTEST_ORDERS].config.outputSchema).toBe(readBacktestOrderResponse.shape)
@@ -624,15 +686,14 @@ describe('libs/quant-connect-mcp/src/tools/backtest-tools', () => {
       const qcApiTools = tools.filter((tool) => 'url' in tool)
       const customTools = tools.filter((tool) => 'func' in tool)
 
-      expect(qcApiTools.length).toBe(9)
-      expect(customTools.length).toBe(1)
+      expect(qcApiTools.length).toBe(8)
+      expect(customTools.length).toBe(2)
     })
 
-    it('should have one custom tool for data reduction', () => {
+    it('should have custom tools for data reduction', () => {
       const customTools = Object.entries(getBacktestToolsDefinitions).filter(([, tool]) => 'func' in tool)
 
-      expect(customTools).toHaveLength(1)
-      expect(customTools[0][0]).toBe(BACKTEST_TOOL_KEYS.READ_BACKTEST_REDUCED)
+      expect(customTools.map(([key]) => key)).toEqual([BACKTEST_TOOL_KEYS.READ_BACKTEST_REDUCED, BACKTEST_TOOL_KEYS.READ_BACKTEST_CHART])
     })
   })
 
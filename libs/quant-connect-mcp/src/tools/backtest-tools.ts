@@ -19,18 +19,66 @@ import {
   updateBacktestBody,
   updateBacktestResponse,
 } from '@fschaeffler/quant-connect-types'
-import type z from 'zod'
+import z, { type ZodRawShape } from 'zod'
+import { reduceChart, withChartReduction, type ChartReductionOptions } from '../analysis'
+import { JOB_TYPES, withJobHandle } from '../jobs/job-handle'
+import { getBacktestUri } from '../resources/resource-uris'
 import { mergeUnionToRawShape } from '../utils'
-import type { ToolRegistrationDefinitions } from './index'
+import type { ToolHandlerContext, ToolRegistrationDefinitions } from './index'
 import { BACKTEST_TOOL_KEYS } from './tool-keys'
 
+/** Read a backtest without orders, charts, closed trades and rolling window */
+export const readBacktestReduced = async (params: z.infer<typeof readBacktestBody>, context?: ToolHandlerContext) => {
+  const data = await QCClient.getInstance().post<z.infer<typeof readBacktestBody>, z.infer<typeof readBacktestResponse>>('backtests/read', params, {
+    signal: context?.signal,
+  })
+
+  // attribute not specified in the response schema, but it's there in reality
+  if (data && Object.hasOwn(data, 'orders')) {
+    delete (data as any).orders
+  }
+
+  if (data?.backtest?.charts) {
+    delete data.backtest.charts
+  }
+
+  if (data?.backtest?.totalPerformance?.closedTrades) {
+    delete data.backtest.totalPerformance.closedTrades
+  }
+
+  if (data?.backtest?.rollingWindow) {
+    delete data.backtest.rollingWindow
+  }
+
+  return readBacktestResponse.parse(data)
+}
+
+/** Read a backtest or live chart and reduce it to the requested series, date range and number of points */
+export const readChartReduced = async (
+  url: string,
+  responseShape: ZodRawShape,
+  { series, maxPoints, downsampling, start = 0, end = Math.floor(Date.now() / 1000), ...params }: ChartReductionOptions & Record<string, unknown>,
+  context?: ToolHandlerContext
+) => {
+  const chartResponse = z.object(responseShape)
+  const response = chartResponse.parse(await QCClient.getInstance().post(url, { ...params, start, end }, { signal: context?.signal }))
+
+  // charts that are still being generated have no series yet
+  if (!response.chart) {
+    return response
+  }
+
+  // the reduced chart has to fit the response schema as well
+  return chartResponse.parse({ ...response, chart: reduceChart(response.chart, { series, maxPoints, downsampling, start, end }) })
+}
+
 export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_TOOL_KEYS> = {
   [BACKTEST_TOOL_KEYS.CREATE_BACKTEST]: {
     config: {
       title: 'Create backtest',
       description: 'Create a new backtest request and get the backtest Id.',
       inputSchema: createBacktestBody.shape,
-      outputSchema: createBacktestResponse.shape,
+      outputSchema: withJobHandle(createBacktestResponse.shape),
       annotations: {
         readOnlyHint: false,
         idempotentHint: false,
@@ -38,6 +86,7 @@ export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_T
       },
     },
     url: 'backtests/create',
+    startsJob: JOB_TYPES.BACKTEST,
   },
   [BACKTEST_TOOL_KEYS.READ_BACKTEST]: {
     config: {
@@ -63,28 +112,7 @@ export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_T
         destructiveHint: false,
       },
     },
-    func: async (params) => {
-      const data = await QCClient.getInstance().post<z.infer<typeof readBacktestResponse>, z.infer<typeof readBacktestResponse>>('backtests/read', params)
-
-      // attribute not specified in the response schema, but it's there in reality
-      if (data && Object.hasOwn(data, 'orders')) {
-        delete (data as any).orders
-      }
-
-      if (data?.backtest?.charts) {
-        delete data.backtest.charts
-      }
-
-      if (data?.backtest?.totalPerformance?.closedTrades) {
-        delete data.backtest.totalPerformance.closedTrades
-      }
-
-      if (data?.backtest?.rollingWindow) {
-        delete data.backtest.rollingWindow
-      }
-
-      return readBacktestResponse.parse(data)
-    },
+    func: readBacktestReduced,
   },
   [BACKTEST_TOOL_KEYS.LIST_BACKTESTS]: {
     config: {
@@ -102,15 +130,18 @@ export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_T
   [BACKTEST_TOOL_KEYS.READ_BACKTEST_CHART]: {
     config: {
       title: 'Read backtest chart',
-      description: 'Read a chart from a backtest.',
-      inputSchema: readBacktestChartBody.shape,
+      description: [
+        'Read a chart from a backtest.',
+        'Large charts can be reduced to some series, a date range and a maximum number of points per series.',
+      ].join('\n'),
+      inputSchema: withChartReduction(readBacktestChartBody.shape),
       outputSchema: mergeUnionToRawShape(readBacktestChartResponse),
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
       },
     },
-    url: 'backtests/chart/read',
+    func: async (params, context) => readChartReduced('backtests/chart/read', mergeUnionToRawShape(readBacktestChartResponse), params, context),
   },
   [BACKTEST_TOOL_KEYS.READ_BACKTEST_ORDERS]: {
     config: {
@@ -166,6 +197,7 @@ export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_T
       },
     },
     url: 'backtests/update',
+    updatesResources: ({ projectId, backtestId }) => [getBacktestUri(projectId, backtestId)],
   },
   [BACKTEST_TOOL_KEYS.DELETE_BACKTEST]: {
     config: {
@@ -180,5 +212,6 @@ export const getBacktestToolsDefinitions: ToolRegistrationDefinitions<BACKTEST_T
       },
     },
     url: 'backtests/delete',
+    updatesResources: ({ projectId, backtestId }) => [getBacktestUri(projectId, backtestId)],
   },
 }
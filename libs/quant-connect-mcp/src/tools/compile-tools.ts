@@ -1,4 +1,5 @@
 import { createCompileBody, createCompileResponse, readCompileBody, readCompileResponse } from '@fschaeffler/quant-connect-types'
+import { JOB_TYPES, withJobHandle } from '../jobs/job-handle'
 import type { ToolRegistrationDefinitions } from './index'
 import { COMPILE_TOOL_KEYS } from './tool-keys'
 
@@ -8,7 +9,7 @@ export const getCompileToolsDefinitions: ToolRegistrationDefinitions<COMPILE_TOO
       title: 'Create compile',
       description: 'Asynchronously create a compile job request for a project.',
       inputSchema: createCompileBody.shape,
-      outputSchema: createCompileResponse.shape,
+      outputSchema: withJobHandle(createCompileResponse.shape),
       annotations: {
         readOnlyHint: false,
         destructiveHint: false,
@@ -16,6 +17,7 @@ export const getCompileToolsDefinitions: ToolRegistrationDefinitions<COMPILE_TOO
       },
     },
     url: '/compile/create',
+    startsJob: JOB_TYPES.COMPILE,
   },
   [COMPILE_TOOL_KEYS.READ_COMPILE]: {
     config: {
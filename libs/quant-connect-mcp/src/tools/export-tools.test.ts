@@ -0,0 +1,150 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import FormData from 'form-data'
+import { EXPORT_DATASETS, getExportToolsDefinitions } from './export-tools'
+import { EXPORT_TOOL_KEYS } from './tool-keys'
+
+jest.mock('@fschaeffler/quant-connect-client')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+describe('libs/quant-connect-mcp/src/tools/export-tools', () => {
+  const exportTool = getExportToolsDefinitions[EXPORT_TOOL_KEYS.EXPORT_BACKTEST]
+  let mockQCClientInstance: any
+
+  const getCustomTool = () => {
+    if (!('func' in exportTool)) {
+      throw new Error('export_backtest is expected to be a custom tool')
+    }
+
+    return exportTool
+  }
+
+  const getOrders = (start: number, end: number) =>
+    Array.from({ length: end - start }, (_, index) => ({ id: start + index + 1, symbol: { value: 'SPY' }, quantity: 10, price: 100.5 }))
+
+  const mockOrders = (total: number) =>
+    mockQCClientInstance.post.mockImplementation(async (_url: string, { start, end }: { start: number; end: number }) => ({
+      orders: getOrders(start, Math.min(end, total)),
+      length: total,
+      success: true,
+    }))
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    mockQCClientInstance = {
+      post: jest.fn(),
+      postFormData: jest.fn().mockResolvedValue({ success: true }),
+      getRemainingTimeBudgetInMS: jest.fn(),
+    }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should have proper configuration', () => {
+    expect(exportTool.config.title).toBe('Export backtest')
+    expect(exportTool.config.inputSchema).toEqual(expect.objectContaining({ dataset: expect.any(Object), objectStore: expect.any(Object) }))
+    expect(exportTool.config.annotations).toEqual({ readOnlyHint: false, destructiveHint: false, idempotentHint: true })
+  })
+
+  it('should page through all orders and export them as CSV', async () => {
+    mockOrders(250)
+    const reportProgress = jest.fn()
+
+    const result = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', dataset: EXPORT_DATASETS.ORDERS }, { reportProgress })
+
+    expect(mockQCClientInstance.post).toHaveBeenCalledTimes(3)
+    expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+      'backtests/orders/read',
+      { projectId: 1, backtestId: 'backtest-1', start: 200, end: 300 },
+      { signal: undefined }
+    )
+    expect(reportProgress).toHaveBeenLastCalledWith({ progress: 250, total: 250, message: 'Read 250 of 250 orders' })
+    expect(result).toEqual(expect.objectContaining({ dataset: 'orders', format: 'csv', rowCount: 250, truncated: false }))
+    expect(result.columns).toEqual(['id', 'symbol.value', 'price', 'quantity'])
+    expect(result.data.split('\r\n').slice(0, 2)).toEqual(['id,symbol.value,price,quantity', '1,SPY,100.5,10'])
+    expect(getCustomTool().toText?.(result)).toBe('Exported 250 rows of orders as csv, the export is in the data of the structured content')
+  })
+
+  it('should stop reading orders before the invocation runs out of time', async () => {
+    let now = 0
+    jest.spyOn(Date, 'now').mockImplementation(() => now)
+    mockQCClientInstance.getRemainingTimeBudgetInMS.mockReturnValue(10000)
+    mockQCClientInstance.post.mockImplementation(async (_url: string, { start, end }: { start: number; end: number }) => {
+      now += 2000
+      return { orders: getOrders(start, end), length: 1000, success: true }
+    })
+
+    const result = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', dataset: EXPORT_DATASETS.ORDERS })
+
+    expect(mockQCClientInstance.post).toHaveBeenCalledTimes(3)
+    expect(result).toEqual(expect.objectContaining({ rowCount: 300, truncated: true }))
+    expect(getCustomTool().toText?.(result)).toBe(
+      'Exported 300 rows of orders as csv, the export is in the data of the structured content\nThe export is truncated, not all orders could be read.'
+    )
+  })
+
+  it('should stop at an empty page without a total', async () => {
+    mockQCClientInstance.post.mockResolvedValue({ orders: [], success: true })
+
+    const result = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', dataset: EXPORT_DATASETS.ORDERS, format: 'ndjson' })
+
+    expect(mockQCClientInstance.post).toHaveBeenCalledTimes(1)
+    expect(result).toEqual(expect.objectContaining({ rowCount: 0, columns: [], data: '' }))
+  })
+
+  it('should export the closed trades as NDJSON', async () => {
+    mockQCClientInstance.post.mockResolvedValue({
+      backtest: {
+        totalPerformance: {
+          closedTrades: [{ symbol: { value: 'SPY' }, entryTime: '2024-01-02T15:00:00Z', entryPrice: 470, direction: 0, profitLoss: 12.5 }],
+        },
+      },
+      success: true,
+    })
+
+    const result = await getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', dataset: EXPORT_DATASETS.CLOSED_TRADES, format: 'ndjson' })
+
+    expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-1' }, { signal: undefined })
+    expect(JSON.parse(result.data)).toEqual({
+      'symbol.value': 'SPY',
+      entryTime: '2024-01-02T15:00:00.000Z',
+      entryPrice: 470,
+      direction: 0,
+      profitLoss: 12.5,
+    })
+  })
+
+  it('should upload the export to the Object Store', async () => {
+    mockOrders(2)
+
+    const result = await getCustomTool().func({
+      projectId: 1,
+      backtestId: 'backtest-1',
+      dataset: EXPORT_DATASETS.ORDERS,
+      objectStore: { organizationId: 'org-1', key: 'exports/orders.csv' },
+    })
+
+    const data = 'id,symbol.value,price,quantity\r\n1,SPY,100.5,10\r\n2,SPY,100.5,10'
+    expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith(
+      '/object/set',
+      { organizationId: 'org-1', key: 'exports/orders.csv', objectData: data },
+      expect.any(FormData),
+      { signal: undefined }
+    )
+    expect(result).toEqual(expect.objectContaining({ objectStore: { organizationId: 'org-1', key: 'exports/orders.csv', sizeInBytes: data.length } }))
+    expect(result).not.toHaveProperty('data')
+    expect(getCustomTool().toText?.(result)).toBe(`Uploaded 2 rows of orders (${data.length} bytes) to exports/orders.csv`)
+  })
+
+  it('should refuse to return large exports inline', async () => {
+    mockQCClientInstance.post.mockResolvedValue({ orders: [{ id: 1, tag: 'x'.repeat(1000001) }], length: 1, success: true })
+
+    await expect(getCustomTool().func({ projectId: 1, backtestId: 'backtest-1', dataset: EXPORT_DATASETS.ORDERS })).rejects.toThrow(
+      /^The export has \d+ characters, upload it to the Object Store with objectStore instead$/
+    )
+  })
+})
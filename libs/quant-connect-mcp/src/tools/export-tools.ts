@@ -0,0 +1,152 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { readBacktestBody, readBacktestOrderResponse, readBacktestResponse, setObjectBody, setObjectResponse } from '@fschaeffler/quant-connect-types'
+import FormData from 'form-data'
+import z from 'zod'
+import { flattenRecord, getColumns, getPollingDeadline, TABULAR_FORMATS, toTabularFormat, type TabularRow } from '../utils'
+import type { ToolHandlerContext, ToolRegistrationDefinitions } from './index'
+import { EXPORT_TOOL_KEYS } from './tool-keys'
+
+export enum EXPORT_DATASETS {
+  ORDERS = 'orders',
+  CLOSED_TRADES = 'closedTrades',
+}
+
+const exportBacktestBody = z.object({
+  projectId: readBacktestBody.shape.projectId,
+  backtestId: readBacktestBody.shape.backtestId,
+  dataset: z.nativeEnum(EXPORT_DATASETS).describe('Orders of the backtest or its closed trades.'),
+  format: z.nativeEnum(TABULAR_FORMATS).optional().describe('CSV with a header row or one JSON object per line, defaults to csv.'),
+  objectStore: z
+    .object({
+      organizationId: setObjectBody.shape.organizationId,
+      key: setObjectBody.shape.key,
+    })
+    .optional()
+    .describe('Upload the export to this Object Store key instead of returning it, required for large exports.'),
+})
+
+const exportBacktestResponse = z.object({
+  dataset: z.nativeEnum(EXPORT_DATASETS),
+  format: z.nativeEnum(TABULAR_FORMATS),
+  rowCount: z.number().describe('Number of exported rows.'),
+  columns: z.array(z.string()).describe('Columns of the rows, nested attributes are joined with a dot.'),
+  truncated: z.boolean().describe('True if the backtest has more orders than can be exported or read in the time of the request.'),
+  data: z.string().optional().describe('The export if it was not uploaded to the Object Store.'),
+  objectStore: z
+    .object({
+      organizationId: z.string(),
+      key: z.string(),
+      sizeInBytes: z.number(),
+    })
+    .optional()
+    .describe('Location of the uploaded export.'),
+})
+
+export type ExportBacktestResponse = z.infer<typeof exportBacktestResponse>
+
+// QuantConnect returns at most 100 orders per request
+const ORDER_PAGE_SIZE = 100
+const MAX_EXPORTED_ORDERS = 50000
+// larger exports would exceed the response size of the Lambda function
+const MAX_INLINE_EXPORT_LENGTH = 1000000
+
+const readAllBacktestOrders = async ({ projectId, backtestId }: z.infer<typeof readBacktestBody>, context?: ToolHandlerContext) => {
+  const client = QCClient.getInstance()
+  // only the remaining time of the invocation limits the reads, the margin is left for the upload and the response
+  const deadline = getPollingDeadline(Infinity, client.getRemainingTimeBudgetInMS())
+  const orders: Record<string, unknown>[] = []
+  let total = MAX_EXPORTED_ORDERS
+  let timedOut = false
+
+  while (orders.length < Math.min(total, MAX_EXPORTED_ORDERS)) {
+    const start = orders.length
+    const response = await client.post('backtests/orders/read', { projectId, backtestId, start, end: start + ORDER_PAGE_SIZE }, { signal: context?.signal })
+    const { orders: page, length } = readBacktestOrderResponse.parse(response)
+
+    orders.push(...(page ?? []))
+    total = length ?? orders.length
+
+    await context?.reportProgress({ progress: orders.length, total, message: `Read ${orders.length} of ${total} orders` })
+
+    // a short page is the last one, even if the total is missing
+    if (!page || page.length < ORDER_PAGE_SIZE) {
+      break
+    }
+
+    if (Date.now() > deadline) {
+      timedOut = true
+      break
+    }
+  }
+
+  return { rows: orders, truncated: timedOut || total > orders.length }
+}
+
+const readClosedTrades = async (params: z.infer<typeof readBacktestBody>, context?: ToolHandlerContext) => {
+  const response = await QCClient.getInstance().post('backtests/read', params, { signal: context?.signal })
+  const closedTrades = readBacktestResponse.parse(response).backtest?.totalPerformance?.closedTrades
+
+  return { rows: (closedTrades ?? []) as Record<string, unknown>[], truncated: false }
+}
+
+const uploadExport = async ({ organizationId, key }: { organizationId: string; key: string }, data: string, context?: ToolHandlerContext) => {
+  const formData = new FormData()
+  formData.append('objectData', data)
+
+  // the data is a form field, not a file, so it is posted as part of the body as well
+  await QCClient.getInstance().postFormData<object, z.infer<typeof setObjectResponse>>('/object/set', { organizationId, key, objectData: data }, formData, {
+    signal: context?.signal,
+  })
+
+  return { organizationId, key, sizeInBytes: Buffer.byteLength(data) }
+}
+
+export const getExportToolsDefinitions: ToolRegistrationDefinitions<EXPORT_TOOL_KEYS> = {
+  [EXPORT_TOOL_KEYS.EXPORT_BACKTEST]: {
+    config: {
+      title: 'Export backtest',
+      description: [
+        'Export all orders or the closed trades of a backtest as CSV or NDJSON.',
+        'Nested attributes become columns like `symbol.value`. Large exports have to be uploaded to the Object Store with `objectStore`.',
+      ].join('\n'),
+      inputSchema: exportBacktestBody.shape,
+      outputSchema: exportBacktestResponse.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    func: async (
+      { projectId, backtestId, dataset, format = TABULAR_FORMATS.CSV, objectStore }: z.infer<typeof exportBacktestBody>,
+      context?: ToolHandlerContext
+    ): Promise<ExportBacktestResponse> => {
+      const { rows, truncated } =
+        dataset === EXPORT_DATASETS.ORDERS
+          ? await readAllBacktestOrders({ projectId, backtestId }, context)
+          : await readClosedTrades({ projectId, backtestId }, context)
+
+      const tabularRows: TabularRow[] = rows.map((row) => flattenRecord(row))
+      const data = toTabularFormat(tabularRows, format)
+      const summary = { dataset, format, rowCount: tabularRows.length, columns: getColumns(tabularRows), truncated }
+
+      if (objectStore) {
+        return { ...summary, objectStore: await uploadExport(objectStore, data, context) }
+      }
+
+      if (data.length > MAX_INLINE_EXPORT_LENGTH) {
+        throw new Error(`The export has ${data.length} characters, upload it to the Object Store with objectStore instead`)
+      }
+
+      return { ...summary, data }
+    },
+    // the export is only part of the structured content, so it is not sent twice
+    toText: ({ dataset, format, rowCount, truncated, objectStore }: ExportBacktestResponse) =>
+      [
+        objectStore
+          ? `Uploaded ${rowCount} rows of ${dataset} (${objectStore.sizeInBytes} bytes) to ${objectStore.key}`
+          : `Exported ${rowCount} rows of ${dataset} as ${format}, the export is in the data of the structured content`,
+        ...(truncated ? ['The export is truncated, not all orders could be read.'] : []),
+      ].join('\n'),
+  },
+}
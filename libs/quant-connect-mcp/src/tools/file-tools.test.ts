@@ -0,0 +1,28 @@
+import { getFileToolsDefinitions } from './file-tools'
+import { FILE_TOOL_KEYS } from './tool-keys'
+
+describe('libs/quant-connect-mcp/src/tools/file-tools', () => {
+  it('should notify the subscribers of the old and the new name of a renamed file', () => {
+    const { updatesResources } = getFileToolsDefinitions[FILE_TOOL_KEYS.UPDATE_FILE_NAME]
+
+    expect(updatesResources?.({ projectId: 1, name: 'main.py', newName: 'algorithm/main.py' })).toEqual([
+      'qc://projects/1/files/main.py',
+      'qc://projects/1/files/algorithm/main.py',
+    ])
+  })
+
+  it('should change the resource list when files are created, renamed or deleted', () => {
+    expect(
+      Object.entries(getFileToolsDefinitions)
+        .filter(([, definition]) => definition.changesResourceList)
+        .map(([key]) => key)
+    ).toEqual([FILE_TOOL_KEYS.CREATE_FILE, FILE_TOOL_KEYS.UPDATE_FILE_NAME, FILE_TOOL_KEYS.DELETE_FILE])
+  })
+
+  it('should not change the resource list when the contents of a file are updated', () => {
+    const { updatesResources, changesResourceList } = getFileToolsDefinitions[FILE_TOOL_KEYS.UPDATE_FILE_CONTENTS]
+
+    expect(updatesResources?.({ projectId: 1, name: 'main.py', content: '' })).toEqual(['qc://projects/1/files/main.py'])
+    expect(changesResourceList).toBeUndefined()
+  })
+})
@@ -8,6 +8,7 @@ import {
   updateFileBody,
   updateFileResponse,
 } from '@fschaeffler/quant-connect-types'
+import { getProjectFileUri } from '../resources/resource-uris'
 import { mergeUnionToRawShape } from '../utils'
 import type { ToolRegistrationDefinitions } from './index'
 import { FILE_TOOL_KEYS } from './tool-keys'
@@ -27,6 +28,8 @@ export const getFileToolsDefinitions: ToolRegistrationDefinitions<FILE_TOOL_KEYS
     },
     url: '/files/create',
     injectCodeSourceId: true,
+    updatesResources: ({ projectId, name }) => [getProjectFileUri(projectId, name)],
+    changesResourceList: true,
   },
   [FILE_TOOL_KEYS.READ_FILE]: {
     config: {
@@ -57,6 +60,9 @@ export const getFileToolsDefinitions: ToolRegistrationDefinitions<FILE_TOOL_KEYS
     },
     url: '/files/update',
     injectCodeSourceId: true,
+    // subscribers of either name learn about the rename
+    updatesResources: ({ projectId, name, newName }) => [getProjectFileUri(projectId, name), ...(newName ? [getProjectFileUri(projectId, newName)] : [])],
+    changesResourceList: true,
   },
   [FILE_TOOL_KEYS.UPDATE_FILE_CONTENTS]: {
     config: {
@@ -72,6 +78,7 @@ export const getFileToolsDefinitions: ToolRegistrationDefinitions<FILE_TOOL_KEYS
     },
     url: '/files/update',
     injectCodeSourceId: true,
+    updatesResources: ({ projectId, name }) => [getProjectFileUri(projectId, name)],
   },
   [FILE_TOOL_KEYS.DELETE_FILE]: {
     config: {
@@ -87,5 +94,7 @@ export const getFileToolsDefinitions: ToolRegistrationDefinitions<FILE_TOOL_KEYS
     },
     url: '/files/delete',
     injectCodeSourceId: true,
+    updatesResources: ({ projectId, name }) => [getProjectFileUri(projectId, name)],
+    changesResourceList: true,
   },
 }
@@ -1,14 +1,21 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable max-lines-per-function */
 /* eslint-disable @typescript-eslint/no-empty-function */
-import { QCClient } from '@fschaeffler/quant-connect-client'
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { z, ZodObject } from 'zod'
+import { getJobHandle, JOB_TYPES } from '../jobs'
+import { notifyResourceListChanged, notifyResourcesUpdated } from '../resources'
 import { QCMCPServer } from '../server'
-import { injectCodeSourceId } from '../utils'
+import { createProgressReporter, injectCodeSourceId } from '../utils'
 import { getAccountToolsDefinitions } from './account-tools'
 import { getAIToolsDefinitions } from './ai-tools'
+import { getAnalysisToolsDefinitions } from './analysis-tools'
 import { getBacktestToolsDefinitions } from './backtest-tools'
 import { getCompileToolsDefinitions } from './compile-tools'
+import { getExportToolsDefinitions } from './export-tools'
 import { getFileToolsDefinitions } from './file-tools'
 import {
   registerTools,
@@ -18,6 +25,7 @@ import {
   ToolRegistrationDefinitionDataQCAPI,
   ToolRegistrationDefinitions,
 } from './index'
+import { getJobToolsDefinitions } from './job-tools'
 import { getLeanVersionToolsDefinitions } from './lean-version-tools'
 import { getLiveCommandToolsDefinitions } from './live-command-tools'
 import { getLiveToolsDefinitions } from './live-tools'
@@ -27,16 +35,26 @@ import { getOptimizationToolsDefinitions } from './optimization-tools'
 import { getProjectCollaborationToolsDefinitions } from './project-collaboration-tools'
 import { getProjectNodeToolsDefinitions } from './project-node-tools'
 import { getProjectToolsDefinitions } from './project-tools'
+import { listToolsInRequestProfile } from './tool-profiles'
+import { getWorkflowToolsDefinitions } from './workflow-tools'
 
 // Mock dependencies
-jest.mock('@fschaeffler/quant-connect-client')
+jest.mock('@fschaeffler/quant-connect-client', () => ({
+  QCApiError: jest.requireActual('@fschaeffler/quant-connect-client').QCApiError,
+  QCClient: { getInstance: jest.fn() },
+}))
+jest.mock('../jobs')
+jest.mock('../resources')
 jest.mock('../server')
 jest.mock('../utils')
 jest.mock('./account-tools')
 jest.mock('./ai-tools')
+jest.mock('./analysis-tools')
 jest.mock('./backtest-tools')
 jest.mock('./compile-tools')
+jest.mock('./export-tools')
 jest.mock('./file-tools')
+jest.mock('./job-tools')
 jest.mock('./lean-version-tools')
 jest.mock('./live-command-tools')
 jest.mock('./live-tools')
@@ -46,10 +64,16 @@ jest.mock('./optimization-tools')
 jest.mock('./project-collaboration-tools')
 jest.mock('./project-node-tools')
 jest.mock('./project-tools')
+jest.mock('./tool-profiles', () => ({
+  ...jest.requireActual('./tool-profiles'),
+  listToolsInRequestProfile: jest.fn(),
+}))
+jest.mock('./workflow-tools')
 
 const MockedQCClient = jest.mocked(QCClient)
 jest.mocked(QCMCPServer)
 const mockedInjectCodeSourceId = injectCodeSourceId as jest.MockedFunction<typeof injectCodeSourceId>
+const mockedCreateProgressReporter = jest.mocked(createProgressReporter)
 
 // Mock tool definitions
 const mockCustomTool = {
@@ -63,6 +87,17 @@ const mockCustomTool = {
   func: jest.fn().mockResolvedValue({ result: 'custom result' }),
 }
 
+const mockCustomToolWithText = {
+  config: {
+    title: 'Mock Custom Tool with text',
+    description: 'A mock custom tool that renders its response as text.',
+    inputSchema: { param1: z.string() },
+    annotations: { readOnlyHint: true, destructiveHint: false, idempotentHint: true },
+  },
+  func: jest.fn().mockResolvedValue({ result: 'custom result' }),
+  toText: ({ result }: { result: string }) => `| Result |\n| --- |\n| ${result} |`,
+}
+
 const mockAPITool = {
   config: {
     title: 'Mock API Tool',
@@ -96,6 +131,39 @@ const mockAPIToolWithoutOutputSchema = {
   url: '/mock/api/no-output',
 }
 
+const mockAPIToolStartingJob = {
+  config: {
+    title: 'Mock API Tool starting a job',
+    description: 'A mock API tool that starts a job.',
+    inputSchema: { projectId: z.number() },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: false },
+  },
+  url: '/mock/api/job',
+  startsJob: JOB_TYPES.COMPILE,
+}
+
+const mockAPIToolUpdatingResources = {
+  config: {
+    title: 'Mock API Tool updating resources',
+    description: 'A mock API tool that changes a resource.',
+    inputSchema: { projectId: z.number(), name: z.string() },
+    annotations: { readOnlyHint: false, destructiveHint: false, idempotentHint: true },
+  },
+  url: '/mock/api/update',
+  updatesResources: ({ projectId, name }: { projectId: number; name: string }) => [`qc://projects/${projectId}/files/${name}`],
+  changesResourceList: true,
+}
+
+const mockDestructiveAPITool = {
+  config: {
+    title: 'Mock destructive API Tool',
+    description: 'A mock API tool that deletes a project.',
+    inputSchema: { projectId: z.number() },
+    annotations: { readOnlyHint: false, destructiveHint: true, idempotentHint: true },
+  },
+  url: '/mock/api/delete',
+}
+
 const mockInvalidTool = {
   config: {
     title: 'Mock Invalid Tool',
@@ -118,6 +186,7 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
     // Mock QCClient instance
     mockQCClientInstance = {
       post: jest.fn(),
+      sign: jest.fn((data: string) => Buffer.from(data).toString('base64url')),
     } as any
     MockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
 
@@ -132,18 +201,22 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
     // Mock tool definition imports
     ;(getAccountToolsDefinitions as any) = { ACCOUNT_TOOL_1: mockCustomTool }
     ;(getAIToolsDefinitions as any) = { AI_TOOL_1: mockAPITool }
+    ;(getAnalysisToolsDefinitions as any) = { ANALYSIS_TOOL_1: mockCustomToolWithText }
     ;(getBacktestToolsDefinitions as any) = { BACKTEST_TOOL_1: mockAPIToolWithCodeSourceId }
     ;(getCompileToolsDefinitions as any) = { COMPILE_TOOL_1: mockAPIToolWithoutOutputSchema }
-    ;(getFileToolsDefinitions as any) = {}
+    ;(getExportToolsDefinitions as any) = {}
+    ;(getFileToolsDefinitions as any) = { FILE_TOOL_1: mockAPIToolUpdatingResources }
+    ;(getJobToolsDefinitions as any) = {}
     ;(getLeanVersionToolsDefinitions as any) = {}
     ;(getLiveCommandToolsDefinitions as any) = {}
     ;(getLiveToolsDefinitions as any) = {}
     ;(getMCPServerToolsDefinitions as any) = {}
     ;(getObjectStoreToolsDefinitions as any) = {}
-    ;(getOptimizationToolsDefinitions as any) = {}
+    ;(getOptimizationToolsDefinitions as any) = { OPTIMIZATION_TOOL_1: mockAPIToolStartingJob }
     ;(getProjectCollaborationToolsDefinitions as any) = {}
     ;(getProjectNodeToolsDefinitions as any) = {}
     ;(getProjectToolsDefinitions as any) = {}
+    ;(getWorkflowToolsDefinitions as any) = {}
 
     // Mock utilities
     mockedInjectCodeSourceId.mockImplementation(() => {})
@@ -279,13 +352,41 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
       const testParams = { param1: 'test value' }
       const result = await handler(testParams)
 
-      expect(mockCustomTool.func).toHaveBeenCalledWith(testParams)
+      expect(mockCustomTool.func).toHaveBeenCalledWith(testParams, { reportProgress: undefined, signal: undefined })
       expect(result).toEqual({
         content: [],
         structuredContent: { result: 'custom result' },
       })
     })
 
+    it('should pass a progress reporter for the request to custom tools', async () => {
+      const reportProgress = jest.fn()
+      mockedCreateProgressReporter.mockReturnValueOnce(reportProgress)
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const customToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'ACCOUNT_TOOL_1')
+      const handler = customToolCall[2]
+
+      const extra = { _meta: { progressToken: 'progress-token' }, sendNotification: jest.fn() }
+      await handler({ param1: 'test value' }, extra)
+
+      expect(mockedCreateProgressReporter).toHaveBeenCalledWith(extra)
+      expect(mockCustomTool.func).toHaveBeenCalledWith({ param1: 'test value' }, { reportProgress, signal: undefined })
+    })
+
+    it('should render the response of custom tools as text content', async () => {
+      registerTools.call(mockQCMCPServerInstance)
+
+      const customToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'ANALYSIS_TOOL_1')
+      const result = await customToolCall[2]({ param1: 'test value' })
+
+      expect(result).toEqual({
+        content: [{ type: 'text', text: '| Result |\n| --- |\n| custom result |' }],
+        structuredContent: { result: 'custom result' },
+      })
+    })
+
     it('should handle API tools with url property', async () => {
       mockQCClientInstance.post.mockResolvedValue({ result: 'api result' })
 
@@ -298,13 +399,67 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
       const testParams = { param1: 'test value' }
       const result = await handler(testParams)
 
-      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api', testParams)
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api', testParams, { signal: undefined })
       expect(result).toEqual({
         content: [],
         structuredContent: { result: 'api result' },
       })
     })
 
+    it('should pass the abort signal of the request to the QuantConnect API', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ result: 'api result' })
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const apiToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'AI_TOOL_1')
+      const handler = apiToolCall[2]
+
+      const { signal } = new AbortController()
+      await handler({ param1: 'test value' }, { signal, sendNotification: jest.fn() })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api', { param1: 'test value' }, { signal })
+    })
+
+    it('should attach a job handle to the response of tools that start a job', async () => {
+      const job = { type: JOB_TYPES.COMPILE as const, params: { projectId: 1, compileId: 'compile-1' }, status: 'InQueue' }
+      mockQCClientInstance.post.mockResolvedValue({ compileId: 'compile-1', state: 'InQueue' })
+      jest.mocked(getJobHandle).mockReturnValue(job)
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const apiToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'OPTIMIZATION_TOOL_1')
+      const result = await apiToolCall[2]({ projectId: 1 })
+
+      expect(getJobHandle).toHaveBeenCalledWith(JOB_TYPES.COMPILE, { projectId: 1 }, { compileId: 'compile-1', state: 'InQueue' })
+      expect(result.structuredContent).toEqual({ compileId: 'compile-1', state: 'InQueue', job })
+    })
+
+    it('should notify the subscribers of the resources that a tool changed', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ success: true })
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const apiToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'FILE_TOOL_1')
+      const extra = { sessionId: 'session-1', sendNotification: jest.fn() }
+      await apiToolCall[2]({ projectId: 1, name: 'main.py' }, extra)
+
+      expect(notifyResourcesUpdated).toHaveBeenCalledWith(['qc://projects/1/files/main.py'], extra)
+      expect(jest.mocked(notifyResourcesUpdated).mock.contexts[0]).toBe(mockQCMCPServerInstance)
+      expect(notifyResourceListChanged).toHaveBeenCalledWith(extra)
+    })
+
+    it('should not notify the subscribers of resources if the tool failed', async () => {
+      mockQCClientInstance.post.mockRejectedValue(new QCApiError('/mock/api/update', ['File main.py not found']))
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const apiToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'FILE_TOOL_1')
+      await apiToolCall[2]({ projectId: 1, name: 'main.py' })
+
+      expect(notifyResourcesUpdated).not.toHaveBeenCalled()
+      expect(notifyResourceListChanged).not.toHaveBeenCalled()
+    })
+
     it('should inject code source ID when injectCodeSourceId is true', async () => {
       mockQCClientInstance.post.mockResolvedValue({ result: 'api result with code source id' })
 
@@ -318,7 +473,7 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
       await handler(testParams)
 
       expect(mockedInjectCodeSourceId).toHaveBeenCalledWith(mockAPIToolWithCodeSourceId.config.inputSchema)
-      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api/with-code-source-id', testParams)
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api/with-code-source-id', testParams, { signal: undefined })
     })
 
     it('should not inject code source ID when injectCodeSourceId is false or undefined', async () => {
@@ -419,6 +574,127 @@ describe('libs/quant-connect-mcp/src/tools/index', () => {
       await expect(handler({ param1: 'test' })).rejects.toThrow('API request failed')
     })
 
+    it('should turn QCApiError into a tool error result', async () => {
+      mockQCClientInstance.post.mockRejectedValue(new QCApiError('/mock/api', ['Project not found'], 'request-123'))
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const apiToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'AI_TOOL_1')
+      const handler = apiToolCall[2]
+
+      await expect(handler({ param1: 'test' })).resolves.toEqual({
+        content: [{ type: 'text', text: 'QuantConnect API request to /mock/api failed: Project not found (request id: request-123)' }],
+        _meta: { error: { errors: ['Project not found'], endpoint: '/mock/api', requestId: 'request-123' } },
+        isError: true,
+      })
+    })
+
+    it('should pass the tool error of a QCApiError on to clients that validate the output schema', async () => {
+      mockQCClientInstance.post.mockRejectedValue(new QCApiError('/mock/api', ['Project not found'], 'request-123'))
+
+      const server = new McpServer({ name: 'test', version: '1.0.0' })
+      registerTools.call({ server } as unknown as QCMCPServer)
+
+      const client = new Client({ name: 'test-client', version: '1.0.0' })
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+      try {
+        // the client only validates the results of the tools it has listed
+        await client.listTools()
+
+        await expect(client.callTool({ name: 'AI_TOOL_1', arguments: { param1: 'test' } })).resolves.toEqual({
+          content: [{ type: 'text', text: 'QuantConnect API request to /mock/api failed: Project not found (request id: request-123)' }],
+          _meta: { error: { errors: ['Project not found'], endpoint: '/mock/api', requestId: 'request-123' } },
+          isError: true,
+        })
+      } finally {
+        await client.close()
+      }
+    })
+
+    it('should turn QCApiError of custom tools into a tool error result', async () => {
+      mockCustomTool.func.mockRejectedValue(new QCApiError('/custom/api', ['Invalid parameters']))
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const customToolCall = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'ACCOUNT_TOOL_1')
+      const handler = customToolCall[2]
+
+      const result = await handler({ param1: 'test' })
+
+      expect(result.isError).toBe(true)
+      expect(result.content[0].text).toBe('QuantConnect API request to /custom/api failed: Invalid parameters')
+    })
+
+    it('should only register the tools of the profile of the environment', () => {
+      process.env.QUANTCONNECT_TOOL_PROFILE = 'read-only'
+
+      try {
+        registerTools.call(mockQCMCPServerInstance)
+      } finally {
+        delete process.env.QUANTCONNECT_TOOL_PROFILE
+      }
+
+      const registeredToolNames = mockRegisterTool.mock.calls.map((call: any) => call[0])
+
+      expect(registeredToolNames).toEqual(['COMPILE_TOOL_1', 'ACCOUNT_TOOL_1', 'AI_TOOL_1', 'ANALYSIS_TOOL_1'])
+      expect(Object.keys(jest.mocked(listToolsInRequestProfile).mock.calls[0][0])).toEqual(registeredToolNames)
+      // the handler of tools/list is wrapped as the SDK sets it with the first registered tool
+      expect(jest.mocked(listToolsInRequestProfile).mock.invocationCallOrder[0]).toBeLessThan(mockRegisterTool.mock.invocationCallOrder[0])
+    })
+
+    it('should not run tools outside of the profile of the request', async () => {
+      registerTools.call(mockQCMCPServerInstance)
+
+      const handler = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'BACKTEST_TOOL_1')[2]
+      const result = await handler({ param1: 'test' }, { requestInfo: { headers: { 'x-qc-tool-profile': 'read-only' } } })
+
+      expect(mockQCClientInstance.post).not.toHaveBeenCalled()
+      expect(result).toEqual({ content: [{ type: 'text', text: 'Tool BACKTEST_TOOL_1 is not available in the tool profile of the request' }], isError: true })
+    })
+
+    it('should pass the request on to tools without an input schema', async () => {
+      ;(getLeanVersionToolsDefinitions as any) = { LEAN_VERSION_TOOL_1: { ...mockAPITool, config: { ...mockAPITool.config, inputSchema: undefined } } }
+      mockQCClientInstance.post.mockResolvedValue({ result: 'api result' })
+      registerTools.call(mockQCMCPServerInstance)
+
+      const handler = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'LEAN_VERSION_TOOL_1')[2]
+      const { signal } = new AbortController()
+      await handler({ signal })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api', {}, { signal })
+    })
+
+    it('should reject unknown tool profiles of the environment', () => {
+      process.env.QUANTCONNECT_TOOL_PROFILE = 'analyst'
+
+      try {
+        expect(() => registerTools.call(mockQCMCPServerInstance)).toThrow('Unknown tool profile analyst in QUANTCONNECT_TOOL_PROFILE')
+      } finally {
+        delete process.env.QUANTCONNECT_TOOL_PROFILE
+      }
+    })
+
+    it('should answer destructive tools with a preview until the call is confirmed', async () => {
+      mockQCClientInstance.post.mockResolvedValue({ success: true })
+      ;(getProjectToolsDefinitions as any) = { PROJECT_TOOL_1: mockDestructiveAPITool }
+
+      registerTools.call(mockQCMCPServerInstance)
+
+      const [, config, handler] = mockRegisterTool.mock.calls.find((call: any) => call[0] === 'PROJECT_TOOL_1')
+      expect(Object.keys(config.inputSchema)).toEqual(['projectId', 'confirmationToken'])
+
+      const preview = await handler({ projectId: 1 })
+
+      expect(mockQCClientInstance.post).not.toHaveBeenCalled()
+      expect(preview).toMatchObject({ _meta: { confirmation: { confirmed: false, tool: 'PROJECT_TOOL_1', arguments: { projectId: 1 } } }, isError: true })
+
+      await handler({ projectId: 1, confirmationToken: preview._meta.confirmation.confirmationToken })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('/mock/api/delete', { projectId: 1 }, { signal: undefined })
+    })
+
     it('should handle Zod parsing errors', async () => {
       const mockApiResponse = { invalid: 'response' }
       mockQCClientInstance.post.mockResolvedValue(mockApiResponse)
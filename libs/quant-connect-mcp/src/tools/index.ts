@@ -1,13 +1,20 @@
-import { QCClient } from '@fschaeffler/quant-connect-client'
-import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types'
+import { QCApiError, QCClient } from '@fschaeffler/quant-connect-client'
+import type { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { CallToolResult, ServerNotification, ServerRequest, ToolAnnotations } from '@modelcontextprotocol/sdk/types'
 import { ZodObject, type ZodRawShape } from 'zod'
+import { getJobHandle, type JOB_TYPES } from '../jobs'
+import { notifyResourceListChanged, notifyResourcesUpdated } from '../resources'
 import { QCMCPServer } from '../server'
-import { injectCodeSourceId } from '../utils'
+import { createProgressReporter, injectCodeSourceId, type ProgressReporter } from '../utils'
 import { getAccountToolsDefinitions } from './account-tools'
 import { getAIToolsDefinitions } from './ai-tools'
+import { getAnalysisToolsDefinitions } from './analysis-tools'
 import { getBacktestToolsDefinitions } from './backtest-tools'
 import { getCompileToolsDefinitions } from './compile-tools'
+import { getExportToolsDefinitions } from './export-tools'
 import { getFileToolsDefinitions } from './file-tools'
+import { getJobToolsDefinitions } from './job-tools'
 import { getLeanVersionToolsDefinitions } from './lean-version-tools'
 import { getLiveCommandToolsDefinitions } from './live-command-tools'
 import { getLiveToolsDefinitions } from './live-tools'
@@ -17,20 +24,44 @@ import { getOptimizationToolsDefinitions } from './optimization-tools'
 import { getProjectCollaborationToolsDefinitions } from './project-collaboration-tools'
 import { getProjectNodeToolsDefinitions } from './project-node-tools'
 import { getProjectToolsDefinitions } from './project-tools'
+import { confirmToolCall, requiresConfirmation, withConfirmationToken } from './tool-confirmations'
 import { TOOL_KEYS } from './tool-keys'
+import {
+  getEnvironmentToolProfile,
+  getToolNotInRequestProfileResult,
+  isToolInProfile,
+  isToolInRequestProfile,
+  listToolsInRequestProfile,
+} from './tool-profiles'
+import { getWorkflowToolsDefinitions } from './workflow-tools'
 
 export interface ToolRegistrationDefinitionDataQCAPI<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>
   extends ToolRegistrationDefinitionDataCommon<InputArgs, OutputArgs> {
   url: string
   injectCodeSourceId?: boolean
+  /** Adds the handle of the started job to the response, see `wait_for_job` */
+  startsJob?: JOB_TYPES
+}
+
+export interface ToolHandlerContext {
+  /** Reports the progress of long-running tools if the caller sent a `progressToken` */
+  reportProgress: ProgressReporter
+  /** Aborted when the caller cancels the tool call, to be passed on to the QuantConnect requests */
+  signal?: AbortSignal
 }
 
 export interface ToolRegistrationDefinitionDataCustom<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>
   extends ToolRegistrationDefinitionDataCommon<InputArgs, OutputArgs> {
-  func: (params: any) => Promise<any>
+  func: (params: any, context?: ToolHandlerContext) => Promise<any>
+  /** Renders the response as text content next to the structured content, e.g. as a Markdown table */
+  toText?: (response: any) => string
 }
 
 export interface ToolRegistrationDefinitionDataCommon<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape> {
+  /** URIs of the resources that the tool changes, subscribers of the resources are notified after the tool succeeded */
+  updatesResources?: (params: any) => string[]
+  /** The tool adds, deletes or renames resources, clients are sent `notifications/resources/list_changed` after it succeeded */
+  changesResourceList?: boolean
   config: {
     title?: string
     description?: string
@@ -46,6 +77,96 @@ export type ToolRegistrationDefinitionData<InputArgs extends ZodRawShape, Output
 
 export type ToolRegistrationDefinitions<T extends string> = Record<T, ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>>
 
+// clients validate structured content against the output schema of the tool even for errors, so the details go into `_meta`
+const getQCApiErrorResult = (error: QCApiError): CallToolResult => ({
+  content: [{ type: 'text', text: error.message }],
+  _meta: { error: { errors: error.errors, endpoint: error.endpoint, requestId: error.requestId } },
+  isError: true,
+})
+
+/** Run the function or the QuantConnect request of a tool, e.g. to fetch the context of a prompt with the tools that agents call */
+export const executeToolDefinition = async (definition: ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>, params: any, context: ToolHandlerContext) => {
+  if ('func' in definition) {
+    return definition.func(params, context)
+  }
+
+  if ('url' in definition) {
+    if (definition.injectCodeSourceId === true) {
+      injectCodeSourceId(definition.config.inputSchema)
+    }
+
+    let response = await QCClient.getInstance().post<any, any>(definition.url, params, { signal: context.signal })
+
+    if (definition.config.outputSchema) {
+      response = ZodObject.create(definition.config.outputSchema).parse(response)
+    }
+
+    if (definition.startsJob) {
+      response = { ...response, job: getJobHandle(definition.startsJob, params, response) }
+    }
+
+    return response
+  }
+
+  throw new Error('Invalid tool definition')
+}
+
+function registerTool(this: QCMCPServer, toolName: string, definition: ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>) {
+  const isConfirmationRequired = requiresConfirmation(toolName, definition)
+  const config = isConfirmationRequired ? { ...definition.config, inputSchema: withConfirmationToken(definition.config.inputSchema) } : definition.config
+
+  const handleToolCall = async (args: typeof definition.config.inputSchema, extra?: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+    // the profile headers of the request can narrow the registered tools down
+    if (!isToolInRequestProfile(toolName, definition, extra)) {
+      return getToolNotInRequestProfileResult(toolName)
+    }
+
+    let params = args
+    let response: any
+
+    // destructive and live trading tools only run once the preview of the call was confirmed
+    if (isConfirmationRequired) {
+      const { confirmationToken, ...actionParams } = args as Record<string, unknown>
+      const unconfirmedResult = await confirmToolCall.call(this, toolName, definition, actionParams, confirmationToken as string | undefined, extra)
+
+      if (unconfirmedResult) {
+        return unconfirmedResult
+      }
+
+      params = actionParams as typeof args
+    }
+
+    try {
+      response = await executeToolDefinition(definition, params, { reportProgress: createProgressReporter(extra), signal: extra?.signal })
+    } catch (error) {
+      // surface failed QuantConnect calls as tool errors, so agents don't mistake them for results
+      if (error instanceof QCApiError) {
+        return getQCApiErrorResult(error)
+      }
+
+      throw error
+    }
+
+    if (definition.updatesResources) {
+      await notifyResourcesUpdated.call(this, definition.updatesResources(params), extra)
+    }
+
+    if (definition.changesResourceList) {
+      await notifyResourceListChanged(extra)
+    }
+
+    return {
+      content: 'toText' in definition && definition.toText ? [{ type: 'text', text: definition.toText(response) }] : [],
+      structuredContent: response,
+    }
+  }
+
+  // the SDK calls tools without an input schema with the request only
+  const callback = config.inputSchema ? handleToolCall : (extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => handleToolCall({}, extra)
+
+  return this.server.registerTool(toolName, config, callback as ToolCallback<ZodRawShape>)
+}
+
 export function registerTools(this: QCMCPServer) {
   const definitions: ToolRegistrationDefinitions<TOOL_KEYS> = {
     ...getMCPServerToolsDefinitions,
@@ -62,32 +183,19 @@ export function registerTools(this: QCMCPServer) {
     ...getOptimizationToolsDefinitions,
     ...getProjectCollaborationToolsDefinitions,
     ...getProjectNodeToolsDefinitions,
+    ...getWorkflowToolsDefinitions,
+    ...getJobToolsDefinitions,
+    ...getAnalysisToolsDefinitions,
+    ...getExportToolsDefinitions,
   }
 
-  Object.entries(definitions).forEach(([toolName, definition]) => {
-    this.server.registerTool(toolName, definition.config, async (params: typeof definition.config.inputSchema) => {
-      let response: any
+  // tools outside of the profile of the deployment are never registered, so no request can call them
+  const toolProfile = getEnvironmentToolProfile()
+  const profileDefinitions = Object.fromEntries(
+    Object.entries(definitions).filter(([toolName, definition]) => isToolInProfile(toolName, definition, toolProfile))
+  )
 
-      if ('func' in definition) {
-        response = await definition.func(params)
-      } else if ('url' in definition) {
-        if (definition.injectCodeSourceId === true) {
-          injectCodeSourceId(definition.config.inputSchema)
-        }
+  listToolsInRequestProfile.call(this, profileDefinitions)
 
-        response = await QCClient.getInstance().post<any, any>(definition.url, params)
-
-        if (definition.config.outputSchema) {
-          response = ZodObject.create(definition.config.outputSchema).parse(response)
-        }
-      } else {
-        throw new Error('Invalid tool definition')
-      }
-
-      return {
-        content: [],
-        structuredContent: response,
-      }
-    })
-  })
+  Object.entries(profileDefinitions).forEach(([toolName, definition]) => registerTool.call(this, toolName, definition))
 }
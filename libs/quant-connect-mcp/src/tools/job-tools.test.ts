@@ -0,0 +1,59 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { JOB_TYPES, waitForJob } from '../jobs'
+import { getJobToolsDefinitions } from './job-tools'
+import { JOB_TOOL_KEYS } from './tool-keys'
+
+jest.mock('@fschaeffler/quant-connect-client')
+jest.mock('../jobs', () => ({ ...jest.requireActual('../jobs'), waitForJob: jest.fn() }))
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+const mockedWaitForJob = jest.mocked(waitForJob)
+
+describe('libs/quant-connect-mcp/src/tools/job-tools', () => {
+  const waitForJobTool = getJobToolsDefinitions[JOB_TOOL_KEYS.WAIT_FOR_JOB]
+  const func = 'func' in waitForJobTool ? waitForJobTool.func : jest.fn()
+  const job = { type: JOB_TYPES.COMPILE as const, params: { projectId: 1, compileId: 'compile-1' }, status: 'InQueue' }
+  let mockQCClientInstance: any
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers({ now: 1000 })
+
+    mockQCClientInstance = { getRemainingTimeBudgetInMS: jest.fn().mockReturnValue(undefined) }
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('should define the wait for job tool', () => {
+    expect(waitForJobTool.config.title).toBe('Wait for job')
+    expect(waitForJobTool.config.inputSchema).toEqual(expect.objectContaining({ job: expect.any(Object), maxWaitInSeconds: expect.any(Object) }))
+    expect(waitForJobTool.config.annotations).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true })
+  })
+
+  it('should return the result of a finished job', async () => {
+    mockedWaitForJob.mockResolvedValue({ result: { state: 'BuildSuccess' }, isDone: true, job: { ...job, status: 'BuildSuccess' } })
+
+    await expect(func({ job })).resolves.toEqual({ status: 'completed', job: { ...job, status: 'BuildSuccess' }, result: { state: 'BuildSuccess' } })
+    expect(mockedWaitForJob).toHaveBeenCalledWith(job, 46000, undefined)
+  })
+
+  it('should return the updated handle of a running job', async () => {
+    mockedWaitForJob.mockResolvedValue({ result: { state: 'InQueue' }, isDone: false, job })
+
+    await expect(func({ job, maxWaitInSeconds: 10 })).resolves.toEqual({ status: 'pending', job, result: { state: 'InQueue' } })
+    expect(mockedWaitForJob).toHaveBeenCalledWith(job, 11000, undefined)
+  })
+
+  it('should stay within the remaining time of the invocation', async () => {
+    mockQCClientInstance.getRemainingTimeBudgetInMS.mockReturnValue(15000)
+    mockedWaitForJob.mockResolvedValue({ result: {}, isDone: false, job })
+    const context = { reportProgress: jest.fn() }
+
+    await func({ job }, context)
+
+    expect(mockedWaitForJob).toHaveBeenCalledWith(job, 11000, context)
+  })
+})
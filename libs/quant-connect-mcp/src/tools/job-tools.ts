@@ -0,0 +1,42 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import z from 'zod'
+import { DEFAULT_MAX_WAIT_IN_SECONDS, jobHandle, maxWaitInSeconds, waitForJob } from '../jobs'
+import { getPollingDeadline } from '../utils'
+import type { ToolRegistrationDefinitions } from './index'
+import { JOB_TOOL_KEYS } from './tool-keys'
+
+const waitForJobBody = z.object({
+  job: jobHandle,
+  maxWaitInSeconds,
+})
+
+const waitForJobResponse = z.object({
+  status: z.enum(['completed', 'pending']).describe('pending if the job did not finish in time, call the tool again with the returned job.'),
+  job: jobHandle,
+  result: z.record(z.string(), z.any()).optional().describe('Last response of the read endpoint of the job, backtests are reduced.'),
+})
+
+export const getJobToolsDefinitions: ToolRegistrationDefinitions<JOB_TOOL_KEYS> = {
+  [JOB_TOOL_KEYS.WAIT_FOR_JOB]: {
+    config: {
+      title: 'Wait for job',
+      description: [
+        'Wait for a compile, backtest, optimization or Object Store download job that was started by another tool.',
+        'Returns the result once the job is done or the updated job handle if it is still running.',
+      ].join('\n'),
+      inputSchema: waitForJobBody.shape,
+      outputSchema: waitForJobResponse.shape,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
+    },
+    func: async ({ job, maxWaitInSeconds = DEFAULT_MAX_WAIT_IN_SECONDS }: z.infer<typeof waitForJobBody>, context) => {
+      const deadline = getPollingDeadline(maxWaitInSeconds * 1000, QCClient.getInstance().getRemainingTimeBudgetInMS())
+      const { result, isDone, job: updatedJob } = await waitForJob(job, deadline, context)
+
+      return { status: isDone ? 'completed' : 'pending', job: updatedJob, result }
+    },
+  },
+}
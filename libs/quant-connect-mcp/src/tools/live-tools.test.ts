@@ -272,8 +272,10 @@ describe('libs/quant-connect-mcp/src/tools/live-tools', () => {
 
     it('should have proper configuration', () => {
       expect(chartTool.config.title).toBe('Read live chart')
-      expect(chartTool.config.description).toBe('Read a chart from a live algorithm.')
-      expect(chartTool.config.inputSchema).toBe(readLiveChartBody.shape)
+      expect(chartTool.config.description).toContain('Read a chart from a live algorithm.')
+      expect(chartTool.config.inputSchema).toEqual(
+        expect.objectContaining({ name: readLiveChartBody.shape.name, start: expect.any(Object), maxPoints: expect.any(Object) })
+      )
     })
 
     it('should have output schema configuration', () => {
@@ -287,11 +289,38 @@ describe('libs/quant-connect-mcp/src/tools/live-tools', () => {
       expect(chartTool.config.annotations?.idempotentHint).toBe(true)
     })
 
-    it('should be a QC API tool', () => {
-      expect('url' in chartTool).toBe(true)
-      if ('url' in chartTool) {
-        expect(chartTool.url).toBe('/live/chart/read')
-      }
+    it('should read and reduce the live chart', async () => {
+      if (!('func' in chartTool)) {
+        throw new Error('read_live_chart is expected to be a custom tool')
+      }
+      mockedMergeUnionToRawShape.mockImplementation(jest.requireActual('../utils').mergeUnionToRawShape)
+      mockQCClientInstance.post.mockResolvedValue({
+        chart: {
+          name: 'Benchmark',
+          series: {
+            Benchmark: {
+              values: [
+                [1704067200, 100],
+                [1704153600, 101],
+                [1704240000, 102],
+              ],
+            },
+          },
+        },
+        success: true,
+      })
+
+      const response = await chartTool.func({ projectId: 1, name: 'Benchmark', count: 100, start: 1704100000, end: 1704300000 })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+        '/live/chart/read',
+        { projectId: 1, name: 'Benchmark', count: 100, start: 1704100000, end: 1704300000 },
+        { signal: undefined }
+      )
+      expect(response.chart.series.Benchmark.values).toEqual([
+        [1704153600, 101],
+        [1704240000, 102],
+      ])
     })
   })
 
@@ -473,7 +502,7 @@ describe('libs/quant-connect-mcp/src/tools/live-tools', () => {
       expect(tools[LIVE_TOOL_KEYS.CREATE_LIVE_ALGORITHM].config.inputSchema).toBe(createLiveBody.shape)
       expect(tools[LIVE_TOOL_KEYS.READ_LIVE_ALGORITHM].config.inputSchema).toBe(readLiveBody.shape)
       expect(tools[LIVE_TOOL_KEYS.LIST_LIVE_ALGORITHMS].config.inputSchema).toBe(listLiveBody.shape)
-      expect(tools[LIVE_TOOL_KEYS.READ_LIVE_CHART].config.inputSchema).toBe(readLiveChartBody.shape)
+      expect(tools[LIVE_TOOL_KEYS.READ_LIVE_CHART].config.inputSchema).toEqual(expect.objectContaining({ projectId: readLiveChartBody.shape.projectId }))
       expect(tools[LIVE_TOOL_KEYS.READ_LIVE_LOGS].config.inputSchema).toBe(readLiveLogBody.shape)
       expect(tools[LIVE_TOOL_KEYS.READ_LIVE_PORTFOLIO].config.inputSchema).toBe(readLivePortfolioBody.shape)
       expect(tools[LIVE_TOOL_KEYS.READ_LIVE_ORDERS].config.inputSchema).toBe(readLiveOrderBody.shape)
@@ -650,15 +679,14 @@ describe('libs/quant-connect-mcp/src/tools/live-tools', () => {
       const qcApiTools = tools.filter((tool) => 'url' in tool)
       const customTools = tools.filter((tool) => 'func' in tool)
 
-      expect(qcApiTools.length).toBe(11)
-      expect(customTools.length).toBe(1)
+      expect(qcApiTools.length).toBe(10)
+      expect(customTools.length).toBe(2)
     })
 
-    it('should have one custom tool for authorization step 1', () => {
+    it('should have custom tools for authorization step 1 and the reduced chart', () => {
       const customTools = Object.entries(getLiveToolsDefinitions).filter(([, tool]) => 'func' in tool)
 
-      expect(customTools).toHaveLength(1)
-      expect(customTools[0][0]).toBe(LIVE_TOOL_KEYS.AUTHORIZE_CONNECTION_STEP1)
+      expect(customTools.map(([key]) => key)).toEqual([LIVE_TOOL_KEYS.AUTHORIZE_CONNECTION_STEP1, LIVE_TOOL_KEYS.READ_LIVE_CHART])
     })
   })
 
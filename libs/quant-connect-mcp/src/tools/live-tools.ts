@@ -23,7 +23,9 @@ import {
   stopLiveResponse,
 } from '@fschaeffler/quant-connect-types'
 import z from 'zod'
+import { withChartReduction } from '../analysis'
 import { mergeUnionToRawShape } from '../utils'
+import { readChartReduced } from './backtest-tools'
 import type { ToolRegistrationDefinitions } from './index'
 import { LIVE_TOOL_KEYS } from './tool-keys'
 
@@ -47,8 +49,12 @@ export const getLiveToolsDefinitions: ToolRegistrationDefinitions<LIVE_TOOL_KEYS
         authURL: z.string().url().describe('The URL to open in the browser to complete the authentication flow.'),
       },
     },
-    func: async () => {
-      const response = await QCClient.getInstance().postWithRawResponse('/live/auth0/authorize', { redirect: false }, { timeout: 5 * 60 * 1000 })
+    func: async (_params, context) => {
+      const response = await QCClient.getInstance().postWithRawResponse(
+        '/live/auth0/authorize',
+        { redirect: false },
+        { timeout: 5 * 60 * 1000, signal: context?.signal }
+      )
       const redirectURL = response.headers['Location'] || response.headers['location']
       return { authURL: redirectURL }
     },
@@ -115,8 +121,11 @@ export const getLiveToolsDefinitions: ToolRegistrationDefinitions<LIVE_TOOL_KEYS
   [LIVE_TOOL_KEYS.READ_LIVE_CHART]: {
     config: {
       title: 'Read live chart',
-      description: 'Read a chart from a live algorithm.',
-      inputSchema: readLiveChartBody.shape,
+      description: [
+        'Read a chart from a live algorithm.',
+        'Large charts can be reduced to some series, a date range and a maximum number of points per series.',
+      ].join('\n'),
+      inputSchema: withChartReduction(readLiveChartBody.shape),
       outputSchema: mergeUnionToRawShape(readLiveChartResponse),
       annotations: {
         readOnlyHint: true,
@@ -124,7 +133,7 @@ export const getLiveToolsDefinitions: ToolRegistrationDefinitions<LIVE_TOOL_KEYS
         idempotentHint: true,
       },
     },
-    url: '/live/chart/read',
+    func: async (params, context) => readChartReduced('/live/chart/read', mergeUnionToRawShape(readLiveChartResponse), params, context),
   },
   [LIVE_TOOL_KEYS.READ_LIVE_LOGS]: {
     config: {
@@ -135,7 +135,9 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
 
         expect(FormData as jest.MockedClass<typeof FormData>).toHaveBeenCalledTimes(1)
         expect(mockFormDataAppend).toHaveBeenCalledWith('objectData', 'file content data')
-        expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith('/object/set', { organizationId: 'org123', key: 'test-file.txt' }, expect.any(Object))
+        expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith('/object/set', { organizationId: 'org123', key: 'test-file.txt' }, expect.any(Object), {
+          signal: undefined,
+        })
         expect(result).toBe(mockResponse)
       }
     })
@@ -208,7 +210,7 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
 
         await uploadTool.func(mockParams)
 
-        expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith('/object/set', expect.any(Object), expect.any(Object))
+        expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith('/object/set', expect.any(Object), expect.any(Object), { signal: undefined })
       }
     })
 
@@ -290,7 +292,7 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
     })
 
     it('should use standard response schema for output', () => {
-      expect(jobIdTool.config.outputSchema).toBe(getObjectResponse.shape)
+      expect(jobIdTool.config.outputSchema).toEqual({ ...getObjectResponse.shape, job: expect.any(Object) })
     })
 
     it('should have proper annotations for job creation', () => {
@@ -603,7 +605,7 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
   })
 
   describe('QCClient integration', () => {
-    it('should use QCClient singleton pattern', async () => {
+    it('should resolve the QCClient of the current request', async () => {
       const uploadTool = getObjectStoreToolsDefinitions[OBJECT_STORE_TOOL_KEYS.UPLOAD_OBJECT]
 
       if ('func' in uploadTool) {
@@ -634,7 +636,8 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
         expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith(
           '/object/set',
           { organizationId: 'test-org', key: 'test/file.txt', metadata: 'additional' },
-          expect.any(Object)
+          expect.any(Object),
+          { signal: undefined }
         )
       }
     })
@@ -953,7 +956,8 @@ describe('libs/quant-connect-mcp/src/tools/object-store-tools', () => {
         expect(mockQCClientInstance.postFormData).toHaveBeenCalledWith(
           '/object/set',
           { organizationId: 'test-org', key: 'documents/test.txt' },
-          expect.any(Object)
+          expect.any(Object),
+          { signal: undefined }
         )
         expect(result).toBe(uploadResponse)
       }
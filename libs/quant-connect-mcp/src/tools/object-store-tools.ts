@@ -13,6 +13,8 @@ import {
 } from '@fschaeffler/quant-connect-types'
 import FormData from 'form-data'
 import z from 'zod'
+import { JOB_TYPES, withJobHandle } from '../jobs/job-handle'
+import { getObjectStoreObjectUri } from '../resources/resource-uris'
 import { mergeUnionToRawShape } from '../utils'
 import type { ToolRegistrationDefinitions } from './index'
 import { OBJECT_STORE_TOOL_KEYS } from './tool-keys'
@@ -30,13 +32,21 @@ export const getObjectStoreToolsDefinitions: ToolRegistrationDefinitions<OBJECT_
         idempotentHint: true,
       },
     },
-    func: async (params) => {
+    updatesResources: ({ organizationId, key }) => [getObjectStoreObjectUri(organizationId, key)],
+    func: async (params, context) => {
       const formData = new FormData()
       formData.append('objectData', params.objectData)
 
       delete params.objectData
 
-      const data = await QCClient.getInstance().postFormData<z.infer<typeof setObjectBody>, z.infer<typeof setObjectResponse>>('/object/set', params, formData)
+      const data = await QCClient.getInstance().postFormData<z.infer<typeof setObjectBody>, z.infer<typeof setObjectResponse>>(
+        '/object/set',
+        params,
+        formData,
+        {
+          signal: context?.signal,
+        }
+      )
 
       return data
     },
@@ -60,7 +70,7 @@ export const getObjectStoreToolsDefinitions: ToolRegistrationDefinitions<OBJECT_
       title: 'Read Object Store file job Id',
       description: 'Create a job to download files from the Object Store and then read the job Id.',
       inputSchema: mergeUnionToRawShape(getObjectBody),
-      outputSchema: getObjectResponse.shape,
+      outputSchema: withJobHandle(getObjectResponse.shape),
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -68,6 +78,7 @@ export const getObjectStoreToolsDefinitions: ToolRegistrationDefinitions<OBJECT_
       },
     },
     url: '/object/get',
+    startsJob: JOB_TYPES.OBJECT_STORE_DOWNLOAD,
   },
   [OBJECT_STORE_TOOL_KEYS.READ_OBJECT_STORE_FILE_DOWNLOAD_URL]: {
     config: {
@@ -110,5 +121,6 @@ export const getObjectStoreToolsDefinitions: ToolRegistrationDefinitions<OBJECT_
       },
     },
     url: '/object/delete',
+    updatesResources: ({ organizationId, key }) => [getObjectStoreObjectUri(organizationId, key)],
   },
 }
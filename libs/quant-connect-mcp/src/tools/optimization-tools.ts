@@ -14,6 +14,7 @@ import {
   updateOptimizationBody,
   updateOptimizationResponse,
 } from '@fschaeffler/quant-connect-types'
+import { JOB_TYPES, withJobHandle } from '../jobs/job-handle'
 import type { ToolRegistrationDefinitions } from './index'
 import { OPTIMIZATION_TOOL_KEYS } from './tool-keys'
 
@@ -35,12 +36,13 @@ export const getOptimizationToolsDefinitions: ToolRegistrationDefinitions<OPTIMI
       title: 'Create optimization',
       description: 'Create an optimization with the specified parameters.',
       inputSchema: createOptimizationBody.shape,
-      outputSchema: createOptimizationResponse.shape,
+      outputSchema: withJobHandle(createOptimizationResponse.shape),
       annotations: {
         destructiveHint: false,
       },
     },
     url: '/optimizations/create',
+    startsJob: JOB_TYPES.OPTIMIZATION,
   },
   [OPTIMIZATION_TOOL_KEYS.READ_OPTIMIZATION]: {
     config: {
@@ -86,6 +88,8 @@ export const getOptimizationToolsDefinitions: ToolRegistrationDefinitions<OPTIMI
       inputSchema: abortOptimizationBody.shape,
       outputSchema: abortOptimizationResponse.shape,
       annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
         idempotentHint: true,
       },
     },
@@ -46,6 +46,8 @@ export const getProjectCollaborationToolsDefinitions: ToolRegistrationDefinition
       inputSchema: updateProjectCollaborationBody.shape,
       outputSchema: updateProjectCollaborationResponse.shape,
       annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
         idempotentHint: true,
       },
     },
@@ -58,6 +60,8 @@ export const getProjectCollaborationToolsDefinitions: ToolRegistrationDefinition
       inputSchema: deleteProjectCollaborationBody.shape,
       outputSchema: deleteProjectCollaborationResponse.shape,
       annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
         idempotentHint: true,
       },
     },
@@ -72,6 +76,11 @@ export const getProjectCollaborationToolsDefinitions: ToolRegistrationDefinition
       ].join(' '),
       inputSchema: acquireProjectCollaborationLockBody.shape,
       outputSchema: acquireProjectCollaborationLockResponse.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+      },
     },
     url: '/projects/collaboration/lock/acquire',
     injectCodeSourceId: true,
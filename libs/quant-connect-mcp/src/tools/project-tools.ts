@@ -18,6 +18,11 @@ export const getProjectToolsDefinitions: ToolRegistrationDefinitions<PROJECT_TOO
       description: 'Create a new project in your default organization.',
       inputSchema: createProjectBody.shape,
       outputSchema: createProjectResponse.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
     },
     url: 'projects/create',
   },
@@ -55,6 +60,7 @@ export const getProjectToolsDefinitions: ToolRegistrationDefinitions<PROJECT_TOO
       outputSchema: updateProjectResponse.shape,
       annotations: {
         readOnlyHint: false,
+        destructiveHint: false,
         idempotentHint: true,
       },
     },
@@ -66,6 +72,11 @@ export const getProjectToolsDefinitions: ToolRegistrationDefinitions<PROJECT_TOO
       description: 'Delete a project. This action cannot be undone.',
       inputSchema: deleteProjectBody.shape,
       outputSchema: deleteProjectResponse.shape,
+      annotations: {
+        readOnlyHint: false,
+        idempotentHint: true,
+        destructiveHint: true,
+      },
     },
     url: 'projects/delete',
   },
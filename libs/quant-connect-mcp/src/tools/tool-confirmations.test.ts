@@ -0,0 +1,268 @@
+/* eslint-disable max-lines-per-function */
+import { HttpServerTransport } from '@fschaeffler/mcp-middy'
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { ElicitRequestSchema, type ElicitResult, type JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+import { createHmac } from 'crypto'
+import z from 'zod'
+import type { QCMCPServer } from '../server'
+import { registerTools } from './index'
+import {
+  CONFIRMATION_TOKEN_TTL_IN_MS,
+  confirmToolCall,
+  createConfirmationToken,
+  isValidConfirmationToken,
+  LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS,
+  requiresConfirmation,
+  withConfirmationToken,
+} from './tool-confirmations'
+
+jest.mock('@fschaeffler/quant-connect-client', () => ({ QCClient: { getInstance: jest.fn() } }))
+jest.mock('../server')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+const deleteProjectTool = {
+  config: {
+    title: 'Delete Project',
+    description: 'Delete a project. This action cannot be undone.',
+    inputSchema: { projectId: z.number() },
+    annotations: { readOnlyHint: false, destructiveHint: true },
+  },
+  url: 'projects/delete',
+}
+
+const createServer = (deleteProject: jest.Mock) => {
+  const qcMCPServer = { server: new McpServer({ name: 'test', version: '1.0.0' }) } as unknown as QCMCPServer & { server: McpServer }
+
+  qcMCPServer.server.registerTool(
+    'delete_project',
+    { ...deleteProjectTool.config, inputSchema: withConfirmationToken(deleteProjectTool.config.inputSchema) },
+    async ({ confirmationToken, ...params }, extra) =>
+      (await confirmToolCall.call(qcMCPServer, 'delete_project', deleteProjectTool, params, confirmationToken, extra)) ?? deleteProject(params)
+  )
+
+  return qcMCPServer
+}
+
+describe('libs/quant-connect-mcp/src/tools/tool-confirmations', () => {
+  let apiToken: string
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+
+    apiToken = 'api-token-1'
+    mockedQCClient.getInstance.mockImplementation(() => ({ sign: (data: string) => createHmac('sha256', apiToken).update(data).digest('base64url') }) as any)
+  })
+
+  describe('requiresConfirmation', () => {
+    it('should require confirmation for destructive tools and tools that move live money', () => {
+      expect(requiresConfirmation('delete_project', deleteProjectTool)).toBe(true)
+      expect(requiresConfirmation('create_live_algorithm', { config: { annotations: { destructiveHint: false } }, url: 'live/create' })).toBe(true)
+      expect(requiresConfirmation('broadcast_live_command', { config: {}, url: 'live/commands/broadcast' })).toBe(true)
+      expect(requiresConfirmation('read_project', { config: { annotations: { readOnlyHint: true } }, url: 'projects/read' })).toBe(false)
+    })
+
+    it('should treat tools that are not read-only as destructive without a destructive hint', () => {
+      expect(requiresConfirmation('update_project', { config: {}, url: 'projects/update' })).toBe(true)
+      expect(requiresConfirmation('update_project', { config: { annotations: { readOnlyHint: false } }, url: 'projects/update' })).toBe(true)
+      expect(requiresConfirmation('update_project', { config: { annotations: { destructiveHint: false } }, url: 'projects/update' })).toBe(false)
+    })
+
+    it('should require confirmation for all registered tools that delete something', async () => {
+      const qcMCPServer = { server: new McpServer({ name: 'test', version: '1.0.0' }) } as unknown as QCMCPServer & { server: McpServer }
+      registerTools.call(qcMCPServer)
+
+      const client = new Client({ name: 'test-client', version: '1.0.0' })
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      await Promise.all([qcMCPServer.server.connect(serverTransport), client.connect(clientTransport)])
+
+      const deleteTools = (await client.listTools()).tools.filter(({ name }) => name.startsWith('delete_'))
+      await client.close()
+
+      expect(deleteTools.map(({ name }) => name)).toContain('delete_project_collaborator')
+      deleteTools.forEach(({ inputSchema }) => expect(inputSchema.properties).toHaveProperty('confirmationToken'))
+    })
+
+    it('should accept the confirmation token as an optional argument', () => {
+      const inputSchema = z.object(withConfirmationToken(deleteProjectTool.config.inputSchema))
+
+      expect(inputSchema.parse({ projectId: 1 })).toEqual({ projectId: 1 })
+      expect(inputSchema.parse({ projectId: 1, confirmationToken: 'token' })).toEqual({ projectId: 1, confirmationToken: 'token' })
+    })
+  })
+
+  describe('confirmation tokens', () => {
+    const now = Date.UTC(2024, 0, 1)
+
+    it('should accept tokens of the same tool and arguments in any order', () => {
+      const { confirmationToken, expiresAt } = createConfirmationToken('update_backtest', { projectId: 1, backtestId: 'backtest-1' }, now)
+
+      expect(expiresAt).toEqual(new Date(now + CONFIRMATION_TOKEN_TTL_IN_MS))
+      expect(isValidConfirmationToken(confirmationToken, 'update_backtest', { backtestId: 'backtest-1', projectId: 1 }, now)).toBe(true)
+    })
+
+    it('should reject tokens of other tools, arguments or accounts', () => {
+      const { confirmationToken } = createConfirmationToken('delete_project', { projectId: 1 }, now)
+
+      expect(isValidConfirmationToken(confirmationToken, 'delete_project', { projectId: 2 }, now)).toBe(false)
+      expect(isValidConfirmationToken(confirmationToken, 'delete_backtest', { projectId: 1 }, now)).toBe(false)
+
+      apiToken = 'api-token-2'
+
+      expect(isValidConfirmationToken(confirmationToken, 'delete_project', { projectId: 1 }, now)).toBe(false)
+    })
+
+    it('should expire the tokens of tools that move live money sooner', () => {
+      const { confirmationToken, expiresAt } = createConfirmationToken('create_live_algorithm', { projectId: 1 }, now)
+
+      expect(expiresAt).toEqual(new Date(now + LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS))
+      expect(isValidConfirmationToken(confirmationToken, 'create_live_algorithm', { projectId: 1 }, now + LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS)).toBe(true)
+      expect(isValidConfirmationToken(confirmationToken, 'create_live_algorithm', { projectId: 1 }, now + LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS + 1)).toBe(
+        false
+      )
+    })
+
+    it('should reject expired and malformed tokens', () => {
+      const { confirmationToken } = createConfirmationToken('delete_project', { projectId: 1 }, now)
+
+      expect(isValidConfirmationToken(confirmationToken, 'delete_project', { projectId: 1 }, now + CONFIRMATION_TOKEN_TTL_IN_MS + 1)).toBe(false)
+      expect(
+        isValidConfirmationToken(`${now + CONFIRMATION_TOKEN_TTL_IN_MS * 10}.${confirmationToken.split('.')[1]}`, 'delete_project', { projectId: 1 }, now)
+      ).toBe(false)
+      expect(isValidConfirmationToken('token', 'delete_project', { projectId: 1 }, now)).toBe(false)
+    })
+  })
+
+  describe('confirmToolCall', () => {
+    let client: Client
+    let deleteProject: jest.Mock
+
+    const connect = async (elicit?: (message: string) => ElicitResult) => {
+      const qcMCPServer = createServer(deleteProject)
+
+      client = new Client({ name: 'test-client', version: '1.0.0' }, { capabilities: elicit ? { elicitation: {} } : {} })
+
+      if (elicit) {
+        client.setRequestHandler(ElicitRequestSchema, ({ params }) => elicit(params.message))
+      }
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      await Promise.all([qcMCPServer.server.connect(serverTransport), client.connect(clientTransport)])
+    }
+
+    beforeEach(() => {
+      deleteProject = jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'Deleted' }] })
+    })
+
+    afterEach(async () => {
+      await client.close()
+    })
+
+    it('should answer with a preview and run the tool with its token', async () => {
+      await connect()
+
+      const preview = await client.callTool({ name: 'delete_project', arguments: { projectId: 1 } })
+
+      expect(deleteProject).not.toHaveBeenCalled()
+      expect(preview.isError).toBe(true)
+      expect(preview._meta?.confirmation).toMatchObject({ confirmed: false, tool: 'delete_project', arguments: { projectId: 1 } })
+      expect((preview.content as { text: string }[])[0].text).toContain('Delete Project (delete_project) needs to be confirmed.\nDelete a project.')
+
+      const { confirmationToken } = preview._meta?.confirmation as { confirmationToken: string }
+      const result = await client.callTool({ name: 'delete_project', arguments: { projectId: 1, confirmationToken } })
+
+      expect(deleteProject).toHaveBeenCalledWith({ projectId: 1 })
+      expect(result.content).toEqual([{ type: 'text', text: 'Deleted' }])
+    })
+
+    it('should answer with a new preview for tokens of other arguments', async () => {
+      await connect()
+
+      const { confirmationToken } = createConfirmationToken('delete_project', { projectId: 2 })
+      const result = await client.callTool({ name: 'delete_project', arguments: { projectId: 1, confirmationToken } })
+
+      expect(deleteProject).not.toHaveBeenCalled()
+      expect((result.content as { text: string }[])[0].text).toContain('The confirmation token is invalid or expired.')
+    })
+
+    it('should run the tool once the user confirmed it through elicitation', async () => {
+      const elicit = jest.fn().mockReturnValue({ action: 'accept', content: { confirm: true } })
+      await connect(elicit)
+
+      await client.callTool({ name: 'delete_project', arguments: { projectId: 1 } })
+
+      expect(elicit).toHaveBeenCalledWith(expect.stringContaining('Arguments: {"projectId":1}'))
+      expect(deleteProject).toHaveBeenCalledWith({ projectId: 1 })
+    })
+
+    it('should not run the tool if the user declined it', async () => {
+      await connect(() => ({ action: 'decline' }))
+
+      const result = await client.callTool({ name: 'delete_project', arguments: { projectId: 1 } })
+
+      expect(deleteProject).not.toHaveBeenCalled()
+      expect(result.content).toEqual([{ type: 'text', text: 'The user did not confirm delete_project, it was not run.' }])
+    })
+
+    it('should fall back to the token if the elicitation failed', async () => {
+      await connect(() => {
+        throw new Error('Elicitation is not supported by this client')
+      })
+
+      const result = await client.callTool({ name: 'delete_project', arguments: { projectId: 1 } })
+
+      expect(deleteProject).not.toHaveBeenCalled()
+      expect(result._meta?.confirmation).toHaveProperty('confirmationToken')
+    })
+  })
+
+  describe('confirmToolCall through the HTTP transport', () => {
+    const deleteProject = jest.fn().mockResolvedValue({ content: [{ type: 'text', text: 'Deleted' }] })
+    const callDeleteProject: JSONRPCMessage = { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'delete_project', arguments: { projectId: 1 } } }
+
+    const connect = async (singleProcess: boolean) => {
+      const transport = new HttpServerTransport({ singleProcess })
+      await createServer(deleteProject).server.connect(transport)
+
+      await transport.handleJSONRPCMessages([
+        {
+          jsonrpc: '2.0',
+          id: 0,
+          method: 'initialize',
+          params: { protocolVersion: '2025-06-18', capabilities: { elicitation: {} }, clientInfo: { name: 'test-client', version: '1.0.0' } },
+        },
+      ])
+      await transport.handleJSONRPCMessages([{ jsonrpc: '2.0', method: 'notifications/initialized' }])
+
+      return transport
+    }
+
+    it('should answer with the token right away if the answer to the elicitation would reach another process', async () => {
+      const transport = await connect(false)
+      const onmessage = jest.fn()
+
+      const response = await transport.handleJSONRPCMessages([callDeleteProject], onmessage)
+
+      expect(deleteProject).not.toHaveBeenCalled()
+      expect(onmessage).not.toHaveBeenCalledWith(expect.objectContaining({ method: 'elicitation/create' }))
+      expect(response).toMatchObject({ id: 1, result: { isError: true, _meta: { confirmation: { confirmationToken: expect.any(String) } } } })
+    })
+
+    it('should run the tool once the user confirmed it on the streamed response in a single process', async () => {
+      const transport = await connect(true)
+      const onmessage = jest.fn((message: JSONRPCMessage) => {
+        if ('method' in message && message.method === 'elicitation/create' && 'id' in message) {
+          void transport.handleJSONRPCMessages([{ jsonrpc: '2.0', id: message.id, result: { action: 'accept', content: { confirm: true } } }])
+        }
+      })
+
+      const response = await transport.handleJSONRPCMessages([callDeleteProject], onmessage)
+
+      expect(deleteProject).toHaveBeenCalledWith({ projectId: 1 })
+      expect(response).toEqual({ jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'Deleted' }] } })
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import { type CallToolResult, ElicitResultSchema, type ServerNotification, type ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+import { timingSafeEqual } from 'crypto'
+import z, { type ZodRawShape } from 'zod'
+import type { QCMCPServer } from '../server'
+import type { ToolRegistrationDefinitionData } from './index'
+import { LIVE_COMMAND_TOOL_KEYS, LIVE_TOOL_KEYS, type TOOL_KEYS } from './tool-keys'
+
+export const CONFIRMATION_TOKEN_TTL_IN_MS = 5 * 60 * 1000
+// the tokens are stateless and can be redeemed until they expire, so the ones that move live money are only valid briefly
+export const LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS = 60 * 1000
+
+// tools that move live money without deleting anything
+const LIVE_MONEY_TOOL_KEYS: TOOL_KEYS[] = [
+  LIVE_TOOL_KEYS.CREATE_LIVE_ALGORITHM,
+  LIVE_TOOL_KEYS.LIQUIDATE_LIVE_ALGORITHM,
+  LIVE_COMMAND_TOOL_KEYS.BROADCAST_LIVE_COMMAND,
+]
+
+type ToolDefinition = ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>
+
+/** Tools that are not read-only are destructive unless annotated otherwise, like the defaults of the MCP tool annotations */
+export const requiresConfirmation = (toolName: string, { config: { annotations } }: ToolDefinition) =>
+  (annotations?.readOnlyHint !== true && annotations?.destructiveHint !== false) || LIVE_MONEY_TOOL_KEYS.includes(toolName as TOOL_KEYS)
+
+/** The input schema of a tool that requires confirmation also accepts the token of the preview */
+export const withConfirmationToken = (inputSchema: ZodRawShape | undefined): ZodRawShape => ({
+  ...inputSchema,
+  confirmationToken: z.string().optional().describe('Token of the preview of this call. Leave it out to get the preview and the token first.'),
+})
+
+// the arguments are signed independent of the order of their keys
+const toCanonicalJSON = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(toCanonicalJSON).join(',')}]`
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b))
+
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${toCanonicalJSON(entry)}`).join(',')}}`
+  }
+
+  return JSON.stringify(value)
+}
+
+const signToolCall = (toolName: string, params: Record<string, unknown>, expiresAt: number) =>
+  QCClient.getInstance().sign(`${toolName}:${expiresAt}:${toCanonicalJSON(JSON.parse(JSON.stringify(params)))}`)
+
+const getConfirmationTokenTTLInMS = (toolName: string) =>
+  LIVE_MONEY_TOOL_KEYS.includes(toolName as TOOL_KEYS) ? LIVE_MONEY_CONFIRMATION_TOKEN_TTL_IN_MS : CONFIRMATION_TOKEN_TTL_IN_MS
+
+/** Token for any number of calls with the same tool, arguments and QuantConnect account until it expires */
+export const createConfirmationToken = (toolName: string, params: Record<string, unknown>, now = Date.now()) => {
+  const expiresAt = now + getConfirmationTokenTTLInMS(toolName)
+
+  return { confirmationToken: `${expiresAt}.${signToolCall(toolName, params, expiresAt)}`, expiresAt: new Date(expiresAt) }
+}
+
+export const isValidConfirmationToken = (confirmationToken: string, toolName: string, params: Record<string, unknown>, now = Date.now()) => {
+  const [expiresAt, signature = ''] = confirmationToken.split('.')
+
+  if (!/^\d+$/.test(expiresAt) || Number(expiresAt) < now) {
+    return false
+  }
+
+  const expectedSignature = Buffer.from(signToolCall(toolName, params, Number(expiresAt)))
+  const actualSignature = Buffer.from(signature)
+
+  return actualSignature.length === expectedSignature.length && timingSafeEqual(actualSignature, expectedSignature)
+}
+
+const getPreview = (toolName: string, definition: ToolDefinition, params: Record<string, unknown>) =>
+  [`${definition.config.title ?? toolName} (${toolName}) needs to be confirmed.`, definition.config.description, `Arguments: ${JSON.stringify(params)}`]
+    .filter((line) => !!line)
+    .join('\n')
+
+// the tool did not run, and clients validate structured content against the output schema of the tool even for errors
+const toUnconfirmedResult = (text: string, confirmation: Record<string, unknown>): CallToolResult => ({
+  content: [{ type: 'text', text }],
+  _meta: { confirmation: { confirmed: false, ...confirmation } },
+  isError: true,
+})
+
+/** Ask the user through the client, undefined if the client can't elicit or the elicitation failed */
+const elicitConfirmation = async (preview: string, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => {
+  try {
+    const { action, content } = await extra.sendRequest(
+      {
+        method: 'elicitation/create',
+        params: {
+          message: preview,
+          requestedSchema: {
+            type: 'object',
+            properties: { confirm: { type: 'boolean', title: 'Confirm', description: 'Run the tool with these arguments.' } },
+            required: ['confirm'],
+          },
+        },
+      },
+      ElicitResultSchema,
+      { signal: extra.signal }
+    )
+
+    return action === 'accept' && content?.confirm === true
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Undefined once the call is confirmed, by a valid token of an earlier preview or by the user through elicitation.
+ * Otherwise the result to answer with instead of running the tool, i.e. the refusal of the user or the preview with a new token.
+ */
+export async function confirmToolCall(
+  this: QCMCPServer,
+  toolName: string,
+  definition: ToolDefinition,
+  params: Record<string, unknown>,
+  confirmationToken: string | undefined,
+  extra?: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CallToolResult | undefined> {
+  if (confirmationToken !== undefined && isValidConfirmationToken(confirmationToken, toolName, params)) {
+    return
+  }
+
+  const preview = getPreview(toolName, definition, params)
+
+  if (extra && this.server.server.getClientCapabilities()?.elicitation) {
+    const confirmed = await elicitConfirmation(preview, extra)
+
+    if (confirmed === true) {
+      return
+    }
+
+    if (confirmed === false) {
+      return toUnconfirmedResult(`The user did not confirm ${toolName}, it was not run.`, { tool: toolName })
+    }
+  }
+
+  const { confirmationToken: newConfirmationToken, expiresAt } = createConfirmationToken(toolName, params)
+
+  return toUnconfirmedResult(
+    [
+      confirmationToken === undefined ? preview : `The confirmation token is invalid or expired.\n${preview}`,
+      '',
+      `The tool was not run. Show this preview to the user, for live trading with a risk summary. Only once the user agreed, call ${toolName} again ` +
+        `with the same arguments and "confirmationToken": "${newConfirmationToken}" before ${expiresAt.toISOString()}.`,
+    ].join('\n'),
+    { tool: toolName, arguments: params, confirmationToken: newConfirmationToken, expiresAt: expiresAt.toISOString() }
+  )
+}
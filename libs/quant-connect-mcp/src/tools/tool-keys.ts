@@ -107,6 +107,24 @@ export enum PROJECT_NODE_TOOL_KEYS {
   UPDATE_PROJECT_NODES = 'update_project_nodes',
 }
 
+export enum JOB_TOOL_KEYS {
+  WAIT_FOR_JOB = 'wait_for_job',
+}
+
+export enum ANALYSIS_TOOL_KEYS {
+  COMPARE_BACKTESTS = 'compare_backtests',
+  READ_BACKTEST_PERFORMANCE_METRICS = 'read_backtest_performance_metrics',
+  READ_BACKTEST_TEAR_SHEET = 'read_backtest_tear_sheet',
+}
+
+export enum EXPORT_TOOL_KEYS {
+  EXPORT_BACKTEST = 'export_backtest',
+}
+
+export enum WORKFLOW_TOOL_KEYS {
+  COMPILE_AND_BACKTEST = 'compile_and_backtest',
+}
+
 export type TOOL_KEYS =
   | MCP_SERVER_TOOL_KEYS
   | PROJECT_TOOL_KEYS
@@ -122,3 +140,7 @@ export type TOOL_KEYS =
   | OPTIMIZATION_TOOL_KEYS
   | PROJECT_COLLABORATION_TOOL_KEYS
   | PROJECT_NODE_TOOL_KEYS
+  | WORKFLOW_TOOL_KEYS
+  | JOB_TOOL_KEYS
+  | ANALYSIS_TOOL_KEYS
+  | EXPORT_TOOL_KEYS
@@ -0,0 +1,203 @@
+/* eslint-disable max-lines-per-function */
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import type { IsomorphicHeaders } from '@modelcontextprotocol/sdk/types.js'
+import z from 'zod'
+import type { QCMCPServer } from '../server'
+import {
+  getEnvironmentToolProfile,
+  getRequestToolProfile,
+  getToolNotInRequestProfileResult,
+  isToolInProfile,
+  isToolInRequestProfile,
+  listToolsInRequestProfile,
+  TOOL_PROFILES,
+} from './tool-profiles'
+
+jest.mock('../server')
+
+const readOnlyTool = { config: { annotations: { readOnlyHint: true } }, func: async () => ({ success: true }) }
+const writeTool = { config: { annotations: { readOnlyHint: false, destructiveHint: true } }, func: async () => ({ success: true }) }
+
+const definitions = {
+  read_project: readOnlyTool,
+  delete_project: writeTool,
+  read_live_portfolio: readOnlyTool,
+  stop_live_algorithm: writeTool,
+}
+
+describe('libs/quant-connect-mcp/src/tools/tool-profiles', () => {
+  describe('isToolInProfile', () => {
+    it('should keep all tools in the full profile', () => {
+      expect(Object.entries(definitions).filter(([name, definition]) => isToolInProfile(name, definition, { profile: TOOL_PROFILES.FULL }))).toHaveLength(4)
+    })
+
+    it('should only keep read-only tools in the read-only profile', () => {
+      expect(isToolInProfile('read_project', readOnlyTool, { profile: TOOL_PROFILES.READ_ONLY })).toBe(true)
+      expect(isToolInProfile('delete_project', writeTool, { profile: TOOL_PROFILES.READ_ONLY })).toBe(false)
+      expect(isToolInProfile('create_backtest', { config: {}, url: '/backtests/create' }, { profile: TOOL_PROFILES.READ_ONLY })).toBe(false)
+    })
+
+    it('should drop the live tools in the research profile', () => {
+      expect(isToolInProfile('delete_project', writeTool, { profile: TOOL_PROFILES.RESEARCH })).toBe(true)
+      expect(isToolInProfile('read_live_portfolio', readOnlyTool, { profile: TOOL_PROFILES.RESEARCH })).toBe(false)
+      expect(isToolInProfile('broadcast_live_command', writeTool, { profile: TOOL_PROFILES.RESEARCH })).toBe(false)
+    })
+
+    it('should apply the allow and deny lists on top of the profile', () => {
+      const profile = { profile: TOOL_PROFILES.READ_ONLY, allow: ['read_project', 'delete_project'], deny: ['read_project'] } as any
+
+      expect(isToolInProfile('read_project', readOnlyTool, profile)).toBe(false)
+      expect(isToolInProfile('delete_project', writeTool, profile)).toBe(false)
+      expect(isToolInProfile('read_project', readOnlyTool, { ...profile, deny: undefined })).toBe(true)
+      expect(isToolInProfile('read_live_portfolio', readOnlyTool, { ...profile, deny: undefined })).toBe(false)
+    })
+  })
+
+  describe('getEnvironmentToolProfile', () => {
+    afterEach(() => {
+      delete process.env.QUANTCONNECT_TOOL_PROFILE
+      delete process.env.QUANTCONNECT_ALLOWED_TOOLS
+      delete process.env.QUANTCONNECT_DENIED_TOOLS
+    })
+
+    it('should default to the full profile', () => {
+      expect(getEnvironmentToolProfile()).toEqual({ profile: TOOL_PROFILES.FULL })
+    })
+
+    it('should read the profile and the comma-separated lists', () => {
+      process.env.QUANTCONNECT_TOOL_PROFILE = 'research'
+      process.env.QUANTCONNECT_DENIED_TOOLS = 'delete_project, delete_backtest,'
+
+      expect(getEnvironmentToolProfile()).toEqual({ profile: TOOL_PROFILES.RESEARCH, deny: ['delete_project', 'delete_backtest'] })
+    })
+
+    it('should reject unknown tools', () => {
+      process.env.QUANTCONNECT_ALLOWED_TOOLS = 'read_project,read_projects'
+
+      expect(() => getEnvironmentToolProfile()).toThrow('Unknown tools in QUANTCONNECT_ALLOWED_TOOLS: read_projects')
+    })
+  })
+
+  describe('getRequestToolProfile', () => {
+    it('should read the profile headers case-insensitively', () => {
+      expect(getRequestToolProfile({ 'X-QC-Tool-Profile': 'read-only' })).toEqual({ profile: TOOL_PROFILES.READ_ONLY })
+      expect(getRequestToolProfile({ 'x-qc-allowed-tools': 'read_project' })).toEqual({ profile: TOOL_PROFILES.FULL, allow: ['read_project'] })
+    })
+
+    it('should return undefined without profile headers', () => {
+      expect(getRequestToolProfile({ accept: 'application/json' })).toBeUndefined()
+      expect(getRequestToolProfile(undefined)).toBeUndefined()
+    })
+
+    it('should reject unknown profiles as invalid requests', () => {
+      expect(() => getRequestToolProfile({ 'x-qc-tool-profile': 'trading' })).toThrow(
+        'Unknown tool profile trading in x-qc-tool-profile, use one of full, read-only, research'
+      )
+    })
+  })
+
+  describe('request profiles', () => {
+    let client: Client
+    let requestHeaders: IsomorphicHeaders
+
+    const registeredDefinitions = {
+      read_project: { ...readOnlyTool, config: { ...readOnlyTool.config, title: 'Read Project', inputSchema: { projectId: z.number() } } },
+      delete_project: { ...writeTool, config: { ...writeTool.config, inputSchema: { projectId: z.number() } } },
+    }
+
+    const connect = async (server: McpServer) => {
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      client = new Client({ name: 'test-client', version: '1.0.0' })
+      await Promise.all([server.connect(serverTransport), client.connect(clientTransport)])
+
+      // the in-memory transport has no HTTP request, its headers are passed on like the HTTP transport does
+      const transport: Transport = serverTransport
+      const onmessage = transport.onmessage
+      transport.onmessage = (message, extra) => onmessage?.(message, { ...extra, requestInfo: { headers: requestHeaders } })
+    }
+
+    const createServer = ({ withRequestProfiles }: { withRequestProfiles: boolean }) => {
+      const server = new McpServer({ name: 'test', version: '1.0.0' })
+
+      if (withRequestProfiles) {
+        listToolsInRequestProfile.call({ server } as unknown as QCMCPServer, registeredDefinitions)
+      }
+
+      const registeredTools = Object.fromEntries(
+        Object.entries(registeredDefinitions).map(([name, definition]) => [
+          name,
+          server.registerTool(name, definition.config, async (_args: unknown, extra: Parameters<typeof isToolInRequestProfile>[2]) =>
+            isToolInRequestProfile(name, definition, extra)
+              ? { content: [], structuredContent: await definition.func() }
+              : getToolNotInRequestProfileResult(name)
+          ),
+        ])
+      )
+
+      return { server, registeredTools }
+    }
+
+    let registeredTools: ReturnType<typeof createServer>['registeredTools']
+
+    beforeEach(async () => {
+      requestHeaders = {}
+
+      const created = createServer({ withRequestProfiles: true })
+      registeredTools = created.registeredTools
+
+      await connect(created.server)
+    })
+
+    afterEach(async () => {
+      await client.close()
+    })
+
+    it('should list the registered tools like the SDK without profile headers', async () => {
+      const { tools } = await client.listTools()
+      await client.close()
+
+      await connect(createServer({ withRequestProfiles: false }).server)
+
+      expect(tools.map(({ name }) => name)).toEqual(['read_project', 'delete_project'])
+      expect(tools).toEqual((await client.listTools()).tools)
+    })
+
+    it('should not list the tools that the SDK hides, e.g. disabled ones', async () => {
+      registeredTools.delete_project.disable()
+
+      const { tools } = await client.listTools()
+
+      expect(tools.map(({ name }) => name)).toEqual(['read_project'])
+    })
+
+    it('should list only the tools of the profile of the request', async () => {
+      requestHeaders = { 'x-qc-tool-profile': 'read-only' }
+
+      const { tools } = await client.listTools()
+
+      expect(tools.map(({ name }) => name)).toEqual(['read_project'])
+    })
+
+    it('should reject calls of tools outside of the profile of the request', async () => {
+      requestHeaders = { 'x-qc-denied-tools': 'delete_project' }
+
+      await expect(client.callTool({ name: 'delete_project', arguments: { projectId: 1 } })).resolves.toEqual({
+        content: [{ type: 'text', text: 'Tool delete_project is not available in the tool profile of the request' }],
+        isError: true,
+      })
+      await expect(client.callTool({ name: 'read_project', arguments: { projectId: 1 } })).resolves.toMatchObject({ structuredContent: { success: true } })
+    })
+
+    it('should not add tools that the server did not register', async () => {
+      requestHeaders = { 'x-qc-allowed-tools': 'stop_live_algorithm' }
+
+      const { tools } = await client.listTools()
+
+      expect(tools).toEqual([])
+      await expect(client.callTool({ name: 'stop_live_algorithm', arguments: {} })).rejects.toThrow('stop_live_algorithm')
+    })
+  })
+})
@@ -0,0 +1,175 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import {
+  type CallToolResult,
+  ErrorCode,
+  type IsomorphicHeaders,
+  type ListToolsRequest,
+  ListToolsRequestSchema,
+  type ListToolsResult,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+} from '@modelcontextprotocol/sdk/types.js'
+import type { ZodRawShape } from 'zod'
+import type { QCMCPServer } from '../server'
+import type { ToolRegistrationDefinitionData } from './index'
+import * as toolKeys from './tool-keys'
+import { LIVE_COMMAND_TOOL_KEYS, LIVE_TOOL_KEYS, type TOOL_KEYS } from './tool-keys'
+
+export enum TOOL_PROFILES {
+  FULL = 'full',
+  /** Only tools with `readOnlyHint: true` */
+  READ_ONLY = 'read-only',
+  /** All tools except the ones that deploy, command, stop or liquidate live algorithms */
+  RESEARCH = 'research',
+}
+
+export interface ToolProfile {
+  profile: TOOL_PROFILES
+  /** Only these tools, on top of the profile */
+  allow?: TOOL_KEYS[]
+  /** Never these tools, on top of the profile */
+  deny?: TOOL_KEYS[]
+}
+
+type ListToolsRequestHandler = (
+  request: ListToolsRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => ListToolsResult | Promise<ListToolsResult>
+
+export const TOOL_PROFILE_HEADER = 'x-qc-tool-profile'
+export const ALLOWED_TOOLS_HEADER = 'x-qc-allowed-tools'
+export const DENIED_TOOLS_HEADER = 'x-qc-denied-tools'
+
+const ALL_TOOL_KEYS = Object.values(toolKeys).flatMap((keys) => Object.values(keys)) as TOOL_KEYS[]
+const LIVE_TRADING_TOOL_KEYS: TOOL_KEYS[] = [...Object.values(LIVE_TOOL_KEYS), ...Object.values(LIVE_COMMAND_TOOL_KEYS)]
+
+const parseToolKeys = (value: string | undefined, source: string) => {
+  if (value === undefined) {
+    return
+  }
+
+  const keys = value
+    .split(',')
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0)
+  const unknownKeys = keys.filter((key) => !ALL_TOOL_KEYS.includes(key as TOOL_KEYS))
+
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown tools in ${source}: ${unknownKeys.join(', ')}`)
+  }
+
+  return keys as TOOL_KEYS[]
+}
+
+/** Profile of comma-separated allow and deny lists, without any of them the full profile */
+export const parseToolProfile = (
+  { profile = TOOL_PROFILES.FULL, allow, deny }: { profile?: string; allow?: string; deny?: string },
+  sources: { profile: string; allow: string; deny: string }
+): ToolProfile => {
+  if (!Object.values(TOOL_PROFILES).includes(profile as TOOL_PROFILES)) {
+    throw new Error(`Unknown tool profile ${profile} in ${sources.profile}, use one of ${Object.values(TOOL_PROFILES).join(', ')}`)
+  }
+
+  return { profile: profile as TOOL_PROFILES, allow: parseToolKeys(allow, sources.allow), deny: parseToolKeys(deny, sources.deny) }
+}
+
+/** Profile configured by `QUANTCONNECT_TOOL_PROFILE`, `QUANTCONNECT_ALLOWED_TOOLS` and `QUANTCONNECT_DENIED_TOOLS` */
+export const getEnvironmentToolProfile = (): ToolProfile =>
+  parseToolProfile(
+    {
+      profile: process.env.QUANTCONNECT_TOOL_PROFILE || undefined,
+      allow: process.env.QUANTCONNECT_ALLOWED_TOOLS,
+      deny: process.env.QUANTCONNECT_DENIED_TOOLS,
+    },
+    { profile: 'QUANTCONNECT_TOOL_PROFILE', allow: 'QUANTCONNECT_ALLOWED_TOOLS', deny: 'QUANTCONNECT_DENIED_TOOLS' }
+  )
+
+const getHeaderValue = (headers: IsomorphicHeaders | undefined, name: string) => {
+  const value = Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name)?.[1]
+
+  return Array.isArray(value) ? value.join(',') : value
+}
+
+/** Profile of the `x-qc-tool-profile`, `x-qc-allowed-tools` and `x-qc-denied-tools` headers, undefined without any of them */
+export const getRequestToolProfile = (headers: IsomorphicHeaders | undefined): ToolProfile | undefined => {
+  const values = {
+    profile: getHeaderValue(headers, TOOL_PROFILE_HEADER),
+    allow: getHeaderValue(headers, ALLOWED_TOOLS_HEADER),
+    deny: getHeaderValue(headers, DENIED_TOOLS_HEADER),
+  }
+
+  if (Object.values(values).every((value) => value === undefined)) {
+    return
+  }
+
+  try {
+    return parseToolProfile(values, { profile: TOOL_PROFILE_HEADER, allow: ALLOWED_TOOLS_HEADER, deny: DENIED_TOOLS_HEADER })
+  } catch (error) {
+    throw new McpError(ErrorCode.InvalidRequest, (error as Error).message)
+  }
+}
+
+export const isToolInProfile = (
+  toolName: string,
+  definition: ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>,
+  { profile, allow, deny }: ToolProfile
+) => {
+  if ((allow && !allow.includes(toolName as TOOL_KEYS)) || deny?.includes(toolName as TOOL_KEYS)) {
+    return false
+  }
+
+  switch (profile) {
+    case TOOL_PROFILES.READ_ONLY:
+      return definition.config.annotations?.readOnlyHint === true
+    case TOOL_PROFILES.RESEARCH:
+      return !LIVE_TRADING_TOOL_KEYS.includes(toolName as TOOL_KEYS)
+    default:
+      return true
+  }
+}
+
+/** Whether the tool is in the profile of the request headers, all registered tools are without profile headers */
+export const isToolInRequestProfile = (
+  toolName: string,
+  definition: ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>,
+  extra?: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => {
+  const profile = getRequestToolProfile(extra?.requestInfo?.headers)
+
+  return profile === undefined || isToolInProfile(toolName, definition, profile)
+}
+
+/** Tool error for calls of tools outside of the profile of the request */
+export const getToolNotInRequestProfileResult = (toolName: string): CallToolResult => ({
+  content: [{ type: 'text', text: `Tool ${toolName} is not available in the tool profile of the request` }],
+  isError: true,
+})
+
+/**
+ * Narrow the `tools/list` result of the SDK down to the tools in the profile of the request, as its handler lists all registered tools.
+ * McpServer sets the handler with the first registered tool, so this is called before the tools are registered and wraps the handler as it is set.
+ * Requests can narrow the tools down with the profile headers, but never add tools that the server did not register.
+ * The profiles only apply to tools, prompts and resources read projects, files, backtests and the object store regardless of them.
+ */
+export function listToolsInRequestProfile(this: QCMCPServer, definitions: Record<string, ToolRegistrationDefinitionData<ZodRawShape, ZodRawShape>>) {
+  const server = this.server.server
+  const setRequestHandler = server.setRequestHandler.bind(server)
+
+  const isListedToolInRequestProfile = (toolName: string, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) =>
+    toolName in definitions ? isToolInRequestProfile(toolName, definitions[toolName], extra) : getRequestToolProfile(extra.requestInfo?.headers) === undefined
+
+  server.setRequestHandler = ((requestSchema, handler) => {
+    if (requestSchema.shape.method.value !== ListToolsRequestSchema.shape.method.value) {
+      return setRequestHandler(requestSchema, handler)
+    }
+
+    const listTools = handler as ListToolsRequestHandler
+
+    return setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+      const result = await listTools(request, extra)
+
+      return { ...result, tools: result.tools.filter(({ name }) => isListedToolInRequestProfile(name, extra)) }
+    })
+  }) as typeof server.setRequestHandler
+}
@@ -0,0 +1,251 @@
+/* eslint-disable max-lines-per-function */
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import { WORKFLOW_TOOL_KEYS } from './tool-keys'
+import { compileAndBacktest, getWorkflowToolsDefinitions, parseCompileErrors } from './workflow-tools'
+
+jest.mock('@fschaeffler/quant-connect-client')
+
+const mockedQCClient = QCClient as jest.Mocked<typeof QCClient>
+
+describe('libs/quant-connect-mcp/src/tools/workflow-tools', () => {
+  let mockQCClientInstance: any
+
+  /** Answer each endpoint with its responses in order, the last response is repeated */
+  const mockQCApi = (responses: Record<string, unknown[]>) => {
+    const calls: Record<string, number> = {}
+
+    mockQCClientInstance.post.mockImplementation(async (url: string) => {
+      const endpointResponses = responses[url]
+
+      if (!endpointResponses) {
+        throw new Error(`Unexpected request to ${url}`)
+      }
+
+      calls[url] = (calls[url] ?? 0) + 1
+      return structuredClone(endpointResponses[Math.min(calls[url], endpointResponses.length) - 1])
+    })
+  }
+
+  const getRequestedURLs = () => mockQCClientInstance.post.mock.calls.map(([url]: [string]) => url)
+
+  const compiledProject = {
+    '/compile/create': [{ compileId: 'compile-1', state: 'InQueue', success: true }],
+    '/compile/read': [
+      { compileId: 'compile-1', state: 'InQueue', success: true },
+      { compileId: 'compile-1', state: 'BuildSuccess', logs: ['Build Request Successful'], success: true },
+    ],
+    'backtests/create': [{ backtest: { backtestId: 'backtest-1' }, success: true }],
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.useFakeTimers()
+
+    mockQCClientInstance = {
+      post: jest.fn(),
+      getRemainingTimeBudgetInMS: jest.fn().mockReturnValue(undefined),
+    }
+
+    mockedQCClient.getInstance.mockReturnValue(mockQCClientInstance)
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('tool definitions', () => {
+    it('should define the compile and backtest tool', () => {
+      const definition = getWorkflowToolsDefinitions[WORKFLOW_TOOL_KEYS.COMPILE_AND_BACKTEST]
+
+      expect(definition.config.title).toBe('Compile and backtest')
+      expect(definition.config.inputSchema).toEqual(expect.objectContaining({ projectId: expect.any(Object), backtestName: expect.any(Object) }))
+      expect(definition.config.outputSchema).toEqual(expect.objectContaining({ status: expect.any(Object), resume: expect.any(Object) }))
+      expect(definition.config.annotations).toEqual({ readOnlyHint: false, destructiveHint: false, idempotentHint: false })
+      expect('func' in definition && definition.func).toBe(compileAndBacktest)
+    })
+  })
+
+  describe('compileAndBacktest', () => {
+    it('should compile, run the backtest and return the reduced result', async () => {
+      mockQCApi({
+        ...compiledProject,
+        'backtests/read': [
+          { backtest: { backtestId: 'backtest-1', completed: false, progress: 0.5, status: 'In Progress...' }, success: true },
+          {
+            backtest: { backtestId: 'backtest-1', completed: true, progress: 1, status: 'Completed.', charts: { Benchmark: {} }, rollingWindow: {} },
+            orders: [{ id: 1 }],
+            success: true,
+          },
+        ],
+      })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test' })
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await expect(promise).resolves.toEqual({
+        status: 'completed',
+        projectId: 1,
+        compileId: 'compile-1',
+        backtestId: 'backtest-1',
+        backtest: { backtestId: 'backtest-1', completed: true, progress: 1, status: 'Completed.' },
+      })
+      expect(getRequestedURLs()).toEqual(['/compile/create', '/compile/read', '/compile/read', 'backtests/create', 'backtests/read', 'backtests/read'])
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith(
+        'backtests/create',
+        { projectId: 1, compileId: 'compile-1', backtestName: 'Test', parameters: undefined },
+        { signal: undefined }
+      )
+    })
+
+    it('should report the progress of the compilation and the backtest', async () => {
+      mockQCApi({
+        ...compiledProject,
+        'backtests/read': [
+          { backtest: { completed: false, progress: 0.5, status: 'In Progress...' } },
+          { backtest: { completed: true, progress: 1, status: 'Completed.' } },
+        ],
+      })
+      const reportProgress = jest.fn()
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test' }, { reportProgress })
+      await jest.advanceTimersByTimeAsync(10000)
+      await promise
+
+      expect(reportProgress.mock.calls.map(([{ progress }]) => progress)).toEqual([0, 55, 100])
+      expect(reportProgress).toHaveBeenLastCalledWith({ progress: 100, total: 100, message: 'Completed.' })
+    })
+
+    it('should return the compile errors', async () => {
+      mockQCApi({
+        '/compile/create': [{ compileId: 'compile-1', state: 'InQueue' }],
+        '/compile/read': [
+          {
+            compileId: 'compile-1',
+            state: 'BuildError',
+            logs: ['Build Request Successful', 'Build Error File: main.py Line: 12 Column: 4 - invalid syntax'],
+          },
+        ],
+      })
+
+      await expect(compileAndBacktest({ projectId: 1, backtestName: 'Test' })).resolves.toEqual({
+        status: 'buildError',
+        projectId: 1,
+        compileId: 'compile-1',
+        compileErrors: [{ message: 'invalid syntax', file: 'main.py', line: 12, column: 4 }],
+      })
+      expect(getRequestedURLs()).not.toContain('backtests/create')
+    })
+
+    it('should return the runtime error of the backtest', async () => {
+      mockQCApi({
+        ...compiledProject,
+        'backtests/read': [{ backtest: { completed: false, status: 'Runtime Error', error: 'division by zero', stacktrace: 'at main.py:10' } }],
+      })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test' })
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await expect(promise).resolves.toEqual(
+        expect.objectContaining({ status: 'runtimeError', backtest: expect.objectContaining({ error: 'division by zero', stacktrace: 'at main.py:10' }) })
+      )
+    })
+
+    it('should return a resume handle if the backtest does not finish in time', async () => {
+      mockQCApi({ ...compiledProject, 'backtests/read': [{ backtest: { completed: false, progress: 0.2, status: 'In Progress...' } }] })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test', parameters: { period: 10 }, maxWaitInSeconds: 10 })
+      await jest.advanceTimersByTimeAsync(20000)
+
+      await expect(promise).resolves.toEqual({
+        status: 'pending',
+        projectId: 1,
+        compileId: 'compile-1',
+        backtestId: 'backtest-1',
+        backtest: { completed: false, progress: 0.2, status: 'In Progress...' },
+        resume: { projectId: 1, backtestName: 'Test', parameters: { period: 10 }, maxWaitInSeconds: 10, compileId: 'compile-1', backtestId: 'backtest-1' },
+      })
+    })
+
+    it('should return a resume handle if the compilation does not finish in time', async () => {
+      mockQCApi({ '/compile/create': [{ compileId: 'compile-1', state: 'InQueue' }], '/compile/read': [{ compileId: 'compile-1', state: 'InQueue' }] })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test', maxWaitInSeconds: 2 })
+      await jest.advanceTimersByTimeAsync(5000)
+
+      await expect(promise).resolves.toEqual({
+        status: 'pending',
+        projectId: 1,
+        compileId: 'compile-1',
+        resume: { projectId: 1, backtestName: 'Test', maxWaitInSeconds: 2, compileId: 'compile-1' },
+      })
+    })
+
+    it('should stay within the remaining time of the invocation', async () => {
+      mockQCClientInstance.getRemainingTimeBudgetInMS.mockReturnValue(5000)
+      mockQCApi(compiledProject)
+
+      await expect(compileAndBacktest({ projectId: 1, backtestName: 'Test' })).resolves.toEqual(expect.objectContaining({ status: 'pending' }))
+      expect(getRequestedURLs()).toEqual(['/compile/create', '/compile/read'])
+    })
+
+    it('should continue with the compile Id of a resume handle', async () => {
+      mockQCApi({ ...compiledProject, 'backtests/read': [{ backtest: { completed: true, status: 'Completed.' } }] })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test', compileId: 'compile-1' })
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await expect(promise).resolves.toEqual(expect.objectContaining({ status: 'completed' }))
+      expect(getRequestedURLs()).not.toContain('/compile/create')
+    })
+
+    it('should continue to wait for the backtest of a resume handle', async () => {
+      mockQCApi({ 'backtests/read': [{ backtest: { completed: true, status: 'Completed.' } }] })
+
+      await expect(compileAndBacktest({ projectId: 1, backtestName: 'Test', compileId: 'compile-1', backtestId: 'backtest-1' })).resolves.toEqual(
+        expect.objectContaining({ status: 'completed', compileId: 'compile-1', backtestId: 'backtest-1' })
+      )
+      expect(getRequestedURLs()).toEqual(['backtests/read'])
+    })
+
+    it('should fail if QuantConnect returns no backtest Id', async () => {
+      mockQCApi({ ...compiledProject, 'backtests/create': [{ backtest: {} }] })
+
+      const promise = compileAndBacktest({ projectId: 1, backtestName: 'Test' })
+      const assertion = expect(promise).rejects.toThrow('QuantConnect did not return a backtest Id for project 1')
+      await jest.advanceTimersByTimeAsync(10000)
+
+      await assertion
+    })
+
+    it('should pass the abort signal to the QuantConnect requests', async () => {
+      mockQCApi({ 'backtests/read': [{ backtest: { completed: true } }] })
+      const { signal } = new AbortController()
+
+      await compileAndBacktest({ projectId: 1, backtestName: 'Test', backtestId: 'backtest-1' }, { reportProgress: jest.fn(), signal })
+
+      expect(mockQCClientInstance.post).toHaveBeenCalledWith('backtests/read', { projectId: 1, backtestId: 'backtest-1' }, { signal })
+    })
+  })
+
+  describe('parseCompileErrors', () => {
+    it('should parse Python compile errors', () => {
+      expect(parseCompileErrors(['Build Error File: main.py Line: 3 - unexpected indent'])).toEqual([
+        { message: 'unexpected indent', file: 'main.py', line: 3, column: undefined },
+      ])
+    })
+
+    it('should parse C# compile errors', () => {
+      expect(parseCompileErrors(['Main.cs(12,4): error CS1002: ; expected'])).toEqual([
+        { message: 'error CS1002: ; expected', file: 'Main.cs', line: 12, column: 4 },
+      ])
+    })
+
+    it('should only return the error logs', () => {
+      expect(parseCompileErrors(['Build Request Successful', 'Error: something went wrong'])).toEqual([{ message: 'Error: something went wrong' }])
+    })
+
+    it('should return all logs if none of them is an error', () => {
+      expect(parseCompileErrors(['Compiler crashed'])).toEqual([{ message: 'Compiler crashed' }])
+    })
+  })
+})
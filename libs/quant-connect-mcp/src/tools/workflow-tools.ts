@@ -0,0 +1,180 @@
+import { QCClient } from '@fschaeffler/quant-connect-client'
+import {
+  createBacktestBody,
+  createBacktestResponse,
+  createCompileResponse,
+  readBacktestResponse,
+  type readCompileResponse,
+} from '@fschaeffler/quant-connect-types'
+import z from 'zod'
+import { DEFAULT_MAX_WAIT_IN_SECONDS, JOB_DEFINITIONS, JOB_TYPES, maxWaitInSeconds } from '../jobs'
+import { getPollingDeadline, pollUntil } from '../utils'
+import type { ToolHandlerContext, ToolRegistrationDefinitions } from './index'
+import { WORKFLOW_TOOL_KEYS } from './tool-keys'
+
+// share of the progress that is reported for the compilation, the rest is the backtest
+const COMPILE_PROGRESS = 10
+
+const compileAndBacktestBody = z.object({
+  projectId: createBacktestBody.shape.projectId,
+  backtestName: createBacktestBody.shape.backtestName,
+  parameters: createBacktestBody.shape.parameters,
+  compileId: z.string().optional().describe('Compile Id of a resume handle, skips the compilation.'),
+  backtestId: z.string().optional().describe('Backtest Id of a resume handle, continues to wait for the backtest.'),
+  maxWaitInSeconds,
+})
+
+const compileError = z.object({
+  message: z.string().describe('Error message of the compiler.'),
+  file: z.string().optional().describe('File that contains the error.'),
+  line: z.number().optional().describe('Line of the error.'),
+  column: z.number().optional().describe('Column of the error.'),
+})
+
+const compileAndBacktestResponse = z.object({
+  status: z
+    .enum(['completed', 'buildError', 'runtimeError', 'pending'])
+    .describe('completed and runtimeError contain the backtest, buildError the compile errors and pending a resume handle.'),
+  projectId: z.number().describe('Id of the project.'),
+  compileId: z.string().optional().describe('Compile Id of the project.'),
+  backtestId: z.string().optional().describe('Id of the backtest.'),
+  compileErrors: z.array(compileError).optional().describe('Errors of the compilation.'),
+  backtest: readBacktestResponse.shape.backtest.describe('Reduced backtest result without orders, charts, closed trades and rolling window.'),
+  resume: compileAndBacktestBody.optional().describe('Arguments to call the tool with again to continue waiting, set while the status is pending.'),
+})
+
+type CompileAndBacktestBody = z.infer<typeof compileAndBacktestBody>
+type CompileAndBacktestResponse = z.infer<typeof compileAndBacktestResponse>
+type CompileError = z.infer<typeof compileError>
+
+const COMPILE_ERROR_PATTERNS = [
+  // Python, e.g. "Build Error File: main.py Line: 12 Column: 4 - invalid syntax"
+  /File:\s*(?<file>\S+)\s+Line:\s*(?<line>\d+)(?:\s+Column:\s*(?<column>\d+))?\s*-\s*(?<message>.+)$/,
+  // C#, e.g. "main.cs(12,4): error CS1002: ; expected"
+  /(?<file>[^\s(]+)\((?<line>\d+),(?<column>\d+)\):\s*(?<message>.+)$/,
+]
+
+/** Split the compile logs into errors with their locations, logs that can't be parsed are returned as plain messages */
+export const parseCompileErrors = (logs: string[]): CompileError[] => {
+  const errorLogs = logs.filter((log) => /error/i.test(log))
+
+  return (errorLogs.length > 0 ? errorLogs : logs).map((log) => {
+    const groups = COMPILE_ERROR_PATTERNS.map((pattern) => pattern.exec(log)?.groups).find((match) => match !== undefined)
+
+    if (!groups) {
+      return { message: log.trim() }
+    }
+
+    return {
+      message: groups.message.trim(),
+      file: groups.file,
+      line: Number(groups.line),
+      column: groups.column === undefined ? undefined : Number(groups.column),
+    }
+  })
+}
+
+const compileProject = async (
+  { projectId, compileId }: CompileAndBacktestBody,
+  deadline: number,
+  context?: ToolHandlerContext
+): Promise<{ compile: z.infer<typeof readCompileResponse>; isDone: boolean }> => {
+  const client = QCClient.getInstance()
+  const signal = context?.signal
+
+  if (!compileId) {
+    const createdCompile = createCompileResponse.parse(await client.post('/compile/create', { projectId }, { signal }))
+
+    if (!createdCompile.compileId) {
+      throw new Error(`QuantConnect did not return a compile Id for project ${projectId}`)
+    }
+
+    compileId = createdCompile.compileId
+  }
+
+  await context?.reportProgress({ progress: 0, total: 100, message: 'Compiling' })
+
+  const { read, isDone: isCompileDone, intervalInMS } = JOB_DEFINITIONS[JOB_TYPES.COMPILE]
+  const { result, isDone } = await pollUntil({ read: () => read({ projectId, compileId }, context), isDone: isCompileDone, deadline, intervalInMS, signal })
+
+  return { compile: { ...result, compileId }, isDone }
+}
+
+const createBacktest = async ({ projectId, backtestName, parameters }: CompileAndBacktestBody, compileId: string, context?: ToolHandlerContext) => {
+  const { backtest } = createBacktestResponse.parse(
+    await QCClient.getInstance().post('backtests/create', { projectId, compileId, backtestName, parameters }, { signal: context?.signal })
+  )
+
+  if (!backtest?.backtestId) {
+    throw new Error(`QuantConnect did not return a backtest Id for project ${projectId}`)
+  }
+
+  return backtest.backtestId
+}
+
+const waitForBacktest = (projectId: number, backtestId: string, deadline: number, context?: ToolHandlerContext) =>
+  pollUntil<z.infer<typeof readBacktestResponse>>({
+    read: () => JOB_DEFINITIONS[JOB_TYPES.BACKTEST].read({ projectId, backtestId }, context),
+    isDone: JOB_DEFINITIONS[JOB_TYPES.BACKTEST].isDone,
+    deadline,
+    intervalInMS: JOB_DEFINITIONS[JOB_TYPES.BACKTEST].intervalInMS,
+    signal: context?.signal,
+    onRead: async ({ backtest }) => {
+      const backtestProgress = Math.round((backtest?.progress ?? 0) * (100 - COMPILE_PROGRESS))
+      await context?.reportProgress({ progress: COMPILE_PROGRESS + backtestProgress, total: 100, message: backtest?.status ?? 'Backtesting' })
+    },
+  })
+
+export const compileAndBacktest = async (params: CompileAndBacktestBody, context?: ToolHandlerContext): Promise<CompileAndBacktestResponse> => {
+  const { projectId, maxWaitInSeconds = DEFAULT_MAX_WAIT_IN_SECONDS } = params
+  const deadline = getPollingDeadline(maxWaitInSeconds * 1000, QCClient.getInstance().getRemainingTimeBudgetInMS())
+  const getResumeHandle = (ids: Pick<CompileAndBacktestBody, 'compileId' | 'backtestId'>) => ({ ...params, ...ids })
+
+  let { compileId, backtestId } = params
+
+  if (!backtestId) {
+    const { compile, isDone } = await compileProject(params, deadline, context)
+    compileId = compile.compileId ?? undefined
+
+    if (!isDone) {
+      return { status: 'pending', projectId, compileId, resume: getResumeHandle({ compileId }) }
+    }
+
+    if (compile.state === 'BuildError' || !compileId) {
+      return { status: 'buildError', projectId, compileId, compileErrors: parseCompileErrors(compile.logs ?? compile.errors ?? []) }
+    }
+
+    backtestId = await createBacktest(params, compileId, context)
+  }
+
+  const { result, isDone } = await waitForBacktest(projectId, backtestId, deadline, context)
+
+  if (!isDone) {
+    return { status: 'pending', projectId, compileId, backtestId, backtest: result.backtest, resume: getResumeHandle({ compileId, backtestId }) }
+  }
+
+  const isRuntimeError = result.backtest?.status === 'Runtime Error' || !!result.backtest?.error
+
+  return { status: isRuntimeError ? 'runtimeError' : 'completed', projectId, compileId, backtestId, backtest: result.backtest }
+}
+
+export const getWorkflowToolsDefinitions: ToolRegistrationDefinitions<WORKFLOW_TOOL_KEYS> = {
+  [WORKFLOW_TOOL_KEYS.COMPILE_AND_BACKTEST]: {
+    config: {
+      title: 'Compile and backtest',
+      description: [
+        'Compile a project, run a backtest of it and wait for the reduced backtest result.',
+        'Compile errors are returned with their file, line and column.',
+        'If the backtest does not finish in time, the status is pending and the tool needs to be called again with the resume arguments.',
+      ].join('\n'),
+      inputSchema: compileAndBacktestBody.shape,
+      outputSchema: compileAndBacktestResponse.shape,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+      },
+    },
+    func: compileAndBacktest,
+  },
+}
@@ -1,2 +1,5 @@
+export * from './polling'
+export * from './progress'
+export * from './tabular'
 export * from './zod-inject-code-source-id'
 export * from './zod-objects-merge'
@@ -0,0 +1,103 @@
+import { getPollingDeadline, pollUntil, wait } from './polling'
+
+describe('libs/quant-connect-mcp/src/utils/polling', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('wait', () => {
+    it('should resolve after the delay', async () => {
+      const resolved = jest.fn()
+      wait(1000).then(resolved)
+
+      await jest.advanceTimersByTimeAsync(999)
+      expect(resolved).not.toHaveBeenCalled()
+
+      await jest.advanceTimersByTimeAsync(1)
+      expect(resolved).toHaveBeenCalled()
+    })
+
+    it('should reject when the signal is aborted', async () => {
+      const abortController = new AbortController()
+      const promise = wait(1000, abortController.signal)
+
+      abortController.abort(new Error('cancelled'))
+
+      await expect(promise).rejects.toThrow('cancelled')
+    })
+
+    it('should remove the abort listener once the delay elapsed', async () => {
+      const abortController = new AbortController()
+      const removeEventListener = jest.spyOn(abortController.signal, 'removeEventListener')
+      const promise = wait(1000, abortController.signal)
+
+      await jest.advanceTimersByTimeAsync(1000)
+      await promise
+
+      expect(removeEventListener).toHaveBeenCalledWith('abort', expect.any(Function))
+    })
+
+    it('should reject right away if the signal is already aborted', async () => {
+      const abortController = new AbortController()
+      abortController.abort(new Error('cancelled'))
+
+      await expect(wait(1000, abortController.signal)).rejects.toThrow('cancelled')
+    })
+  })
+
+  describe('getPollingDeadline', () => {
+    it('should use the maximum wait without a time budget', () => {
+      expect(getPollingDeadline(30000, undefined, 1000)).toBe(31000)
+    })
+
+    it('should keep a margin to the remaining time of the invocation', () => {
+      expect(getPollingDeadline(30000, 20000, 1000)).toBe(16000)
+    })
+
+    it('should not return a deadline in the past', () => {
+      expect(getPollingDeadline(30000, 1000, 1000)).toBe(1000)
+    })
+  })
+
+  describe('pollUntil', () => {
+    it('should read until the result is done', async () => {
+      const read = jest.fn().mockResolvedValueOnce({ state: 'InQueue' }).mockResolvedValueOnce({ state: 'BuildSuccess' })
+      const onRead = jest.fn()
+
+      const promise = pollUntil({ read, isDone: ({ state }) => state !== 'InQueue', deadline: Date.now() + 10000, intervalInMS: 1000, onRead })
+      await jest.advanceTimersByTimeAsync(1000)
+
+      await expect(promise).resolves.toEqual({ result: { state: 'BuildSuccess' }, isDone: true })
+      expect(read).toHaveBeenCalledTimes(2)
+      expect(onRead).toHaveBeenCalledTimes(2)
+    })
+
+    it('should return the last result once the deadline is reached', async () => {
+      const read = jest.fn().mockResolvedValue({ state: 'InQueue' })
+
+      const promise = pollUntil({ read, isDone: () => false, deadline: Date.now() + 2500, intervalInMS: 1000 })
+      await jest.advanceTimersByTimeAsync(3000)
+
+      await expect(promise).resolves.toEqual({ result: { state: 'InQueue' }, isDone: false })
+      expect(read).toHaveBeenCalledTimes(3)
+    })
+
+    it('should stop polling when the signal is aborted', async () => {
+      const abortController = new AbortController()
+      const read = jest.fn().mockResolvedValue({ state: 'InQueue' })
+
+      const promise = pollUntil({ read, isDone: () => false, deadline: Date.now() + 10000, intervalInMS: 1000, signal: abortController.signal })
+      const assertion = expect(promise).rejects.toThrow('cancelled')
+
+      await jest.advanceTimersByTimeAsync(500)
+      abortController.abort(new Error('cancelled'))
+      await assertion
+
+      expect(read).toHaveBeenCalledTimes(1)
+    })
+  })
+})
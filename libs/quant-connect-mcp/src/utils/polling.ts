@@ -0,0 +1,52 @@
+// time left to send the response after the last poll
+const RESPONSE_MARGIN_IN_MS = 5000
+
+export interface PollOptions<T> {
+  read: () => Promise<T>
+  isDone: (result: T) => boolean
+  /** Timestamp in ms after which no further read is started */
+  deadline: number
+  intervalInMS: number
+  signal?: AbortSignal
+  onRead?: (result: T) => Promise<void>
+}
+
+/** Resolve after the delay, reject as soon as the request is cancelled */
+export const wait = (delayInMS: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted()
+
+    const onAbort = () => {
+      clearTimeout(timeout)
+      reject(signal?.reason)
+    }
+
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delayInMS)
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+
+/** Wait at most `maxWaitInMS`, but never longer than the current Lambda invocation allows */
+export const getPollingDeadline = (maxWaitInMS: number, remainingTimeInMS?: number, now = Date.now()) =>
+  now + Math.max(0, Math.min(maxWaitInMS, (remainingTimeInMS ?? Infinity) - RESPONSE_MARGIN_IN_MS))
+
+/** Read until the result is done or the next read would start after the deadline, the last result is returned either way */
+export const pollUntil = async <T>({ read, isDone, deadline, intervalInMS, signal, onRead }: PollOptions<T>): Promise<{ result: T; isDone: boolean }> => {
+  for (;;) {
+    const result = await read()
+    await onRead?.(result)
+
+    if (isDone(result)) {
+      return { result, isDone: true }
+    }
+
+    if (Date.now() + intervalInMS > deadline) {
+      return { result, isDone: false }
+    }
+
+    await wait(intervalInMS, signal)
+  }
+}
@@ -0,0 +1,53 @@
+import { createProgressReporter } from './progress'
+
+const createExtra = (progressToken?: string | number) =>
+  ({
+    _meta: progressToken === undefined ? undefined : { progressToken },
+    sendNotification: jest.fn().mockResolvedValue(undefined),
+  }) as any
+
+describe('libs/quant-connect-mcp/src/utils/progress', () => {
+  describe('createProgressReporter', () => {
+    it('should send progress notifications with the progress token', async () => {
+      const extra = createExtra('progress-token')
+
+      await createProgressReporter(extra)({ progress: 1, total: 4, message: 'Compiling' })
+
+      expect(extra.sendNotification).toHaveBeenCalledWith({
+        method: 'notifications/progress',
+        params: { progressToken: 'progress-token', progress: 1, total: 4, message: 'Compiling' },
+      })
+    })
+
+    it('should not send notifications without a progress token', async () => {
+      const extra = createExtra()
+
+      await createProgressReporter(extra)({ progress: 1 })
+
+      expect(extra.sendNotification).not.toHaveBeenCalled()
+    })
+
+    it('should do nothing without the request context', async () => {
+      await expect(createProgressReporter()({ progress: 1 })).resolves.toBeUndefined()
+    })
+
+    it('should only send increasing progress', async () => {
+      const extra = createExtra(7)
+      const reportProgress = createProgressReporter(extra)
+
+      await reportProgress({ progress: 10 })
+      await reportProgress({ progress: 10 })
+      await reportProgress({ progress: 5 })
+      await reportProgress({ progress: 20 })
+
+      expect(extra.sendNotification.mock.calls.map(([notification]: any) => notification.params.progress)).toEqual([10, 20])
+    })
+
+    it('should ignore failing notifications', async () => {
+      const extra = createExtra('progress-token')
+      extra.sendNotification.mockRejectedValue(new Error('stream closed'))
+
+      await expect(createProgressReporter(extra)({ progress: 1 })).resolves.toBeUndefined()
+    })
+  })
+})
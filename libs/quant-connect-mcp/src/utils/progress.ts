@@ -0,0 +1,39 @@
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js'
+
+export interface ToolProgress {
+  progress: number
+  total?: number
+  message?: string
+}
+
+export type ProgressReporter = (progress: ToolProgress) => Promise<void>
+
+/**
+ * Send `notifications/progress` for the `progressToken` of the tool call. Without a token, the reporter does nothing.
+ * The notifications only reach the client over a streaming transport, e.g. a `text/event-stream` response.
+ */
+export const createProgressReporter = (extra?: RequestHandlerExtra<ServerRequest, ServerNotification>): ProgressReporter => {
+  const progressToken = extra?._meta?.progressToken
+
+  if (extra === undefined || progressToken === undefined) {
+    return async () => undefined
+  }
+
+  let lastProgress = -Infinity
+
+  return async ({ progress, total, message }) => {
+    // the progress has to increase with every notification
+    if (progress <= lastProgress) {
+      return
+    }
+
+    lastProgress = progress
+
+    try {
+      await extra.sendNotification({ method: 'notifications/progress', params: { progressToken, progress, total, message } })
+    } catch {
+      // progress is informational, a closed stream must not fail the tool call
+    }
+  }
+}
@@ -0,0 +1,67 @@
+import { flattenRecord, getColumns, TABULAR_FORMATS, toCSV, toNDJSON, toTabularFormat } from './tabular'
+
+describe('libs/quant-connect-mcp/src/utils/tabular', () => {
+  describe('flattenRecord', () => {
+    it('should join nested attributes with a dot', () => {
+      expect(flattenRecord({ id: 1, symbol: { value: 'SPY', id: 'SPY R735QTJ8XC9X' }, price: { value: { amount: 10 } } })).toEqual({
+        id: 1,
+        'symbol.value': 'SPY',
+        'symbol.id': 'SPY R735QTJ8XC9X',
+        'price.value.amount': 10,
+      })
+    })
+
+    it('should keep arrays as JSON and dates as ISO strings', () => {
+      expect(flattenRecord({ brokerId: ['1', '2'], time: new Date('2024-01-02T03:04:05Z'), tag: undefined, symbol: null })).toEqual({
+        brokerId: '["1","2"]',
+        time: '2024-01-02T03:04:05.000Z',
+        tag: null,
+        symbol: null,
+      })
+    })
+  })
+
+  describe('getColumns', () => {
+    it('should collect the columns of all rows in order', () => {
+      expect(
+        getColumns([
+          { a: 1, b: 2 },
+          { c: 3, a: 4 },
+        ])
+      ).toEqual(['a', 'b', 'c'])
+    })
+  })
+
+  describe('toCSV', () => {
+    it('should render a header row and leave missing values empty', () => {
+      expect(
+        toCSV([
+          { a: 1, b: true },
+          { a: 2, c: null },
+        ])
+      ).toBe('a,b,c\r\n1,true,\r\n2,,')
+    })
+
+    it('should quote fields with separators, quotes and line breaks', () => {
+      expect(toCSV([{ tag: 'a,b', note: 'say "hi"', text: 'line\nbreak' }])).toBe('tag,note,text\r\n"a,b","say ""hi""","line\nbreak"')
+    })
+
+    it('should render only the header of given columns without rows', () => {
+      expect(toCSV([], ['a', 'b'])).toBe('a,b')
+      expect(toCSV([])).toBe('')
+    })
+  })
+
+  describe('toNDJSON', () => {
+    it('should render one JSON object per line', () => {
+      expect(toNDJSON([{ a: 1 }, { a: 2, b: 'x' }])).toBe('{"a":1}\n{"a":2,"b":"x"}')
+    })
+  })
+
+  describe('toTabularFormat', () => {
+    it('should render the given format', () => {
+      expect(toTabularFormat([{ a: 1 }], TABULAR_FORMATS.CSV)).toBe('a\r\n1')
+      expect(toTabularFormat([{ a: 1 }], TABULAR_FORMATS.NDJSON)).toBe('{"a":1}')
+    })
+  })
+})
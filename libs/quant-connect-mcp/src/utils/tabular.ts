@@ -0,0 +1,54 @@
+export type TabularValue = string | number | boolean | null
+
+export type TabularRow = Record<string, TabularValue>
+
+export enum TABULAR_FORMATS {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+}
+
+const toTabularValue = (value: unknown): TabularValue => {
+  if (value === undefined || value === null) {
+    return null
+  }
+
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString()
+  }
+
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+
+  return value as string | number | boolean
+}
+
+/** Flatten nested objects into columns like `symbol.value`, arrays are kept as JSON since their length varies between rows */
+export const flattenRecord = (record: Record<string, unknown>, prefix = ''): TabularRow =>
+  Object.entries(record).reduce<TabularRow>((row, [key, value]) => {
+    const column = `${prefix}${key}`
+
+    if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      return { ...row, ...flattenRecord(value as Record<string, unknown>, `${column}.`) }
+    }
+
+    return { ...row, [column]: toTabularValue(value) }
+  }, {})
+
+/** Columns of all rows in the order they first appear */
+export const getColumns = (rows: TabularRow[]) => [...new Set(rows.flatMap((row) => Object.keys(row)))]
+
+const toCSVField = (value: TabularValue | undefined) => {
+  const field = value === null || value === undefined ? '' : String(value)
+
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field
+}
+
+/** CSV according to RFC 4180 with a header row, missing values are empty fields */
+export const toCSV = (rows: TabularRow[], columns = getColumns(rows)) =>
+  [columns, ...rows.map((row) => columns.map((column) => row[column]))].map((fields) => fields.map(toCSVField).join(',')).join('\r\n')
+
+/** One JSON object per line */
+export const toNDJSON = (rows: TabularRow[]) => rows.map((row) => JSON.stringify(row)).join('\n')
+
+export const toTabularFormat = (rows: TabularRow[], format: TABULAR_FORMATS) => (format === TABULAR_FORMATS.CSV ? toCSV(rows) : toNDJSON(rows))
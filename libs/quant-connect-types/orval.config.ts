@@ -1,6 +1,14 @@
 import fs from 'fs'
 import { Config } from 'orval'
 
+// members of generated unions that are used on their own, Orval only exports the unions
+const NAMED_UNION_MEMBERS = `
+/**
+ * Response with the chart once it is generated.
+ */
+export const readBacktestChartLoadedResponse = readBacktestChartResponse.options[1]
+`
+
 const config: Config = {
   api: {
     input: {
@@ -27,7 +35,7 @@ const config: Config = {
         const filePath = './src/index.ts'
         const fileContent = fs.readFileSync(filePath, 'utf-8')
         const patchedContent = fileContent.split('.optional()').join('.optional().nullable()')
-        fs.writeFileSync(filePath, patchedContent, 'utf-8')
+        fs.writeFileSync(filePath, patchedContent + NAMED_UNION_MEMBERS, 'utf-8')
       },
     },
   },
@@ -5361,3 +5361,8 @@ export const searchAiToolResponse = zod
     messageId: zod.coerce.number().optional().nullable().describe('Id of the message.'),
   })
   .describe('Response to a search request.')
+
+/**
+ * Response with the chart once it is generated.
+ */
+export const readBacktestChartLoadedResponse = readBacktestChartResponse.options[1]
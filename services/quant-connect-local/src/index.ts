@@ -1,12 +1,49 @@
 import dotenv from 'dotenv'
 dotenv.config()
 
+import { DEFAULT_FAKE_QC_CREDENTIALS, FakeQCApi } from '@fschaeffler/quant-connect-fake-api'
+
+const useFakeQCApi = process.env.QUANTCONNECT_FAKE_API === 'true'
+
+// the handler reads the default credentials when it is imported
+if (useFakeQCApi) {
+  process.env.QUANTCONNECT_USER_ID ??= DEFAULT_FAKE_QC_CREDENTIALS.userId
+  process.env.QUANTCONNECT_API_TOKEN ??= DEFAULT_FAKE_QC_CREDENTIALS.apiToken
+}
+
+// unlike Lambda containers, this process handles all requests, so it can serve GET streams
+process.env.MCP_SINGLE_PROCESS ??= 'true'
+
+import http from 'http'
+
+type HttpResponseStreamMetadata = { statusCode?: number; headers?: Record<string, string | number | boolean>; cookies?: string[] }
+
+// the Lambda runtime provides these globals for response streaming handlers, which are created when the handler is imported
+;(globalThis as any).awslambda ??= {
+  streamifyResponse: (handler: unknown) => handler,
+  HttpResponseStream: {
+    from: (res: http.ServerResponse, { statusCode = 200, headers = {}, cookies = [] }: HttpResponseStreamMetadata) => {
+      Object.entries(headers).forEach(([key, value]) => res.setHeader(key, String(value)))
+
+      if (cookies.length) {
+        res.setHeader('set-cookie', cookies)
+      }
+
+      res.statusCode = statusCode
+      // like the Lambda runtime, send the status and headers before the first body chunk
+      res.flushHeaders()
+      return res
+    },
+  },
+}
+
 import { handler } from '@fschaeffler/quant-connect-mcp-service'
 import type { APIGatewayProxyEventV2 } from 'aws-lambda'
-import http from 'http'
-import { Readable } from 'stream'
 import { URL } from 'url'
 
+// middy types the handler without the response stream argument of streamifyResponse
+const streamingHandler = handler as unknown as (event: APIGatewayProxyEventV2, responseStream: http.ServerResponse, context: unknown) => Promise<void>
+
 const toApiGwV2Event = (req: http.IncomingMessage, body: string): APIGatewayProxyEventV2 => {
   const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`)
   const headers = Object.fromEntries(Object.entries(req.headers).map(([k, v]) => [k, String(v)]))
@@ -65,46 +102,51 @@ const server = http.createServer(async (req, res) => {
   req.on('end', async () => {
     const body = Buffer.concat(chunks).toString('utf8')
 
-    let payload: any = ''
-
     try {
-      const result = await handler(toApiGwV2Event(req, body), getApiGwV2DefaultContext() as any)
+      // the response is written and ended by the handler
+      await streamingHandler(toApiGwV2Event(req, body), res, getApiGwV2DefaultContext())
+    } catch (error: any) {
+      const errorObj = error as Error
 
-      res.statusCode = result?.statusCode ?? 200
+      if (res.headersSent) {
+        res.destroy(errorObj)
+        return
+      }
 
-      if (result?.headers) {
-        Object.entries(result.headers).forEach(([key, value]) => {
-          if (typeof value !== 'undefined') {
-            res.setHeader(key, String(value))
-          }
+      res.statusCode = error.statusCode ?? 500
+      res.setHeader('Content-Type', 'application/json')
+      res.end(
+        JSON.stringify({
+          name: errorObj.name || 'InternalServerError',
+          message: errorObj.message,
+          stack: errorObj.stack,
+          cause: errorObj.cause,
         })
-      }
+      )
+    }
+  })
+})
 
-      if (result?.cookies && result.cookies.length) {
-        res.setHeader('set-cookie', result.cookies)
-      }
+// answer QuantConnect API requests in-process, so the server runs without network access or a QuantConnect account
+const startFakeQCApi = async () => {
+  const fakeQCApi = new FakeQCApi({
+    credentials: { userId: process.env.QUANTCONNECT_USER_ID as string, apiToken: process.env.QUANTCONNECT_API_TOKEN as string },
+    backtestDurationInMS: Number(process.env.QUANTCONNECT_FAKE_API_BACKTEST_DURATION_IN_MS ?? 0),
+  })
 
-      if (result?.isBase64Encoded === true) {
-        payload = Buffer.from(result.body ?? '', 'base64')
-      } else {
-        payload = result?.body || ''
-      }
-    } catch (error: any) {
-      const errorObj = error as Error
+  process.env.QUANTCONNECT_API_BASE_URL = await fakeQCApi.listen()
 
-      res.statusCode = error.statusCode ?? 500
+  // eslint-disable-next-line no-console
+  console.log(`fake QuantConnect API: ${process.env.QUANTCONNECT_API_BASE_URL}`)
+}
 
-      payload = {
-        name: errorObj.name || 'InternalServerError',
-        message: errorObj.message,
-        stack: errorObj.stack,
-        cause: errorObj.cause,
-      }
-    }
+const start = async () => {
+  if (useFakeQCApi) {
+    await startFakeQCApi()
+  }
 
-    Readable.from([payload]).pipe(res)
-  })
-})
+  // eslint-disable-next-line no-console
+  server.listen(55555, '0.0.0.0', () => console.log('http://0.0.0.0:55555/mcp'))
+}
 
-// eslint-disable-next-line no-console
-server.listen(55555, '0.0.0.0', () => console.log('http://0.0.0.0:55555/mcp'))
+start()
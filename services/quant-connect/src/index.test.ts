@@ -16,7 +16,7 @@ describe('services/quant-connect/src/index', () => {
       const fileContent = fs.readFileSync(filePath, 'utf8')
 
       // Check for expected imports
-      expect(fileContent).toContain("import { middyMCP, middyQCClient } from '@fschaeffler/mcp-middy'")
+      expect(fileContent).toContain("import { getEnvironmentMCPSessionStore, middyMCP, middyQCClient } from '@fschaeffler/mcp-middy'")
       expect(fileContent).toContain("import { QCMCPServer } from '@fschaeffler/quant-connect-mcp'")
       expect(fileContent).toContain("import middy from '@middy/core'")
       expect(fileContent).toContain("import httpErrorHandler from '@middy/http-error-handler'")
@@ -34,17 +34,20 @@ describe('services/quant-connect/src/index', () => {
       const fileContent = fs.readFileSync(filePath, 'utf8')
 
       // Verify the middleware chain structure
-      expect(fileContent).toContain('middy()')
+      expect(fileContent).toContain('middy({ streamifyResponse: true })')
       expect(fileContent).toContain('.use(middyQCClient())')
-      expect(fileContent).toContain('.use(middyMCP({ server: QCMCPServer.getInstance() }))')
+      expect(fileContent).toContain('const sessionStore = getEnvironmentMCPSessionStore()')
+      expect(fileContent).toContain(
+        '.use(middyMCP({ server: () => QCMCPServer.create({ resourceSubscriptionStore: sessionStore }), streaming: true, sessionStore }))'
+      )
       expect(fileContent).toContain('.use(httpErrorHandler())')
     })
 
-    it('should use QCMCPServer singleton pattern', () => {
+    it('should create a QCMCPServer per session', () => {
       const filePath = path.join(__dirname, 'index.ts')
       const fileContent = fs.readFileSync(filePath, 'utf8')
 
-      expect(fileContent).toContain('QCMCPServer.getInstance()')
+      expect(fileContent).toContain('server: () => QCMCPServer.create(')
     })
 
     it('should have correct middleware order', () => {
@@ -132,8 +135,8 @@ describe('services/quant-connect/src/index', () => {
       const filePath = path.join(__dirname, 'index.ts')
       const fileContent = fs.readFileSync(filePath, 'utf8')
 
-      // Should use middy() to create the handler
-      expect(fileContent).toContain('middy()')
+      // Should use middy() with response streaming to create the handler
+      expect(fileContent).toContain('middy({ streamifyResponse: true })')
       expect(fileContent).toContain('.use(')
     })
 
@@ -143,7 +146,9 @@ describe('services/quant-connect/src/index', () => {
 
       // Should have proper middleware configuration
       expect(fileContent).toContain('middyQCClient()')
-      expect(fileContent).toContain('middyMCP({ server: QCMCPServer.getInstance() })')
+      expect(fileContent).toContain(
+        'middyMCP({ server: () => QCMCPServer.create({ resourceSubscriptionStore: sessionStore }), streaming: true, sessionStore })'
+      )
       expect(fileContent).toContain('httpErrorHandler()')
     })
   })
@@ -1,9 +1,11 @@
-import { middyMCP, middyQCClient } from '@fschaeffler/mcp-middy'
+import { getEnvironmentMCPSessionStore, middyMCP, middyQCClient } from '@fschaeffler/mcp-middy'
 import { QCMCPServer } from '@fschaeffler/quant-connect-mcp'
 import middy from '@middy/core'
 import httpErrorHandler from '@middy/http-error-handler'
 
-export const handler = middy()
+const sessionStore = getEnvironmentMCPSessionStore()
+
+export const handler = middy({ streamifyResponse: true })
   .use(middyQCClient())
-  .use(middyMCP({ server: QCMCPServer.getInstance() }))
+  .use(middyMCP({ server: () => QCMCPServer.create({ resourceSubscriptionStore: sessionStore }), streaming: true, sessionStore }))
   .use(httpErrorHandler())